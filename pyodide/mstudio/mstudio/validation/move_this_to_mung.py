@@ -40,9 +40,146 @@ class DeltaUpdateNodeClass:
             "newClassName": self.new_class_name,
         }
 
-# TODO: more delta operations can be added in the future
+@dataclass
+class DeltaInsertNode:
+    id: int
+    """ID of the new node, must be free"""
+
+    class_name: str
+    top: int
+    left: int
+    width: int
+    height: int
+
+    mask: str | None = None
+    """The "C:N C:N ..." RLE mask string, as stored in MuNG XML"""
+
+    text_transcription: str | None = None
+    data: dict[str, tuple[str, str]] | None = None
+    """DataItems of the node, key -> (type, value)"""
+
+    def to_json(self) -> dict:
+        return {
+            "insertNode": {
+                "id": self.id,
+                "className": self.class_name,
+                "top": self.top,
+                "left": self.left,
+                "width": self.width,
+                "height": self.height,
+                "mask": self.mask,
+                "textTranscription": self.text_transcription,
+                "data": {
+                    key: {"type": t, "value": v}
+                    for key, (t, v) in (self.data or {}).items()
+                },
+            },
+        }
+
+@dataclass
+class DeltaRemoveNode:
+    remove_node_id: int
+    """ID of the node to be removed, together with its links"""
+
+    def to_json(self) -> dict:
+        return {
+            "removeNodeId": self.remove_node_id,
+        }
+
+@dataclass
+class DeltaInsertLink:
+    from_id: int
+    to_id: int
+    link_type: str
+    """Either "syntax" or "precedence" """
+
+    def to_json(self) -> dict:
+        return {
+            "insertLink": {
+                "fromId": self.from_id,
+                "toId": self.to_id,
+                "type": self.link_type,
+            },
+        }
+
+@dataclass
+class DeltaRemoveLink:
+    from_id: int
+    to_id: int
+    link_type: str
+    """Either "syntax" or "precedence" """
+
+    def to_json(self) -> dict:
+        return {
+            "removeLink": {
+                "fromId": self.from_id,
+                "toId": self.to_id,
+                "type": self.link_type,
+            },
+        }
+
+@dataclass
+class DeltaUpdateNodeBbox:
+    update_node_id: int
+    top: int
+    left: int
+    width: int
+    height: int
+
+    def to_json(self) -> dict:
+        return {
+            "updateNodeId": self.update_node_id,
+            "newBbox": {
+                "top": self.top,
+                "left": self.left,
+                "width": self.width,
+                "height": self.height,
+            },
+        }
+
+@dataclass
+class DeltaUpdateNodeMask:
+    update_node_id: int
+    new_mask: str | None
+    """The "C:N C:N ..." RLE mask string matching the node bbox, or None"""
+
+    def to_json(self) -> dict:
+        return {
+            "updateNodeId": self.update_node_id,
+            "newMask": self.new_mask,
+        }
+
+@dataclass
+class DeltaSetTextTranscription:
+    update_node_id: int
+    new_text_transcription: str | None
 
-DeltaOperation = DeltaUpdateNodeClass # | AnotherOp | AnotherOp | ...
+    def to_json(self) -> dict:
+        return {
+            "updateNodeId": self.update_node_id,
+            "newTextTranscription": self.new_text_transcription,
+        }
+
+@dataclass
+class DeltaSetDataItem:
+    update_node_id: int
+    data_item_key: str
+    new_data_item: tuple[str, str] | None
+    """(type, value) of the DataItem, None removes it"""
+
+    def to_json(self) -> dict:
+        return {
+            "updateNodeId": self.update_node_id,
+            "dataItemKey": self.data_item_key,
+            "newDataItem": None if self.new_data_item is None else {
+                "type": self.new_data_item[0],
+                "value": self.new_data_item[1],
+            },
+        }
+
+DeltaOperation = DeltaUpdateNodeClass | DeltaInsertNode | DeltaRemoveNode \
+    | DeltaInsertLink | DeltaRemoveLink | DeltaUpdateNodeBbox \
+    | DeltaUpdateNodeMask | DeltaSetTextTranscription | DeltaSetDataItem
 
 @dataclass
 class Delta:
@@ -356,7 +493,11 @@ class SinglePixelLineRule(ValidationRule):
                 yield from self.inspect_node(node)
     
     def inspect_node(self, node: Node) -> Iterator[ValidationIssue]:
+        if node.mask is None:
+            return
         bool_list = (node.mask.sum(axis=self.sum_axis).flatten() == 1)
+        if len(bool_list) == 0:
+            return
         single_pixel_ratio = bool_list.sum() / len(bool_list)
         if single_pixel_ratio >= self.detection_threshold:
             yield self.build_issue(node)
@@ -556,6 +697,8 @@ class MeasureSeparatorCardinalityRule(ValidationRule):
             if node.class_name == "measureSeparator":
                 staves = graph.children(node, ["staff"])
                 counter.update({len(staves): 1})
+        if len(counter) == 0:
+            return # the page has no measure separators
         most_common_staff_count, _ = counter.most_common(1)[0]
 
         # raise an issue for each measureSeparator that has different
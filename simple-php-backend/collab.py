@@ -5,7 +5,17 @@ In-memory, per-document:
     so late joiners replay everything since the last saved snapshot;
   * SSE SUBSCRIBER queues (one per connected browser) that ops + presence are
     pushed to;
-  * PRESENCE sessions (who is on the page, their colour, cursor, selection).
+  * PRESENCE sessions (who is on the page, their colour, cursor, selection,
+    viewport);
+  * SIGNALS, one-off messages such as "bring everyone here", relayed to the
+    subscribers and not logged.
+
+Clients number their ops (clientSeq) and keep the unacknowledged ones in an
+outbox that is re-sent after a dropped connection. The hub remembers the last
+clientSeq of each client, so a re-sent op that already landed is acknowledged
+but not logged or broadcast twice. Presence heartbeats carry each client's
+"sync" state (the seq its graph reflects and a hash of the graph), so clients
+can notice that they diverged and resync from the saved document.
 
 Durability is unchanged: clients still autosave the whole mung.xml. That save is
 the compaction checkpoint -- when it lands, the server clears the op log because
@@ -35,7 +45,7 @@ class CollabHub:
     def _doc(self, doc):
         d = self._docs.get(doc)
         if d is None:
-            d = {"seq": 0, "oplog": [], "subs": {}, "sessions": {}}
+            d = {"seq": 0, "oplog": [], "subs": {}, "sessions": {}, "acked": {}}
             self._docs[doc] = d
         return d
 
@@ -70,16 +80,25 @@ class CollabHub:
                 pass
 
     # ---- operations ------------------------------------------------------
-    def push_op(self, doc, op, client_id):
+    def push_op(self, doc, op, client_id, client_seq=None):
+        """Logs and broadcasts an op. Returns (seq, is_duplicate); an op whose
+        client_seq was already accepted from this client is not logged again
+        and the seq of the last accepted op is returned instead."""
         with self._lock:
             d = self._doc(doc)
+            if client_seq is not None:
+                acked = d["acked"].get(client_id)
+                if acked is not None and client_seq <= acked[0]:
+                    return acked[1], True
             d["seq"] += 1
             seq = d["seq"]
             d["oplog"].append((seq, client_id, op))
             if len(d["oplog"]) > OPLOG_CAP:
                 d["oplog"] = d["oplog"][-(OPLOG_CAP // 2):]
+            if client_seq is not None:
+                d["acked"][client_id] = (client_seq, seq)
         self._broadcast(doc, {"type": "op", "seq": seq, "clientId": client_id, "op": op})
-        return seq
+        return seq, False
 
     def clear_oplog(self, doc):
         """Compaction: called after a full-document save lands on disk."""
@@ -88,6 +107,14 @@ class CollabHub:
             if d:
                 d["oplog"] = []
 
+    # ---- signals ---------------------------------------------------------
+    def publish(self, doc, event):
+        """Pushes a server-originated event (e.g. a changed comment thread)."""
+        self._broadcast(doc, event)
+
+    def signal(self, doc, client_id, signal):
+        self._broadcast(doc, {"type": "signal", "clientId": client_id, "signal": signal})
+
     # ---- presence --------------------------------------------------------
     def presence(self, doc, client_id, info):
         with self._lock:
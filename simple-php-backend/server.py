@@ -6,8 +6,11 @@ Run: python3 server.py [--port 8080] [--documents /path/to/documents]
 
 import os
 import json
+import math
 import re
 import queue
+import threading
+import uuid
 import datetime
 import mimetypes
 import posixpath
@@ -29,6 +32,28 @@ DOCUMENT_STATUSES = frozenset({
     "done",
 })
 
+MAX_COMMENT_LENGTH = 4000
+
+# Optional validation rule sets enabled per document (e.g. "schenkerian"),
+# the names are chosen by the editor, the server only checks their shape.
+VALIDATION_RULE_SET_NAME = re.compile(r'^[a-zA-Z0-9_-]{1,40}$')
+MAX_VALIDATION_RULE_SETS = 20
+
+# Serializes read-modify-write cycles of {doc}/comments.json across threads.
+COMMENTS_LOCK = threading.Lock()
+
+# Serializes read-modify-write cycles of {doc}/status.json, which holds both
+# the annotation status and the enabled validation rule sets.
+DOC_STATUS_LOCK = threading.Lock()
+
+# Per-dataset validation rule sets, editable by annotators, are kept
+# in {DOCUMENTS_PATH}/.validation-rules/{dataset}.json (document names never start with a dot).
+MAX_VALIDATION_RULES_SIZE = 256 * 1024
+VALIDATION_RULES_LOCK = threading.Lock()
+
+# Revisions are the daily snapshots written on save to {doc}/backups/YYYY-MM-DD.xml.
+REVISION_ID_PATTERN = re.compile(r"^\d{4}-\d{2}-\d{2}$")
+
 # Absolute path to the built frontend (parcel `dist/`). When set, the server
 # also serves the single-page app so the whole thing lives on one origin.
 FRONTEND_PATH = os.environ.get("MUNG_FRONTEND_PATH") or None
@@ -74,6 +99,25 @@ def load_users():
 USERS = load_users()
 
 
+def parse_comment_anchor(anchor):
+    """Normalizes a comment anchor: {"nodeId": int} or {"x": number, "y": number}."""
+    if not isinstance(anchor, dict):
+        return None
+    node_id = anchor.get("nodeId")
+    if isinstance(node_id, int) and not isinstance(node_id, bool) and node_id >= 0:
+        return {"nodeId": node_id}
+    x, y = anchor.get("x"), anchor.get("y")
+    if all(isinstance(v, (int, float)) and not isinstance(v, bool) and math.isfinite(v)
+           for v in (x, y)):
+        return {"x": float(x), "y": float(y)}
+    return None
+
+
+class CommentsFileError(Exception):
+    """A comments.json that exists but cannot be read. It must not be treated
+    as empty, the next write would replace it and drop all of its threads."""
+
+
 def is_valid_name(name):
     """Document names may contain dots (e.g. figure numbers like "3.19b") but
     must stay path-safe: no "..", no leading dot, no separators."""
@@ -142,6 +186,16 @@ class Handler(BaseHTTPRequestHandler):
             self._action_assemble_edges(params)
         elif action == "collab-stream":
             self._action_collab_stream(params)
+        elif action == "list-comments":
+            self._action_list_comments(params)
+        elif action == "list-revisions":
+            self._action_list_revisions(params)
+        elif action == "get-revision":
+            self._action_get_revision(params)
+        elif action == "get-validation-rules":
+            self._action_get_validation_rules(params)
+        elif action == "get-doc-validation-rule-sets":
+            self._action_get_doc_validation_rule_sets(params)
         elif action == "version":
             self._action_version()
         elif action is None and FRONTEND_PATH is not None:
@@ -166,16 +220,32 @@ class Handler(BaseHTTPRequestHandler):
             self._action_get_document_image(params)
         elif action == "get-document-thumbnail":
             self._action_get_document_thumbnail(params)
+        elif action == "list-revisions":
+            self._action_list_revisions(params)
+        elif action == "get-revision":
+            self._action_get_revision(params)
+        elif action == "get-validation-rules":
+            self._action_get_validation_rules(params)
+        elif action == "save-validation-rules":
+            self._action_save_validation_rules(params)
         elif action == "upload-document-mung":
             self._action_upload_document_mung(params)
         elif action == "set-doc-status":
             self._action_set_doc_status(params)
+        elif action == "set-doc-validation-rule-sets":
+            self._action_set_doc_validation_rule_sets(params)
+        elif action == "add-comment":
+            self._action_add_comment(params)
+        elif action == "set-comment-thread-resolved":
+            self._action_set_comment_thread_resolved(params)
         elif action == "backup-documents":
             self._action_backup_documents()
         elif action == "collab-op":
             self._action_collab_op(params)
         elif action == "collab-presence":
             self._action_collab_presence(params)
+        elif action == "collab-signal":
+            self._action_collab_signal(params)
         else:
             self.send_error(400, "Missing or unknown action.")
 
@@ -283,12 +353,16 @@ class Handler(BaseHTTPRequestHandler):
             self._send_json({"error": "Bad JSON."}, status=400)
             return
         client_id, op = body.get("clientId"), body.get("op")
+        client_seq = body.get("clientSeq")
         if not client_id or op is None:
             self._send_json({"error": "Missing clientId/op."}, status=400)
             return
+        if client_seq is not None and (not isinstance(client_seq, int) or isinstance(client_seq, bool)):
+            self._send_json({"error": "Invalid clientSeq."}, status=400)
+            return
         from collab import HUB
-        seq = HUB.push_op(doc, op, client_id)
-        self._send_json({"ok": True, "seq": seq})
+        seq, duplicate = HUB.push_op(doc, op, client_id, client_seq)
+        self._send_json({"ok": True, "seq": seq, "duplicate": duplicate})
 
     def _action_collab_presence(self, params):
         user = self._authenticate()
@@ -313,24 +387,84 @@ class Handler(BaseHTTPRequestHandler):
             "color": str(body.get("color", "#888888"))[:16],
             "cursor": body.get("cursor"),
             "selection": body.get("selection"),
+            "viewport": body.get("viewport"),
+            "sync": body.get("sync"),
         })
         self._send_json({"ok": True})
 
-    def _read_doc_status(self, doc_name):
-        """Per-document annotation status, stored at {doc}/status.json. Defaults if absent."""
+    def _action_collab_signal(self, params):
+        """Relays a one-off message to everyone on the document, e.g.
+        {"type": "summon", "viewport": {...}} for "bring everyone here"."""
+        user = self._authenticate()
+        if not user:
+            return
+        doc = params.get("document", [None])[0]
+        if not doc or not is_valid_name(doc):
+            self._send_json({"error": "Missing or invalid document name."}, status=400)
+            return
+        try:
+            length = int(self.headers.get("Content-Length", 0))
+            body = json.loads(self.rfile.read(length) or b"{}")
+        except Exception:
+            self._send_json({"error": "Bad JSON."}, status=400)
+            return
+        client_id, signal = body.get("clientId"), body.get("signal")
+        if not client_id or not isinstance(signal, dict) or not isinstance(signal.get("type"), str):
+            self._send_json({"error": "Missing clientId/signal."}, status=400)
+            return
+        from collab import HUB
+        HUB.signal(doc, client_id, signal)
+        self._send_json({"ok": True})
+
+    def _read_doc_status_file(self, doc_name):
+        """Document metadata stored at {doc}/status.json. Empty if absent or unreadable."""
         path = os.path.join(DOCUMENTS_PATH, doc_name, "status.json")
         if os.path.isfile(path):
             try:
                 with open(path) as f:
                     d = json.load(f)
-                status = str(d.get("status", "not-started"))
-                if status not in DOCUMENT_STATUSES:
-                    status = "not-started"
-                return {"status": status,
-                        "annotator": str(d.get("annotator", ""))}
+                if isinstance(d, dict):
+                    return d
             except Exception:
                 pass
-        return {"status": "not-started", "annotator": ""}
+        return {}
+
+    def _write_doc_status_file(self, doc_name, stored):
+        path = os.path.join(DOCUMENTS_PATH, doc_name, "status.json")
+        with open(path + ".tmp", "w") as f:
+            json.dump(stored, f, indent=2)
+        os.replace(path + ".tmp", path)
+
+    def _read_doc_status(self, doc_name):
+        """Per-document annotation status, stored at {doc}/status.json. Defaults if absent."""
+        d = self._read_doc_status_file(doc_name)
+        status = str(d.get("status", "not-started"))
+        if status not in DOCUMENT_STATUSES:
+            status = "not-started"
+        return {"status": status,
+                "annotator": str(d.get("annotator", ""))}
+
+    def _read_doc_validation_rule_sets(self, doc_name):
+        """Validation rule sets enabled for the document, stored next to its status
+        (not in mung.xml, so they do not end up in exported datasets)."""
+        rule_sets = self._read_doc_status_file(doc_name).get("validationRuleSets", [])
+        if not isinstance(rule_sets, list):
+            return []
+        return [r for r in rule_sets
+                if isinstance(r, str) and VALIDATION_RULE_SET_NAME.match(r)]
+
+    def _doc_metadata_request(self, params):
+        """Shared prologue of the document metadata actions: (user, doc_name) or None."""
+        user = self._authenticate()
+        if not user: return None
+        doc_name = params.get("document", [None])[0]
+        if not doc_name or not is_valid_name(doc_name):
+            self._send_json({"error": "Missing or invalid document name."}, status=400)
+            return None
+        if not os.path.isdir(os.path.join(DOCUMENTS_PATH, doc_name)):
+            self._send_json({"error": "Document not found."}, status=404)
+            return None
+        return user, doc_name
 
     def _action_set_doc_status(self, params):
         """Set a document's annotation status + annotator (shared across all users)."""
@@ -357,11 +491,296 @@ class Handler(BaseHTTPRequestHandler):
         payload = {"status": status, "annotator": annotator,
                    "updatedAt": datetime.datetime.utcnow().strftime("%Y-%m-%dT%H:%M:%SZ"),
                    "updatedBy": user["name"]}
-        with open(os.path.join(doc_dir, "status.json"), "w") as f:
-            json.dump(payload, f, indent=2)
+        with DOC_STATUS_LOCK:
+            stored = {**payload, "validationRuleSets": self._read_doc_validation_rule_sets(doc_name)}
+            self._write_doc_status_file(doc_name, stored)
         log_to_file(f"{user['name']} set status of {doc_name} -> {status} (annotator={annotator}).", AUDIT_LOG_PATH)
         self._send_json({"ok": True, **payload})
 
+    def _action_get_doc_validation_rule_sets(self, params):
+        request = self._doc_metadata_request(params)
+        if not request: return
+        _, doc_name = request
+        self._send_json({"validationRuleSets": self._read_doc_validation_rule_sets(doc_name)})
+
+    def _action_set_doc_validation_rule_sets(self, params):
+        """Set the validation rule sets enabled for a document. Body: {"validationRuleSets": [...]}.
+        The status stored in the same file is kept."""
+        request = self._doc_metadata_request(params)
+        if not request: return
+        user, doc_name = request
+        try:
+            length = int(self.headers.get("Content-Length", 0))
+            body = json.loads(self.rfile.read(length) or b"{}")
+        except Exception:
+            self._send_json({"error": "Body is not valid JSON."}, status=400)
+            return
+        rule_sets = body.get("validationRuleSets") if isinstance(body, dict) else None
+        if (not isinstance(rule_sets, list) or len(rule_sets) > MAX_VALIDATION_RULE_SETS
+                or not all(isinstance(r, str) and VALIDATION_RULE_SET_NAME.match(r)
+                           for r in rule_sets)):
+            self._send_json({"error": "Rule sets must be a list of names."}, status=400)
+            return
+        with DOC_STATUS_LOCK:
+            stored = {**self._read_doc_status_file(doc_name), "validationRuleSets": rule_sets}
+            self._write_doc_status_file(doc_name, stored)
+        log_to_file(f"{user['name']} set validation rule sets of {doc_name} -> {rule_sets}.", AUDIT_LOG_PATH)
+        self._send_json({"ok": True, "validationRuleSets": rule_sets})
+
+    # ==================== review comments ====================
+    def _read_comment_threads(self, doc_name):
+        """Comment threads of a document, stored at {doc}/comments.json. Empty if absent,
+        raises CommentsFileError if the file cannot be read or parsed."""
+        path = os.path.join(DOCUMENTS_PATH, doc_name, "comments.json")
+        if not os.path.isfile(path):
+            return []
+        try:
+            with open(path) as f:
+                threads = json.load(f).get("threads", [])
+        except Exception as e:
+            raise CommentsFileError(f"Comments of {doc_name} cannot be read: {e}")
+        if not isinstance(threads, list):
+            raise CommentsFileError(f"Comments of {doc_name} are not a list of threads.")
+        return threads
+
+    def _load_comment_threads(self, doc_name):
+        """Threads for a comment action; None (with the error sent) if the file is corrupt."""
+        try:
+            return self._read_comment_threads(doc_name)
+        except CommentsFileError as e:
+            self._send_json({"error": str(e)}, status=500)
+            return None
+
+    def _write_comment_threads(self, doc_name, threads):
+        path = os.path.join(DOCUMENTS_PATH, doc_name, "comments.json")
+        with open(path + ".tmp", "w") as f:
+            json.dump({"threads": threads}, f, indent=2)
+        os.replace(path + ".tmp", path)
+
+    def _comment_request(self, params):
+        """Shared prologue of the comment actions: (user, doc_name, body) or None."""
+        user = self._authenticate()
+        if not user: return None
+        doc_name = params.get("document", [None])[0]
+        if not doc_name or not is_valid_name(doc_name):
+            self._send_json({"error": "Missing or invalid document name."}, status=400)
+            return None
+        if not os.path.isdir(os.path.join(DOCUMENTS_PATH, doc_name)):
+            self._send_json({"error": "Document not found."}, status=404)
+            return None
+        try:
+            length = int(self.headers.get("Content-Length", 0))
+            body = json.loads(self.rfile.read(length) or b"{}")
+        except Exception:
+            body = {}
+        return user, doc_name, body if isinstance(body, dict) else {}
+
+    def _publish_comment_thread(self, doc_name, thread):
+        """Live update for everyone who has the document open."""
+        try:
+            from collab import HUB
+            HUB.publish(doc_name, {"type": "comment-thread", "thread": thread})
+        except Exception:
+            pass
+
+    def _action_list_comments(self, params):
+        request = self._comment_request(params)
+        if not request: return
+        _, doc_name, _ = request
+        with COMMENTS_LOCK:
+            threads = self._load_comment_threads(doc_name)
+        if threads is None: return
+        self._send_json({"threads": threads})
+
+    def _action_add_comment(self, params):
+        """Start a thread anchored to a node or an image point, or reply to one.
+        Body: {"text", "threadId"} for a reply, {"text", "anchor"} for a new thread,
+        where anchor is {"nodeId": int} or {"x": number, "y": number}."""
+        request = self._comment_request(params)
+        if not request: return
+        user, doc_name, body = request
+        text = str(body.get("text", "")).strip()[:MAX_COMMENT_LENGTH]
+        if not text:
+            self._send_json({"error": "Empty comment."}, status=400)
+            return
+        now = datetime.datetime.utcnow().strftime("%Y-%m-%dT%H:%M:%SZ")
+        comment = {"id": uuid.uuid4().hex[:12], "author": user["name"],
+                   "text": text, "createdAt": now}
+        thread_id = body.get("threadId")
+        with COMMENTS_LOCK:
+            threads = self._load_comment_threads(doc_name)
+            if threads is None: return
+            if thread_id is not None:
+                thread = next((t for t in threads if t.get("id") == thread_id), None)
+                if thread is None:
+                    self._send_json({"error": "Thread not found."}, status=404)
+                    return
+                thread["comments"].append(comment)
+            else:
+                anchor = parse_comment_anchor(body.get("anchor"))
+                if anchor is None:
+                    self._send_json({"error": "Invalid anchor."}, status=400)
+                    return
+                thread = {"id": uuid.uuid4().hex[:12], "anchor": anchor,
+                          "resolved": False, "resolvedBy": None, "resolvedAt": None,
+                          "createdBy": user["name"], "createdAt": now,
+                          "comments": [comment]}
+                threads.append(thread)
+            self._write_comment_threads(doc_name, threads)
+        log_to_file(f"{user['name']} commented on {doc_name} (thread {thread['id']}).", AUDIT_LOG_PATH)
+        self._publish_comment_thread(doc_name, thread)
+        self._send_json({"ok": True, "thread": thread})
+
+    def _action_set_comment_thread_resolved(self, params):
+        """Resolve or reopen a thread. Body: {"threadId", "resolved": bool}."""
+        request = self._comment_request(params)
+        if not request: return
+        user, doc_name, body = request
+        resolved = body.get("resolved")
+        if not isinstance(resolved, bool):
+            self._send_json({"error": "Missing resolved flag."}, status=400)
+            return
+        with COMMENTS_LOCK:
+            threads = self._load_comment_threads(doc_name)
+            if threads is None: return
+            thread = next((t for t in threads if t.get("id") == body.get("threadId")), None)
+            if thread is None:
+                self._send_json({"error": "Thread not found."}, status=404)
+                return
+            thread["resolved"] = resolved
+            thread["resolvedBy"] = user["name"] if resolved else None
+            thread["resolvedAt"] = (datetime.datetime.utcnow().strftime("%Y-%m-%dT%H:%M:%SZ")
+                                    if resolved else None)
+            self._write_comment_threads(doc_name, threads)
+        state = "resolved" if resolved else "reopened"
+        log_to_file(f"{user['name']} {state} comment thread {thread['id']} on {doc_name}.", AUDIT_LOG_PATH)
+        self._publish_comment_thread(doc_name, thread)
+        self._send_json({"ok": True, "thread": thread})
+
+    # ==================== revisions ====================
+    def _revisions_dir(self, params):
+        """Shared prologue of the revision actions: (user, doc_name, backups dir) or None."""
+        user = self._authenticate()
+        if not user: return None
+        doc_name = params.get("document", [None])[0]
+        if not doc_name or not is_valid_name(doc_name):
+            self._send_json({"error": "Missing or invalid document name."}, status=400)
+            return None
+        if not os.path.isdir(os.path.join(DOCUMENTS_PATH, doc_name)):
+            self._send_json({"error": "Document not found."}, status=404)
+            return None
+        return user, doc_name, os.path.join(DOCUMENTS_PATH, doc_name, "backups")
+
+    def _action_list_revisions(self, params):
+        """Saved revisions of a document, newest first: [{"id", "savedAt", "size"}]."""
+        request = self._revisions_dir(params)
+        if not request: return
+        _, _, backups_dir = request
+        revisions = []
+        if os.path.isdir(backups_dir):
+            for file_name in os.listdir(backups_dir):
+                revision_id, ext = os.path.splitext(file_name)
+                if ext != ".xml" or not REVISION_ID_PATTERN.match(revision_id):
+                    continue
+                stat = os.stat(os.path.join(backups_dir, file_name))
+                revisions.append({
+                    "id": revision_id,
+                    "savedAt": datetime.datetime.utcfromtimestamp(
+                        stat.st_mtime).strftime("%Y-%m-%dT%H:%M:%SZ"),
+                    "size": stat.st_size,
+                })
+        revisions.sort(key=lambda r: r["id"], reverse=True)
+        self._send_json({"revisions": revisions})
+
+    def _action_get_revision(self, params):
+        """MuNG XML of a saved revision, selected by ?revision=YYYY-MM-DD."""
+        request = self._revisions_dir(params)
+        if not request: return
+        user, doc_name, backups_dir = request
+        revision_id = params.get("revision", [None])[0]
+        if not revision_id or not REVISION_ID_PATTERN.match(revision_id):
+            self._send_json({"error": "Missing or invalid revision."}, status=400)
+            return
+        revision_path = os.path.join(backups_dir, f"{revision_id}.xml")
+        if not os.path.isfile(revision_path):
+            self._send_json({"error": "Revision not found."}, status=404)
+            return
+
+        log_to_file(f"{user['name']} opened revision {revision_id} of this document.",
+                    os.path.join(DOCUMENTS_PATH, doc_name, "access_log.txt"))
+
+        with open(revision_path, 'rb') as f:
+            data = f.read()
+        self.send_response(200)
+        self.send_header("Content-Type", "application/mung+xml")
+        self.send_header("Content-Length", str(len(data)))
+        self.send_header("Cache-Control", "no-store")
+        self._cors()
+        self.end_headers()
+        self.wfile.write(data)
+
+    # ==================== validation rules ====================
+    def _validation_rules_path(self, params):
+        """Shared prologue of the validation rules actions: (user, dataset, path) or None."""
+        user = self._authenticate()
+        if not user: return None
+        dataset = params.get("dataset", [None])[0]
+        if not dataset or not is_valid_name(dataset):
+            self._send_json({"error": "Missing or invalid dataset name."}, status=400)
+            return None
+        path = os.path.join(DOCUMENTS_PATH, ".validation-rules", f"{dataset}.json")
+        return user, dataset, path
+
+    def _action_get_validation_rules(self, params):
+        """The dataset's rule set, {"ruleSet": null} when none was saved yet."""
+        request = self._validation_rules_path(params)
+        if not request: return
+        _, dataset, path = request
+        stored = {"ruleSet": None, "updatedAt": None, "updatedBy": None}
+        try:
+            with VALIDATION_RULES_LOCK:
+                if os.path.isfile(path):
+                    with open(path) as f:
+                        stored = json.load(f)
+        except Exception as e:
+            self._send_json({"error": f"Validation rules of {dataset} cannot be read: {e}"}, status=500)
+            return
+        if not isinstance(stored, dict):
+            self._send_json({"error": f"Validation rules of {dataset} are not an object."}, status=500)
+            return
+        self._send_json(stored)
+
+    def _action_save_validation_rules(self, params):
+        """Replace the dataset's rule set. Body: {"ruleSet": {"rules": [...]}}.
+        Only the outline is checked here, the editor validates the rules themselves."""
+        request = self._validation_rules_path(params)
+        if not request: return
+        user, dataset, path = request
+        length = int(self.headers.get("Content-Length", 0))
+        if length > MAX_VALIDATION_RULES_SIZE:
+            self._send_json({"error": "Rule set is too large."}, status=413)
+            return
+        try:
+            body = json.loads(self.rfile.read(length) or b"{}")
+        except Exception:
+            self._send_json({"error": "Body is not valid JSON."}, status=400)
+            return
+        rule_set = body.get("ruleSet") if isinstance(body, dict) else None
+        if (not isinstance(rule_set, dict) or not isinstance(rule_set.get("rules"), list)
+                or not all(isinstance(r, dict) for r in rule_set["rules"])):
+            self._send_json({"error": "Rule set must be an object with a list of rules."}, status=400)
+            return
+        stored = {"ruleSet": rule_set,
+                  "updatedAt": datetime.datetime.utcnow().strftime("%Y-%m-%dT%H:%M:%SZ"),
+                  "updatedBy": user["name"]}
+        with VALIDATION_RULES_LOCK:
+            os.makedirs(os.path.dirname(path), exist_ok=True)
+            with open(path + ".tmp", "w") as f:
+                json.dump(stored, f, indent=2)
+            os.replace(path + ".tmp", path)
+        log_to_file(f"{user['name']} saved validation rules of {dataset} ({len(rule_set['rules'])} rules).", AUDIT_LOG_PATH)
+        self._send_json({"ok": True, **stored})
+
     def _action_backup_documents(self):
         """Run the off-site Google Drive backup on demand (the 'Backup now' button)."""
         user = self._authenticate()
@@ -433,8 +852,15 @@ class Handler(BaseHTTPRequestHandler):
                 mtime = os.path.getmtime(mung_path)
                 modified = datetime.datetime.utcfromtimestamp(mtime).strftime("%Y-%m-%dT%H:%M:%SZ")
                 st = self._read_doc_status(item)
+                try:
+                    open_comments = sum(1 for t in self._read_comment_threads(item)
+                                        if not t.get("resolved"))
+                except CommentsFileError:
+                    open_comments = None  # reported when the comments are opened
                 documents.append({"name": item, "hasImage": has_image, "modifiedAt": modified,
-                                  "status": st["status"], "annotator": st["annotator"]})
+                                  "status": st["status"], "annotator": st["annotator"],
+                                  "validationRuleSets": self._read_doc_validation_rule_sets(item),
+                                  "openComments": open_comments})
 
         self.send_response(200)
         self.send_header("Content-Type", "application/json; charset=utf-8")
@@ -0,0 +1,175 @@
+from __future__ import annotations
+
+import importlib.util
+import io
+import json
+import sys
+import unittest
+from pathlib import Path
+from unittest import mock
+
+
+BACKEND_DIR = Path(__file__).resolve().parents[1]
+if str(BACKEND_DIR) not in sys.path:
+    sys.path.insert(0, str(BACKEND_DIR))
+
+import collab  # noqa: E402
+
+MODULE_PATH = BACKEND_DIR / "server.py"
+SPEC = importlib.util.spec_from_file_location("collab_server", MODULE_PATH)
+if SPEC is None or SPEC.loader is None:
+    raise RuntimeError(f"Could not load {MODULE_PATH}")
+server = importlib.util.module_from_spec(SPEC)
+sys.modules[SPEC.name] = server
+SPEC.loader.exec_module(server)
+
+
+def _op(node_id: int) -> dict[str, object]:
+    return {"v": 2, "t": "removeNode", "id": node_id}
+
+
+class CollabHubOutboxTest(unittest.TestCase):
+    def test_resent_op_is_acknowledged_but_not_logged_again(self) -> None:
+        hub = collab.CollabHub()
+        _, events = hub.subscribe("score-page")
+
+        first = hub.push_op("score-page", _op(1), "alice", 1)
+        resent = hub.push_op("score-page", _op(1), "alice", 1)
+
+        self.assertEqual(first, (1, False))
+        self.assertEqual(resent, (1, True))
+        seq, oplog, _ = hub.snapshot("score-page")
+        self.assertEqual(seq, 1)
+        self.assertEqual(len(oplog), 1)
+        self.assertEqual(events.qsize(), 1)
+
+    def test_client_sequences_are_tracked_per_client(self) -> None:
+        hub = collab.CollabHub()
+
+        hub.push_op("score-page", _op(1), "alice", 1)
+        hub.push_op("score-page", _op(2), "alice", 2)
+        bob = hub.push_op("score-page", _op(3), "bob", 1)
+        stale = hub.push_op("score-page", _op(1), "alice", 1)
+
+        self.assertEqual(bob, (3, False))
+        self.assertEqual(stale, (2, True))
+        _, oplog, _ = hub.snapshot("score-page")
+        self.assertEqual([entry["seq"] for entry in oplog], [1, 2, 3])
+
+    def test_ops_without_client_seq_are_always_logged(self) -> None:
+        hub = collab.CollabHub()
+
+        hub.push_op("score-page", _op(1), "alice")
+        hub.push_op("score-page", _op(1), "alice")
+
+        _, oplog, _ = hub.snapshot("score-page")
+        self.assertEqual(len(oplog), 2)
+
+    def test_acknowledgements_survive_op_log_compaction(self) -> None:
+        hub = collab.CollabHub()
+        hub.push_op("score-page", _op(1), "alice", 1)
+
+        hub.clear_oplog("score-page")
+        resent = hub.push_op("score-page", _op(1), "alice", 1)
+
+        self.assertEqual(resent, (1, True))
+        _, oplog, _ = hub.snapshot("score-page")
+        self.assertEqual(oplog, [])
+
+    def test_presence_carries_sync_state(self) -> None:
+        hub = collab.CollabHub()
+        sync = {"seq": 4, "hash": "abc"}
+
+        hub.presence("score-page", "alice", {"name": "Alice", "sync": sync})
+
+        _, _, users = hub.snapshot("score-page")
+        self.assertEqual(users[0]["sync"], sync)
+
+
+class CollabHubSignalTest(unittest.TestCase):
+    def test_signal_is_relayed_but_not_logged(self) -> None:
+        hub = collab.CollabHub()
+        _, events = hub.subscribe("score-page")
+        signal = {"type": "summon", "viewport": {"x": 1, "y": 2, "width": 3, "height": 4}}
+
+        hub.signal("score-page", "alice", signal)
+
+        self.assertEqual(
+            events.get_nowait(),
+            {"type": "signal", "clientId": "alice", "signal": signal},
+        )
+        seq, oplog, _ = hub.snapshot("score-page")
+        self.assertEqual((seq, oplog), (0, []))
+
+    def test_presence_carries_viewport(self) -> None:
+        hub = collab.CollabHub()
+        viewport = {"x": 10, "y": 20, "width": 300, "height": 200}
+
+        hub.presence("score-page", "alice", {"name": "Alice", "viewport": viewport})
+
+        _, _, users = hub.snapshot("score-page")
+        self.assertEqual(users[0]["viewport"], viewport)
+
+
+class CollabActionTest(unittest.TestCase):
+    def _handler(self, body: dict[str, object]):
+        handler = object.__new__(server.Handler)
+        raw_body = json.dumps(body).encode("utf-8")
+        handler.headers = {"Content-Length": str(len(raw_body))}
+        handler.rfile = io.BytesIO(raw_body)
+        handler._authenticate = lambda: {"name": "Collab Tester"}
+        responses: list[tuple[dict[str, object], int]] = []
+        handler._send_json = lambda payload, status=200: responses.append(
+            (payload, status)
+        )
+        return handler, responses
+
+    def test_resent_op_is_reported_as_duplicate(self) -> None:
+        body = {"clientId": "alice", "clientSeq": 1, "op": _op(1)}
+        with mock.patch.object(collab, "HUB", collab.CollabHub()):
+            handler, responses = self._handler(body)
+            handler._action_collab_op({"document": ["score-page"]})
+            handler, resent_responses = self._handler(body)
+            handler._action_collab_op({"document": ["score-page"]})
+
+        self.assertEqual(responses, [({"ok": True, "seq": 1, "duplicate": False}, 200)])
+        self.assertEqual(
+            resent_responses, [({"ok": True, "seq": 1, "duplicate": True}, 200)]
+        )
+
+    def test_invalid_client_seq_is_rejected(self) -> None:
+        body = {"clientId": "alice", "clientSeq": "1", "op": _op(1)}
+        hub = collab.CollabHub()
+        with mock.patch.object(collab, "HUB", hub):
+            handler, responses = self._handler(body)
+            handler._action_collab_op({"document": ["score-page"]})
+
+        self.assertEqual(responses, [({"error": "Invalid clientSeq."}, 400)])
+        self.assertEqual(hub.snapshot("score-page")[0], 0)
+
+    def test_signal_without_type_is_rejected(self) -> None:
+        hub = collab.CollabHub()
+        _, events = hub.subscribe("score-page")
+        with mock.patch.object(collab, "HUB", hub):
+            handler, responses = self._handler(
+                {"clientId": "alice", "signal": {"viewport": None}}
+            )
+            handler._action_collab_signal({"document": ["score-page"]})
+
+        self.assertEqual(responses, [({"error": "Missing clientId/signal."}, 400)])
+        self.assertTrue(events.empty())
+
+    def test_summon_signal_is_broadcast(self) -> None:
+        hub = collab.CollabHub()
+        _, events = hub.subscribe("score-page")
+        signal = {"type": "summon", "viewport": {"x": 0, "y": 0, "width": 5, "height": 5}}
+        with mock.patch.object(collab, "HUB", hub):
+            handler, responses = self._handler({"clientId": "alice", "signal": signal})
+            handler._action_collab_signal({"document": ["score-page"]})
+
+        self.assertEqual(responses, [({"ok": True}, 200)])
+        self.assertEqual(events.get_nowait()["signal"], signal)
+
+
+if __name__ == "__main__":
+    unittest.main()
@@ -0,0 +1,160 @@
+from __future__ import annotations
+
+import importlib.util
+import io
+import json
+import sys
+import tempfile
+import unittest
+from pathlib import Path
+from unittest import mock
+
+
+BACKEND_DIR = Path(__file__).resolve().parents[1]
+if str(BACKEND_DIR) not in sys.path:
+    sys.path.insert(0, str(BACKEND_DIR))
+
+import collab  # noqa: E402
+
+MODULE_PATH = BACKEND_DIR / "server.py"
+SPEC = importlib.util.spec_from_file_location("comments_server", MODULE_PATH)
+if SPEC is None or SPEC.loader is None:
+    raise RuntimeError(f"Could not load {MODULE_PATH}")
+server = importlib.util.module_from_spec(SPEC)
+sys.modules[SPEC.name] = server
+SPEC.loader.exec_module(server)
+
+
+class CommentThreadsTest(unittest.TestCase):
+    def setUp(self) -> None:
+        self._tmp = tempfile.TemporaryDirectory()
+        self.addCleanup(self._tmp.cleanup)
+        self.doc_dir = Path(self._tmp.name) / "score-page"
+        self.doc_dir.mkdir()
+        self.hub = collab.CollabHub()
+        _, self.events = self.hub.subscribe("score-page")
+        for patcher in (
+            mock.patch.object(server, "DOCUMENTS_PATH", self._tmp.name),
+            mock.patch.object(server, "log_to_file"),
+            mock.patch.object(collab, "HUB", self.hub),
+        ):
+            patcher.start()
+            self.addCleanup(patcher.stop)
+
+    def _call(self, action: str, body: dict[str, object] | None = None):
+        handler = object.__new__(server.Handler)
+        raw_body = json.dumps(body or {}).encode("utf-8")
+        handler.headers = {"Content-Length": str(len(raw_body))}
+        handler.rfile = io.BytesIO(raw_body)
+        handler._authenticate = lambda: {"name": "Reviewer"}
+        responses: list[tuple[dict[str, object], int]] = []
+        handler._send_json = lambda payload, status=200: responses.append(
+            (payload, status)
+        )
+        getattr(handler, action)({"document": ["score-page"]})
+        return responses[0]
+
+    def test_new_thread_is_stored_and_broadcast(self) -> None:
+        payload, status = self._call(
+            "_action_add_comment",
+            {"anchor": {"nodeId": 12}, "text": "Wrong notehead class"},
+        )
+
+        self.assertEqual(status, 200)
+        thread = payload["thread"]
+        self.assertEqual(thread["anchor"], {"nodeId": 12})
+        self.assertFalse(thread["resolved"])
+        self.assertEqual(thread["comments"][0]["author"], "Reviewer")
+        stored = json.loads((self.doc_dir / "comments.json").read_text())
+        self.assertEqual(stored["threads"], [thread])
+        self.assertEqual(
+            self.events.get_nowait(), {"type": "comment-thread", "thread": thread}
+        )
+
+    def test_reply_and_resolve(self) -> None:
+        thread = self._call(
+            "_action_add_comment", {"anchor": {"x": 10.5, "y": 20}, "text": "Gap"}
+        )[0]["thread"]
+
+        self._call("_action_add_comment", {"threadId": thread["id"], "text": "Fixed"})
+        payload, status = self._call(
+            "_action_set_comment_thread_resolved",
+            {"threadId": thread["id"], "resolved": True},
+        )
+
+        self.assertEqual(status, 200)
+        self.assertTrue(payload["thread"]["resolved"])
+        self.assertEqual(payload["thread"]["resolvedBy"], "Reviewer")
+        listed = self._call("_action_list_comments")[0]["threads"]
+        self.assertEqual(len(listed), 1)
+        self.assertEqual(
+            [c["text"] for c in listed[0]["comments"]], ["Gap", "Fixed"]
+        )
+        self.assertEqual(listed[0]["anchor"], {"x": 10.5, "y": 20.0})
+
+    def test_invalid_requests_are_rejected(self) -> None:
+        self.assertEqual(
+            self._call("_action_add_comment", {"anchor": {"nodeId": 1}, "text": " "}),
+            ({"error": "Empty comment."}, 400),
+        )
+        self.assertEqual(
+            self._call("_action_add_comment", {"anchor": {"x": "1"}, "text": "Hi"}),
+            ({"error": "Invalid anchor."}, 400),
+        )
+        self.assertEqual(
+            self._call("_action_add_comment", {"threadId": "nope", "text": "Hi"}),
+            ({"error": "Thread not found."}, 404),
+        )
+        self.assertEqual(
+            self._call(
+                "_action_set_comment_thread_resolved",
+                {"threadId": "nope", "resolved": "yes"},
+            ),
+            ({"error": "Missing resolved flag."}, 400),
+        )
+        self.assertFalse((self.doc_dir / "comments.json").exists())
+        self.assertTrue(self.events.empty())
+
+    def test_corrupt_comments_file_is_reported_and_kept(self) -> None:
+        comments_path = self.doc_dir / "comments.json"
+        comments_path.write_text('{"threads": [{"id": "a"', encoding="utf-8")
+
+        payload, status = self._call("_action_list_comments")
+        self.assertEqual(status, 500)
+        self.assertIn("cannot be read", payload["error"])
+        payload, status = self._call(
+            "_action_add_comment", {"anchor": {"nodeId": 1}, "text": "Hi"}
+        )
+        self.assertEqual(status, 500)
+        self.assertEqual(
+            comments_path.read_text(encoding="utf-8"), '{"threads": [{"id": "a"'
+        )
+        self.assertTrue(self.events.empty())
+
+    def test_open_threads_are_counted_in_document_list(self) -> None:
+        (self.doc_dir / "mung.xml").write_text("<Nodes/>", encoding="utf-8")
+        first = self._call(
+            "_action_add_comment", {"anchor": {"nodeId": 1}, "text": "A"}
+        )[0]["thread"]
+        self._call("_action_add_comment", {"anchor": {"nodeId": 2}, "text": "B"})
+        self._call(
+            "_action_set_comment_thread_resolved",
+            {"threadId": first["id"], "resolved": True},
+        )
+
+        handler = object.__new__(server.Handler)
+        handler._authenticate = lambda: {"name": "Reviewer"}
+        handler.wfile = io.BytesIO()
+        handler.send_response = lambda status: None
+        handler.send_header = lambda name, value: None
+        handler.end_headers = lambda: None
+        handler._cors = lambda: None
+        with mock.patch.object(server, "find_image", lambda name: None):
+            handler._action_list_documents()
+
+        documents = json.loads(handler.wfile.getvalue())["documents"]
+        self.assertEqual(documents[0]["openComments"], 1)
+
+
+if __name__ == "__main__":
+    unittest.main()
@@ -21,7 +21,7 @@ SPEC.loader.exec_module(server)
 
 
 class DocumentStatusTest(unittest.TestCase):
-    def _handler(self, body: dict[str, str] | None = None):
+    def _handler(self, body: dict[str, object] | None = None):
         handler = object.__new__(server.Handler)
         raw_body = json.dumps(body or {}).encode("utf-8")
         handler.headers = {"Content-Length": str(len(raw_body))}
@@ -96,6 +96,108 @@ class DocumentStatusTest(unittest.TestCase):
             )
             self.assertEqual(status_path.read_text(encoding="utf-8"), original)
 
+    def test_rule_sets_are_stored_next_to_the_status(self) -> None:
+        with tempfile.TemporaryDirectory() as tmp:
+            doc_dir = Path(tmp) / "score-page"
+            doc_dir.mkdir()
+            mung_path = doc_dir / "mung.xml"
+            mung_contents = "<Nodes>existing annotation</Nodes>"
+            mung_path.write_text(mung_contents, encoding="utf-8")
+            status_path = doc_dir / "status.json"
+            status_path.write_text(
+                '{"status":"done","annotator":"Alice"}\n', encoding="utf-8"
+            )
+            handler, responses = self._handler(
+                {"validationRuleSets": ["schenkerian"]}
+            )
+
+            with (
+                mock.patch.object(server, "DOCUMENTS_PATH", tmp),
+                mock.patch.object(server, "log_to_file"),
+            ):
+                handler._action_set_doc_validation_rule_sets(
+                    {"document": ["score-page"]}
+                )
+                rule_sets = handler._read_doc_validation_rule_sets("score-page")
+                status = handler._read_doc_status("score-page")
+
+            self.assertEqual(responses[0][1], 200)
+            self.assertEqual(rule_sets, ["schenkerian"])
+            self.assertEqual(status, {"status": "done", "annotator": "Alice"})
+            self.assertEqual(mung_path.read_text(encoding="utf-8"), mung_contents)
+
+    def test_setting_the_status_keeps_the_rule_sets(self) -> None:
+        with tempfile.TemporaryDirectory() as tmp:
+            doc_dir = Path(tmp) / "score-page"
+            doc_dir.mkdir()
+            (doc_dir / "status.json").write_text(
+                '{"status":"in-progress","validationRuleSets":["schenkerian"]}\n',
+                encoding="utf-8",
+            )
+            handler, responses = self._handler(
+                {"status": "done", "annotator": "Alice"}
+            )
+
+            with (
+                mock.patch.object(server, "DOCUMENTS_PATH", tmp),
+                mock.patch.object(server, "log_to_file"),
+            ):
+                handler._action_set_doc_status({"document": ["score-page"]})
+                rule_sets = handler._read_doc_validation_rule_sets("score-page")
+
+            self.assertEqual(responses[0][1], 200)
+            self.assertEqual(rule_sets, ["schenkerian"])
+
+    def test_invalid_rule_sets_are_rejected(self) -> None:
+        with tempfile.TemporaryDirectory() as tmp:
+            (Path(tmp) / "score-page").mkdir()
+            handler, responses = self._handler(
+                {"validationRuleSets": ["../schenkerian"]}
+            )
+
+            with mock.patch.object(server, "DOCUMENTS_PATH", tmp):
+                handler._action_set_doc_validation_rule_sets(
+                    {"document": ["score-page"]}
+                )
+
+            self.assertEqual(
+                responses, [({"error": "Rule sets must be a list of names."}, 400)]
+            )
+            self.assertFalse((Path(tmp) / "score-page" / "status.json").exists())
+
+    def test_rule_sets_are_written_atomically(self) -> None:
+        with tempfile.TemporaryDirectory() as tmp:
+            doc_dir = Path(tmp) / "score-page"
+            doc_dir.mkdir()
+            handler, _ = self._handler({"validationRuleSets": ["schenkerian"]})
+
+            with (
+                mock.patch.object(server, "DOCUMENTS_PATH", tmp),
+                mock.patch.object(server, "log_to_file"),
+            ):
+                handler._action_set_doc_validation_rule_sets(
+                    {"document": ["score-page"]}
+                )
+
+            self.assertEqual(
+                [p.name for p in doc_dir.iterdir()], ["status.json"]
+            )
+
+    def test_rule_sets_are_read_by_get_only(self) -> None:
+        handler, _ = self._handler()
+        handler.path = "/?action=get-doc-validation-rule-sets&document=score-page"
+        handler.send_error = mock.Mock()
+        handler._action_get_doc_validation_rule_sets = mock.Mock()
+
+        handler.do_POST()
+        handler._action_get_doc_validation_rule_sets.assert_not_called()
+        handler.send_error.assert_called_once()
+
+        handler.do_GET()
+        handler._action_get_doc_validation_rule_sets.assert_called_once_with(
+            {"action": ["get-doc-validation-rule-sets"], "document": ["score-page"]}
+        )
+
 
 if __name__ == "__main__":
     unittest.main()
@@ -0,0 +1,99 @@
+from __future__ import annotations
+
+import importlib.util
+import io
+import os
+import sys
+import tempfile
+import unittest
+from pathlib import Path
+from unittest import mock
+
+
+BACKEND_DIR = Path(__file__).resolve().parents[1]
+MODULE_PATH = BACKEND_DIR / "server.py"
+SPEC = importlib.util.spec_from_file_location("revisions_server", MODULE_PATH)
+if SPEC is None or SPEC.loader is None:
+    raise RuntimeError(f"Could not load {MODULE_PATH}")
+server = importlib.util.module_from_spec(SPEC)
+sys.modules[SPEC.name] = server
+SPEC.loader.exec_module(server)
+
+
+class RevisionsTest(unittest.TestCase):
+    def setUp(self) -> None:
+        self._tmp = tempfile.TemporaryDirectory()
+        self.addCleanup(self._tmp.cleanup)
+        self.backups_dir = Path(self._tmp.name) / "score-page" / "backups"
+        self.backups_dir.mkdir(parents=True)
+        for patcher in (
+            mock.patch.object(server, "DOCUMENTS_PATH", self._tmp.name),
+            mock.patch.object(server, "log_to_file"),
+        ):
+            patcher.start()
+            self.addCleanup(patcher.stop)
+
+    def _write_backup(self, name: str, content: bytes) -> None:
+        (self.backups_dir / name).write_bytes(content)
+
+    def _handler(self):
+        handler = object.__new__(server.Handler)
+        handler._authenticate = lambda: {"name": "Reviewer"}
+        handler.json_responses = []
+        handler._send_json = lambda payload, status=200: handler.json_responses.append(
+            (payload, status)
+        )
+        handler.statuses = []
+        handler.send_response = handler.statuses.append
+        handler.send_header = lambda name, value: None
+        handler._cors = lambda: None
+        handler.end_headers = lambda: None
+        handler.wfile = io.BytesIO()
+        return handler
+
+    def test_revisions_are_listed_newest_first(self) -> None:
+        self._write_backup("2026-01-02.xml", b"<Nodes/>")
+        self._write_backup("2026-03-01.xml", b"<Nodes></Nodes>")
+        self._write_backup("notes.txt", b"not a revision")
+
+        handler = self._handler()
+        handler._action_list_revisions({"document": ["score-page"]})
+
+        payload, status = handler.json_responses[0]
+        self.assertEqual(status, 200)
+        self.assertEqual([r["id"] for r in payload["revisions"]], ["2026-03-01", "2026-01-02"])
+        self.assertEqual(payload["revisions"][0]["size"], len(b"<Nodes></Nodes>"))
+
+    def test_document_without_backups_has_no_revisions(self) -> None:
+        os.rmdir(self.backups_dir)
+
+        handler = self._handler()
+        handler._action_list_revisions({"document": ["score-page"]})
+
+        self.assertEqual(handler.json_responses, [({"revisions": []}, 200)])
+
+    def test_revision_content_is_served(self) -> None:
+        self._write_backup("2026-01-02.xml", b"<Nodes/>")
+
+        handler = self._handler()
+        handler._action_get_revision({"document": ["score-page"], "revision": ["2026-01-02"]})
+
+        self.assertEqual(handler.statuses, [200])
+        self.assertEqual(handler.wfile.getvalue(), b"<Nodes/>")
+
+    def test_revision_id_cannot_escape_the_backups_directory(self) -> None:
+        handler = self._handler()
+        handler._action_get_revision({"document": ["score-page"], "revision": ["../mung"]})
+
+        self.assertEqual(handler.json_responses, [({"error": "Missing or invalid revision."}, 400)])
+        self.assertEqual(handler.wfile.getvalue(), b"")
+
+    def test_missing_revision_is_reported(self) -> None:
+        handler = self._handler()
+        handler._action_get_revision({"document": ["score-page"], "revision": ["2020-01-01"]})
+
+        self.assertEqual(handler.json_responses, [({"error": "Revision not found."}, 404)])
+
+
+if __name__ == "__main__":
+    unittest.main()
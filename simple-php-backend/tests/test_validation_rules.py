@@ -0,0 +1,130 @@
+from __future__ import annotations
+
+import importlib.util
+import io
+import json
+import sys
+import tempfile
+import unittest
+from pathlib import Path
+from unittest import mock
+
+
+BACKEND_DIR = Path(__file__).resolve().parents[1]
+MODULE_PATH = BACKEND_DIR / "server.py"
+SPEC = importlib.util.spec_from_file_location("validation_rules_server", MODULE_PATH)
+if SPEC is None or SPEC.loader is None:
+    raise RuntimeError(f"Could not load {MODULE_PATH}")
+server = importlib.util.module_from_spec(SPEC)
+sys.modules[SPEC.name] = server
+SPEC.loader.exec_module(server)
+
+
+RULE_SET = {
+    "rules": [
+        {"code": 8001, "kind": "requiresTranscription", "classes": ["keyAnalysis"]},
+    ]
+}
+
+
+class ValidationRulesTest(unittest.TestCase):
+    def setUp(self) -> None:
+        self._tmp = tempfile.TemporaryDirectory()
+        self.addCleanup(self._tmp.cleanup)
+        for patcher in (
+            mock.patch.object(server, "DOCUMENTS_PATH", self._tmp.name),
+            mock.patch.object(server, "log_to_file"),
+        ):
+            patcher.start()
+            self.addCleanup(patcher.stop)
+
+    def _call(self, action: str, dataset: str, raw_body: bytes = b""):
+        handler = object.__new__(server.Handler)
+        handler.headers = {"Content-Length": str(len(raw_body))}
+        handler.rfile = io.BytesIO(raw_body)
+        handler._authenticate = lambda: {"name": "Lead"}
+        responses: list[tuple[dict[str, object], int]] = []
+        handler._send_json = lambda payload, status=200: responses.append(
+            (payload, status)
+        )
+        getattr(handler, action)({"dataset": [dataset]})
+        return responses[0]
+
+    def _save(self, dataset: str, body: object):
+        return self._call(
+            "_action_save_validation_rules", dataset, json.dumps(body).encode("utf-8")
+        )
+
+    def test_dataset_without_rules_has_no_rule_set(self) -> None:
+        payload, status = self._call("_action_get_validation_rules", "MUSCIMA-pp")
+
+        self.assertEqual(status, 200)
+        self.assertIsNone(payload["ruleSet"])
+
+    def test_saved_rule_set_is_served_with_its_author(self) -> None:
+        payload, status = self._save("MUSCIMA-pp", {"ruleSet": RULE_SET})
+        self.assertEqual(status, 200)
+        self.assertEqual(payload["ruleSet"], RULE_SET)
+
+        payload, status = self._call("_action_get_validation_rules", "MUSCIMA-pp")
+
+        self.assertEqual(status, 200)
+        self.assertEqual(payload["ruleSet"], RULE_SET)
+        self.assertEqual(payload["updatedBy"], "Lead")
+        stored = Path(self._tmp.name) / ".validation-rules" / "MUSCIMA-pp.json"
+        self.assertEqual(json.loads(stored.read_text())["ruleSet"], RULE_SET)
+
+    def test_rule_sets_are_kept_per_dataset(self) -> None:
+        self._save("MUSCIMA-pp", {"ruleSet": RULE_SET})
+
+        payload, _ = self._call("_action_get_validation_rules", "Schenker")
+
+        self.assertIsNone(payload["ruleSet"])
+
+    def test_invalid_dataset_name_is_rejected(self) -> None:
+        payload, status = self._save("../escape", {"ruleSet": RULE_SET})
+
+        self.assertEqual(status, 400)
+        self.assertIn("dataset", payload["error"])
+        self.assertFalse((Path(self._tmp.name) / ".validation-rules").exists())
+
+    def test_malformed_rule_set_is_rejected(self) -> None:
+        for body in ({"ruleSet": {"rules": "none"}}, {"ruleSet": {"rules": [1]}}, {}):
+            payload, status = self._save("MUSCIMA-pp", body)
+            self.assertEqual(status, 400, body)
+
+        payload, status = self._call(
+            "_action_save_validation_rules", "MUSCIMA-pp", b"{not json"
+        )
+        self.assertEqual(status, 400)
+
+    def test_too_large_rule_set_is_rejected(self) -> None:
+        rules = [{"code": 8001, "kind": "requiresTranscription", "classes": ["x" * 1000]}] * 300
+
+        payload, status = self._save("MUSCIMA-pp", {"ruleSet": {"rules": rules}})
+
+        self.assertEqual(status, 413)
+
+    def test_corrupt_rule_set_file_is_reported(self) -> None:
+        rules_dir = Path(self._tmp.name) / ".validation-rules"
+        rules_dir.mkdir()
+        (rules_dir / "MUSCIMA-pp.json").write_text('{"ruleSet": {', encoding="utf-8")
+
+        payload, status = self._call("_action_get_validation_rules", "MUSCIMA-pp")
+
+        self.assertEqual(status, 500)
+        self.assertIn("MUSCIMA-pp", payload["error"])
+
+    def test_rule_set_file_that_is_not_an_object_is_reported(self) -> None:
+        rules_dir = Path(self._tmp.name) / ".validation-rules"
+        rules_dir.mkdir()
+        (rules_dir / "MUSCIMA-pp.json").write_text("[]", encoding="utf-8")
+
+        payload, status = self._call("_action_get_validation_rules", "MUSCIMA-pp")
+
+        self.assertEqual(status, 500)
+        self.assertIn("error", payload)
+
+
+if __name__ == "__main__":
+    unittest.main()
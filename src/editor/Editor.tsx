@@ -14,7 +14,15 @@ import { ValidationPanel } from "./view/validation-panel/ValidationPanel";
 import { useAtomValue } from "jotai";
 import { NodeNavigationTab } from "./view/NodeNavigationTab";
 import { CollabConfig } from "./controller/CollabController";
+import { RevisionSource } from "./controller/RevisionDiffController";
+import { ValidationRuleSetSource } from "./controller/ValidationController";
 import { PresenceBar } from "./view/collab/PresenceBar";
+import { MungParseReport } from "../mung/MungParseReport";
+import { LoadSummaryDialog } from "./view/load-summary/LoadSummaryDialog";
+import { ExportReportDialog } from "./view/export/ExportReportDialog";
+import { EditorDatasetExportDialog } from "./view/export/DatasetExportDialog";
+import { MergeDialog } from "./view/merge/MergeDialog";
+import { MergeConflictsBar } from "./view/merge/MergeConflictsBar";
 
 export interface EditorProps {
   /**
@@ -29,6 +37,12 @@ export interface EditorProps {
    */
   readonly initialNodes: readonly Node[];
 
+  /**
+   * Problems found and repaired while reading the MuNG file,
+   * they are displayed to the user in a dismissible dialog on startup.
+   */
+  readonly parseReport?: MungParseReport | null;
+
   /**
    * The scanned music document image URL,
    * if null, then no image is displayed.
@@ -56,6 +70,31 @@ export interface EditorProps {
    * this document (live op sync + presence + peer cursors). Optional.
    */
   readonly collabConfig?: CollabConfig | null;
+
+  /**
+   * Name of the user editing the document, nodes they create or change
+   * are attributed to them. When missing, nodes are not attributed.
+   */
+  readonly userName?: string | null;
+
+  /**
+   * When provided, saved revisions of the document can be compared
+   * and nodes restored from them. Optional.
+   */
+  readonly revisionSource?: RevisionSource | null;
+
+  /**
+   * When provided, the user-defined validation rules of the document's
+   * dataset are loaded from it and can be edited in the settings,
+   * the rule sets enabled for the document are kept there too. Optional.
+   */
+  readonly validationRuleSetSource?: ValidationRuleSetSource | null;
+
+  /**
+   * When provided, the node is selected and shown once the editor opens,
+   * e.g. when following a link from the validation report. Optional.
+   */
+  readonly focusNodeId?: number | null;
 }
 
 /**
@@ -71,14 +110,22 @@ export function Editor(props: EditorProps) {
     props.initialNodes,
     props.initialMungFileMetadata,
     props.backgroundImageUrl,
+    props.fileName,
     props.collabConfig ?? null,
+    props.userName ?? null,
+    props.revisionSource ?? null,
+    props.validationRuleSetSource ?? null,
   );
   const {
     notationGraphStore,
+    selectionStore,
+    historyPersistence,
     autosaveStore,
     backgroundImageStore,
     zoomController,
     collabController,
+    commentsController,
+    validationController,
   } = editorContext;
 
   // join / leave the real-time collaboration session
@@ -88,11 +135,47 @@ export function Editor(props: EditorProps) {
     return () => collabController.stop();
   }, [collabController]);
 
+  // load the review comments and keep them up to date
+  useEffect(() => {
+    if (commentsController === null) return;
+    commentsController.start();
+    return () => commentsController.stop();
+  }, [commentsController]);
+
+  // load the validation rules of the dataset and of the document
+  useEffect(() => {
+    validationController.loadDatasetRuleSet();
+    validationController.loadDocumentRuleSets();
+  }, []);
+
+  // show the node the editor was opened for
+  useEffect(() => {
+    const nodeId = props.focusNodeId ?? null;
+    if (nodeId === null || !notationGraphStore.hasNode(nodeId)) return;
+    selectionStore.changeSelection([nodeId]);
+    zoomController.zoomToNode(notationGraphStore.getNode(nodeId));
+  }, []);
+
+  // restore the undo history from the previous session
+  useEffect(() => {
+    if (props.onSave === undefined) return; // nothing is saved, nothing kept
+    historyPersistence.restore(notationGraphStore.getMungFile());
+  }, []);
+
+  /**
+   * Saves the document and stores the undo history that leads to it
+   */
+  async function save(): Promise<void> {
+    if (props.onSave === undefined) return;
+    const mung = notationGraphStore.getMungFile();
+    const historyPersisted = historyPersistence.persist(mung);
+    await props.onSave(mung);
+    await historyPersisted;
+  }
+
   // bind autosave store to the props.onSave method
   useEffect(() => {
-    autosaveStore.saveCallback = async () => {
-      await props.onSave?.(notationGraphStore.getMungFile());
-    };
+    autosaveStore.saveCallback = save;
     return () => {
       autosaveStore.saveCallback = null;
     };
@@ -106,7 +189,7 @@ export function Editor(props: EditorProps) {
 
     // save if dirty
     if (autosaveStore.isDirty) {
-      savePromise = props.onSave?.(notationGraphStore.getMungFile());
+      savePromise = save();
     }
 
     // close the editor UI
@@ -126,7 +209,7 @@ export function Editor(props: EditorProps) {
     // trigger save right after the dialog is closed
     // (if it gets triggered during the dialog, even better)
     setTimeout(async () => {
-      await props.onSave?.(notationGraphStore.getMungFile());
+      await save();
       autosaveStore.setClean();
     }, 50);
 
@@ -181,6 +264,7 @@ export function Editor(props: EditorProps) {
               <SceneView />
               <Toolbelt />
               {collabController !== null && <PresenceBar />}
+              <MergeConflictsBar />
             </Box>
             <NodeNavigationTab />
             <ValidationPanel />
@@ -201,6 +285,10 @@ export function Editor(props: EditorProps) {
         </Box> */}
       </Box>
       <SettingsWindow />
+      <LoadSummaryDialog report={props.parseReport ?? null} />
+      <ExportReportDialog />
+      <EditorDatasetExportDialog />
+      <MergeDialog />
     </EditorContext.Provider>
   );
 }
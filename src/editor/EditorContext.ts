@@ -20,17 +20,28 @@ import { MainMenuController } from "./controller/MainMenuController";
 import { MousePointerController } from "./controller/MousePointerController";
 import { SettingsStore } from "./model/SettingsStore";
 import { ValidationStore } from "./model/ValidationStore";
-import { ValidationController } from "./controller/ValidationController";
+import {
+  ValidationController,
+  ValidationRuleSetSource,
+} from "./controller/ValidationController";
 import { DeltaInterpreter } from "./model/DeltaInterpreter";
 import { BackgroundImageStore } from "./model/BackgroundImageStore";
 import { StafflinesToolController } from "./controller/tools/StafflinesToolController";
 import { StaffGeometryStore } from "./model/StaffGeometryStore";
 import { NodeNavigationController } from "./controller/NodeNavigationController";
 import { HistoryStore } from "./model/HistoryStore";
+import { HistoryPersistence } from "./model/HistoryPersistence";
 import { RecognitionRegionController } from "./controller/RecognitionRegionController";
 import { BboxEditingController } from "./controller/BboxEditingController";
 import { QuickRectNodeController } from "./controller/tools/QuickRectNodeController";
 import { CollabController, CollabConfig } from "./controller/CollabController";
+import { CommentsController } from "./controller/CommentsController";
+import {
+  RevisionDiffController,
+  RevisionSource,
+} from "./controller/RevisionDiffController";
+import { ExportController } from "./controller/ExportController";
+import { MergeController } from "./controller/MergeController";
 
 /**
  * All fields present in the editor component's global context
@@ -43,6 +54,7 @@ export interface EditorContextState {
   readonly staffGeometryStore: StaffGeometryStore;
   readonly editorStateStore: EditorStateStore;
   readonly historyStore: HistoryStore;
+  readonly historyPersistence: HistoryPersistence;
   readonly autosaveStore: AutosaveStore;
   readonly settingsStore: SettingsStore;
   readonly validationStore: ValidationStore;
@@ -65,7 +77,11 @@ export interface EditorContextState {
   readonly mainMenuController: MainMenuController;
   readonly recognitionRegionController: RecognitionRegionController;
   readonly nodeNavigationController: NodeNavigationController;
+  readonly exportController: ExportController;
+  readonly mergeController: MergeController;
   readonly collabController: CollabController | null;
+  readonly commentsController: CommentsController | null;
+  readonly revisionDiffController: RevisionDiffController | null;
 }
 
 /**
@@ -75,7 +91,11 @@ export function useConstructContextServices(
   initialNodes: readonly Node[],
   initialMungFileMetadata: MungFileMetadata,
   backgroundImageUrl: string | null,
+  documentName: string,
   collabConfig: CollabConfig | null = null,
+  userName: string | null = null,
+  revisionSource: RevisionSource | null = null,
+  validationRuleSetSource: ValidationRuleSetSource | null = null,
 ): EditorContextState {
   const jotaiStore: JotaiStore = useMemo(() => getDefaultStore(), []);
 
@@ -84,10 +104,11 @@ export function useConstructContextServices(
     [],
   );
 
-  const notationGraphStore = useMemo(
-    () => new NotationGraphStore(initialNodes, initialMungFileMetadata),
-    [],
-  );
+  const notationGraphStore = useMemo(() => {
+    const store = new NotationGraphStore(initialNodes, initialMungFileMetadata);
+    store.attributionAuthor = userName;
+    return store;
+  }, []);
 
   const selectionStore = useMemo(
     () => new SelectionStore(notationGraphStore),
@@ -111,6 +132,11 @@ export function useConstructContextServices(
     [],
   );
 
+  const historyPersistence = useMemo(
+    () => new HistoryPersistence(historyStore, documentName, jotaiStore),
+    [],
+  );
+
   const autosaveStore = useMemo(
     () => new AutosaveStore(notationGraphStore),
     [],
@@ -138,6 +164,8 @@ export function useConstructContextServices(
         notationGraphStore,
         pythonRuntime,
         deltaInterpreter,
+        settingsStore,
+        validationRuleSetSource,
       ),
     [],
   );
@@ -290,6 +318,22 @@ export function useConstructContextServices(
     [],
   );
 
+  const exportController = useMemo(
+    () =>
+      new ExportController(
+        jotaiStore,
+        notationGraphStore,
+        backgroundImageStore,
+        historyStore,
+      ),
+    [],
+  );
+
+  const mergeController = useMemo(
+    () => new MergeController(jotaiStore, notationGraphStore, zoomController),
+    [],
+  );
+
   const collabController = useMemo(
     () =>
       collabConfig
@@ -297,12 +341,41 @@ export function useConstructContextServices(
             jotaiStore,
             notationGraphStore,
             selectionStore,
+            zoomController,
             collabConfig,
           )
         : null,
     [],
   );
 
+  const commentsController = useMemo(
+    () =>
+      collabConfig && collabController
+        ? new CommentsController(
+            jotaiStore,
+            notationGraphStore,
+            selectionStore,
+            zoomController,
+            collabController,
+            collabConfig,
+          )
+        : null,
+    [],
+  );
+
+  const revisionDiffController = useMemo(
+    () =>
+      revisionSource
+        ? new RevisionDiffController(
+            jotaiStore,
+            notationGraphStore,
+            zoomController,
+            revisionSource,
+          )
+        : null,
+    [],
+  );
+
   return {
     backgroundImageStore,
     notationGraphStore,
@@ -311,6 +384,7 @@ export function useConstructContextServices(
     staffGeometryStore,
     editorStateStore,
     historyStore,
+    historyPersistence,
     autosaveStore,
     settingsStore,
     validationStore,
@@ -333,7 +407,11 @@ export function useConstructContextServices(
     mainMenuController,
     recognitionRegionController,
     nodeNavigationController,
+    exportController,
+    mergeController,
     collabController,
+    commentsController,
+    revisionDiffController,
   };
 }
 
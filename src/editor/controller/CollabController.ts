@@ -1,7 +1,15 @@
 import { atom, Atom } from "jotai";
+import { ISimpleEvent, SimpleEventDispatcher } from "strongly-typed-events";
 import { JotaiStore } from "../model/JotaiStore";
 import { NotationGraphStore } from "../model/notation-graph-store/NotationGraphStore";
 import { SelectionStore } from "../model/SelectionStore";
+import { ZoomController } from "./ZoomController";
+import { COLLAB_OP_VERSION, CollabOp, CollabUpdateNodeOp, NodeFieldGroup, nodeToCollabNode, validateCollabOp } from "../model/CollabOp";
+import { FieldConflict } from "../model/notation-graph-store/NodeFieldClocks";
+import { readMungXmlInWorker } from "../../mung/readMungXmlInWorker";
+import { writeMungXmlString } from "../../mung/writeMungXmlString";
+import { MungFile } from "../../mung/MungFile";
+import { sha256Hex } from "../../utils/sha256Hex";
 
 /**
  * Configuration needed to join a document's real-time collaboration session.
@@ -24,6 +32,37 @@ export interface Peer {
   readonly color: string;
   readonly cursor?: { x: number; y: number } | null;
   readonly selection?: readonly number[] | null;
+  /** The part of the scene the peer is looking at (scene space). */
+  readonly viewport?: Viewport | null;
+  /** Server seq the peer's graph reflects and its hash, null while it has unsent changes. */
+  readonly sync?: SyncState | null;
+}
+
+/** A rectangle of the scene, sent as plain numbers. */
+export interface Viewport {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+/** Hash of a graph together with the server seq it reflects. */
+export interface SyncState {
+  readonly seq: number;
+  readonly hash: string;
+}
+
+/** An event of the collaboration stream, its other fields depend on the type. */
+export interface CollabServerEvent {
+  readonly type: string;
+  readonly [field: string]: unknown;
+}
+
+/** An op of the server op log, the op itself is validated when applied. */
+interface OplogEntry {
+  readonly seq: number;
+  readonly clientId: string;
+  readonly op: unknown;
 }
 
 // Stable, distinct colors assigned round-robin to joiners.
@@ -32,10 +71,41 @@ const PALETTE = [
   "#e93d82", "#12a594", "#ffb224", "#5b5bd6", "#e54666",
 ];
 
+// A detected divergence triggers at most one resync in this period (ms).
+const RESYNC_COOLDOWN = 30000;
+
+// How conflicting field groups are called in notifications.
+const FIELD_GROUP_NAMES: Record<NodeFieldGroup, string> = {
+  className: "the class",
+  geometry: "the position or mask",
+  textTranscription: "the text transcription",
+  data: "the data items",
+  extraXml: "the extra XML",
+};
+
 function randomId(): string {
   return Math.random().toString(36).slice(2, 10) + Date.now().toString(36).slice(-4);
 }
 
+/**
+ * Writes the graph in a form that does not depend on the order in which
+ * nodes and links were inserted: nodes sorted by id, link lists sorted.
+ * Peers applying the same ops in a different order get the same string.
+ */
+function writeCanonicalMungXml(mung: MungFile): string {
+  const sortIds = (ids: readonly number[]) => [...ids].sort((a, b) => a - b);
+  const nodes = [...mung.nodes]
+    .sort((a, b) => a.id - b.id)
+    .map((node) => ({
+      ...node,
+      syntaxOutlinks: sortIds(node.syntaxOutlinks),
+      syntaxInlinks: sortIds(node.syntaxInlinks),
+      precedenceOutlinks: sortIds(node.precedenceOutlinks),
+      precedenceInlinks: sortIds(node.precedenceInlinks),
+    }));
+  return writeMungXmlString({ ...mung, nodes });
+}
+
 /**
  * Real-time collaboration engine (Overleaf-style). Streams operations and
  * presence to/from the backend for a single document:
@@ -54,9 +124,25 @@ export class CollabController {
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
 
   // throttled node-update coalescing (drags fire many updateNode ops)
-  private pendingUpdates = new Map<number, any>();
+  private pendingUpdates = new Map<number, CollabUpdateNodeOp>();
   private updateFlushTimer: ReturnType<typeof setTimeout> | null = null;
 
+  // local ops not yet acknowledged by the server, oldest first; they are
+  // sent one at a time, so they arrive in order, and re-sent after a drop
+  private outbox: { clientSeq: number; op: CollabOp }[] = [];
+  private nextClientSeq = 1;
+  private isSendingOutbox = false;
+
+  // highest server seq reflected in the local graph, null before the first init
+  private lastSeq: number | null = null;
+  private isResyncing = false;
+  private lastResyncAt = 0;
+
+  // hash of the local graph, recomputed on heartbeats after a change
+  private stateHash: SyncState | null = null;
+  private isStateHashStale = true;
+  private unsubChanges: (() => void) | null = null;
+
   private localCursor: { x: number; y: number } | null = null;
   private presenceSendScheduled = false;
   private unsubSelection: (() => void) | null = null;
@@ -66,6 +152,36 @@ export class CollabController {
   public readonly peersAtom: Atom<readonly Peer[]> = atom((get) =>
     get(this.peersBaseAtom),
   );
+  private readonly warningBaseAtom = atom<string | null>(null);
+  /** Describes rejected remote operations and local ones the server refused, null when there are none. */
+  public readonly warningAtom: Atom<string | null> = atom((get) =>
+    get(this.warningBaseAtom),
+  );
+  private rejectedOpCount = 0;
+  private refusedOpCount = 0;
+
+  private readonly noticeBaseAtom = atom<string | null>(null);
+  /** A short-lived message, e.g. about a concurrent edit of the same node field. */
+  public readonly noticeAtom: Atom<string | null> = atom((get) =>
+    get(this.noticeBaseAtom),
+  );
+  private unsubConflicts: (() => void) | null = null;
+
+  private readonly followedClientIdBaseAtom = atom<string | null>(null);
+  /** The peer whose viewport our view follows, null when not following anyone. */
+  public readonly followedClientIdAtom: Atom<string | null> = atom((get) =>
+    get(this.followedClientIdBaseAtom),
+  );
+  private followedViewport: Viewport | null = null;
+  private unsubZoom: (() => void) | null = null;
+  private unsubUserZoom: (() => void) | null = null;
+
+  private readonly _onServerEvent = new SimpleEventDispatcher<CollabServerEvent>();
+  /** Stream events that are not about the graph or presence, e.g. a changed comment thread. */
+  public get onServerEvent(): ISimpleEvent<CollabServerEvent> {
+    return this._onServerEvent.asEvent();
+  }
+
   /** The local client's assigned color (for consistent self-highlighting). */
   public get selfColor(): string {
     return this.color;
@@ -78,6 +194,7 @@ export class CollabController {
     private readonly jotaiStore: JotaiStore,
     private readonly notationGraphStore: NotationGraphStore,
     private readonly selectionStore: SelectionStore,
+    private readonly zoomController: ZoomController,
     private readonly config: CollabConfig,
   ) {
     // color seeded from clientId so it's stable for this browser session
@@ -89,12 +206,27 @@ export class CollabController {
   /** Begin collaborating: attach op sink, open the stream, start heartbeats. */
   public start(): void {
     this.notationGraphStore.opSink = (op) => this.onLocalOp(op);
+    this.notationGraphStore.collabClientId = this.clientId;
+    this.unsubConflicts = this.notationGraphStore.onCollabConflict.subscribe(
+      (conflict) => this.onConflict(conflict),
+    );
+    this.unsubChanges = this.notationGraphStore.onChange.subscribe(() => {
+      this.isStateHashStale = true;
+      this.stateHash = null;
+    });
     this.openStream();
-    this.heartbeatTimer = setInterval(() => this.sendPresence(), 4000);
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), 4000);
     this.unsubSelection = this.jotaiStore.sub(
       this.selectionStore.selectedNodeIdsAtom,
       () => this.schedulePresence(),
     );
+    this.unsubZoom = this.zoomController.onTransformChange.subscribe(() =>
+      this.schedulePresence(),
+    );
+    // panning or zooming ourselves ends the follow mode
+    this.unsubUserZoom = this.zoomController.onUserZoom.subscribe(() =>
+      this.followPeer(null),
+    );
     this.sendPresence();
   }
 
@@ -106,6 +238,10 @@ export class CollabController {
     if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
     if (this.updateFlushTimer) clearTimeout(this.updateFlushTimer);
     this.unsubSelection?.();
+    this.unsubConflicts?.();
+    this.unsubChanges?.();
+    this.unsubZoom?.();
+    this.unsubUserZoom?.();
   }
 
   /** Called by the scene overlay on mouse move (image-space coordinates). */
@@ -114,11 +250,49 @@ export class CollabController {
     this.schedulePresence();
   }
 
+  /** Makes our view follow the peer's viewport, null stops following. */
+  public followPeer(clientId: string | null): void {
+    this.jotaiStore.set(this.followedClientIdBaseAtom, clientId);
+    if (clientId === null) return;
+    const peer = this.jotaiStore
+      .get(this.peersBaseAtom)
+      .find((p) => p.clientId === clientId);
+    this.followedViewport = peer?.viewport ?? null;
+    this.showViewport(this.followedViewport);
+  }
+
+  /** Moves the views of all peers to show what we are looking at. */
+  public bringEveryoneHere(): void {
+    const viewport = this.getViewport();
+    if (viewport === null) return;
+    this.sendSignal({ type: "summon", viewport });
+  }
+
+  private getViewport(): Viewport | null {
+    const rectangle = this.zoomController.getVisibleRectangle();
+    if (rectangle === null) return null;
+    const { x, y, width, height } = rectangle;
+    return { x, y, width, height };
+  }
+
+  private showViewport(viewport: Viewport | null): void {
+    if (viewport == null) return;
+    const { x, y, width, height } = viewport;
+    if (![x, y, width, height].every(Number.isFinite)) return;
+    this.zoomController.showRectangle(new DOMRect(x, y, width, height));
+  }
+
   // ---- local -> server -------------------------------------------------
-  private onLocalOp(op: any): void {
+  private onLocalOp(op: CollabOp): void {
     if (op.t === "updateNode") {
       // coalesce rapid drags: keep only the latest per node, flush at 80ms
-      this.pendingUpdates.set(op.node.id, op);
+      // (the merged op covers the fields of both, based on the older stamps)
+      const pending = this.pendingUpdates.get(op.node.id);
+      this.pendingUpdates.set(op.node.id, pending === undefined ? op : {
+        ...op,
+        fields: [...new Set([...pending.fields, ...op.fields])],
+        base: { ...op.base, ...pending.base },
+      });
       if (this.updateFlushTimer === null) {
         this.updateFlushTimer = setTimeout(() => this.flushUpdates(), 80);
       }
@@ -127,6 +301,13 @@ export class CollabController {
     if (op.t === "removeNode" || op.t === "removeNodeWithLinks") {
       this.pendingUpdates.delete(op.id); // cancel stale drag for a deleted node
     }
+    if (op.t === "batch") {
+      // a transaction travels as one op, it is applied as one unit remotely
+      for (const batchOp of op.ops) {
+        if (batchOp.t === "removeNode" || batchOp.t === "removeNodeWithLinks")
+          this.pendingUpdates.delete(batchOp.id);
+      }
+    }
     this.flushUpdates(); // preserve ordering: pending moves go before this op
     this.postOp(op);
   }
@@ -141,16 +322,86 @@ export class CollabController {
     for (const op of ops) this.postOp(op);
   }
 
-  private postOp(op: any): void {
-    if (this.stopped) return;
-    fetch(this.url("collab-op"), {
-      method: "POST",
-      headers: {
-        Authorization: "Bearer " + this.config.token,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ clientId: this.clientId, op }),
-    }).catch(() => {});
+  private postOp(op: CollabOp): void {
+    this.outbox.push({ clientSeq: this.nextClientSeq++, op });
+    this.sendOutbox();
+  }
+
+  /**
+   * Sends the outbox in order; on a network error or a server error (5xx)
+   * the rest waits for the next heartbeat or reconnect. An op the server
+   * refuses (4xx) would be refused again, so it is dropped, reported,
+   * and the graph is resynced to get rid of its local effect.
+   */
+  private async sendOutbox(): Promise<void> {
+    if (this.isSendingOutbox) return;
+    this.isSendingOutbox = true;
+    let isRejected = false;
+    try {
+      while (!this.stopped && this.outbox.length > 0) {
+        const entry = this.outbox[0];
+        const resp = await fetch(this.url("collab-op"), {
+          method: "POST",
+          headers: {
+            Authorization: "Bearer " + this.config.token,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ clientId: this.clientId, clientSeq: entry.clientSeq, op: entry.op }),
+        });
+        if (resp.status >= 400 && resp.status < 500) {
+          this.outbox.shift();
+          this.reportRefusedOp(entry.op, resp.status + " " + (await resp.text()));
+          isRejected = true;
+          continue;
+        }
+        if (!resp.ok) break;
+        // the server skips an op it already has (its ack got lost), so this is safe to repeat
+        this.outbox.shift();
+      }
+    } catch (e) {
+      // offline, the outbox is kept
+    } finally {
+      this.isSendingOutbox = false;
+    }
+    if (isRejected) this.resync();
+  }
+
+  private reportRefusedOp(op: CollabOp, reason: string): void {
+    this.refusedOpCount += 1;
+    console.warn("The server refused a collaboration operation:", reason, op);
+    this.jotaiStore.set(
+      this.warningBaseAtom,
+      `The server refused ${this.refusedOpCount} of your change(s), ` +
+        `the document was reloaded from the server. (${reason})`,
+    );
+  }
+
+  private heartbeat(): void {
+    this.sendOutbox();
+    this.refreshStateHash().then(() => this.sendPresence());
+  }
+
+  /** True when everything local has reached the server and the graph matches lastSeq. */
+  private get isSettled(): boolean {
+    return (
+      this.outbox.length === 0 &&
+      this.pendingUpdates.size === 0 &&
+      !this.isResyncing &&
+      this.lastSeq !== null
+    );
+  }
+
+  private async refreshStateHash(): Promise<void> {
+    if (!this.isStateHashStale || !this.isSettled) return;
+    this.isStateHashStale = false;
+    const seq = this.lastSeq!;
+    try {
+      const hash = await sha256Hex(writeCanonicalMungXml(this.notationGraphStore.getMungFile()));
+      // discard the hash if the graph moved on while it was computed
+      if (!this.isStateHashStale && this.lastSeq === seq) this.stateHash = { seq, hash };
+    } catch (e) {
+      this.isStateHashStale = true;
+    }
   }
 
   private schedulePresence(): void {
@@ -176,10 +427,24 @@ export class CollabController {
         color: this.color,
         cursor: this.localCursor,
         selection: this.selectionStore.selectedNodeIds,
+        viewport: this.getViewport(),
+        sync: this.isSettled && this.stateHash?.seq === this.lastSeq ? this.stateHash : null,
       }),
     }).catch(() => {});
   }
 
+  private sendSignal(signal: { type: string; [key: string]: unknown }): void {
+    if (this.stopped) return;
+    fetch(this.url("collab-signal"), {
+      method: "POST",
+      headers: {
+        Authorization: "Bearer " + this.config.token,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ clientId: this.clientId, signal }),
+    }).catch(() => {});
+  }
+
   // ---- server -> local (SSE via fetch stream) --------------------------
   private async openStream(): Promise<void> {
     while (!this.stopped) {
@@ -204,7 +469,15 @@ export class CollabController {
             for (const line of block.split("\n")) {
               if (line.startsWith("data:")) {
                 const json = line.slice(5).trim();
-                if (json) this.handleEvent(JSON.parse(json));
+                if (!json) continue;
+                let value: unknown;
+                try {
+                  value = JSON.parse(json);
+                } catch (e) {
+                  console.warn("Ignored a collaboration event that is not JSON:", json);
+                  continue;
+                }
+                this.handleEvent(value);
               }
             }
           }
@@ -217,24 +490,181 @@ export class CollabController {
     }
   }
 
-  private handleEvent(ev: any): void {
+  private handleEvent(value: unknown): void {
+    if (!isObject(value) || typeof value.type !== "string") {
+      console.warn("Ignored a malformed collaboration event:", value);
+      return;
+    }
+    const ev: CollabServerEvent = { ...value, type: value.type };
     if (ev.type === "init") {
-      for (const entry of ev.oplog ?? []) {
-        if (entry.clientId !== this.clientId)
-          this.notationGraphStore.applyRemoteOp(entry.op);
-      }
-      this.setPeers(ev.users ?? []);
+      this.reconcile(isSeq(ev.seq) ? ev.seq : 0, parseOplog(ev.oplog));
+      this.setPeers(parsePeers(ev.users));
+      this.sendOutbox(); // replay whatever was made while disconnected
     } else if (ev.type === "op") {
-      if (ev.clientId !== this.clientId)
-        this.notationGraphStore.applyRemoteOp(ev.op);
+      if (this.lastSeq === null || this.isResyncing) return; // the next init covers it
+      if (!isSeq(ev.seq)) return;
+      if (ev.seq <= this.lastSeq) return; // already in the init op log
+      if (ev.seq > this.lastSeq + 1) {
+        this.resync();
+        return;
+      }
+      // own ops are already in the graph, they only advance the seq
+      if (ev.clientId !== this.clientId) this.applyRemoteOp(ev.op);
+      this.lastSeq = ev.seq;
     } else if (ev.type === "presence") {
-      this.setPeers(ev.users ?? []);
+      this.setPeers(parsePeers(ev.users));
+    } else if (ev.type === "signal") {
+      if (typeof ev.clientId === "string" && ev.clientId !== this.clientId) this.handleSignal(ev.clientId, ev.signal);
+    } else {
+      this._onServerEvent.dispatch(ev);
+    }
+  }
+
+  private handleSignal(clientId: string, signal: unknown): void {
+    if (isObject(signal) && signal.type === "summon") {
+      this.followPeer(null);
+      this.showViewport(parseViewport(signal.viewport));
+      this.jotaiStore.set(this.noticeBaseAtom, `${this.getPeerName(clientId)} brought everyone to their view.`);
+    }
+  }
+
+  /**
+   * Catches up with the server after (re)connecting. The op log holds
+   * the ops since the last save; if some ops we missed are no longer in it
+   * (a save compacted it) or the server restarted, the graph is resynced.
+   */
+  private reconcile(seq: number, oplog: readonly OplogEntry[]): void {
+    if (this.lastSeq === null) {
+      // first connect, or after loading the saved document during a resync:
+      // everything since the save is replayed, own ops included
+      for (const entry of oplog) this.applyRemoteOp(entry.op);
+      if (this.isResyncing) {
+        // unacknowledged local ops go on top, they are still to be sent
+        for (const entry of this.outbox) this.applyRemoteOp(entry.op);
+        this.isResyncing = false;
+      }
+      this.lastSeq = seq;
+      return;
+    }
+
+    const lastSeq = this.lastSeq;
+    const missed = oplog.filter((entry) => entry.seq > lastSeq);
+    const isComplete = seq === lastSeq || (missed.length > 0 && missed[0].seq === lastSeq + 1);
+    if (seq < lastSeq || !isComplete) {
+      this.resync();
+      return;
+    }
+    for (const entry of missed) {
+      if (entry.clientId !== this.clientId) this.applyRemoteOp(entry.op);
+    }
+    this.lastSeq = seq;
+  }
+
+  /**
+   * Replaces the graph with the last saved document and reconnects,
+   * the fresh init then replays the op log on top of it.
+   */
+  private async resync(): Promise<void> {
+    if (this.isResyncing || this.stopped) return;
+    this.isResyncing = true;
+    this.lastResyncAt = Date.now();
+    this.flushUpdates();
+    try {
+      const resp = await fetch(this.url("get-document-mung"), {
+        headers: { Authorization: "Bearer " + this.config.token },
+      });
+      if (!resp.ok) throw new Error("get-document-mung " + resp.status);
+      const { mung } = await readMungXmlInWorker(await resp.text());
+      this.notationGraphStore.applyRemoteOp({
+        v: COLLAB_OP_VERSION,
+        t: "setAll",
+        nodes: mung.nodes.map(nodeToCollabNode),
+      });
+      this.lastSeq = null;
+    } catch (e) {
+      console.error("Resyncing the collaboration session failed:", e);
+      this.isResyncing = false;
+      return;
     }
+    this.abort?.abort(); // reconnect
   }
 
-  private setPeers(users: any[]): void {
+  /**
+   * Applies an op received from the server. Malformed ops and ops of another
+   * protocol version (e.g. from a newer client) are skipped and reported,
+   * they never reach the graph.
+   */
+  private applyRemoteOp(value: unknown): void {
+    let op: CollabOp;
+    try {
+      op = validateCollabOp(value);
+      this.notationGraphStore.applyRemoteOp(op);
+    } catch (e) {
+      this.rejectedOpCount += 1;
+      const reason = e instanceof Error ? e.message : String(e);
+      console.warn("Rejected a collaboration operation:", reason, value);
+      this.jotaiStore.set(
+        this.warningBaseAtom,
+        `Ignored ${this.rejectedOpCount} incompatible change(s) from collaborators. ` +
+          `Reload the document to get in sync. (${reason})`,
+      );
+    }
+  }
+
+  private onConflict(conflict: FieldConflict): void {
+    const name = this.getPeerName(conflict.remoteClientId);
+    const kept = conflict.isRemoteKept ? "their change was kept" : "your change was kept";
+    this.jotaiStore.set(
+      this.noticeBaseAtom,
+      `${name} changed ${FIELD_GROUP_NAMES[conflict.field]} of node ` +
+        `${conflict.nodeId} at the same time as you, ${kept}.`,
+    );
+  }
+
+  private getPeerName(clientId: string): string {
+    const peer = this.jotaiStore
+      .get(this.peersBaseAtom)
+      .find((p) => p.clientId === clientId);
+    return peer?.name ?? "A collaborator";
+  }
+
+  /** Hides the notice. */
+  public dismissNotice(): void {
+    this.jotaiStore.set(this.noticeBaseAtom, null);
+  }
+
+  /** Hides the rejected-operations warning. */
+  public dismissWarning(): void {
+    this.rejectedOpCount = 0;
+    this.refusedOpCount = 0;
+    this.jotaiStore.set(this.warningBaseAtom, null);
+  }
+
+  private setPeers(users: readonly Peer[]): void {
     const peers = users.filter((u) => u.clientId !== this.clientId);
-    this.jotaiStore.set(this.peersBaseAtom, peers as readonly Peer[]);
+    this.jotaiStore.set(this.peersBaseAtom, peers);
+    this.detectDivergence(peers);
+
+    const followedClientId = this.jotaiStore.get(this.followedClientIdBaseAtom);
+    if (followedClientId !== null) {
+      const followed = peers.find((p) => p.clientId === followedClientId);
+      if (followed === undefined) this.followPeer(null); // the peer left
+      else if (JSON.stringify(followed.viewport) !== JSON.stringify(this.followedViewport)) {
+        this.followedViewport = followed.viewport ?? null;
+        this.showViewport(this.followedViewport);
+      }
+    }
+  }
+
+  /** A peer at the same seq with a different graph hash means the graphs diverged. */
+  private detectDivergence(peers: readonly Peer[]): void {
+    const own = this.stateHash;
+    if (own === null || !this.isSettled || own.seq !== this.lastSeq) return;
+    if (Date.now() - this.lastResyncAt < RESYNC_COOLDOWN) return;
+    const isDiverged = peers.some(
+      (p) => p.sync != null && p.sync.seq === own.seq && p.sync.hash !== own.hash,
+    );
+    if (isDiverged) this.resync();
   }
 
   private url(action: string): string {
@@ -253,3 +683,53 @@ export class CollabController {
     );
   }
 }
+
+// ---- validation of the stream payloads ----------------------------------
+// Events arrive as parsed JSON, they are narrowed field by field here
+// (ops themselves are validated by validateCollabOp). Malformed entries are
+// dropped, optional fields fall back to null.
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSeq(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function parseOplog(value: unknown): OplogEntry[] {
+  if (!Array.isArray(value)) return [];
+  const entries: OplogEntry[] = [];
+  for (const entry of value) {
+    if (!isObject(entry) || !isSeq(entry.seq) || typeof entry.clientId !== "string") continue;
+    entries.push({ seq: entry.seq, clientId: entry.clientId, op: entry.op });
+  }
+  return entries;
+}
+
+function parsePeers(value: unknown): Peer[] {
+  if (!Array.isArray(value)) return [];
+  const peers: Peer[] = [];
+  for (const user of value) {
+    if (!isObject(user)) continue;
+    const { clientId, name, color, cursor, selection, sync } = user;
+    if (typeof clientId !== "string" || typeof name !== "string" || typeof color !== "string") continue;
+    peers.push({
+      clientId,
+      name,
+      color,
+      cursor: isObject(cursor) && typeof cursor.x === "number" && typeof cursor.y === "number" ? { x: cursor.x, y: cursor.y } : null,
+      selection: Array.isArray(selection) && selection.every(Number.isInteger) ? selection.map(Number) : null,
+      viewport: parseViewport(user.viewport),
+      sync: isObject(sync) && isSeq(sync.seq) && typeof sync.hash === "string" ? { seq: sync.seq, hash: sync.hash } : null,
+    });
+  }
+  return peers;
+}
+
+function parseViewport(value: unknown): Viewport | null {
+  if (!isObject(value)) return null;
+  const { x, y, width, height } = value;
+  if (typeof x !== "number" || typeof y !== "number" || typeof width !== "number" || typeof height !== "number") return null;
+  return { x, y, width, height };
+}
@@ -0,0 +1,363 @@
+import { JSX } from "react";
+import { atom, Atom, PrimitiveAtom, useAtomValue } from "jotai";
+import { JotaiStore } from "../model/JotaiStore";
+import { NotationGraphStore } from "../model/notation-graph-store/NotationGraphStore";
+import { SelectionStore } from "../model/SelectionStore";
+import { IController } from "./IController";
+import { ZoomController } from "./ZoomController";
+import { CollabConfig, CollabController } from "./CollabController";
+import { Node } from "../../mung/Node";
+
+/**
+ * What a comment thread points at, either a node or a point of the image
+ * (in image-space pixels)
+ */
+export type CommentAnchor =
+  | { readonly nodeId: number }
+  | { readonly x: number; readonly y: number };
+
+export interface Comment {
+  readonly id: string;
+  readonly author: string;
+  readonly text: string;
+  readonly createdAt: string;
+}
+
+/**
+ * A review discussion attached to a place in the document
+ */
+export interface CommentThread {
+  readonly id: string;
+  readonly anchor: CommentAnchor;
+  readonly resolved: boolean;
+  readonly resolvedBy: string | null;
+  readonly resolvedAt: string | null;
+  readonly createdBy: string;
+  readonly createdAt: string;
+
+  /**
+   * Comments of the thread, the first one opened it
+   */
+  readonly comments: readonly Comment[];
+}
+
+/**
+ * Checks the shape of a thread received through the collaboration stream
+ */
+function isCommentThread(value: unknown): value is CommentThread {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "id" in value &&
+    typeof value.id === "string" &&
+    "anchor" in value &&
+    typeof value.anchor === "object" &&
+    value.anchor !== null &&
+    "resolved" in value &&
+    typeof value.resolved === "boolean" &&
+    "comments" in value &&
+    Array.isArray(value.comments)
+  );
+}
+
+/**
+ * Size of the pin on the screen, in pixels
+ */
+const PIN_RADIUS = 9;
+
+/**
+ * Review comment threads of a backend document. The threads are stored
+ * by the backend next to the document, changes made by others arrive
+ * live through the collaboration stream. Open threads are rendered
+ * as pins in the scene.
+ */
+export class CommentsController implements IController {
+  public readonly controllerName = "CommentsController";
+
+  private readonly jotaiStore: JotaiStore;
+  private readonly notationGraphStore: NotationGraphStore;
+  private readonly selectionStore: SelectionStore;
+  private readonly zoomController: ZoomController;
+  private readonly collabController: CollabController;
+  private readonly config: CollabConfig;
+
+  private unsubServerEvents: (() => void) | null = null;
+
+  constructor(
+    jotaiStore: JotaiStore,
+    notationGraphStore: NotationGraphStore,
+    selectionStore: SelectionStore,
+    zoomController: ZoomController,
+    collabController: CollabController,
+    config: CollabConfig,
+  ) {
+    this.jotaiStore = jotaiStore;
+    this.notationGraphStore = notationGraphStore;
+    this.selectionStore = selectionStore;
+    this.zoomController = zoomController;
+    this.collabController = collabController;
+    this.config = config;
+  }
+
+  public readonly isEnabledAtom: Atom<boolean> = atom(true);
+
+  public get isEnabled(): boolean {
+    return true;
+  }
+
+  /**
+   * Loads the threads and starts listening for their changes
+   */
+  public start(): void {
+    this.unsubServerEvents = this.collabController.onServerEvent.subscribe(
+      (event) => {
+        if (event.type !== "comment-thread") return;
+        if (isCommentThread(event.thread)) this.upsertThread(event.thread);
+        else console.warn("Ignored a malformed comment thread:", event.thread);
+      },
+    );
+    this.loadThreads().catch((e) => {
+      console.error("Loading comment threads failed:", e);
+    });
+  }
+
+  public stop(): void {
+    this.unsubServerEvents?.();
+  }
+
+  ///////////
+  // State //
+  ///////////
+
+  private threadsBaseAtom: PrimitiveAtom<readonly CommentThread[]> = atom<
+    readonly CommentThread[]
+  >([]);
+
+  /**
+   * All comment threads of the document, in the order they were opened
+   */
+  public readonly threadsAtom: Atom<readonly CommentThread[]> = atom((get) =>
+    get(this.threadsBaseAtom),
+  );
+
+  private selectedThreadIdBaseAtom = atom<string | null>(null);
+
+  /**
+   * The thread the user is looking at, null if none
+   */
+  public readonly selectedThreadIdAtom: Atom<string | null> = atom((get) =>
+    get(this.selectedThreadIdBaseAtom),
+  );
+
+  private upsertThread(thread: CommentThread): void {
+    const threads = this.jotaiStore.get(this.threadsBaseAtom);
+    const isKnown = threads.some((t) => t.id === thread.id);
+    this.jotaiStore.set(
+      this.threadsBaseAtom,
+      isKnown
+        ? threads.map((t) => (t.id === thread.id ? thread : t))
+        : [...threads, thread],
+    );
+  }
+
+  /////////////
+  // Actions //
+  /////////////
+
+  /**
+   * Opens a new thread, anchored to the selected node if there is exactly
+   * one, otherwise to the point in the middle of the view
+   */
+  public async openThread(text: string): Promise<void> {
+    const selectedNodeIds = this.selectionStore.selectedNodeIds;
+    let anchor: CommentAnchor;
+    if (selectedNodeIds.length === 1) {
+      anchor = { nodeId: selectedNodeIds[0] };
+    } else {
+      const view = this.zoomController.getVisibleRectangle();
+      if (view === null) throw new Error("The scene view is not ready.");
+      anchor = { x: view.x + view.width / 2, y: view.y + view.height / 2 };
+    }
+    const thread = await this.post("add-comment", { anchor, text });
+    this.upsertThread(thread);
+    this.jotaiStore.set(this.selectedThreadIdBaseAtom, thread.id);
+  }
+
+  public async reply(threadId: string, text: string): Promise<void> {
+    this.upsertThread(await this.post("add-comment", { threadId, text }));
+  }
+
+  public async setResolved(threadId: string, resolved: boolean): Promise<void> {
+    this.upsertThread(
+      await this.post("set-comment-thread-resolved", { threadId, resolved }),
+    );
+  }
+
+  /**
+   * Selects the thread and moves the view to its anchor
+   */
+  public selectThread(threadId: string | null): void {
+    this.jotaiStore.set(this.selectedThreadIdBaseAtom, threadId);
+    const thread = this.jotaiStore
+      .get(this.threadsBaseAtom)
+      .find((t) => t.id === threadId);
+    if (thread === undefined) return;
+    const anchor = thread.anchor;
+    if ("nodeId" in anchor) {
+      if (!this.notationGraphStore.hasNode(anchor.nodeId)) return;
+      this.zoomController.zoomToNode(
+        this.notationGraphStore.getNode(anchor.nodeId),
+      );
+    } else {
+      this.zoomController.zoomToRectangle(
+        new DOMRect(anchor.x - 50, anchor.y - 50, 100, 100),
+      );
+    }
+  }
+
+  /////////////
+  // Backend //
+  /////////////
+
+  private async loadThreads(): Promise<void> {
+    const response = await fetch(this.url("list-comments"), {
+      headers: { Authorization: "Bearer " + this.config.token },
+    });
+    if (!response.ok) {
+      throw new Error("Unexpected response: " + (await response.text()));
+    }
+    const data = await response.json();
+    this.jotaiStore.set(this.threadsBaseAtom, data.threads);
+  }
+
+  private async post(action: string, body: object): Promise<CommentThread> {
+    const response = await fetch(this.url(action), {
+      method: "POST",
+      headers: {
+        Authorization: "Bearer " + this.config.token,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error ?? "Unexpected response " + response.status);
+    }
+    return data.thread as CommentThread;
+  }
+
+  private url(action: string): string {
+    return (
+      this.config.backendUrl +
+      "?action=" +
+      encodeURIComponent(action) +
+      "&document=" +
+      encodeURIComponent(this.config.documentName)
+    );
+  }
+
+  ///////////////
+  // Rendering //
+  ///////////////
+
+  public renderSVG(): JSX.Element | null {
+    const threads = useAtomValue(this.threadsAtom);
+    const selectedThreadId = useAtomValue(this.selectedThreadIdAtom);
+    const nodeIds = useAtomValue(this.notationGraphStore.nodeIdsAtom);
+
+    return (
+      <>
+        {threads
+          .filter((t) => !t.resolved || t.id === selectedThreadId)
+          .map((thread) => {
+            const anchor = thread.anchor;
+            const pinProps: CommentPinProps = {
+              thread,
+              isSelected: thread.id === selectedThreadId,
+              onClick: () => this.selectThread(thread.id),
+            };
+            if (!("nodeId" in anchor)) {
+              return (
+                <CommentPin
+                  key={thread.id}
+                  {...pinProps}
+                  position={new DOMPoint(anchor.x, anchor.y)}
+                />
+              );
+            }
+            if (!nodeIds.includes(anchor.nodeId)) return null;
+            return (
+              <NodeCommentPin
+                key={thread.id}
+                {...pinProps}
+                nodeAtom={this.notationGraphStore.getNodeAtom(anchor.nodeId)}
+              />
+            );
+          })}
+      </>
+    );
+  }
+}
+
+interface CommentPinProps {
+  readonly thread: CommentThread;
+  readonly isSelected: boolean;
+  readonly onClick: () => void;
+}
+
+/**
+ * Pin of a node-anchored thread, sits at the top-right corner of the node
+ */
+function NodeCommentPin(props: CommentPinProps & { nodeAtom: Atom<Node> }) {
+  const { nodeAtom, ...pinProps } = props;
+  const node = useAtomValue(nodeAtom);
+  return (
+    <CommentPin
+      {...pinProps}
+      position={new DOMPoint(node.left + node.width, node.top)}
+    />
+  );
+}
+
+/**
+ * A circle with the number of comments, constant in size on the screen
+ */
+function CommentPin(props: CommentPinProps & { position: DOMPointReadOnly }) {
+  const { thread, isSelected, position } = props;
+  return (
+    <g
+      transform={`translate(${position.x}, ${position.y})`}
+      style={{ cursor: "pointer" }}
+      onClick={props.onClick}
+    >
+      <title>
+        {thread.comments[0]?.author}: {thread.comments[0]?.text}
+      </title>
+      <g style={{ transform: "scale(var(--scene-screen-pixel))" }}>
+        <circle
+          cx={0}
+          cy={0}
+          r={PIN_RADIUS}
+          fill={
+            thread.resolved
+              ? "var(--joy-palette-success-500)"
+              : "var(--joy-palette-primary-500)"
+          }
+          stroke={isSelected ? "black" : "white"}
+          strokeWidth={2}
+        />
+        <text
+          x={0}
+          y={0}
+          fill="white"
+          fontSize={11}
+          textAnchor="middle"
+          dominantBaseline="central"
+          style={{ pointerEvents: "none", userSelect: "none" }}
+        >
+          {thread.comments.length}
+        </text>
+      </g>
+    </g>
+  );
+}
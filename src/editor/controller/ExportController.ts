@@ -0,0 +1,179 @@
+import { atom } from "jotai";
+import { JotaiStore } from "../model/JotaiStore";
+import { NotationGraphStore } from "../model/notation-graph-store/NotationGraphStore";
+import { ScoreIssue } from "../../mung/score/Score";
+import { reconstructScore } from "../../mung/score/reconstructScore";
+import { writeMusicXmlString } from "../../mung/musicxml/writeMusicXmlString";
+import { collectAnalyticalMarkings } from "../../mung/mei/collectAnalyticalMarkings";
+import { writeMeiString } from "../../mung/mei/writeMeiString";
+import { downloadTextFile } from "../../utils/downloadTextFile";
+import { BackgroundImageStore } from "../model/BackgroundImageStore";
+import { HistoryStore } from "../model/HistoryStore";
+import {
+  DatasetExportOptions,
+  DatasetExportResult,
+  exportDatasetArchive,
+} from "../../mung/dataset/exportDatasetArchive";
+
+/**
+ * What happened during the last export
+ */
+export interface ExportReport {
+  /**
+   * Human-readable name of the exported format
+   */
+  readonly format: string;
+
+  readonly fileName: string;
+
+  /**
+   * Nodes that could not be exported faithfully
+   */
+  readonly issues: readonly ScoreIssue[];
+}
+
+/**
+ * Converts the notation graph into symbolic music formats
+ * and lets the user download the result. Export problems are reported
+ * via the export report atom, so that they can be displayed.
+ */
+export class ExportController {
+  private readonly jotaiStore: JotaiStore;
+  private readonly notationGraphStore: NotationGraphStore;
+  private readonly backgroundImageStore: BackgroundImageStore;
+  private readonly historyStore: HistoryStore;
+
+  constructor(
+    jotaiStore: JotaiStore,
+    notationGraphStore: NotationGraphStore,
+    backgroundImageStore: BackgroundImageStore,
+    historyStore: HistoryStore,
+  ) {
+    this.jotaiStore = jotaiStore;
+    this.notationGraphStore = notationGraphStore;
+    this.backgroundImageStore = backgroundImageStore;
+    this.historyStore = historyStore;
+  }
+
+  private readonly exportReportBaseAtom = atom<ExportReport | null>(null);
+
+  /**
+   * Report of the last export, null when dismissed
+   */
+  public readonly exportReportAtom = atom((get) =>
+    get(this.exportReportBaseAtom),
+  );
+
+  public dismissExportReport(): void {
+    this.jotaiStore.set(this.exportReportBaseAtom, null);
+  }
+
+  /**
+   * Exports the notation graph as a MusicXML file
+   */
+  public exportMusicXml(): void {
+    const mung = this.notationGraphStore.getMungFile();
+    const score = reconstructScore(mung);
+    const fileName = mung.metadata.document + ".musicxml";
+
+    downloadTextFile(
+      writeMusicXmlString(score),
+      fileName,
+      "application/vnd.recordare.musicxml+xml",
+    );
+
+    this.jotaiStore.set(this.exportReportBaseAtom, {
+      format: "MusicXML",
+      fileName,
+      issues: score.issues,
+    });
+  }
+
+  /**
+   * Exports the notation graph as an MEI file, including the Schenkerian
+   * analytical layer (implied notes, structural slurs and beams, harmony)
+   */
+  public exportMei(): void {
+    const mung = this.notationGraphStore.getMungFile();
+    const score = reconstructScore(mung, { includeImpliedNotes: true });
+    const { markings, issues } = collectAnalyticalMarkings(mung, score);
+    const fileName = mung.metadata.document + ".mei";
+
+    downloadTextFile(
+      writeMeiString(score, markings, mung),
+      fileName,
+      "application/mei+xml",
+    );
+
+    this.jotaiStore.set(this.exportReportBaseAtom, {
+      format: "MEI",
+      fileName,
+      issues: [...score.issues, ...issues],
+    });
+  }
+
+  /**
+   * Exports all the changes made in this editing session as a JSON log
+   * of deltas, for auditing what the annotator did
+   */
+  public exportHistorySessionLog(): void {
+    const document = this.notationGraphStore.metadata.document;
+    const log = {
+      document,
+      exportedAt: new Date().toISOString(),
+      entries: this.historyStore.getSessionLog(),
+      droppedEntries: this.historyStore.droppedSessionLogEntries,
+    };
+    downloadTextFile(
+      JSON.stringify(log, null, 2),
+      document + "-session-log.json",
+      "application/json",
+    );
+  }
+
+  ////////////////////
+  // Dataset export //
+  ////////////////////
+
+  private readonly isDatasetExportDialogOpenBaseAtom = atom<boolean>(false);
+
+  public readonly isDatasetExportDialogOpenAtom = atom((get) =>
+    get(this.isDatasetExportDialogOpenBaseAtom),
+  );
+
+  public openDatasetExportDialog(): void {
+    this.jotaiStore.set(this.isDatasetExportDialogOpenBaseAtom, true);
+  }
+
+  public closeDatasetExportDialog(): void {
+    this.jotaiStore.set(this.isDatasetExportDialogOpenBaseAtom, false);
+  }
+
+  /**
+   * Exports the document and its background image as a training dataset
+   * for the symbol detector (the archive is returned, not downloaded)
+   */
+  public async exportDataset(
+    options: DatasetExportOptions,
+    onProgress?: (donePages: number, totalPages: number) => void,
+  ): Promise<DatasetExportResult> {
+    if (!this.backgroundImageStore.isReady) {
+      throw new Error("The background image has not been loaded.");
+    }
+
+    const mung = this.notationGraphStore.getMungFile();
+    const image = {
+      width: this.jotaiStore.get(this.backgroundImageStore.widthAtom),
+      height: this.jotaiStore.get(this.backgroundImageStore.heightAtom),
+      getImageData: (rect: DOMRect) =>
+        this.backgroundImageStore.getImageData(rect),
+    };
+
+    return await exportDatasetArchive(
+      [mung.metadata.document],
+      async (name) => ({ name, mung, image }),
+      options,
+      onProgress,
+    );
+  }
+}
@@ -23,6 +23,10 @@ import {
   Yolo26Prediction,
 } from "./Yolo26DetectionApi";
 import { HistoryStore } from "../model/HistoryStore";
+import {
+  parsePredictionFile,
+  PredictionFileOptions,
+} from "./parsePredictionFile";
 import { isMacish } from "../../utils/isMacish";
 import { MUNG_CLASSES_BY_NAME } from "../../mung/ontology/mungClasses";
 
@@ -160,14 +164,23 @@ export class MainMenuController implements IController {
    * Bound to Ctrl/Cmd+U (Up) and Ctrl/Cmd+D (Down).
    */
   private switchSelectedUpDown(direction: "Up" | "Down"): void {
+    const switchedNodes: Node[] = [];
     for (const id of this.selectionStore.selectedNodeIds) {
       if (!this.notationGraphStore.hasNode(id)) continue;
       const node = this.notationGraphStore.getNode(id);
       const target = this.upDownVariant(node.className, direction);
       if (target !== null && target !== node.className) {
-        this.notationGraphStore.updateNode({ ...node, className: target });
+        switchedNodes.push({ ...node, className: target });
       }
     }
+    this.notationGraphStore.transaction(
+      `Switch ${switchedNodes.length} node(s) ${direction.toLowerCase()}`,
+      () => {
+        for (const node of switchedNodes) {
+          this.notationGraphStore.updateNode(node);
+        }
+      },
+    );
   }
 
   private upDownVariant(
@@ -213,34 +226,39 @@ export class MainMenuController implements IController {
     if (this.clipboardNodes.length === 0) return;
     const OFFSET = 15;
     const newIds: number[] = [];
-    for (const src of this.clipboardNodes) {
-      const mask = src.decodedMask;
-      const node: Node = {
-        id: this.notationGraphStore.getFreeId(),
-        className: src.className,
-        left: src.left + OFFSET,
-        top: src.top + OFFSET,
-        width: src.width,
-        height: src.height,
-        syntaxOutlinks: [],
-        syntaxInlinks: [],
-        precedenceOutlinks: [],
-        precedenceInlinks: [],
-        decodedMask:
-          mask === null
-            ? null
-            : new ImageData(
-                new Uint8ClampedArray(mask.data),
-                mask.width,
-                mask.height,
-              ),
-        textTranscription: src.textTranscription,
-        data: {},
-        polygon: null,
-      };
-      this.notationGraphStore.insertNode(node);
-      newIds.push(node.id);
-    }
+    this.notationGraphStore.transaction(
+      `Paste ${this.clipboardNodes.length} node(s)`,
+      () => {
+        for (const src of this.clipboardNodes) {
+          const mask = src.decodedMask;
+          const node: Node = {
+            id: this.notationGraphStore.getFreeId(),
+            className: src.className,
+            left: src.left + OFFSET,
+            top: src.top + OFFSET,
+            width: src.width,
+            height: src.height,
+            syntaxOutlinks: [],
+            syntaxInlinks: [],
+            precedenceOutlinks: [],
+            precedenceInlinks: [],
+            decodedMask:
+              mask === null
+                ? null
+                : new ImageData(
+                    new Uint8ClampedArray(mask.data),
+                    mask.width,
+                    mask.height,
+                  ),
+            textTranscription: src.textTranscription,
+            data: {},
+            polygon: null,
+          };
+          this.notationGraphStore.insertNode(node);
+          newIds.push(node.id);
+        }
+      },
+    );
     this.toolbeltController.setCurrentTool(EditorTool.Pointer);
     this.selectionStore.changeSelection(newIds);
     this.setYolo26Status(
@@ -265,24 +283,39 @@ export class MainMenuController implements IController {
     this.setYolo26Status("Predicting edges...");
     try {
       const result = await api.assembleEdges(documentName, threshold);
-      let added = 0;
-      for (const e of result.edges) {
+      const linkedPairs = new Set<string>();
+      const newEdges = result.edges.filter((e) => {
         if (
           !this.notationGraphStore.hasNode(e.source) ||
           !this.notationGraphStore.hasNode(e.target)
         ) {
-          continue;
+          return false;
         }
         const src = this.notationGraphStore.getNode(e.source);
         if (
           src.syntaxOutlinks.includes(e.target) ||
-          src.syntaxInlinks.includes(e.target)
+          src.syntaxInlinks.includes(e.target) ||
+          linkedPairs.has(`${e.source}_${e.target}`)
         ) {
-          continue; // already linked
+          return false; // already linked
         }
-        this.notationGraphStore.insertLink(e.source, e.target, LinkType.Syntax);
-        added++;
-      }
+        linkedPairs.add(`${e.source}_${e.target}`);
+        linkedPairs.add(`${e.target}_${e.source}`);
+        return true;
+      });
+      this.notationGraphStore.transaction(
+        `Add ${newEdges.length} predicted edges`,
+        () => {
+          for (const e of newEdges) {
+            this.notationGraphStore.insertLink(
+              e.source,
+              e.target,
+              LinkType.Syntax,
+            );
+          }
+        },
+      );
+      const added = newEdges.length;
       this.setYolo26Status(
         `Added ${added} predicted edge(s) from ${result.edges.length} candidates` +
           (threshold !== undefined ? ` (threshold ${threshold})` : "") +
@@ -308,9 +341,14 @@ export class MainMenuController implements IController {
    */
   public clearAllEdges(): void {
     const links = [...this.notationGraphStore.syntaxLinks];
-    for (const link of links) {
-      this.notationGraphStore.removeLink(link.fromId, link.toId, link.type);
+    if (links.length > 0) {
+      this.historyStore.createCheckpoint("Before clearing all edges");
     }
+    this.notationGraphStore.transaction(`Clear ${links.length} edges`, () => {
+      for (const link of links) {
+        this.notationGraphStore.removeLink(link.fromId, link.toId, link.type);
+      }
+    });
     this.setYolo26Status(
       links.length === 0
         ? "No edges to clear."
@@ -412,9 +450,15 @@ export class MainMenuController implements IController {
 
   public removeSelectedNodes(): void {
     if (!this.jotaiStore.get(this.canRemoveNodesAtom)) return;
-    for (const nodeId of this.selectionStore.selectedNodeIds) {
-      this.notationGraphStore.removeNodeWithLinks(nodeId);
-    }
+    const nodeIds = [...this.selectionStore.selectedNodeIds];
+    this.notationGraphStore.transaction(
+      `Remove ${nodeIds.length} node(s)`,
+      () => {
+        for (const nodeId of nodeIds) {
+          this.notationGraphStore.removeNodeWithLinks(nodeId);
+        }
+      },
+    );
   }
 
   public zoomToSelectedNode(): void {
@@ -449,13 +493,19 @@ export class MainMenuController implements IController {
       this.jotaiStore.get(this.editorStateStore.displayPrecedenceLinksAtom) &&
       this.toolbeltController.currentTool !== EditorTool.SyntaxLinks;
 
-    const links = this.selectionStore.partiallySelectedLinks;
-    for (const link of links) {
-      if (link.type === LinkType.Syntax && !canRemoveSyntaxLinks) continue;
-      if (link.type === LinkType.Precedence && !canRemovePrecedenceLinks)
-        continue;
-      this.notationGraphStore.removeLink(link.fromId, link.toId, link.type);
-    }
+    const links = this.selectionStore.partiallySelectedLinks.filter(
+      (link) =>
+        (link.type === LinkType.Syntax && canRemoveSyntaxLinks) ||
+        (link.type === LinkType.Precedence && canRemovePrecedenceLinks),
+    );
+    this.notationGraphStore.transaction(
+      `Remove ${links.length} link(s)`,
+      () => {
+        for (const link of links) {
+          this.notationGraphStore.removeLink(link.fromId, link.toId, link.type);
+        }
+      },
+    );
   }
 
   public clearSelection(): void {
@@ -464,18 +514,37 @@ export class MainMenuController implements IController {
   }
 
   public undo(): void {
-    if (!this.historyStore.undo()) return;
-    this.selectionStore.clearSelection();
+    this.navigateHistory(() => this.historyStore.undo());
   }
 
   public redo(): void {
-    if (!this.historyStore.redo()) return;
+    this.navigateHistory(() => this.historyStore.redo());
+  }
+
+  public jumpToHistoryEntry(entryId: number): void {
+    this.navigateHistory(() => this.historyStore.jumpTo(entryId));
+  }
+
+  /**
+   * Moves in the history, the steps that cannot be applied
+   * anymore are reported to the user
+   */
+  private navigateHistory(navigate: () => boolean): void {
+    try {
+      if (!navigate()) return;
+    } catch (e) {
+      console.error(e);
+      window.alert(String((e as Error).message ?? e));
+    }
     this.selectionStore.clearSelection();
   }
 
   public async generateGraphFromStafflines(): Promise<void> {
     if (!this.jotaiStore.get(this.canGenerateGraphFromStafflinesAtom)) return;
 
+    this.historyStore.createCheckpoint(
+      "Before generating graph from stafflines",
+    );
     const api = this.pythonRuntime.maskManipulation;
 
     // get the stafflines
@@ -507,12 +576,21 @@ export class MainMenuController implements IController {
       data: {},
       polygon: null,
     };
-    this.notationGraphStore.insertNode(staff);
+    this.notationGraphStore.transaction(
+      "Generate staff from stafflines",
+      () => {
+        this.notationGraphStore.insertNode(staff);
 
-    // add syntax links from the new staff to all stafflines
-    for (const line of staffLines) {
-      this.notationGraphStore.insertLink(staff.id, line.id, LinkType.Syntax);
-    }
+        // add syntax links from the new staff to all stafflines
+        for (const line of staffLines) {
+          this.notationGraphStore.insertLink(
+            staff.id,
+            line.id,
+            LinkType.Syntax,
+          );
+        }
+      },
+    );
 
     // create the staffspace objects and link them from the staff
     console.log("Generating staff spaces...");
@@ -522,31 +600,33 @@ export class MainMenuController implements IController {
       ),
     );
     const staffSpaces: Node[] = [];
-    for (const proposedStaffspace of proposedStaffspaces) {
-      const staffSpace: Node = {
-        id: this.notationGraphStore.getFreeId(),
-        className: "staffSpace",
-        top: proposedStaffspace.top,
-        left: proposedStaffspace.left,
-        width: proposedStaffspace.width,
-        height: proposedStaffspace.height,
-        syntaxInlinks: [],
-        syntaxOutlinks: [],
-        precedenceInlinks: [],
-        precedenceOutlinks: [],
-        decodedMask: proposedStaffspace.decodedMask,
-        textTranscription: null,
-        data: {},
-        polygon: null,
-      };
-      staffSpaces.push(staffSpace);
-      this.notationGraphStore.insertNode(staffSpace);
-      this.notationGraphStore.insertLink(
-        staff.id,
-        staffSpace.id,
-        LinkType.Syntax,
-      );
-    }
+    this.notationGraphStore.transaction("Generate staff spaces", () => {
+      for (const proposedStaffspace of proposedStaffspaces) {
+        const staffSpace: Node = {
+          id: this.notationGraphStore.getFreeId(),
+          className: "staffSpace",
+          top: proposedStaffspace.top,
+          left: proposedStaffspace.left,
+          width: proposedStaffspace.width,
+          height: proposedStaffspace.height,
+          syntaxInlinks: [],
+          syntaxOutlinks: [],
+          precedenceInlinks: [],
+          precedenceOutlinks: [],
+          decodedMask: proposedStaffspace.decodedMask,
+          textTranscription: null,
+          data: {},
+          polygon: null,
+        };
+        staffSpaces.push(staffSpace);
+        this.notationGraphStore.insertNode(staffSpace);
+        this.notationGraphStore.insertLink(
+          staff.id,
+          staffSpace.id,
+          LinkType.Syntax,
+        );
+      }
+    });
 
     // make sure the new objects are visible
     this.classVisibilityStore.setClassVisibility("staff", true);
@@ -579,22 +659,24 @@ export class MainMenuController implements IController {
     );
 
     // reconstruct created links in our document
-    for (const inNode of interestingInNodes) {
-      for (const inlink of inNode.syntaxInlinks) {
-        const hasLink = this.notationGraphStore.hasLink(
-          inlink,
-          inNode.id,
-          LinkType.Syntax,
-        );
-        if (!hasLink) {
-          this.notationGraphStore.insertLink(
+    this.notationGraphStore.transaction("Snap nodes to staves", () => {
+      for (const inNode of interestingInNodes) {
+        for (const inlink of inNode.syntaxInlinks) {
+          const hasLink = this.notationGraphStore.hasLink(
             inlink,
             inNode.id,
             LinkType.Syntax,
           );
+          if (!hasLink) {
+            this.notationGraphStore.insertLink(
+              inlink,
+              inNode.id,
+              LinkType.Syntax,
+            );
+          }
         }
       }
-    }
+    });
 
     console.log("DONE!");
   }
@@ -632,15 +714,15 @@ export class MainMenuController implements IController {
         this.backgroundImageStore.imageUrl,
         runOptions,
       );
-      const removed = this.removeYolo26PredictionNodes(
-        sourcesToReplace,
-        region,
-      );
-      const inserted = this.insertYolo26Predictions(result.predictions);
-      const deduplicated = this.removeDuplicateYolo26PredictionNodes(
-        runOptions,
-        region,
-      );
+      const [removed, inserted, deduplicated] =
+        this.notationGraphStore.transaction(
+          `Run ${this.formatSources(sourcesToReplace)} detection`,
+          () => [
+            this.removeYolo26PredictionNodes(sourcesToReplace, region),
+            this.insertYolo26Predictions(result.predictions),
+            this.removeDuplicateYolo26PredictionNodes(runOptions, region),
+          ],
+        );
       const message =
         `Inserted ${inserted} ${this.formatSources(sourcesToReplace)} predicted symbols` +
         (region === null ? "" : " in the selected area") +
@@ -664,7 +746,10 @@ export class MainMenuController implements IController {
   }
 
   public clearYolo26Predictions(): void {
-    const removedCount = this.removeYolo26PredictionNodes();
+    const removedCount = this.notationGraphStore.transaction(
+      "Clear predicted symbols",
+      () => this.removeYolo26PredictionNodes(),
+    );
 
     if (removedCount === 0) {
       this.jotaiStore.set(
@@ -679,6 +764,53 @@ export class MainMenuController implements IController {
     this.jotaiStore.set(this.yolo26StatusBaseAtom, message);
   }
 
+  /**
+   * Inserts predictions from an offline COCO / YOLO prediction file
+   * as prediction nodes, removing the ones overlapping with
+   * already present predictions
+   */
+  public importPredictionFile(
+    content: string,
+    fileName: string,
+    options: Omit<
+      PredictionFileOptions,
+      "imageName" | "imageWidth" | "imageHeight"
+    >,
+  ): void {
+    const { predictions, unknownClassCounts } = parsePredictionFile(
+      content,
+      fileName,
+      {
+        ...options,
+        imageName: this.notationGraphStore.metadata.document,
+        imageWidth: this.jotaiStore.get(this.backgroundImageStore.widthAtom),
+        imageHeight: this.jotaiStore.get(this.backgroundImageStore.heightAtom),
+      },
+    );
+
+    const [inserted, deduplicated] = this.notationGraphStore.transaction(
+      `Import predictions from ${fileName}`,
+      () => [
+        this.insertYolo26Predictions(predictions),
+        this.removeDuplicateYolo26PredictionNodes(),
+      ],
+    );
+    const unknownCount = [...unknownClassCounts.values()].reduce(
+      (a, b) => a + b,
+      0,
+    );
+    const message =
+      `Imported ${inserted} predicted symbols from ${fileName}` +
+      (deduplicated > 0
+        ? ` and removed ${deduplicated} overlapping predictions`
+        : "") +
+      (unknownCount > 0
+        ? `, left out ${unknownCount} predictions of class IDs missing ` +
+          `in the class map (${[...unknownClassCounts.keys()].join(", ")}).`
+        : ".");
+    this.jotaiStore.set(this.yolo26StatusBaseAtom, message);
+  }
+
   private removeDuplicateYolo26PredictionNodes(
     options: Yolo26DetectionOptions = DEFAULT_YOLO26_DETECTION_OPTIONS,
     region: DOMRect | null = null,
@@ -919,7 +1051,7 @@ export class MainMenuController implements IController {
 
   private getPredictionSource(node: Node): SymbolDetectionSource | null {
     const source = node.data["symbol_detector_source"]?.value;
-    if (source === "large" || source === "small") {
+    if (source === "large" || source === "small" || source === "file") {
       return source;
     }
     return null;
@@ -0,0 +1,346 @@
+import { JSX } from "react";
+import { atom, Atom, PrimitiveAtom, useAtomValue } from "jotai";
+import { JotaiStore } from "../model/JotaiStore";
+import { NotationGraphStore } from "../model/notation-graph-store/NotationGraphStore";
+import { IController } from "./IController";
+import { ZoomController } from "./ZoomController";
+import { MungFile } from "../../mung/MungFile";
+import { Node } from "../../mung/Node";
+import { diffMungFiles } from "../../mung/diffMungFiles";
+import { getChangedFieldGroups, NodeFieldGroup } from "../model/CollabOp";
+import {
+  MergeConflict,
+  MergeSide,
+  MungMerge,
+  resolveMungMerge,
+  threeWayMerge,
+} from "../../mung/threeWayMerge";
+
+/**
+ * Colours of the two merged versions in the conflict overlay
+ */
+export const MERGE_SIDE_COLORS: Record<MergeSide, string> = {
+  ours: "#1976d2",
+  theirs: "#c2185b",
+};
+
+/**
+ * Merges two annotators' versions of the document derived from a common
+ * ancestor. Non-conflicting changes are merged automatically, conflicts
+ * are displayed over the scene and resolved one by one. The result
+ * replaces the edited document as a single undoable transaction.
+ */
+export class MergeController implements IController {
+  public readonly controllerName = "MergeController";
+
+  private readonly jotaiStore: JotaiStore;
+  private readonly notationGraphStore: NotationGraphStore;
+  private readonly zoomController: ZoomController;
+
+  constructor(
+    jotaiStore: JotaiStore,
+    notationGraphStore: NotationGraphStore,
+    zoomController: ZoomController,
+  ) {
+    this.jotaiStore = jotaiStore;
+    this.notationGraphStore = notationGraphStore;
+    this.zoomController = zoomController;
+  }
+
+  public readonly isEnabledAtom: Atom<boolean> = atom(
+    (get) => get(this.mergeBaseAtom) !== null,
+  );
+
+  public get isEnabled(): boolean {
+    return this.jotaiStore.get(this.isEnabledAtom);
+  }
+
+  ///////////
+  // State //
+  ///////////
+
+  private readonly isMergeDialogOpenBaseAtom = atom<boolean>(false);
+
+  public readonly isMergeDialogOpenAtom = atom((get) =>
+    get(this.isMergeDialogOpenBaseAtom),
+  );
+
+  private mergeBaseAtom = atom<MungMerge | null>(null);
+
+  /**
+   * The edited document when the merge started, the merge is applied
+   * as a diff against it, so that edits made meanwhile are kept
+   */
+  private documentAtMergeStart: MungFile | null = null;
+
+  /**
+   * The merge in progress, null when none is
+   */
+  public readonly mergeAtom: Atom<MungMerge | null> = atom((get) =>
+    get(this.mergeBaseAtom),
+  );
+
+  private resolutionsBaseAtom: PrimitiveAtom<ReadonlyMap<number, MergeSide>> =
+    atom<ReadonlyMap<number, MergeSide>>(new Map());
+
+  /**
+   * Chosen versions of conflicting nodes, by the node ID
+   */
+  public readonly resolutionsAtom: Atom<ReadonlyMap<number, MergeSide>> = atom(
+    (get) => get(this.resolutionsBaseAtom),
+  );
+
+  private selectedConflictIndexBaseAtom = atom<number>(0);
+
+  /**
+   * Index of the conflict being resolved
+   */
+  public readonly selectedConflictIndexAtom: Atom<number> = atom((get) =>
+    get(this.selectedConflictIndexBaseAtom),
+  );
+
+  /////////////
+  // Actions //
+  /////////////
+
+  public openMergeDialog(): void {
+    this.jotaiStore.set(this.isMergeDialogOpenBaseAtom, true);
+  }
+
+  public closeMergeDialog(): void {
+    this.jotaiStore.set(this.isMergeDialogOpenBaseAtom, false);
+  }
+
+  /**
+   * Merges the two versions and starts the resolution of conflicts
+   * @param ancestor The version both merged versions were derived from
+   * @param ours Our version, usually the edited document
+   * @param theirs The other annotator's version
+   */
+  public startMerge(ancestor: MungFile, ours: MungFile, theirs: MungFile) {
+    const merge = threeWayMerge(ancestor, ours, theirs);
+    this.documentAtMergeStart = this.notationGraphStore.getMungFile();
+    this.jotaiStore.set(this.mergeBaseAtom, merge);
+    this.jotaiStore.set(this.resolutionsBaseAtom, new Map());
+    this.selectConflict(0);
+  }
+
+  /**
+   * Moves to the given conflict and zooms to its node
+   */
+  public selectConflict(index: number): void {
+    const merge = this.jotaiStore.get(this.mergeBaseAtom);
+    if (merge === null || merge.conflicts.length === 0) return;
+    const count = merge.conflicts.length;
+    const wrappedIndex = ((index % count) + count) % count;
+    this.jotaiStore.set(this.selectedConflictIndexBaseAtom, wrappedIndex);
+
+    const conflict = merge.conflicts[wrappedIndex];
+    const node = conflict.ours ?? conflict.theirs ?? conflict.ancestor;
+    if (node !== null) this.zoomController.zoomToNode(node);
+  }
+
+  public resolveConflict(nodeId: number, side: MergeSide): void {
+    const resolutions = new Map(this.jotaiStore.get(this.resolutionsBaseAtom));
+    resolutions.set(nodeId, side);
+    this.jotaiStore.set(this.resolutionsBaseAtom, resolutions);
+  }
+
+  public cancelMerge(): void {
+    this.documentAtMergeStart = null;
+    this.jotaiStore.set(this.mergeBaseAtom, null);
+    this.jotaiStore.set(this.resolutionsBaseAtom, new Map());
+  }
+
+  /**
+   * Changes the edited document into the merged one in a single
+   * transaction, unresolved conflicts are won by our version. Only the
+   * differences between the document at the start of the merge and
+   * the merged one are applied, edits made during the merge are kept.
+   */
+  public applyMerge(): void {
+    const merge = this.jotaiStore.get(this.mergeBaseAtom);
+    const startFile = this.documentAtMergeStart;
+    if (merge === null || startFile === null) return;
+    const store = this.notationGraphStore;
+    const mergedFile: MungFile = {
+      ...startFile,
+      nodes: resolveMungMerge(
+        merge,
+        this.jotaiStore.get(this.resolutionsBaseAtom),
+      ),
+    };
+    const diff = diffMungFiles(startFile, mergedFile);
+
+    store.transaction("Merge annotations", () => {
+      for (const link of diff.removedLinks) {
+        if (store.hasLink(link.fromId, link.toId, link.type)) {
+          store.removeLink(link.fromId, link.toId, link.type);
+        }
+      }
+      for (const node of diff.removedNodes) {
+        if (store.hasNode(node.id)) store.removeNodeWithLinks(node.id);
+      }
+      for (const { before, after } of diff.changedNodes) {
+        if (!store.hasNode(after.id)) continue; // removed during the merge
+        let node = store.getNode(after.id);
+        for (const group of getChangedFieldGroups(before, after)) {
+          node = copyFieldGroup(node, after, group);
+        }
+        store.updateNode(node);
+      }
+
+      // nodes added during the merge may have taken their IDs
+      const newIds = new Map<number, number>();
+      for (const node of diff.addedNodes) {
+        const id = store.hasNode(node.id) ? store.getFreeId() : node.id;
+        newIds.set(node.id, id);
+        store.insertNode({
+          ...node,
+          id,
+          syntaxOutlinks: [],
+          syntaxInlinks: [],
+          precedenceOutlinks: [],
+          precedenceInlinks: [],
+        });
+      }
+      for (const link of diff.addedLinks) {
+        const fromId = newIds.get(link.fromId) ?? link.fromId;
+        const toId = newIds.get(link.toId) ?? link.toId;
+        if (
+          store.hasNode(fromId) &&
+          store.hasNode(toId) &&
+          !store.hasLink(fromId, toId, link.type)
+        ) {
+          store.insertLink(fromId, toId, link.type);
+        }
+      }
+    });
+
+    this.cancelMerge();
+  }
+
+  ///////////////
+  // Rendering //
+  ///////////////
+
+  public renderSVG(): JSX.Element | null {
+    const merge = useAtomValue(this.mergeAtom);
+    const resolutions = useAtomValue(this.resolutionsAtom);
+    const selectedIndex = useAtomValue(this.selectedConflictIndexAtom);
+    if (merge === null) return null;
+
+    return (
+      <g style={{ pointerEvents: "none" }}>
+        {merge.conflicts.map((conflict, index) => (
+          <ConflictOverlay
+            key={conflict.nodeId}
+            conflict={conflict}
+            resolution={resolutions.get(conflict.nodeId) ?? null}
+            isSelected={index === selectedIndex}
+          />
+        ))}
+      </g>
+    );
+  }
+}
+
+interface ConflictOverlayProps {
+  readonly conflict: MergeConflict;
+  readonly resolution: MergeSide | null;
+  readonly isSelected: boolean;
+}
+
+/**
+ * Both versions of a conflicting node, our version labeled above
+ * and their version below its box, the chosen one is drawn solid
+ */
+function ConflictOverlay(props: ConflictOverlayProps) {
+  const { conflict, resolution, isSelected } = props;
+  return (
+    <g opacity={isSelected ? 1 : 0.5}>
+      {conflict.ours !== null && (
+        <ConflictNode
+          node={conflict.ours}
+          side="ours"
+          isChosen={resolution !== "theirs"}
+          isSelected={isSelected}
+        />
+      )}
+      {conflict.theirs !== null && (
+        <ConflictNode
+          node={conflict.theirs}
+          side="theirs"
+          isChosen={resolution === "theirs"}
+          isSelected={isSelected}
+        />
+      )}
+    </g>
+  );
+}
+
+function ConflictNode(props: {
+  node: Node;
+  side: MergeSide;
+  isChosen: boolean;
+  isSelected: boolean;
+}) {
+  const { node, side } = props;
+  const color = MERGE_SIDE_COLORS[side];
+  return (
+    <>
+      <rect
+        x={node.left}
+        y={node.top}
+        width={node.width}
+        height={node.height}
+        fill={color}
+        fillOpacity={props.isChosen ? 0.2 : 0}
+        stroke={color}
+        strokeWidth={`calc(var(--scene-screen-pixel) * ${props.isSelected ? 3 : 2})`}
+        strokeDasharray={
+          props.isChosen ? undefined : "calc(var(--scene-screen-pixel) * 4)"
+        }
+      />
+      {props.isSelected && (
+        <text
+          x={node.left}
+          y={side === "ours" ? node.top : node.top + node.height}
+          dy={side === "ours" ? "-0.3em" : "1em"}
+          fill={color}
+          fontSize="calc(var(--scene-screen-pixel) * 12)"
+          fontFamily="sans-serif"
+        >
+          {side}: {node.className}
+        </text>
+      )}
+    </>
+  );
+}
+
+/**
+ * Returns the node with the values of one field group taken from another
+ * version of it
+ */
+function copyFieldGroup(node: Node, source: Node, group: NodeFieldGroup): Node {
+  switch (group) {
+    case "className":
+      return { ...node, className: source.className };
+    case "geometry":
+      return {
+        ...node,
+        top: source.top,
+        left: source.left,
+        width: source.width,
+        height: source.height,
+        decodedMask: source.decodedMask,
+        polygon: source.polygon,
+      };
+    case "textTranscription":
+      return { ...node, textTranscription: source.textTranscription };
+    case "data":
+      return { ...node, data: source.data };
+    case "extraXml":
+      return { ...node, extraXml: source.extraXml };
+  }
+}
@@ -0,0 +1,383 @@
+import { JSX } from "react";
+import { atom, Atom, PrimitiveAtom, useAtomValue } from "jotai";
+import { JotaiStore } from "../model/JotaiStore";
+import { NotationGraphStore } from "../model/notation-graph-store/NotationGraphStore";
+import { IController } from "./IController";
+import { ZoomController } from "./ZoomController";
+import { MungFile } from "../../mung/MungFile";
+import { Node } from "../../mung/Node";
+import { LinkWithNodes } from "../../mung/LinkWithNodes";
+import { getLinkId } from "../../mung/getLinkId";
+import { getLinksOfNode } from "../../mung/getLinksOfNode";
+import { includesLink } from "../../mung/includesLink";
+import { diffMungFiles, MungDiff } from "../../mung/diffMungFiles";
+import { readMungXmlInWorker } from "../../mung/readMungXmlInWorker";
+
+/**
+ * A saved version of the edited document
+ */
+export interface Revision {
+  /**
+   * Identifies the revision for the revision source
+   */
+  readonly id: string;
+
+  /**
+   * When the revision was saved, ISO 8601 string
+   */
+  readonly savedAt: string;
+}
+
+/**
+ * Provides saved versions of the edited document, e.g. from a backend
+ */
+export interface RevisionSource {
+  /**
+   * Lists the available revisions, newest first
+   */
+  readonly listRevisions: () => Promise<readonly Revision[]>;
+
+  /**
+   * Fetches the MuNG XML string of a revision
+   */
+  readonly getRevisionMung: (revisionId: string) => Promise<string>;
+}
+
+/**
+ * Two compared versions of the document and their differences
+ */
+export interface RevisionComparison {
+  /**
+   * The older version, nodes are restored from it
+   */
+  readonly baseRevisionId: string;
+
+  /**
+   * The newer version, null for the state in the editor
+   * at the time of comparing
+   */
+  readonly targetRevisionId: string | null;
+
+  readonly diff: MungDiff;
+}
+
+/**
+ * Colours of the differences in the overlay
+ */
+export const REVISION_DIFF_COLORS = {
+  added: "#2e7d32",
+  removed: "#d32f2f",
+  changed: "#ed6c02",
+} as const;
+
+/**
+ * Compares saved revisions of the document with each other or with
+ * the current state and overlays the differences over the scene.
+ * Individual nodes can be restored from the older revision.
+ */
+export class RevisionDiffController implements IController {
+  public readonly controllerName = "RevisionDiffController";
+
+  private readonly jotaiStore: JotaiStore;
+  private readonly notationGraphStore: NotationGraphStore;
+  private readonly zoomController: ZoomController;
+  private readonly revisionSource: RevisionSource;
+
+  /**
+   * Parsed revisions, they do not change once saved
+   */
+  private revisionFiles = new Map<string, MungFile>();
+
+  /**
+   * The older compared version, kept to restore nodes from
+   */
+  private baseFile: MungFile | null = null;
+
+  constructor(
+    jotaiStore: JotaiStore,
+    notationGraphStore: NotationGraphStore,
+    zoomController: ZoomController,
+    revisionSource: RevisionSource,
+  ) {
+    this.jotaiStore = jotaiStore;
+    this.notationGraphStore = notationGraphStore;
+    this.zoomController = zoomController;
+    this.revisionSource = revisionSource;
+  }
+
+  public readonly isEnabledAtom: Atom<boolean> = atom(
+    (get) => get(this.comparisonBaseAtom) !== null,
+  );
+
+  public get isEnabled(): boolean {
+    return this.jotaiStore.get(this.isEnabledAtom);
+  }
+
+  ///////////
+  // State //
+  ///////////
+
+  private revisionsBaseAtom: PrimitiveAtom<readonly Revision[]> = atom<
+    readonly Revision[]
+  >([]);
+
+  /**
+   * Revisions of the document, newest first
+   */
+  public readonly revisionsAtom: Atom<readonly Revision[]> = atom((get) =>
+    get(this.revisionsBaseAtom),
+  );
+
+  private comparisonBaseAtom = atom<RevisionComparison | null>(null);
+
+  /**
+   * The displayed comparison, null when none is displayed
+   */
+  public readonly comparisonAtom: Atom<RevisionComparison | null> = atom(
+    (get) => get(this.comparisonBaseAtom),
+  );
+
+  private isLoadingBaseAtom = atom<boolean>(false);
+
+  /**
+   * True while revisions are being downloaded and compared
+   */
+  public readonly isLoadingAtom: Atom<boolean> = atom((get) =>
+    get(this.isLoadingBaseAtom),
+  );
+
+  /////////////
+  // Actions //
+  /////////////
+
+  public async loadRevisions(): Promise<void> {
+    const revisions = await this.revisionSource.listRevisions();
+    this.jotaiStore.set(this.revisionsBaseAtom, revisions);
+  }
+
+  /**
+   * Compares two versions and displays their differences
+   * @param baseRevisionId The older version
+   * @param targetRevisionId The newer version, null for the current state
+   */
+  public async compare(
+    baseRevisionId: string,
+    targetRevisionId: string | null,
+  ): Promise<void> {
+    this.jotaiStore.set(this.isLoadingBaseAtom, true);
+    try {
+      const baseFile = await this.getRevisionFile(baseRevisionId);
+      const targetFile =
+        targetRevisionId === null
+          ? this.notationGraphStore.getMungFile()
+          : await this.getRevisionFile(targetRevisionId);
+      this.baseFile = baseFile;
+      this.jotaiStore.set(this.comparisonBaseAtom, {
+        baseRevisionId,
+        targetRevisionId,
+        diff: diffMungFiles(baseFile, targetFile),
+      });
+    } finally {
+      this.jotaiStore.set(this.isLoadingBaseAtom, false);
+    }
+  }
+
+  public closeComparison(): void {
+    this.baseFile = null;
+    this.jotaiStore.set(this.comparisonBaseAtom, null);
+  }
+
+  /**
+   * Moves the view to a node of the compared versions
+   */
+  public showNode(node: Node): void {
+    this.zoomController.zoomToNode(node);
+  }
+
+  /**
+   * Returns the node to its value in the base revision, together with its
+   * links to nodes that exist. A node missing in the revision is removed.
+   */
+  public restoreNode(nodeId: number): void {
+    const comparison = this.jotaiStore.get(this.comparisonBaseAtom);
+    if (comparison === null || this.baseFile === null) return;
+    const store = this.notationGraphStore;
+    const baseNode = this.baseFile.nodes.find((n) => n.id === nodeId);
+
+    store.transaction(
+      `Restore node ${nodeId} from revision ${comparison.baseRevisionId}`,
+      () => {
+        if (baseNode === undefined) {
+          if (store.hasNode(nodeId)) store.removeNodeWithLinks(nodeId);
+          return;
+        }
+
+        // links to the other nodes that still exist, the restored node
+        // itself counts as present even when it is being re-inserted
+        const isPresent = (id: number) => id === nodeId || store.hasNode(id);
+        const baseLinks = getLinksOfNode(baseNode).filter(
+          (link) => isPresent(link.fromId) && isPresent(link.toId),
+        );
+        const unlinkedNode: Node = {
+          ...baseNode,
+          syntaxOutlinks: [],
+          syntaxInlinks: [],
+          precedenceOutlinks: [],
+          precedenceInlinks: [],
+        };
+
+        if (store.hasNode(nodeId)) {
+          for (const link of getLinksOfNode(store.getNode(nodeId))) {
+            if (!includesLink(baseLinks, link)) {
+              store.removeLink(link.fromId, link.toId, link.type);
+            }
+          }
+          const currentNode = store.getNode(nodeId);
+          store.updateNode({
+            ...unlinkedNode,
+            syntaxOutlinks: currentNode.syntaxOutlinks,
+            syntaxInlinks: currentNode.syntaxInlinks,
+            precedenceOutlinks: currentNode.precedenceOutlinks,
+            precedenceInlinks: currentNode.precedenceInlinks,
+          });
+        } else {
+          store.insertNode(unlinkedNode);
+        }
+
+        // checked again, the node may link to itself
+        for (const link of baseLinks) {
+          if (
+            store.hasNode(link.fromId) &&
+            store.hasNode(link.toId) &&
+            !store.hasLink(link.fromId, link.toId, link.type)
+          ) {
+            store.insertLink(link.fromId, link.toId, link.type);
+          }
+        }
+      },
+    );
+
+    // the current state changed, so did its differences
+    if (comparison.targetRevisionId === null) {
+      this.jotaiStore.set(this.comparisonBaseAtom, {
+        ...comparison,
+        diff: diffMungFiles(this.baseFile, store.getMungFile()),
+      });
+    }
+  }
+
+  private async getRevisionFile(revisionId: string): Promise<MungFile> {
+    const cachedFile = this.revisionFiles.get(revisionId);
+    if (cachedFile !== undefined) return cachedFile;
+    const mungXml = await this.revisionSource.getRevisionMung(revisionId);
+    const { mung } = await readMungXmlInWorker(mungXml);
+    this.revisionFiles.set(revisionId, mung);
+    return mung;
+  }
+
+  ///////////////
+  // Rendering //
+  ///////////////
+
+  public renderSVG(): JSX.Element | null {
+    const comparison = useAtomValue(this.comparisonAtom);
+    if (comparison === null) return null;
+    const { diff } = comparison;
+
+    return (
+      <g style={{ pointerEvents: "none" }}>
+        {diff.removedLinks.map((link) => (
+          <DiffLink
+            key={"removed-" + getLinkId(link)}
+            link={link}
+            color={REVISION_DIFF_COLORS.removed}
+            isDashed={true}
+          />
+        ))}
+        {diff.addedLinks.map((link) => (
+          <DiffLink
+            key={"added-" + getLinkId(link)}
+            link={link}
+            color={REVISION_DIFF_COLORS.added}
+            isDashed={false}
+          />
+        ))}
+        {diff.removedNodes.map((node) => (
+          <DiffRectangle
+            key={"removed-" + node.id}
+            node={node}
+            color={REVISION_DIFF_COLORS.removed}
+            isDashed={true}
+          />
+        ))}
+        {diff.addedNodes.map((node) => (
+          <DiffRectangle
+            key={"added-" + node.id}
+            node={node}
+            color={REVISION_DIFF_COLORS.added}
+            isDashed={false}
+          />
+        ))}
+        {diff.changedNodes.map(({ before, after }) => (
+          <g key={"changed-" + after.id}>
+            <DiffRectangle
+              node={before}
+              color={REVISION_DIFF_COLORS.changed}
+              isDashed={true}
+            />
+            <DiffRectangle
+              node={after}
+              color={REVISION_DIFF_COLORS.changed}
+              isDashed={false}
+            />
+          </g>
+        ))}
+      </g>
+    );
+  }
+}
+
+interface DiffShapeProps {
+  readonly color: string;
+
+  /**
+   * Dashed shapes belong to the older version
+   */
+  readonly isDashed: boolean;
+}
+
+function DiffRectangle(props: DiffShapeProps & { node: Node }) {
+  const { node } = props;
+  return (
+    <rect
+      x={node.left}
+      y={node.top}
+      width={node.width}
+      height={node.height}
+      fill={props.isDashed ? "none" : props.color}
+      fillOpacity={0.2}
+      stroke={props.color}
+      strokeWidth="calc(var(--scene-screen-pixel) * 2)"
+      strokeDasharray={
+        props.isDashed ? "calc(var(--scene-screen-pixel) * 4)" : undefined
+      }
+    />
+  );
+}
+
+function DiffLink(props: DiffShapeProps & { link: LinkWithNodes }) {
+  const { fromNode, toNode } = props.link;
+  return (
+    <line
+      x1={fromNode.left + fromNode.width / 2}
+      y1={fromNode.top + fromNode.height / 2}
+      x2={toNode.left + toNode.width / 2}
+      y2={toNode.top + toNode.height / 2}
+      stroke={props.color}
+      strokeWidth="calc(var(--scene-screen-pixel) * 3)"
+      strokeDasharray={
+        props.isDashed ? "calc(var(--scene-screen-pixel) * 6)" : undefined
+      }
+    />
+  );
+}
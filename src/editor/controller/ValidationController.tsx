@@ -1,22 +1,87 @@
-import { atom } from "jotai";
+import { JSX } from "react";
+import { atom, Atom, PrimitiveAtom, useAtomValue } from "jotai";
 import { PythonRuntime } from "../../../pyodide/PythonRuntime";
 import { NotationGraphStore } from "../model/notation-graph-store/NotationGraphStore";
 import { ValidationStore } from "../model/ValidationStore";
 import { writeMungXmlString } from "../../mung/writeMungXmlString";
 import { JotaiStore } from "../model/JotaiStore";
-import { ValidationIssue } from "../model/ValidationIssue";
+import { isWarningIssue, ValidationIssue } from "../model/ValidationIssue";
 import { DeltaInterpreter } from "../model/DeltaInterpreter";
+import { SettingsStore, ValidationEngineKind } from "../model/SettingsStore";
+import {
+  getLinkedNodeIds,
+  ValidationEngine,
+} from "../../mung/validation/ValidationEngine";
+import { loadGrammarDefinitions } from "../../mung/validation/loadGrammarDefinitions";
+import { buildDefaultValidationEngine } from "../../mung/validation/buildDefaultValidationEngine";
+import {
+  compareValidationIssues,
+  ValidationIssuesComparison,
+} from "../../mung/validation/compareValidationIssues";
+import { Node } from "../../mung/Node";
+import {
+  parseValidationRuleSets,
+  toggleValidationRuleSet,
+  ValidationRuleSet,
+} from "../../mung/validation/ValidationRuleSet";
+import { IController } from "./IController";
+import {
+  DeclarativeRuleSet,
+  parseDeclarativeRuleSet,
+} from "../../mung/validation/DeclarativeRuleSet";
+
+/**
+ * Provides the user-defined validation rules of datasets and the rule sets
+ * enabled for the edited document, e.g. from a backend
+ */
+export interface ValidationRuleSetSource {
+  /**
+   * Fetches the rule set of the dataset as stored, null when there is none
+   */
+  readonly loadRuleSet: (dataset: string) => Promise<unknown | null>;
+
+  readonly saveRuleSet: (
+    dataset: string,
+    ruleSet: DeclarativeRuleSet,
+  ) => Promise<void>;
+
+  /**
+   * Fetches the names of the optional rule sets enabled for the document,
+   * they are document metadata and not a part of the MuNG file
+   */
+  readonly loadDocumentRuleSets: () => Promise<string[]>;
+
+  readonly saveDocumentRuleSets: (names: readonly string[]) => Promise<void>;
+}
 
 /**
  * Contains the logic behind mung validation, running in the background.
+ * In the live mode, changed nodes are re-checked as the graph changes.
+ * Draws badges over the nodes with issues.
  */
-export class ValidationController {
+export class ValidationController implements IController {
+  public readonly controllerName = "ValidationController";
+
+  /**
+   * How long to wait after the last graph change before the changed
+   * nodes are re-checked in the live mode
+   */
+  public static readonly LIVE_VALIDATION_DEBOUNCE_DELAY_MS = 300;
+
   private readonly jotaiStore: JotaiStore;
 
   private readonly validationStore: ValidationStore;
   private readonly notationGraphStore: NotationGraphStore;
   private readonly pythonRuntime: PythonRuntime;
   private readonly deltaInterpreter: DeltaInterpreter;
+  private readonly settingsStore: SettingsStore;
+  private readonly ruleSetSource: ValidationRuleSetSource | null;
+
+  /**
+   * Typescript validation engines, built once the grammars load,
+   * by the enabled rule sets joined with a space
+   */
+  private readonly engines = new Map<string, ValidationEngine>();
 
   constructor(
     jotaiStore: JotaiStore,
@@ -24,15 +89,40 @@ export class ValidationController {
     notationGraphStore: NotationGraphStore,
     pythonRuntime: PythonRuntime,
     deltaInterpreter: DeltaInterpreter,
+    settingsStore: SettingsStore,
+    ruleSetSource: ValidationRuleSetSource | null,
   ) {
     this.jotaiStore = jotaiStore;
     this.validationStore = validationStore;
     this.notationGraphStore = notationGraphStore;
     this.pythonRuntime = pythonRuntime;
     this.deltaInterpreter = deltaInterpreter;
+    this.settingsStore = settingsStore;
+    this.ruleSetSource = ruleSetSource;
+
+    // provide the engine comparison to the developer console
+    window["compareValidationEngines"] = this.compareEngines.bind(this);
+
+    // collect changed nodes for the live validation
+    // (link changes are reported as updates of both linked nodes)
+    this.notationGraphStore.onNodeInserted.subscribe((node) => {
+      this.markNodeChanged(node.id);
+    });
+    this.notationGraphStore.onNodeUpdatedOrLinked.subscribe((meta) => {
+      this.markNodeChanged(meta.nodeId);
+    });
+    this.notationGraphStore.onNodeRemoved.subscribe((node) => {
+      this.markNodeChanged(node.id);
+    });
   }
 
-  // TODO: observe changes to the graph, debounce, and trigger validations
+  public readonly isEnabledAtom: Atom<boolean> = atom(
+    (get) => get(this.validationStore.issuesAtom).length > 0,
+  );
+
+  public get isEnabled(): boolean {
+    return this.jotaiStore.get(this.isEnabledAtom);
+  }
 
   /**
    * Controls whether the validation panel is open
@@ -54,8 +144,13 @@ export class ValidationController {
 
     // start the validation process
     this.jotaiStore.set(this.isValidationRunningAtom, true);
-    const mungXml = writeMungXmlString(this.notationGraphStore.getMungFile());
-    const promise = this.pythonRuntime.mungValidation.runValidation(mungXml);
+    const engineKind = this.jotaiStore.get(
+      this.settingsStore.validationEngineAtom,
+    );
+    const promise =
+      engineKind === ValidationEngineKind.Pyodide
+        ? this.runPyodideValidation()
+        : this.runTypeScriptValidation();
 
     // when it finishes
     promise
@@ -74,16 +169,389 @@ export class ValidationController {
       });
   }
 
+  /**
+   * Validates the live notation graph with the typescript rules
+   */
+  private async runTypeScriptValidation(): Promise<ValidationIssue[]> {
+    const engine = await this.loadEngine(this.getRuleSets());
+    return engine.run(this.notationGraphStore);
+  }
+
+  private async loadEngine(
+    ruleSets: readonly ValidationRuleSet[],
+  ): Promise<ValidationEngine> {
+    const key = ruleSets.join(" ");
+    let engine = this.engines.get(key);
+    if (engine === undefined) {
+      const grammars = await loadGrammarDefinitions();
+      engine = buildDefaultValidationEngine(
+        grammars,
+        ruleSets,
+        this.jotaiStore.get(this.datasetRuleSetBaseAtom),
+      );
+      this.engines.set(key, engine);
+    }
+    return engine;
+  }
+
+  /**
+   * Validates a snapshot of the notation graph with the python rules,
+   * the reference implementation (it does not have the optional rule sets)
+   */
+  private runPyodideValidation(): Promise<ValidationIssue[]> {
+    const mungXml = writeMungXmlString(this.notationGraphStore.getMungFile());
+    return this.pythonRuntime.mungValidation.runValidation(mungXml);
+  }
+
+  /**
+   * Runs both validation engines on the current graph and reports,
+   * where their results differ (first is typescript, second is python)
+   */
+  public async compareEngines(): Promise<ValidationIssuesComparison> {
+    const pythonIssues = await this.runPyodideValidation();
+    // without the optional and dataset rules, python does not have them
+    const grammars = await loadGrammarDefinitions();
+    const typeScriptIssues = buildDefaultValidationEngine(grammars).run(
+      this.notationGraphStore,
+    );
+    return compareValidationIssues(typeScriptIssues, pythonIssues);
+  }
+
+  ///////////////
+  // Rule sets //
+  ///////////////
+
+  /**
+   * Names of the rule sets enabled for the edited document as stored,
+   * including those not known to this version
+   */
+  private ruleSetNamesBaseAtom = atom<readonly string[]>([]);
+
+  /**
+   * Optional rule sets enabled for the edited document
+   */
+  public readonly ruleSetsAtom: Atom<ValidationRuleSet[]> = atom((get) =>
+    parseValidationRuleSets(get(this.ruleSetNamesBaseAtom)),
+  );
+
+  private getRuleSets(): ValidationRuleSet[] {
+    return this.jotaiStore.get(this.ruleSetsAtom);
+  }
+
+  /**
+   * Loads the rule sets enabled for the edited document from the rule set
+   * source, without a source they stay disabled
+   */
+  public async loadDocumentRuleSets(): Promise<void> {
+    if (this.ruleSetSource === null) return;
+    try {
+      this.setRuleSetNames(await this.ruleSetSource.loadDocumentRuleSets());
+    } catch (e) {
+      this.validationStore.acceptErrorMessage(
+        "The rule sets of the document could not be loaded: " + String(e),
+      );
+      console.error(e);
+    }
+  }
+
+  /**
+   * Enables or disables a rule set for the edited document, the choice
+   * is saved to the rule set source (without one, it lasts until the
+   * editor closes) and is taken back when saving fails
+   */
+  public async setRuleSetEnabled(
+    ruleSet: ValidationRuleSet,
+    enabled: boolean,
+  ): Promise<void> {
+    const names = this.jotaiStore.get(this.ruleSetNamesBaseAtom);
+    this.setRuleSetNames(toggleValidationRuleSet(names, ruleSet, enabled));
+    if (this.ruleSetSource === null) return;
+    try {
+      await this.ruleSetSource.saveDocumentRuleSets(
+        this.jotaiStore.get(this.ruleSetNamesBaseAtom),
+      );
+    } catch (e) {
+      this.setRuleSetNames(names);
+      this.validationStore.acceptErrorMessage(
+        "The rule sets of the document could not be saved: " + String(e),
+      );
+      console.error(e);
+    }
+  }
+
+  private setRuleSetNames(names: readonly string[]): void {
+    this.jotaiStore.set(this.ruleSetNamesBaseAtom, names);
+
+    // keep the live issues consistent with the rules
+    if (this.jotaiStore.get(this.isLiveValidationEnabledBaseAtom)) {
+      this.startValidation();
+    }
+  }
+
+  ///////////////////
+  // Dataset rules //
+  ///////////////////
+
+  /**
+   * True when the rules of the dataset can be loaded and edited
+   */
+  public get hasDatasetRules(): boolean {
+    return this.ruleSetSource !== null;
+  }
+
+  private datasetRuleSetBaseAtom: PrimitiveAtom<DeclarativeRuleSet | null> =
+    atom<DeclarativeRuleSet | null>(null);
+
+  /**
+   * User-defined rules of the document's dataset, checked by the typescript
+   * engine on top of the built-in ones, null when the dataset has none
+   */
+  public readonly datasetRuleSetAtom: Atom<DeclarativeRuleSet | null> = atom(
+    (get) => get(this.datasetRuleSetBaseAtom),
+  );
+
+  private datasetRuleSetErrorBaseAtom = atom<string | null>(null);
+
+  /**
+   * Why the stored rules of the dataset could not be loaded
+   */
+  public readonly datasetRuleSetErrorAtom: Atom<string | null> = atom((get) =>
+    get(this.datasetRuleSetErrorBaseAtom),
+  );
+
+  /**
+   * Loads the rules of the document's dataset from the rule set source
+   */
+  public async loadDatasetRuleSet(): Promise<void> {
+    if (this.ruleSetSource === null) return;
+    try {
+      const storedRuleSet = await this.ruleSetSource.loadRuleSet(
+        this.notationGraphStore.metadata.dataset,
+      );
+      this.setDatasetRuleSet(
+        storedRuleSet === null ? null : parseDeclarativeRuleSet(storedRuleSet),
+      );
+      this.jotaiStore.set(this.datasetRuleSetErrorBaseAtom, null);
+    } catch (e) {
+      this.jotaiStore.set(this.datasetRuleSetErrorBaseAtom, String(e));
+      console.error(e);
+    }
+  }
+
+  /**
+   * Parses the rules written by the user and saves them for the dataset,
+   * throws when they are not a valid rule set
+   * @param ruleSetJson The rule set as a JSON string
+   */
+  public async saveDatasetRuleSet(ruleSetJson: string): Promise<void> {
+    if (this.ruleSetSource === null) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(ruleSetJson);
+    } catch (e) {
+      throw new Error("The rule set is not valid JSON: " + String(e));
+    }
+    const ruleSet = parseDeclarativeRuleSet(value);
+    await this.ruleSetSource.saveRuleSet(
+      this.notationGraphStore.metadata.dataset,
+      ruleSet,
+    );
+    this.setDatasetRuleSet(ruleSet);
+    this.jotaiStore.set(this.datasetRuleSetErrorBaseAtom, null);
+  }
+
+  private setDatasetRuleSet(ruleSet: DeclarativeRuleSet | null): void {
+    this.jotaiStore.set(this.datasetRuleSetBaseAtom, ruleSet);
+
+    // engines are rebuilt with the new rules
+    this.engines.clear();
+    if (this.jotaiStore.get(this.isLiveValidationEnabledBaseAtom)) {
+      this.startValidation();
+    }
+  }
+
+  /////////////////////
+  // Live validation //
+  /////////////////////
+
+  private isLiveValidationEnabledBaseAtom: PrimitiveAtom<boolean> =
+    atom<boolean>(false);
+
+  /**
+   * When enabled, the issues of changed nodes and of their linked neighbours
+   * are kept up to date as the graph changes (using the typescript engine)
+   */
+  public readonly isLiveValidationEnabledAtom: Atom<boolean> = atom((get) =>
+    get(this.isLiveValidationEnabledBaseAtom),
+  );
+
+  /**
+   * IDs of nodes changed since the last live validation pass
+   */
+  private changedNodeIds = new Set<number>();
+
+  private liveValidationTimeoutId: NodeJS.Timeout | null = null;
+
+  /**
+   * Turns the live validation on or off, turning it on validates
+   * the whole graph to have all the issues up to date
+   */
+  public setLiveValidationEnabled(enabled: boolean): void {
+    this.jotaiStore.set(this.isLiveValidationEnabledBaseAtom, enabled);
+    this.changedNodeIds.clear();
+    this.cancelScheduledLiveValidation();
+    if (enabled) {
+      this.startValidation();
+    }
+  }
+
+  private markNodeChanged(nodeId: number): void {
+    if (!this.jotaiStore.get(this.isLiveValidationEnabledBaseAtom)) return;
+    this.changedNodeIds.add(nodeId);
+    this.scheduleLiveValidation();
+  }
+
+  private scheduleLiveValidation(): void {
+    this.cancelScheduledLiveValidation();
+    this.liveValidationTimeoutId = setTimeout(
+      this.runLiveValidation.bind(this),
+      ValidationController.LIVE_VALIDATION_DEBOUNCE_DELAY_MS,
+    );
+  }
+
+  private cancelScheduledLiveValidation(): void {
+    if (this.liveValidationTimeoutId === null) return;
+    clearTimeout(this.liveValidationTimeoutId);
+    this.liveValidationTimeoutId = null;
+  }
+
+  /**
+   * Re-checks the changed nodes and their linked neighbours
+   * (a changed node may change the validity of the links to it)
+   */
+  private async runLiveValidation(): Promise<void> {
+    this.liveValidationTimeoutId = null;
+
+    // a running full validation would overwrite the results,
+    // so the changes wait until it finishes
+    if (this.jotaiStore.get(this.isValidationRunningAtom)) {
+      this.scheduleLiveValidation();
+      return;
+    }
+
+    const changedNodeIds = this.changedNodeIds;
+    this.changedNodeIds = new Set();
+    const nodeIds = new Set(changedNodeIds);
+    for (const nodeId of changedNodeIds) {
+      if (!this.notationGraphStore.hasNode(nodeId)) continue;
+      const node = this.notationGraphStore.getNode(nodeId);
+      getLinkedNodeIds(node).forEach((id) => nodeIds.add(id));
+    }
+
+    try {
+      const engine = await this.loadEngine(this.getRuleSets());
+      this.validationStore.acceptPartialIssues(
+        engine.runOnNodes(this.notationGraphStore, nodeIds),
+      );
+    } catch (e) {
+      this.validationStore.acceptErrorMessage(e?.toString() || String(e));
+      console.error(e);
+    }
+  }
+
   //////////////////////
   // Issue resolution //
   //////////////////////
 
   public resolveIssues(issues: ValidationIssue[]): void {
+    const errors: string[] = [];
     for (const issue of issues) {
       if (!issue.resolution) continue; // skip non-fixable issues
 
-      this.deltaInterpreter.applyDelta(issue.resolution);
+      try {
+        this.deltaInterpreter.applyDelta(issue.resolution);
+      } catch (e) {
+        // the graph has changed since the validation, keep the issue
+        console.error(e);
+        errors.push(`Node ${issue.nodeId}, code ${issue.code}: ${String(e)}`);
+        continue;
+      }
       this.validationStore.forgetIssue(issue);
     }
+    this.validationStore.acceptResolutionErrors(errors);
+  }
+
+  ///////////////
+  // Rendering //
+  ///////////////
+
+  public renderSVG(): JSX.Element | null {
+    const issues = useAtomValue(this.validationStore.issuesAtom);
+    const nodeIds = new Set(useAtomValue(this.notationGraphStore.nodeIdsAtom));
+
+    const issuesByNode = new Map<number, ValidationIssue[]>();
+    for (const issue of issues) {
+      const nodeIssues = issuesByNode.get(issue.nodeId) ?? [];
+      nodeIssues.push(issue);
+      issuesByNode.set(issue.nodeId, nodeIssues);
+    }
+
+    return (
+      <g style={{ pointerEvents: "none" }}>
+        {[...issuesByNode].map(([nodeId, nodeIssues]) =>
+          nodeIds.has(nodeId) ? (
+            <IssueBadge
+              key={nodeId}
+              nodeAtom={this.notationGraphStore.getNodeAtom(nodeId)}
+              issues={nodeIssues}
+            />
+          ) : null,
+        )}
+      </g>
+    );
   }
 }
+
+const BADGE_RADIUS = 7;
+
+/**
+ * Badge at the top-left corner of a node with issues, red when
+ * any of them is an error, yellow when all are just warnings
+ */
+function IssueBadge(props: {
+  nodeAtom: Atom<Node>;
+  issues: readonly ValidationIssue[];
+}) {
+  const node = useAtomValue(props.nodeAtom);
+  const isWarning = props.issues.every(isWarningIssue);
+  return (
+    <g transform={`translate(${node.left}, ${node.top})`}>
+      <g style={{ transform: "scale(var(--scene-screen-pixel))" }}>
+        <circle
+          cx={0}
+          cy={0}
+          r={BADGE_RADIUS}
+          fill={
+            isWarning
+              ? "var(--joy-palette-warning-400)"
+              : "var(--joy-palette-danger-500)"
+          }
+          stroke="white"
+          strokeWidth={1.5}
+        />
+        <text
+          x={0}
+          y={0}
+          fill="white"
+          fontSize={10}
+          fontWeight="bold"
+          textAnchor="middle"
+          dominantBaseline="central"
+          style={{ userSelect: "none" }}
+        >
+          {props.issues.length > 1 ? props.issues.length : "!"}
+        </text>
+      </g>
+    </g>
+  );
+}
@@ -39,9 +39,18 @@ export interface Yolo26DetectionResponse {
   readonly predictions: Yolo26Prediction[];
 }
 
-export type SymbolDetectionSource = "large" | "small";
+/**
+ * Which detector produced the prediction, "file" for predictions
+ * imported from offline prediction files
+ */
+export type SymbolDetectionSource = "large" | "small" | "file";
 
-export type DetectionModelBackend = "yolo" | "detr" | "rfdetr" | "ensemble";
+export type DetectionModelBackend =
+  | "yolo"
+  | "detr"
+  | "rfdetr"
+  | "ensemble"
+  | "file";
 
 export type DetectionModelRole = "large" | "small";
 
@@ -1,7 +1,12 @@
 import * as d3 from "d3";
 import { atom, Atom } from "jotai";
 import { RefObject, useEffect } from "react";
-import { ISimpleEvent, SimpleEventDispatcher } from "strongly-typed-events";
+import {
+  ISignal,
+  ISimpleEvent,
+  SignalDispatcher,
+  SimpleEventDispatcher,
+} from "strongly-typed-events";
 import { JotaiStore } from "../model/JotaiStore";
 import { isMacish } from "../../utils/isMacish";
 import { ToolbeltController } from "./ToolbeltController";
@@ -125,6 +130,54 @@ export class ZoomController {
       );
   }
 
+  /**
+   * Returns the part of the scene visible in the viewport (in scene space),
+   * null when the controller is not bound to the DOM
+   */
+  public getVisibleRectangle(): DOMRect | null {
+    if (this.d3SvgElement === null) return null;
+
+    const svgWidth = this.d3SvgElement.node()!.clientWidth;
+    const svgHeight = this.d3SvgElement.node()!.clientHeight;
+    const [left, top] = this.currentTransform.invert([0, 0]);
+    const [right, bottom] = this.currentTransform.invert([svgWidth, svgHeight]);
+    return new DOMRect(left, top, right - left, bottom - top);
+  }
+
+  /**
+   * Moves the viewport so that it shows the whole given rectangle
+   * (in scene space) as large as possible, e.g. the visible rectangle
+   * of another viewport with a different size
+   *
+   * @param rectangle The rectangle to show
+   * @param durationMs How fast should the transition be (in milliseconds)
+   */
+  public showRectangle(rectangle: DOMRect, durationMs: number = 250): void {
+    if (this.d3SvgElement === null || this.d3ZoomBehavior == null) return;
+    if (rectangle.width <= 0 || rectangle.height <= 0) return;
+
+    const svgWidth = this.d3SvgElement.node()!.clientWidth;
+    const svgHeight = this.d3SvgElement.node()!.clientHeight;
+    const scale = Math.min(
+      svgWidth / rectangle.width,
+      svgHeight / rectangle.height,
+    );
+
+    this.d3SvgElement
+      .transition()
+      .duration(durationMs)
+      .call(
+        this.d3ZoomBehavior.transform,
+        d3.zoomIdentity
+          .translate(svgWidth / 2, svgHeight / 2)
+          .scale(scale)
+          .translate(
+            -(rectangle.x + rectangle.width / 2),
+            -(rectangle.y + rectangle.height / 2),
+          ),
+      );
+  }
+
   ////////////////
   // Controller //
   ////////////////
@@ -154,6 +207,9 @@ export class ZoomController {
 
         // emit events
         this._onTransformChange.dispatch(transform);
+        if (event.sourceEvent) {
+          this._onUserZoom.dispatch();
+        }
       };
 
       const started = (event: d3.D3ZoomEvent<any, any>) => {
@@ -238,8 +294,9 @@ export class ZoomController {
     function panningDeltaScale(event: WheelEvent) {
       return event.deltaMode === 1 ? 25 : event.deltaMode ? 500 : 1;
     }
-    svgElement.on("wheel.custom-pan", function (event: WheelEvent) {
+    svgElement.on("wheel.custom-pan", (event: WheelEvent) => {
       if (isMacish() ? event.metaKey : event.ctrlKey) return;
+      this._onUserZoom.dispatch();
       const transform = svgElement.property("__zoom") as d3.ZoomTransform;
       const scale = (1 / transform.k) * panningDeltaScale(event);
       if (event.shiftKey) {
@@ -290,6 +347,16 @@ export class ZoomController {
     }, deps);
   }
 
+  private _onUserZoom = new SignalDispatcher();
+
+  /**
+   * Event that fires whenever the user pans or zooms the view,
+   * but not when the view is moved programmatically
+   */
+  public get onUserZoom(): ISignal {
+    return this._onUserZoom.asEvent();
+  }
+
   // === grabbing ===
 
   private isGrabbingBaseAtom = atom(false);
@@ -0,0 +1,287 @@
+import { DatasetClassMap } from "../../mung/dataset/DatasetClassMap";
+import { Yolo26Prediction } from "./Yolo26DetectionApi";
+
+export type PredictionFileFormat = "coco" | "yolo";
+
+export interface PredictionFileOptions {
+  readonly format: PredictionFileFormat;
+
+  /**
+   * Maps class IDs in the file to MuNG class names (COCO files
+   * with categories use the category names instead)
+   */
+  readonly classMap: DatasetClassMap;
+
+  /**
+   * Human-readable name of the model that produced the predictions
+   */
+  readonly modelLabel: string;
+
+  /**
+   * Predictions with a lower confidence are left out
+   */
+  readonly minConfidence: number;
+
+  /**
+   * Name of the page, used to pick the right image from COCO files
+   * with predictions for multiple images
+   */
+  readonly imageName: string;
+
+  /**
+   * Size of the page in pixels, YOLO coordinates are relative to it
+   */
+  readonly imageWidth: number;
+  readonly imageHeight: number;
+}
+
+export interface PredictionFileContent {
+  readonly predictions: Yolo26Prediction[];
+
+  /**
+   * Number of predictions left out for each class ID missing
+   * in the class map
+   */
+  readonly unknownClassCounts: Map<number, number>;
+}
+
+/**
+ * Reads offline predictions from a COCO results JSON file
+ * or a YOLO txt file, so that they can be inserted like the predictions
+ * from the symbol detection backend
+ */
+export function parsePredictionFile(
+  content: string,
+  fileName: string,
+  options: PredictionFileOptions,
+): PredictionFileContent {
+  const boxes =
+    options.format === "coco"
+      ? parseCocoBoxes(content, options)
+      : parseYoloBoxes(content, options);
+
+  const classNames = new Map<number, string>();
+  for (const [className, id] of Object.entries(options.classMap)) {
+    if (!classNames.has(id)) classNames.set(id, className);
+  }
+
+  const predictions: Yolo26Prediction[] = [];
+  const unknownClassCounts = new Map<number, number>();
+  for (const box of boxes) {
+    if (box.confidence < options.minConfidence) continue;
+    const className = box.className ?? classNames.get(box.classId);
+    if (className === undefined) {
+      unknownClassCounts.set(
+        box.classId,
+        (unknownClassCounts.get(box.classId) ?? 0) + 1,
+      );
+      continue;
+    }
+    predictions.push({
+      left: Math.round(box.left),
+      top: Math.round(box.top),
+      width: Math.max(1, Math.round(box.width)),
+      height: Math.max(1, Math.round(box.height)),
+      classId: box.classId,
+      rawClassName: className,
+      className,
+      confidence: box.confidence,
+      source: "file",
+      modelKey: fileName,
+      modelLabel: options.modelLabel,
+      backend: "file",
+    });
+  }
+
+  return { predictions, unknownClassCounts };
+}
+
+interface PredictedBox {
+  readonly left: number;
+  readonly top: number;
+  readonly width: number;
+  readonly height: number;
+  readonly classId: number;
+
+  /**
+   * Class name given by the file itself (COCO categories)
+   */
+  readonly className: string | null;
+  readonly confidence: number;
+}
+
+/**
+ * Reads either the results format (a list of detections)
+ * or a full dataset with annotations, images and categories
+ */
+function parseCocoBoxes(
+  content: string,
+  options: PredictionFileOptions,
+): PredictedBox[] {
+  const json: unknown = JSON.parse(content);
+  const detections = Array.isArray(json)
+    ? json
+    : isObject(json)
+      ? json.annotations
+      : undefined;
+  if (!isObjectArray(detections)) {
+    throw new Error(
+      "The COCO file must contain a list of detections " +
+        "or an object with annotations.",
+    );
+  }
+
+  const categoryNames = new Map<number, string>();
+  for (const category of getObjectList(json, "categories")) {
+    categoryNames.set(Number(category.id), String(category.name));
+  }
+
+  const imageId = pickCocoImageId(json, detections, options.imageName);
+
+  return detections
+    .filter((d) => imageId === null || d.image_id === imageId)
+    .map((d) => {
+      const bbox = d.bbox;
+      if (!Array.isArray(bbox) || bbox.length !== 4) {
+        throw new Error("A COCO detection is missing its bbox: " + d.id);
+      }
+      const classId = Number(d.category_id);
+      const [left, top, width, height] = bbox.map(Number);
+      const confidence = d.score === undefined ? 1 : Number(d.score);
+      const numbers = [left, top, width, height, classId, confidence];
+      if (numbers.some((n) => !Number.isFinite(n))) {
+        throw new Error("Invalid COCO detection: " + JSON.stringify(d));
+      }
+      return {
+        left,
+        top,
+        width,
+        height,
+        classId,
+        className: categoryNames.get(classId) ?? null,
+        confidence,
+      };
+    });
+}
+
+/**
+ * The image whose detections should be imported (null when the file
+ * contains detections of a single image only). Images are looked up
+ * by their file name, a results list without images is matched
+ * by the image IDs themselves (e.g. "image_id": "page-001").
+ */
+function pickCocoImageId(
+  json: unknown,
+  detections: readonly Record<string, unknown>[],
+  imageName: string,
+): unknown {
+  const imageIds = [...new Set(detections.map((d) => d.image_id))];
+  if (imageIds.length <= 1) return null;
+
+  const image = getObjectList(json, "images").find(
+    (image) => stripExtension(String(image.file_name)) === imageName,
+  );
+  if (image !== undefined) return image.id;
+
+  const imageId = imageIds.find(
+    (id) => stripExtension(String(id)) === imageName,
+  );
+  if (imageId === undefined) {
+    throw new Error(
+      `The COCO file contains detections of ${imageIds.length} images ` +
+        `and none of them is named "${imageName}".`,
+    );
+  }
+  return imageId;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isObjectArray(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.every(isObject);
+}
+
+/**
+ * Objects listed in the given field of the COCO file, entries
+ * of other types are skipped
+ */
+function getObjectList(
+  json: unknown,
+  field: string,
+): Record<string, unknown>[] {
+  if (!isObject(json)) return [];
+  const list = json[field];
+  return Array.isArray(list) ? list.filter(isObject) : [];
+}
+
+/**
+ * Reads lines "class cx cy w h [confidence]" with coordinates relative
+ * to the image size. Segmentation lines "class x1 y1 x2 y2 ..."
+ * are imported as the bounding box of the polygon.
+ */
+function parseYoloBoxes(
+  content: string,
+  options: PredictionFileOptions,
+): PredictedBox[] {
+  const w = options.imageWidth;
+  const h = options.imageHeight;
+  if (w <= 0 || h <= 0) {
+    throw new Error("YOLO predictions need the page image to be loaded.");
+  }
+  const boxes: PredictedBox[] = [];
+
+  const lines = content.split(/\r?\n/);
+  lines.forEach((line, index) => {
+    const values = line
+      .trim()
+      .split(/\s+/)
+      .filter((v) => v !== "");
+    if (values.length === 0) return;
+    const numbers = values.map(Number);
+    if (values.length < 5 || numbers.some((n) => !Number.isFinite(n))) {
+      throw new Error(`Invalid YOLO prediction on line ${index + 1}: ${line}`);
+    }
+
+    const classId = numbers[0];
+    if (numbers.length <= 6) {
+      const [cx, cy, bw, bh] = numbers.slice(1, 5);
+      boxes.push({
+        left: (cx - bw / 2) * w,
+        top: (cy - bh / 2) * h,
+        width: bw * w,
+        height: bh * h,
+        classId,
+        className: null,
+        confidence: numbers[5] ?? 1,
+      });
+      return;
+    }
+
+    // a polygon has an even number of coordinates, odd means confidence
+    const coordinates = numbers.slice(1);
+    const confidence = coordinates.length % 2 === 1 ? coordinates.pop()! : 1;
+    const xs = coordinates.filter((_, i) => i % 2 === 0).map((x) => x * w);
+    const ys = coordinates.filter((_, i) => i % 2 === 1).map((y) => y * h);
+    const left = Math.min(...xs);
+    const top = Math.min(...ys);
+    boxes.push({
+      left,
+      top,
+      width: Math.max(...xs) - left,
+      height: Math.max(...ys) - top,
+      classId,
+      className: null,
+      confidence,
+    });
+  });
+
+  return boxes;
+}
+
+function stripExtension(fileName: string): string {
+  const name = fileName.substring(fileName.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  return dot <= 0 ? name : name.substring(0, dot);
+}
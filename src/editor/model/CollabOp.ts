@@ -0,0 +1,499 @@
+import { LinkType } from "../../mung/LinkType";
+import { Node } from "../../mung/Node";
+import { decodeRleMaskString } from "../../mung/decodeRleMaskString";
+import { encodeRleMaskString } from "../../mung/encodeRleMaskString";
+import { areDataItemsChanged } from "../../mung/NodeAttribution";
+import { DataItems } from "../../mung/DataItems";
+import { MungXmlFragment } from "../../mung/MungXmlFragment";
+
+/**
+ * Version of the collaboration operation protocol. Operations of other
+ * versions are rejected, since they may mean something else.
+ */
+export const COLLAB_OP_VERSION = 2;
+
+/**
+ * A node as sent to collaborators, the mask is RLE-encoded
+ */
+export type CollabNode = Omit<Node, "decodedMask"> & {
+  /**
+   * The "C:N C:N ..." RLE mask string, as stored in MuNG XML,
+   * null for a node without a mask
+   */
+  readonly mask: string | null;
+};
+
+/**
+ * Groups of node fields that are merged independently when collaborators
+ * edit the same node concurrently. Fields that must stay consistent
+ * with each other (the bounding box and the mask) share a group.
+ */
+export const NODE_FIELD_GROUPS: Record<
+  NodeFieldGroup,
+  readonly (keyof Node)[]
+> = {
+  className: ["className"],
+  geometry: ["top", "left", "width", "height", "decodedMask", "polygon"],
+  textTranscription: ["textTranscription"],
+  data: ["data"],
+  extraXml: ["extraXml"],
+};
+
+export type NodeFieldGroup =
+  | "className"
+  | "geometry"
+  | "textTranscription"
+  | "data"
+  | "extraXml";
+
+/**
+ * Identifies a single write of a field group, writes are ordered
+ * by the Lamport clock and ties are broken by the client ID
+ */
+export interface FieldStamp {
+  readonly clock: number;
+  readonly clientId: string;
+}
+
+/**
+ * Union type of all operations exchanged with collaborators,
+ * each one describes a single notation graph mutation
+ */
+export type CollabOp =
+  | CollabInsertNodeOp
+  | CollabUpdateNodeOp
+  | CollabRemoveNodeOp
+  | CollabInsertLinkOp
+  | CollabRemoveLinkOp
+  | CollabSetAllOp
+  | CollabBatchOp;
+
+/**
+ * Operations that can be part of a batch
+ */
+export type CollabBatchedOp = Exclude<CollabOp, CollabBatchOp>;
+
+export interface CollabInsertNodeOp {
+  readonly v: typeof COLLAB_OP_VERSION;
+  readonly t: "insertNode";
+
+  /**
+   * The inserted node, without any links
+   */
+  readonly node: CollabNode;
+}
+
+export interface CollabUpdateNodeOp {
+  readonly v: typeof COLLAB_OP_VERSION;
+  readonly t: "updateNode";
+
+  /**
+   * The new value of the node, its links are ignored
+   * and so are the fields outside the changed groups
+   */
+  readonly node: CollabNode;
+
+  /**
+   * Field groups changed by the update
+   */
+  readonly fields: readonly NodeFieldGroup[];
+
+  /**
+   * Stamp of the update, it is stored for each of the changed groups
+   */
+  readonly stamp: FieldStamp;
+
+  /**
+   * Stamps the changed groups had at the author before the update
+   * (null for a group that was never written), a receiver holding
+   * a different stamp knows the edits were concurrent
+   */
+  readonly base: Partial<Record<NodeFieldGroup, FieldStamp | null>>;
+}
+
+export interface CollabRemoveNodeOp {
+  readonly v: typeof COLLAB_OP_VERSION;
+
+  /**
+   * Both variants remove the node together with its links
+   */
+  readonly t: "removeNode" | "removeNodeWithLinks";
+  readonly id: number;
+}
+
+export interface CollabInsertLinkOp {
+  readonly v: typeof COLLAB_OP_VERSION;
+  readonly t: "insertLink";
+  readonly from: number;
+  readonly to: number;
+  readonly linkType: LinkType;
+}
+
+export interface CollabRemoveLinkOp {
+  readonly v: typeof COLLAB_OP_VERSION;
+  readonly t: "removeLink";
+  readonly from: number;
+  readonly to: number;
+  readonly linkType: LinkType;
+}
+
+export interface CollabSetAllOp {
+  readonly v: typeof COLLAB_OP_VERSION;
+  readonly t: "setAll";
+
+  /**
+   * All nodes of the graph, including their links
+   */
+  readonly nodes: readonly CollabNode[];
+}
+
+export interface CollabBatchOp {
+  readonly v: typeof COLLAB_OP_VERSION;
+  readonly t: "batch";
+
+  /**
+   * Label of the transaction the operations come from
+   */
+  readonly label: string;
+
+  /**
+   * Operations of the transaction, batches are not nested
+   */
+  readonly ops: readonly CollabBatchedOp[];
+}
+
+/**
+ * Converts a node to the form sent to collaborators
+ */
+export function nodeToCollabNode(node: Node): CollabNode {
+  const { decodedMask, ...rest } = node;
+  return {
+    ...rest,
+    mask: decodedMask === null ? null : encodeRleMaskString(decodedMask),
+  };
+}
+
+/**
+ * Converts a node received from a collaborator back to a node
+ */
+export function collabNodeToNode(collabNode: CollabNode): Node {
+  const { mask, ...rest } = collabNode;
+  return {
+    ...rest,
+    decodedMask:
+      mask === null
+        ? null
+        : decodeRleMaskString(mask, collabNode.width, collabNode.height),
+  };
+}
+
+/**
+ * Checks that a value received from the network is a valid operation
+ * of the current protocol version, throws an error describing
+ * the problem otherwise
+ */
+export function validateCollabOp(value: unknown): CollabOp {
+  const op = requireObject(value, "Operation");
+  if (op.v !== COLLAB_OP_VERSION) {
+    throw new Error(
+      `Unsupported operation version ${JSON.stringify(op.v)}, ` +
+        `expected ${COLLAB_OP_VERSION}.`,
+    );
+  }
+  const v = COLLAB_OP_VERSION;
+
+  switch (op.t) {
+    case "insertNode": {
+      const node = validateCollabNode(op.node);
+      const linkCount =
+        node.syntaxInlinks.length +
+        node.syntaxOutlinks.length +
+        node.precedenceInlinks.length +
+        node.precedenceOutlinks.length;
+      if (linkCount > 0) {
+        throw new Error(`Inserted node ${node.id} must have no links.`);
+      }
+      return { v, t: "insertNode", node };
+    }
+    case "updateNode": {
+      const node = validateCollabNode(op.node);
+      const fields = op.fields;
+      if (!isNodeFieldGroupList(fields)) {
+        throw new Error("Invalid list of updated node fields.");
+      }
+      const stamp = validateFieldStamp(op.stamp);
+      const base: Partial<Record<NodeFieldGroup, FieldStamp | null>> = {};
+      for (const [group, baseStamp] of Object.entries(
+        requireObject(op.base, "Base stamps"),
+      )) {
+        if (!isNodeFieldGroup(group)) {
+          throw new Error(`Unknown node field group "${group}".`);
+        }
+        base[group] = baseStamp === null ? null : validateFieldStamp(baseStamp);
+      }
+      return {
+        v,
+        t: "updateNode",
+        node,
+        fields,
+        stamp,
+        base,
+      };
+    }
+    case "removeNode":
+    case "removeNodeWithLinks":
+      return { v, t: op.t, id: requireNodeId(op.id, "Node ID") };
+    case "insertLink":
+    case "removeLink": {
+      const from = requireNodeId(op.from, "Link source");
+      const to = requireNodeId(op.to, "Link target");
+      const linkType = op.linkType;
+      if (linkType !== LinkType.Syntax && linkType !== LinkType.Precedence) {
+        throw new Error(`Invalid link type ${JSON.stringify(linkType)}.`);
+      }
+      return { v, t: op.t, from, to, linkType };
+    }
+    case "setAll": {
+      if (!Array.isArray(op.nodes)) {
+        throw new Error("The setAll operation must list nodes.");
+      }
+      const nodes = op.nodes.map(validateCollabNode);
+      validateLinkConsistency(nodes);
+      return { v, t: "setAll", nodes };
+    }
+    case "batch": {
+      const label = op.label;
+      if (typeof label !== "string" || !Array.isArray(op.ops)) {
+        throw new Error("A batch must have a label and a list of operations.");
+      }
+      const ops = op.ops.map((batchOp: unknown) => {
+        const validatedOp = validateCollabOp(batchOp);
+        if (validatedOp.t === "batch") {
+          throw new Error("Batches cannot be nested.");
+        }
+        return validatedOp;
+      });
+      return { v, t: "batch", label, ops };
+    }
+    default:
+      throw new Error(`Unknown operation type ${JSON.stringify(op.t)}.`);
+  }
+}
+
+function validateCollabNode(value: unknown): CollabNode {
+  const node = requireObject(value, "Node");
+  const id = requireNodeId(node.id, "Node ID");
+
+  const className = node.className;
+  if (typeof className !== "string" || className === "") {
+    throw new Error(`Node ${id} has an invalid class name.`);
+  }
+  const [top, left, width, height] = ["top", "left", "width", "height"].map(
+    (key) => {
+      const coordinate = node[key];
+      if (typeof coordinate !== "number" || !Number.isFinite(coordinate)) {
+        throw new Error(`Node ${id} has an invalid ${key}.`);
+      }
+      return coordinate;
+    },
+  );
+  if (width <= 0 || height <= 0) {
+    throw new Error(`Node ${id} has an empty bounding box.`);
+  }
+  const [syntaxOutlinks, syntaxInlinks, precedenceOutlinks, precedenceInlinks] =
+    [
+      "syntaxOutlinks",
+      "syntaxInlinks",
+      "precedenceOutlinks",
+      "precedenceInlinks",
+    ].map((key) => {
+      const links = node[key];
+      if (!isNumberList(links, Number.isInteger)) {
+        throw new Error(`Node ${id} has invalid ${key}.`);
+      }
+      return links;
+    });
+  const mask = node.mask;
+  if (mask !== null && typeof mask !== "string") {
+    throw new Error(`Node ${id} has an invalid mask.`);
+  }
+  if (typeof mask === "string" && !/^(\d+:\d+ ?)*$/.test(mask)) {
+    throw new Error(`Node ${id} has a malformed mask string.`);
+  }
+  const textTranscription = node.textTranscription;
+  if (textTranscription !== null && typeof textTranscription !== "string") {
+    throw new Error(`Node ${id} has an invalid text transcription.`);
+  }
+  const data: DataItems = {};
+  for (const [key, item] of Object.entries(
+    requireObject(node.data, `Data of node ${id}`),
+  )) {
+    const dataItem = requireObject(item, `DataItem of node ${id}`);
+    if (
+      typeof dataItem.type !== "string" ||
+      typeof dataItem.value !== "string"
+    ) {
+      throw new Error(`Node ${id} has an invalid DataItem.`);
+    }
+    data[key] = { type: dataItem.type, value: dataItem.value };
+  }
+  const polygon = node.polygon;
+  if (polygon !== null && !isNumberList(polygon, Number.isFinite)) {
+    throw new Error(`Node ${id} has an invalid polygon.`);
+  }
+  const extraXml = node.extraXml;
+  if (extraXml !== undefined && !isMungXmlFragmentList(extraXml)) {
+    throw new Error(`Node ${id} has invalid extra XML.`);
+  }
+
+  return {
+    id,
+    className,
+    top,
+    left,
+    width,
+    height,
+    syntaxOutlinks,
+    syntaxInlinks,
+    precedenceOutlinks,
+    precedenceInlinks,
+    mask,
+    textTranscription,
+    data,
+    polygon,
+    ...(extraXml === undefined ? {} : { extraXml }),
+  };
+}
+
+function isNumberList(
+  value: unknown,
+  isValidNumber: (n: number) => boolean,
+): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.every((n) => typeof n === "number" && isValidNumber(n))
+  );
+}
+
+function isMungXmlFragmentList(value: unknown): value is MungXmlFragment[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (fragment) =>
+        isObject(fragment) &&
+        typeof fragment.xml === "string" &&
+        (fragment.after === null || typeof fragment.after === "string") &&
+        (fragment.inside === undefined || fragment.inside === "Data"),
+    )
+  );
+}
+
+/**
+ * Lists the field groups whose values differ between the two versions
+ * of a node (values are immutable, so references are compared).
+ * The attribution data items do not count, they are merged separately.
+ */
+export function getChangedFieldGroups(
+  oldNode: Node,
+  newNode: Node,
+): NodeFieldGroup[] {
+  return (Object.keys(NODE_FIELD_GROUPS) as NodeFieldGroup[]).filter((group) =>
+    group === "data"
+      ? areDataItemsChanged(oldNode.data, newNode.data)
+      : NODE_FIELD_GROUPS[group].some(
+          (field) => oldNode[field] !== newNode[field],
+        ),
+  );
+}
+
+/**
+ * Orders two stamps, returns a positive number when the first one is newer
+ */
+export function compareFieldStamps(a: FieldStamp, b: FieldStamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+function isNodeFieldGroup(value: unknown): value is NodeFieldGroup {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(NODE_FIELD_GROUPS, value)
+  );
+}
+
+function isNodeFieldGroupList(value: unknown): value is NodeFieldGroup[] {
+  return Array.isArray(value) && value.every(isNodeFieldGroup);
+}
+
+function validateFieldStamp(value: unknown): FieldStamp {
+  const stamp = requireObject(value, "Stamp");
+  const clock = stamp.clock;
+  const clientId = stamp.clientId;
+  if (
+    typeof clock !== "number" ||
+    !Number.isInteger(clock) ||
+    clock < 0 ||
+    typeof clientId !== "string"
+  ) {
+    throw new Error(`Invalid stamp ${JSON.stringify(value)}.`);
+  }
+  return { clock, clientId };
+}
+
+/**
+ * Checks that the nodes have distinct IDs and that each of their links
+ * is recorded on both of its ends
+ */
+function validateLinkConsistency(nodes: readonly CollabNode[]): void {
+  const nodesById = new Map<number, CollabNode>();
+  for (const node of nodes) {
+    if (nodesById.has(node.id)) {
+      throw new Error(`Node ID ${node.id} is used more than once.`);
+    }
+    nodesById.set(node.id, node);
+  }
+  for (const node of nodes) {
+    for (const toId of node.syntaxOutlinks) {
+      if (!nodesById.get(toId)?.syntaxInlinks.includes(node.id)) {
+        throw new Error(`Syntax link ${node.id} -> ${toId} is inconsistent.`);
+      }
+    }
+    for (const toId of node.precedenceOutlinks) {
+      if (!nodesById.get(toId)?.precedenceInlinks.includes(node.id)) {
+        throw new Error(
+          `Precedence link ${node.id} -> ${toId} is inconsistent.`,
+        );
+      }
+    }
+    for (const fromId of node.syntaxInlinks) {
+      if (!nodesById.get(fromId)?.syntaxOutlinks.includes(node.id)) {
+        throw new Error(`Syntax link ${fromId} -> ${node.id} is inconsistent.`);
+      }
+    }
+    for (const fromId of node.precedenceInlinks) {
+      if (!nodesById.get(fromId)?.precedenceOutlinks.includes(node.id)) {
+        throw new Error(
+          `Precedence link ${fromId} -> ${node.id} is inconsistent.`,
+        );
+      }
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireObject(value: unknown, what: string): Record<string, unknown> {
+  if (!isObject(value)) {
+    throw new Error(`${what} must be an object.`);
+  }
+  return value;
+}
+
+function requireNodeId(value: unknown, what: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${what} ${JSON.stringify(value)} is invalid.`);
+  }
+  return value;
+}
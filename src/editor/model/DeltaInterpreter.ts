@@ -1,8 +1,8 @@
-import {
-  Delta,
-  DeltaUpdateNodeClass,
-  isUpdateNodeClass,
-} from "../../mung/Delta";
+import { Delta } from "../../mung/Delta";
+import { LinkType } from "../../mung/LinkType";
+import { Node } from "../../mung/Node";
+import { describeDelta } from "../../mung/describeDelta";
+import { applyDeltaOperation, DeltaTarget } from "./applyDeltaOperation";
 import { NotationGraphStore } from "./notation-graph-store/NotationGraphStore";
 
 /**
@@ -16,28 +16,122 @@ export class DeltaInterpreter {
   }
 
   /**
-   * Applies operations listed in a delta to the notation graph
+   * Applies operations listed in a delta to the notation graph,
+   * as a single transaction (and so a single undo step). The whole delta is validated first, if any
+   * of its operations cannot be applied, an error is thrown and
+   * the graph is left untouched.
    */
-  public applyDelta(delta: Delta): void {
-    for (const op of delta.operations) {
-      if (isUpdateNodeClass(op)) {
-        this.updateNodeClass(op);
-      } else {
-        console.warn("Ignoring unknown delta operation.", op);
+  public applyDelta(delta: Delta, label: string | null = null): void {
+    this.validateDelta(delta);
+
+    this.notationGraphStore.transaction(label ?? describeDelta(delta), () => {
+      for (const op of delta.operations) {
+        applyDeltaOperation(this.notationGraphStore, op);
       }
+    });
+  }
+
+  /**
+   * Checks that all the operations of a delta can be applied one after
+   * another, throws an error describing the first one that cannot
+   */
+  public validateDelta(delta: Delta): void {
+    const draft = new DraftGraph(this.notationGraphStore);
+    delta.operations.forEach((op, index) => {
+      try {
+        applyDeltaOperation(draft, op);
+      } catch (e) {
+        throw new Error(
+          `Delta operation ${index + 1} cannot be applied: ` +
+            String((e as Error).message ?? e),
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Overlay over the notation graph that records node changes
+ * without touching the store, used to validate deltas
+ */
+class DraftGraph implements DeltaTarget {
+  private readonly base: NotationGraphStore;
+
+  /**
+   * Changed nodes, null for removed nodes
+   */
+  private readonly changes = new Map<number, Node | null>();
+
+  constructor(base: NotationGraphStore) {
+    this.base = base;
+  }
+
+  public hasNode(nodeId: number): boolean {
+    const change = this.changes.get(nodeId);
+    if (change !== undefined) return change !== null;
+    return this.base.hasNode(nodeId);
+  }
+
+  public getNode(nodeId: number): Node {
+    const change = this.changes.get(nodeId);
+    if (change === null) {
+      throw new Error(`Node ${nodeId} does not exist.`);
     }
+    return change ?? this.base.getNode(nodeId);
+  }
+
+  public insertNode(node: Node): void {
+    this.changes.set(node.id, node);
   }
 
-  private updateNodeClass(op: DeltaUpdateNodeClass): void {
-    if (!this.notationGraphStore.hasNode(op.updateNodeId)) {
-      console.warn("Ignoring delta operation, taget node missing.", op);
-      return;
+  public updateNode(newValue: Node): void {
+    this.changes.set(newValue.id, newValue);
+  }
+
+  public removeNodeWithLinks(nodeId: number): void {
+    const node = this.getNode(nodeId);
+    for (const type of [LinkType.Syntax, LinkType.Precedence]) {
+      for (const toId of node[`${type}Outlinks`]) {
+        this.removeLink(nodeId, toId, type);
+      }
+      for (const fromId of node[`${type}Inlinks`]) {
+        this.removeLink(fromId, nodeId, type);
+      }
     }
+    this.changes.set(nodeId, null);
+  }
+
+  public hasLink(fromId: number, toId: number, type: LinkType): boolean {
+    return this.getNode(fromId)[`${type}Outlinks`].includes(toId);
+  }
+
+  public insertLink(fromId: number, toId: number, type: LinkType): void {
+    const fromNode = this.getNode(fromId);
+    const toNode = this.getNode(toId);
+    this.changes.set(fromId, {
+      ...fromNode,
+      [`${type}Outlinks`]: [...fromNode[`${type}Outlinks`], toId],
+    });
+    this.changes.set(toId, {
+      ...toNode,
+      [`${type}Inlinks`]: [...toNode[`${type}Inlinks`], fromId],
+    });
+  }
 
-    const node = this.notationGraphStore.getNode(op.updateNodeId);
-    this.notationGraphStore.updateNode({
-      ...node,
-      className: op.newClassName,
+  public removeLink(fromId: number, toId: number, type: LinkType): void {
+    const fromNode = this.getNode(fromId);
+    this.changes.set(fromId, {
+      ...fromNode,
+      [`${type}Outlinks`]: fromNode[`${type}Outlinks`].filter(
+        (id) => id !== toId,
+      ),
+    });
+    const toNode = this.getNode(toId);
+    this.changes.set(toId, {
+      ...toNode,
+      [`${type}Inlinks`]: toNode[`${type}Inlinks`].filter(
+        (id) => id !== fromId,
+      ),
     });
   }
 }
@@ -0,0 +1,189 @@
+import { Delta, DeltaInsertNode, DeltaOperation } from "../../mung/Delta";
+import { Node } from "../../mung/Node";
+import { encodeRleMaskString } from "../../mung/encodeRleMaskString";
+import { areMasksEqual } from "../../mung/diffMungFiles";
+import { NotationGraphStore } from "./notation-graph-store/NotationGraphStore";
+
+/**
+ * A recorded change of the notation graph, together with the delta
+ * that reverts it
+ */
+export interface RecordedDeltas {
+  readonly forward: Delta;
+  readonly inverse: Delta;
+}
+
+/**
+ * Listens to notation graph events and records every mutation
+ * as a delta operation, together with the operations that revert it
+ */
+export class DeltaRecorder {
+  private forwardOperations: DeltaOperation[] = [];
+
+  /**
+   * Inverse operations, grouped by the mutation they revert,
+   * in the order of the mutations
+   */
+  private inverseGroups: DeltaOperation[][] = [];
+
+  private isRecording = true;
+
+  constructor(notationGraphStore: NotationGraphStore) {
+    notationGraphStore.onNodeInserted.subscribe((node) => {
+      this.record([nodeToInsertOperation(node)], [{ removeNodeId: node.id }]);
+    });
+    notationGraphStore.onNodeRemoved.subscribe((node) => {
+      this.record([{ removeNodeId: node.id }], [nodeToInsertOperation(node)]);
+    });
+    notationGraphStore.onNodeUpdatedOrLinked.subscribe((meta) => {
+      if (meta.isLinkUpdate) return; // recorded by the link events
+      this.record(
+        diffNodes(meta.oldValue, meta.newValue),
+        diffNodes(meta.newValue, meta.oldValue),
+      );
+    });
+    notationGraphStore.onLinkInserted.subscribe((meta) => {
+      const link = {
+        fromId: meta.fromNode.id,
+        toId: meta.toNode.id,
+        type: meta.linkType,
+      };
+      this.record([{ insertLink: link }], [{ removeLink: link }]);
+    });
+    notationGraphStore.onLinkRemoved.subscribe((meta) => {
+      const link = {
+        fromId: meta.fromNode.id,
+        toId: meta.toNode.id,
+        type: meta.linkType,
+      };
+      this.record([{ removeLink: link }], [{ insertLink: link }]);
+    });
+  }
+
+  /**
+   * Returns the operations recorded since the last call
+   * (null if there were none) and starts recording anew
+   */
+  public takeRecordedDeltas(): RecordedDeltas | null {
+    if (this.forwardOperations.length === 0) return null;
+
+    const deltas: RecordedDeltas = {
+      forward: { operations: this.forwardOperations },
+      inverse: { operations: [...this.inverseGroups].reverse().flat() },
+    };
+    this.forwardOperations = [];
+    this.inverseGroups = [];
+    return deltas;
+  }
+
+  /**
+   * Performs graph changes that should not be recorded
+   * (e.g. when history is being navigated)
+   */
+  public withoutRecording(action: () => void): void {
+    const wasRecording = this.isRecording;
+    this.isRecording = false;
+    try {
+      action();
+    } finally {
+      this.isRecording = wasRecording;
+    }
+  }
+
+  private record(forward: DeltaOperation[], inverse: DeltaOperation[]): void {
+    if (!this.isRecording || forward.length === 0) return;
+    this.forwardOperations.push(...forward);
+    this.inverseGroups.push(inverse);
+  }
+}
+
+function nodeToInsertOperation(node: Node): DeltaInsertNode {
+  return {
+    insertNode: {
+      id: node.id,
+      className: node.className,
+      left: node.left,
+      top: node.top,
+      width: node.width,
+      height: node.height,
+      mask:
+        node.decodedMask === null
+          ? null
+          : encodeRleMaskString(node.decodedMask),
+      polygon: node.polygon,
+      textTranscription: node.textTranscription,
+      data: node.data,
+      ...(node.extraXml === undefined ? {} : { extraXml: node.extraXml }),
+    },
+  };
+}
+
+/**
+ * Lists operations that turn the old value of a node into the new one
+ * (links excluded)
+ */
+function diffNodes(oldValue: Node, newValue: Node): DeltaOperation[] {
+  const id = newValue.id;
+  const operations: DeltaOperation[] = [];
+
+  if (oldValue.className !== newValue.className) {
+    operations.push({ updateNodeId: id, newClassName: newValue.className });
+  }
+
+  const isMoved =
+    oldValue.left !== newValue.left || oldValue.top !== newValue.top;
+  const isResized =
+    oldValue.width !== newValue.width || oldValue.height !== newValue.height;
+  if (isMoved || isResized) {
+    operations.push({
+      updateNodeId: id,
+      newBbox: {
+        left: newValue.left,
+        top: newValue.top,
+        width: newValue.width,
+        height: newValue.height,
+      },
+    });
+  }
+
+  // resizing drops the mask, so it has to be set again
+  if (isResized || !areMasksEqual(oldValue.decodedMask, newValue.decodedMask)) {
+    operations.push({
+      updateNodeId: id,
+      newMask:
+        newValue.decodedMask === null
+          ? null
+          : encodeRleMaskString(newValue.decodedMask),
+    });
+  }
+
+  if (oldValue.polygon !== newValue.polygon) {
+    operations.push({ updateNodeId: id, newPolygon: newValue.polygon });
+  }
+
+  if (oldValue.textTranscription !== newValue.textTranscription) {
+    operations.push({
+      updateNodeId: id,
+      newTextTranscription: newValue.textTranscription,
+    });
+  }
+
+  const keys = new Set([
+    ...Object.keys(oldValue.data),
+    ...Object.keys(newValue.data),
+  ]);
+  for (const key of keys) {
+    const oldItem = oldValue.data[key];
+    const newItem = newValue.data[key];
+    if (oldItem?.type === newItem?.type && oldItem?.value === newItem?.value) {
+      continue;
+    }
+    operations.push({
+      updateNodeId: id,
+      dataItemKey: key,
+      newDataItem: newItem === undefined ? null : { ...newItem },
+    });
+  }
+
+  return operations;
+}
@@ -0,0 +1,251 @@
+import { Atom, atom, getDefaultStore, PrimitiveAtom } from "jotai";
+import { JotaiStore } from "./JotaiStore";
+import {
+  HistorySnapshot,
+  HistoryStep,
+  HistoryStore,
+  INITIAL_HISTORY_ENTRY_ID,
+  OLDEST_KEPT_STATE_LABEL,
+} from "./HistoryStore";
+import { MungFile } from "../../mung/MungFile";
+import { writeMungXmlString } from "../../mung/writeMungXmlString";
+import { sha256Hex } from "../../utils/sha256Hex";
+
+const DATABASE_NAME = "mung-studio-history";
+const DATABASE_VERSION = 1;
+const OBJECT_STORE_NAME = "histories";
+
+/**
+ * At most this many steps are kept per document
+ */
+const MAX_PERSISTED_STEPS = 1000;
+
+/**
+ * At most this many characters of serialized steps are kept per document,
+ * the oldest steps are dropped first
+ */
+const MAX_PERSISTED_CHARACTERS = 20_000_000;
+
+/**
+ * The record stored in IndexedDB for one document
+ */
+interface PersistedHistory {
+  readonly documentName: string;
+
+  /**
+   * SHA-256 hash of the mung.xml the history ends in
+   */
+  readonly contentHash: string;
+
+  /**
+   * When the record was written (milliseconds since epoch)
+   */
+  readonly savedAt: number;
+
+  readonly snapshot: HistorySnapshot;
+}
+
+/**
+ * Keeps the undo history of a document in the browser's IndexedDB,
+ * so that it survives page reloads. The history is stored whenever
+ * the document is saved, together with the hash of the saved mung.xml.
+ * When the document is opened again and its content hash matches,
+ * the history is restored. When the file has been changed elsewhere
+ * in the meantime, the stored history does not apply and is ignored.
+ */
+export class HistoryPersistence {
+  private readonly historyStore: HistoryStore;
+  private readonly jotaiStore: JotaiStore;
+
+  /**
+   * Name of the document, the history is stored under it,
+   * empty name disables the persistence
+   */
+  private readonly documentName: string;
+
+  constructor(
+    historyStore: HistoryStore,
+    documentName: string,
+    jotaiStore: JotaiStore | null = null,
+  ) {
+    this.historyStore = historyStore;
+    this.documentName = documentName;
+    this.jotaiStore = jotaiStore ?? getDefaultStore();
+  }
+
+  private get isEnabled(): boolean {
+    return this.documentName !== "" && typeof indexedDB !== "undefined";
+  }
+
+  /**
+   * Restores the history stored for the document, if it was stored
+   * with the given (just opened) content
+   */
+  public async restore(openedMung: MungFile): Promise<void> {
+    if (!this.isEnabled) return;
+    try {
+      const contentHash = await sha256Hex(writeMungXmlString(openedMung));
+      const record = await this.readRecord();
+      if (record === null || record.contentHash !== contentHash) return;
+      if (!this.historyStore.restoreSnapshot(record.snapshot)) return;
+      this.jotaiStore.set(
+        this.restoredStepCountBaseAtom,
+        record.snapshot.undoSteps.length + record.snapshot.redoSteps.length,
+      );
+    } catch (e) {
+      console.error("Restoring the undo history failed:", e);
+    }
+  }
+
+  /**
+   * Stores the history as it is now, call it with the file that
+   * is being saved. Failures are only logged, they must not prevent
+   * the document from being saved.
+   */
+  public async persist(savedMung: MungFile): Promise<void> {
+    if (!this.isEnabled) return;
+    try {
+      // take the snapshot right away, it has to match the saved file
+      const snapshot = limitSnapshotSize(this.historyStore.getSnapshot());
+      const contentHash = await sha256Hex(writeMungXmlString(savedMung));
+      await this.writeRecord({
+        documentName: this.documentName,
+        contentHash,
+        savedAt: Date.now(),
+        snapshot,
+      });
+    } catch (e) {
+      console.error("Storing the undo history failed:", e);
+    }
+  }
+
+  /**
+   * Forgets the history, both the stored and the current one
+   */
+  public async clear(): Promise<void> {
+    this.historyStore.clear();
+    this.jotaiStore.set(this.restoredStepCountBaseAtom, 0);
+    if (!this.isEnabled) return;
+    try {
+      await this.deleteRecord();
+    } catch (e) {
+      console.error("Clearing the stored undo history failed:", e);
+    }
+  }
+
+  ///////////
+  // React //
+  ///////////
+
+  private restoredStepCountBaseAtom: PrimitiveAtom<number> = atom(0);
+
+  /**
+   * Number of history steps restored from the previous session
+   */
+  public restoredStepCountAtom: Atom<number> = atom((get) =>
+    get(this.restoredStepCountBaseAtom),
+  );
+
+  ///////////////
+  // IndexedDB //
+  ///////////////
+
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OBJECT_STORE_NAME, {
+          keyPath: "documentName",
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async runRequest<T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(OBJECT_STORE_NAME, mode);
+        const request = createRequest(
+          transaction.objectStore(OBJECT_STORE_NAME),
+        );
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  private async readRecord(): Promise<PersistedHistory | null> {
+    const record = await this.runRequest("readonly", (store) =>
+      store.get(this.documentName),
+    );
+    return (record as PersistedHistory | undefined) ?? null;
+  }
+
+  private async writeRecord(record: PersistedHistory): Promise<void> {
+    await this.runRequest("readwrite", (store) => store.put(record));
+  }
+
+  private async deleteRecord(): Promise<void> {
+    await this.runRequest("readwrite", (store) =>
+      store.delete(this.documentName),
+    );
+  }
+}
+
+/**
+ * Drops the oldest undo steps (and if that is not enough,
+ * the furthest redo steps) so that the snapshot fits the size cap
+ */
+function limitSnapshotSize(snapshot: HistorySnapshot): HistorySnapshot {
+  // steps closest to the current state are the most valuable,
+  // so they are taken first, alternating between both directions
+  const undoSteps = [...snapshot.undoSteps].reverse();
+  const redoSteps = snapshot.redoSteps;
+  const keptUndoSteps: HistoryStep[] = [];
+  const keptRedoSteps: HistoryStep[] = [];
+
+  const candidates: [HistoryStep, HistoryStep[]][] = [];
+  for (let i = 0; i < Math.max(undoSteps.length, redoSteps.length); i++) {
+    if (i < undoSteps.length) candidates.push([undoSteps[i], keptUndoSteps]);
+    if (i < redoSteps.length) candidates.push([redoSteps[i], keptRedoSteps]);
+  }
+
+  let characters = 0;
+  for (const [step, kept] of candidates.slice(0, MAX_PERSISTED_STEPS)) {
+    characters += JSON.stringify(step).length;
+    if (characters > MAX_PERSISTED_CHARACTERS) break;
+    kept.push(step);
+  }
+
+  keptUndoSteps.reverse();
+  const droppedUndoSteps = undoSteps.length - keptUndoSteps.length;
+  const keptIds = new Set(
+    [...keptUndoSteps, ...keptRedoSteps].map((s) => s.id),
+  );
+
+  return {
+    initialEntry:
+      droppedUndoSteps === 0
+        ? snapshot.initialEntry
+        : {
+            label: OLDEST_KEPT_STATE_LABEL,
+            timestamp: undoSteps[keptUndoSteps.length].timestamp,
+          },
+    undoSteps: keptUndoSteps,
+    redoSteps: keptRedoSteps,
+    checkpoints: snapshot.checkpoints.filter(
+      ([id]) =>
+        keptIds.has(id) ||
+        (droppedUndoSteps === 0 && id === INITIAL_HISTORY_ENTRY_ID),
+    ),
+  };
+}
@@ -1,29 +1,144 @@
 import { Atom, atom, getDefaultStore, PrimitiveAtom } from "jotai";
-import { Node } from "../../mung/Node";
+import { Delta } from "../../mung/Delta";
 import { NotationGraphStore } from "./notation-graph-store/NotationGraphStore";
 import { JotaiStore } from "./JotaiStore";
+import { DeltaRecorder } from "./DeltaRecorder";
+import { DeltaInterpreter } from "./DeltaInterpreter";
+import { applyDeltaOperation } from "./applyDeltaOperation";
+import { describeDelta } from "../../mung/describeDelta";
 
-type HistorySnapshot = readonly Node[];
+/**
+ * One undoable step, stored as the change itself and its inverse
+ */
+export interface HistoryStep {
+  readonly id: number;
+  readonly label: string;
+  readonly timestamp: number;
+  readonly forward: Delta;
+  readonly inverse: Delta;
+}
+
+/**
+ * One entry of the history browser, it stands for the state
+ * of the graph after a step
+ */
+export interface HistoryEntry {
+  readonly id: number;
+
+  /**
+   * Human-readable description of the step, e.g. "Snap nodes to staves"
+   */
+  readonly label: string;
+
+  /**
+   * When the step was made (milliseconds since epoch)
+   */
+  readonly timestamp: number;
+
+  /**
+   * Name of the checkpoint pinned to this state, null if there is none
+   */
+  readonly checkpointName: string | null;
+
+  /**
+   * Undone entries can be returned to via redo
+   */
+  readonly isUndone: boolean;
+}
+
+/**
+ * One entry of the session log, which lists everything that happened
+ * to the notation graph since the editor was opened
+ */
+export interface HistorySessionLogEntry {
+  /**
+   * ISO 8601 time of the entry
+   */
+  readonly timestamp: string;
+
+  /**
+   * Whether the delta is a new change or was applied by undo / redo
+   */
+  readonly action: "change" | "undo" | "redo";
+
+  /**
+   * The delta that has been applied to the graph
+   */
+  readonly delta: Delta;
+}
+
+/**
+ * The whole history in a serializable form, so that it can be
+ * kept across page reloads
+ */
+export interface HistorySnapshot {
+  /**
+   * Label and time of the state before the first undo step
+   */
+  readonly initialEntry: { readonly label: string; readonly timestamp: number };
+
+  /**
+   * Steps that can be undone, the oldest first
+   */
+  readonly undoSteps: readonly HistoryStep[];
+
+  /**
+   * Steps that can be redone, the next one first
+   */
+  readonly redoSteps: readonly HistoryStep[];
+
+  /**
+   * Pinned checkpoints as [entry ID, name] pairs
+   */
+  readonly checkpoints: readonly [number, string][];
+}
+
+const MAX_HISTORY_SIZE = 5000;
+
+/**
+ * The session log also lists undo and redo, the oldest entries
+ * are dropped beyond this size
+ */
+const MAX_SESSION_LOG_SIZE = 2 * MAX_HISTORY_SIZE;
 
-const MAX_HISTORY_SIZE = 100;
+/**
+ * ID of the history entry standing for the state before the first step
+ */
+export const INITIAL_HISTORY_ENTRY_ID = 0;
 
 /**
- * Snapshot-based undo/redo history for notation graph changes.
+ * Label of the initial entry when the steps before it have been dropped
+ */
+export const OLDEST_KEPT_STATE_LABEL = "Oldest kept state";
+
+/**
+ * Delta-based undo/redo history for notation graph changes.
  *
- * Graph operations often perform multiple synchronous node/link edits in a
- * row. The history store records at the end of the current microtask so those
- * edits become a single undoable operation.
+ * Every mutation of the graph is recorded as a delta operation together with
+ * its inverse (see DeltaRecorder), undo applies the inverse delta and redo
+ * applies the recorded one again. Graph operations often perform multiple
+ * synchronous node/link edits in a row. The history store records at the end
+ * of the current microtask so those edits become a single undoable operation.
+ * Transactions of the notation graph store are recorded as exactly one step.
+ * Each step gets a label, given by the action that caused it or derived
+ * from the delta, and named checkpoints can be pinned to any state.
  */
 export class HistoryStore {
   private readonly notationGraphStore: NotationGraphStore;
   private readonly jotaiStore: JotaiStore;
+  private readonly deltaRecorder: DeltaRecorder;
+  private readonly deltaInterpreter: DeltaInterpreter;
 
-  private undoStack: HistorySnapshot[] = [];
-  private redoStack: HistorySnapshot[] = [];
-  private currentSnapshot: HistorySnapshot;
+  private undoStack: HistoryStep[] = [];
+  private redoStack: HistoryStep[] = [];
+  private sessionLog: HistorySessionLogEntry[] = [];
+  private droppedSessionLogEntryCount = 0;
+  private checkpoints = new Map<number, string>();
+  private nextStepId = INITIAL_HISTORY_ENTRY_ID + 1;
+  private initialEntry = { label: "Document opened", timestamp: Date.now() };
 
-  private isApplyingSnapshot = false;
-  private isSnapshotScheduled = false;
+  private isApplyingDelta = false;
+  private isStepScheduled = false;
 
   constructor(
     notationGraphStore: NotationGraphStore,
@@ -31,11 +146,23 @@ export class HistoryStore {
   ) {
     this.notationGraphStore = notationGraphStore;
     this.jotaiStore = jotaiStore ?? getDefaultStore();
-    this.currentSnapshot = this.takeSnapshot();
+    this.deltaRecorder = new DeltaRecorder(notationGraphStore);
+    this.deltaInterpreter = new DeltaInterpreter(notationGraphStore);
 
     this.notationGraphStore.onChange.subscribe(() => {
-      if (this.isApplyingSnapshot) return;
-      this.scheduleSnapshot();
+      if (this.isApplyingDelta) return;
+      this.scheduleStep();
+    });
+
+    // a transaction is recorded as exactly one step, with its label
+    this.notationGraphStore.onTransactionStarted.subscribe(() => {
+      if (this.isApplyingDelta) return;
+      this.flushScheduledStep();
+    });
+    this.notationGraphStore.onTransactionCompleted.subscribe((summary) => {
+      if (this.isApplyingDelta) return;
+      this.isStepScheduled = false;
+      this.recordStep(summary.label);
     });
 
     this.updateAtoms();
@@ -49,192 +176,239 @@ export class HistoryStore {
     return this.redoStack.length > 0;
   }
 
+  /**
+   * Reverts the last step. When the graph has changed in a way the step
+   * cannot be reverted anymore (e.g. a collaborator has removed its node),
+   * an error is thrown and both the graph and the history stay as they are.
+   */
   public undo(): boolean {
-    this.flushScheduledSnapshot();
+    this.flushScheduledStep();
     if (!this.canUndo) return false;
 
-    const previousSnapshot = this.undoStack.pop()!;
-    this.redoStack.push(this.currentSnapshot);
-    this.applySnapshot(previousSnapshot);
-    this.currentSnapshot = previousSnapshot;
+    const step = this.undoStack[this.undoStack.length - 1];
+    this.applyDelta(step.inverse, "Undo " + step.label);
+    this.undoStack.pop();
+    this.redoStack.push(step);
+    this.logDelta("undo", step.inverse);
     this.updateAtoms();
     return true;
   }
 
+  /**
+   * Applies the last undone step again, throws an error like undo
+   * when it cannot be applied
+   */
   public redo(): boolean {
-    this.flushScheduledSnapshot();
+    this.flushScheduledStep();
     if (!this.canRedo) return false;
 
-    const nextSnapshot = this.redoStack.pop()!;
-    this.undoStack.push(this.currentSnapshot);
-    this.applySnapshot(nextSnapshot);
-    this.currentSnapshot = nextSnapshot;
+    const step = this.redoStack[this.redoStack.length - 1];
+    this.applyDelta(step.forward, "Redo " + step.label);
+    this.redoStack.pop();
+    this.undoStack.push(step);
+    this.logDelta("redo", step.forward);
     this.updateAtoms();
     return true;
   }
 
-  private scheduleSnapshot(): void {
-    if (this.isSnapshotScheduled) return;
-    this.isSnapshotScheduled = true;
-    queueMicrotask(() => this.flushScheduledSnapshot());
+  /**
+   * Records the changes made so far as an undo step right away, so that
+   * they are not merged with the changes that follow. The label describes
+   * the action that made the changes, when missing, it is derived
+   * from the changes.
+   */
+  public recordPendingChanges(label: string | null = null): void {
+    this.flushScheduledStep(label);
   }
 
-  private flushScheduledSnapshot(): void {
-    if (!this.isSnapshotScheduled) return;
-    this.isSnapshotScheduled = false;
-    this.recordCurrentSnapshot();
-  }
-
-  private recordCurrentSnapshot(): void {
-    const nextSnapshot = this.takeSnapshot();
-    if (this.areSnapshotsEqual(this.currentSnapshot, nextSnapshot)) {
-      return;
-    }
-
-    this.undoStack.push(this.currentSnapshot);
-    if (this.undoStack.length > MAX_HISTORY_SIZE) {
-      this.undoStack.shift();
+  /**
+   * Undoes or redoes steps until the graph is in the state
+   * after the given entry
+   */
+  public jumpTo(entryId: number): boolean {
+    this.flushScheduledStep();
+    const isBehind =
+      entryId === INITIAL_HISTORY_ENTRY_ID ||
+      this.undoStack.some((s) => s.id === entryId);
+    const isAhead = this.redoStack.some((s) => s.id === entryId);
+    if (!isBehind && !isAhead) return false;
+
+    while (this.currentEntryId !== entryId) {
+      if (isBehind) this.undo();
+      else this.redo();
     }
-    this.redoStack = [];
-    this.currentSnapshot = nextSnapshot;
-    this.updateAtoms();
+    return true;
   }
 
-  private applySnapshot(snapshot: HistorySnapshot): void {
-    this.isApplyingSnapshot = true;
-    try {
-      this.notationGraphStore.setAllNodes(this.cloneSnapshot(snapshot));
-    } finally {
-      this.isApplyingSnapshot = false;
-    }
+  /**
+   * Pins a named checkpoint to the current state of the graph, so that
+   * it can be returned to, e.g. before a risky bulk operation
+   */
+  public createCheckpoint(name: string): void {
+    this.flushScheduledStep();
+    this.checkpoints.set(this.currentEntryId, name);
+    this.updateAtoms();
   }
 
-  private takeSnapshot(): HistorySnapshot {
-    return this.cloneSnapshot(this.notationGraphStore.nodes);
+  public removeCheckpoint(entryId: number): void {
+    this.checkpoints.delete(entryId);
+    this.updateAtoms();
   }
 
-  private cloneSnapshot(snapshot: readonly Node[]): HistorySnapshot {
-    return snapshot.map((node) => this.cloneNode(node));
+  /**
+   * Forgets all the steps and checkpoints, the current state
+   * becomes the initial entry
+   */
+  public clear(): void {
+    this.flushScheduledStep();
+    this.undoStack = [];
+    this.redoStack = [];
+    this.checkpoints.clear();
+    this.initialEntry = { label: "History cleared", timestamp: Date.now() };
+    this.updateAtoms();
   }
 
-  private cloneNode(node: Node): Node {
+  /**
+   * Returns the history in a serializable form
+   */
+  public getSnapshot(): HistorySnapshot {
+    this.flushScheduledStep();
     return {
-      ...node,
-      syntaxOutlinks: [...node.syntaxOutlinks],
-      syntaxInlinks: [...node.syntaxInlinks],
-      precedenceOutlinks: [...node.precedenceOutlinks],
-      precedenceInlinks: [...node.precedenceInlinks],
-      decodedMask:
-        node.decodedMask === null ? null : this.cloneImageData(node.decodedMask),
-      data: this.cloneDataItems(node.data),
-      polygon: node.polygon === null ? null : [...node.polygon],
+      initialEntry: { ...this.initialEntry },
+      undoSteps: [...this.undoStack],
+      redoSteps: [...this.redoStack].reverse(),
+      checkpoints: [...this.checkpoints.entries()],
     };
   }
 
-  private cloneImageData(imageData: ImageData): ImageData {
-    return new ImageData(
-      new Uint8ClampedArray(imageData.data),
-      imageData.width,
-      imageData.height,
-    );
+  /**
+   * Replaces the empty history with a snapshot taken in a previous session,
+   * the graph must be in the state the snapshot was taken in.
+   * Does nothing and returns false when there are changes recorded already.
+   */
+  public restoreSnapshot(snapshot: HistorySnapshot): boolean {
+    this.flushScheduledStep();
+    if (this.canUndo || this.canRedo) return false;
+
+    this.undoStack = [...snapshot.undoSteps];
+    this.redoStack = [...snapshot.redoSteps].reverse();
+    this.checkpoints = new Map(snapshot.checkpoints);
+    this.initialEntry = { ...snapshot.initialEntry };
+    this.nextStepId =
+      Math.max(
+        INITIAL_HISTORY_ENTRY_ID,
+        ...this.undoStack.map((s) => s.id),
+        ...this.redoStack.map((s) => s.id),
+      ) + 1;
+    this.updateAtoms();
+    return true;
   }
 
-  private cloneDataItems(data: Node["data"]): Node["data"] {
-    const cloned: Node["data"] = {};
-    for (const key in data) {
-      cloned[key] = { ...data[key] };
-    }
-    return cloned;
+  private get currentEntryId(): number {
+    return this.undoStack.length === 0
+      ? INITIAL_HISTORY_ENTRY_ID
+      : this.undoStack[this.undoStack.length - 1].id;
   }
 
-  private areSnapshotsEqual(
-    first: HistorySnapshot,
-    second: HistorySnapshot,
-  ): boolean {
-    if (first.length !== second.length) return false;
-
-    for (let i = 0; i < first.length; i++) {
-      if (!this.areNodesEqual(first[i], second[i])) return false;
-    }
+  /**
+   * Returns the deltas applied to the graph in this editing session,
+   * including those applied by undo and redo. Only the last
+   * MAX_SESSION_LOG_SIZE entries are kept.
+   */
+  public getSessionLog(): readonly HistorySessionLogEntry[] {
+    this.flushScheduledStep();
+    return this.sessionLog;
+  }
 
-    return true;
+  /**
+   * How many of the oldest session log entries have been dropped
+   */
+  public get droppedSessionLogEntries(): number {
+    return this.droppedSessionLogEntryCount;
   }
 
-  private areNodesEqual(first: Node, second: Node): boolean {
-    return (
-      first.id === second.id &&
-      first.className === second.className &&
-      first.top === second.top &&
-      first.left === second.left &&
-      first.width === second.width &&
-      first.height === second.height &&
-      first.textTranscription === second.textTranscription &&
-      this.areNumberArraysEqual(first.syntaxOutlinks, second.syntaxOutlinks) &&
-      this.areNumberArraysEqual(first.syntaxInlinks, second.syntaxInlinks) &&
-      this.areNumberArraysEqual(
-        first.precedenceOutlinks,
-        second.precedenceOutlinks,
-      ) &&
-      this.areNumberArraysEqual(
-        first.precedenceInlinks,
-        second.precedenceInlinks,
-      ) &&
-      this.areDataItemsEqual(first.data, second.data) &&
-      this.areNullableNumberArraysEqual(first.polygon, second.polygon) &&
-      this.areImageDataEqual(first.decodedMask, second.decodedMask)
-    );
-  }
-
-  private areNumberArraysEqual(first: number[], second: number[]): boolean {
-    if (first.length !== second.length) return false;
-    for (let i = 0; i < first.length; i++) {
-      if (first[i] !== second[i]) return false;
-    }
-    return true;
+  private scheduleStep(): void {
+    if (this.isStepScheduled) return;
+    this.isStepScheduled = true;
+    queueMicrotask(() => this.flushScheduledStep());
   }
 
-  private areNullableNumberArraysEqual(
-    first: number[] | null,
-    second: number[] | null,
-  ): boolean {
-    if (first === null || second === null) return first === second;
-    return this.areNumberArraysEqual(first, second);
+  private flushScheduledStep(label: string | null = null): void {
+    if (!this.isStepScheduled) return;
+    this.isStepScheduled = false;
+    this.recordStep(label);
   }
 
-  private areDataItemsEqual(first: Node["data"], second: Node["data"]): boolean {
-    const firstKeys = Object.keys(first).sort();
-    const secondKeys = Object.keys(second).sort();
-    if (!this.areStringArraysEqual(firstKeys, secondKeys)) return false;
+  private recordStep(label: string | null): void {
+    const deltas = this.deltaRecorder.takeRecordedDeltas();
+    if (deltas === null) return;
 
-    for (const key of firstKeys) {
-      if (first[key].type !== second[key].type) return false;
-      if (first[key].value !== second[key].value) return false;
+    this.undoStack.push({
+      id: this.nextStepId++,
+      label: label ?? describeDelta(deltas.forward),
+      timestamp: Date.now(),
+      ...deltas,
+    });
+    if (this.undoStack.length > MAX_HISTORY_SIZE) {
+      const evicted = this.undoStack.shift()!;
+      this.checkpoints.delete(evicted.id);
+      this.initialEntry = {
+        label: OLDEST_KEPT_STATE_LABEL,
+        timestamp: evicted.timestamp,
+      };
     }
-
-    return true;
+    for (const step of this.redoStack) {
+      this.checkpoints.delete(step.id);
+    }
+    this.redoStack = [];
+    this.logDelta("change", deltas.forward);
+    this.updateAtoms();
   }
 
-  private areStringArraysEqual(first: string[], second: string[]): boolean {
-    if (first.length !== second.length) return false;
-    for (let i = 0; i < first.length; i++) {
-      if (first[i] !== second[i]) return false;
+  /**
+   * Applies the delta of a step, it is validated first, so that
+   * the graph is left untouched when it cannot be applied
+   */
+  private applyDelta(delta: Delta, label: string): void {
+    try {
+      this.deltaInterpreter.validateDelta(delta);
+    } catch (e) {
+      throw new Error(
+        `${label} is not possible, the document has changed: ` +
+          String((e as Error).message ?? e),
+      );
     }
-    return true;
-  }
 
-  private areImageDataEqual(
-    first: ImageData | null,
-    second: ImageData | null,
-  ): boolean {
-    if (first === null || second === null) return first === second;
-    if (first.width !== second.width || first.height !== second.height) {
-      return false;
+    this.isApplyingDelta = true;
+    try {
+      // the deltas carry the attribution of the nodes, it is not stamped anew
+      this.deltaRecorder.withoutRecording(() => {
+        this.notationGraphStore.withoutAttribution(() => {
+          this.notationGraphStore.transaction(label, () => {
+            for (const op of delta.operations) {
+              applyDeltaOperation(this.notationGraphStore, op);
+            }
+          });
+        });
+      });
+    } finally {
+      this.isApplyingDelta = false;
     }
-    if (first.data.length !== second.data.length) return false;
-    for (let i = 0; i < first.data.length; i++) {
-      if (first.data[i] !== second.data[i]) return false;
+  }
+
+  private logDelta(
+    action: HistorySessionLogEntry["action"],
+    delta: Delta,
+  ): void {
+    this.sessionLog.push({
+      timestamp: new Date().toISOString(),
+      action,
+      delta,
+    });
+    if (this.sessionLog.length > MAX_SESSION_LOG_SIZE) {
+      this.sessionLog.shift();
+      this.droppedSessionLogEntryCount += 1;
     }
-    return true;
   }
 
   private canUndoBaseAtom: PrimitiveAtom<boolean> = atom(false);
@@ -243,8 +417,52 @@ export class HistoryStore {
   public canUndoAtom: Atom<boolean> = atom((get) => get(this.canUndoBaseAtom));
   public canRedoAtom: Atom<boolean> = atom((get) => get(this.canRedoBaseAtom));
 
+  private entriesBaseAtom: PrimitiveAtom<readonly HistoryEntry[]> = atom<
+    readonly HistoryEntry[]
+  >([]);
+  private currentEntryIdBaseAtom: PrimitiveAtom<number> = atom(
+    INITIAL_HISTORY_ENTRY_ID,
+  );
+
+  /**
+   * All history entries from the oldest one, including the undone ones
+   */
+  public entriesAtom: Atom<readonly HistoryEntry[]> = atom((get) =>
+    get(this.entriesBaseAtom),
+  );
+
+  /**
+   * The entry whose state the graph is in
+   */
+  public currentEntryIdAtom: Atom<number> = atom((get) =>
+    get(this.currentEntryIdBaseAtom),
+  );
+
   private updateAtoms(): void {
     this.jotaiStore.set(this.canUndoBaseAtom, this.canUndo);
     this.jotaiStore.set(this.canRedoBaseAtom, this.canRedo);
+    this.jotaiStore.set(this.entriesBaseAtom, this.buildEntries());
+    this.jotaiStore.set(this.currentEntryIdBaseAtom, this.currentEntryId);
+  }
+
+  private buildEntries(): HistoryEntry[] {
+    const toEntry = (step: HistoryStep, isUndone: boolean): HistoryEntry => ({
+      id: step.id,
+      label: step.label,
+      timestamp: step.timestamp,
+      checkpointName: this.checkpoints.get(step.id) ?? null,
+      isUndone,
+    });
+    return [
+      {
+        id: INITIAL_HISTORY_ENTRY_ID,
+        label: this.initialEntry.label,
+        timestamp: this.initialEntry.timestamp,
+        checkpointName: this.checkpoints.get(INITIAL_HISTORY_ENTRY_ID) ?? null,
+        isUndone: false,
+      },
+      ...this.undoStack.map((step) => toEntry(step, false)),
+      ...[...this.redoStack].reverse().map((step) => toEntry(step, true)),
+    ];
   }
 }
@@ -7,6 +7,11 @@ export enum SceneRenderingEngine {
   Canvas2D = "Canvas2D",
 }
 
+export enum ValidationEngineKind {
+  TypeScript = "TypeScript",
+  Pyodide = "Pyodide",
+}
+
 export class SettingsStore {
   private readonly jotaiStore: JotaiStore;
 
@@ -28,4 +33,16 @@ export class SettingsStore {
   public readonly sceneRenderingEngineAtom = atom<SceneRenderingEngine>(
     SceneRenderingEngine.SVG,
   );
+
+  /////////////////////////
+  // Validation settings //
+  /////////////////////////
+
+  /**
+   * Controls which implementation of the validation rules is used,
+   * the python one in pyodide serves as the reference implementation
+   */
+  public readonly validationEngineAtom = atom<ValidationEngineKind>(
+    ValidationEngineKind.TypeScript,
+  );
 }
@@ -41,3 +41,11 @@ export interface ValidationIssue {
 export function computeIssueId(issue: ValidationIssue): string {
   return `${issue.code}-${issue.nodeId}-${issue.fingerprint}`;
 }
+
+/**
+ * Issues that are only suspicious, not necessarily wrong, are warnings.
+ * The validation rules mark them with a warning sign in the message.
+ */
+export function isWarningIssue(issue: ValidationIssue): boolean {
+  return issue.message.startsWith("⚠️");
+}
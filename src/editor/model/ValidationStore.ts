@@ -1,4 +1,5 @@
 import { atom } from "jotai";
+import { PartialValidationResult } from "../../mung/validation/ValidationEngine";
 import { JotaiStore } from "./JotaiStore";
 import { NotationGraphStore } from "./notation-graph-store/NotationGraphStore";
 import { computeIssueId, ValidationIssue } from "./ValidationIssue";
@@ -29,6 +30,12 @@ export class ValidationStore {
    */
   public readonly errorMessageAtom = atom<string | null>(null);
 
+  /**
+   * Stores the message about issues that could not be fixed
+   * by the last resolution attempt, null when all were fixed
+   */
+  public readonly resolutionErrorMessageAtom = atom<string | null>(null);
+
   /**
    * Called by the validation controller when newer issues are available
    * and should be displayed by the app
@@ -36,6 +43,21 @@ export class ValidationStore {
   public acceptNewerIssues(newIssues: ValidationIssue[]): void {
     this.jotaiStore.set(this.issuesAtom, newIssues);
     this.jotaiStore.set(this.errorMessageAtom, null);
+    this.jotaiStore.set(this.resolutionErrorMessageAtom, null);
+  }
+
+  /**
+   * Called by the validation controller when a part of the graph was
+   * re-checked, the issues in the re-checked scope are replaced
+   */
+  public acceptPartialIssues(result: PartialValidationResult): void {
+    const issues = this.jotaiStore.get(this.issuesAtom);
+    this.jotaiStore.set(this.issuesAtom, [
+      ...issues.filter(
+        (i) => !result.nodeIds.has(i.nodeId) && !result.globalCodes.has(i.code),
+      ),
+      ...result.issues,
+    ]);
   }
 
   /**
@@ -47,6 +69,21 @@ export class ValidationStore {
     this.jotaiStore.set(this.errorMessageAtom, message);
   }
 
+  /**
+   * Called by the validation controller after it tried to fix issues,
+   * with the errors of those that could not be fixed (may be empty)
+   */
+  public acceptResolutionErrors(errors: string[]): void {
+    this.jotaiStore.set(
+      this.resolutionErrorMessageAtom,
+      errors.length === 0
+        ? null
+        : `${errors.length} of the issues could not be fixed, ` +
+            "they are kept in the list:\n" +
+            errors.join("\n"),
+    );
+  }
+
   /**
    * Removes an issue from the issue list
    */
@@ -0,0 +1,181 @@
+import {
+  DeltaInsertNode,
+  DeltaLink,
+  DeltaOperation,
+  isInsertLink,
+  isInsertNode,
+  isRemoveLink,
+  isRemoveNode,
+  isSetDataItem,
+  isSetTextTranscription,
+  isUpdateNodeBbox,
+  isUpdateNodeClass,
+  isUpdateNodeMask,
+  isUpdateNodePolygon,
+} from "../../mung/Delta";
+import { Node } from "../../mung/Node";
+import { decodeRleMaskString } from "../../mung/decodeRleMaskString";
+import { NotationGraphStore } from "./notation-graph-store/NotationGraphStore";
+
+/**
+ * The part of the notation graph store API used by delta operations,
+ * so that they can be tried out on a draft first
+ */
+export type DeltaTarget = Pick<
+  NotationGraphStore,
+  | "hasNode"
+  | "getNode"
+  | "insertNode"
+  | "updateNode"
+  | "removeNodeWithLinks"
+  | "hasLink"
+  | "insertLink"
+  | "removeLink"
+>;
+
+/**
+ * Applies a single delta operation to the graph, throws an error
+ * (before changing anything) when the operation cannot be applied
+ */
+export function applyDeltaOperation(
+  graph: DeltaTarget,
+  op: DeltaOperation,
+): void {
+  if (isUpdateNodeClass(op)) {
+    const node = requireNode(graph, op.updateNodeId);
+    graph.updateNode({ ...node, className: op.newClassName });
+  } else if (isInsertNode(op)) {
+    insertNode(graph, op);
+  } else if (isRemoveNode(op)) {
+    requireNode(graph, op.removeNodeId);
+    graph.removeNodeWithLinks(op.removeNodeId);
+  } else if (isInsertLink(op)) {
+    requireLinkNodes(graph, op.insertLink);
+    const { fromId, toId, type } = op.insertLink;
+    if (fromId === toId) {
+      throw new Error(`Node ${fromId} cannot be linked to itself.`);
+    }
+    if (graph.hasLink(fromId, toId, type)) {
+      throw new Error(`The ${type} link ${fromId}->${toId} already exists.`);
+    }
+    graph.insertLink(fromId, toId, type);
+  } else if (isRemoveLink(op)) {
+    requireLinkNodes(graph, op.removeLink);
+    const { fromId, toId, type } = op.removeLink;
+    if (!graph.hasLink(fromId, toId, type)) {
+      throw new Error(`The ${type} link ${fromId}->${toId} does not exist.`);
+    }
+    graph.removeLink(fromId, toId, type);
+  } else if (isUpdateNodeBbox(op)) {
+    const node = requireNode(graph, op.updateNodeId);
+    const { left, top, width, height } = op.newBbox;
+    requireValidBbox(left, top, width, height);
+    const isResized = width !== node.width || height !== node.height;
+    graph.updateNode({
+      ...node,
+      left,
+      top,
+      width,
+      height,
+      decodedMask: isResized ? null : node.decodedMask,
+    });
+  } else if (isUpdateNodeMask(op)) {
+    const node = requireNode(graph, op.updateNodeId);
+    graph.updateNode({
+      ...node,
+      decodedMask:
+        op.newMask === null
+          ? null
+          : decodeRleMaskString(op.newMask, node.width, node.height),
+    });
+  } else if (isUpdateNodePolygon(op)) {
+    const node = requireNode(graph, op.updateNodeId);
+    graph.updateNode({
+      ...node,
+      polygon: op.newPolygon === null ? null : [...op.newPolygon],
+    });
+  } else if (isSetTextTranscription(op)) {
+    const node = requireNode(graph, op.updateNodeId);
+    graph.updateNode({ ...node, textTranscription: op.newTextTranscription });
+  } else if (isSetDataItem(op)) {
+    const node = requireNode(graph, op.updateNodeId);
+    const data = { ...node.data };
+    if (op.newDataItem === null) {
+      delete data[op.dataItemKey];
+    } else {
+      data[op.dataItemKey] = { ...op.newDataItem };
+    }
+    graph.updateNode({ ...node, data });
+  } else {
+    throw new Error("Unknown operation: " + JSON.stringify(op));
+  }
+}
+
+function insertNode(graph: DeltaTarget, op: DeltaInsertNode): void {
+  const value = op.insertNode;
+  if (!Number.isInteger(value.id) || value.id < 0) {
+    throw new Error(`Invalid node ID ${value.id}.`);
+  }
+  if (graph.hasNode(value.id)) {
+    throw new Error(`Node ${value.id} already exists.`);
+  }
+  requireValidBbox(value.left, value.top, value.width, value.height);
+
+  const data: Node["data"] = {};
+  for (const key in value.data ?? {}) {
+    data[key] = { ...value.data![key] };
+  }
+
+  graph.insertNode({
+    id: value.id,
+    className: value.className,
+    left: value.left,
+    top: value.top,
+    width: value.width,
+    height: value.height,
+    syntaxOutlinks: [],
+    syntaxInlinks: [],
+    precedenceOutlinks: [],
+    precedenceInlinks: [],
+    decodedMask:
+      value.mask === undefined || value.mask === null
+        ? null
+        : decodeRleMaskString(value.mask, value.width, value.height),
+    textTranscription: value.textTranscription ?? null,
+    data,
+    polygon:
+      value.polygon === undefined || value.polygon === null
+        ? null
+        : [...value.polygon],
+    ...(value.extraXml === undefined ? {} : { extraXml: value.extraXml }),
+  });
+}
+
+function requireNode(graph: DeltaTarget, nodeId: number): Node {
+  if (!graph.hasNode(nodeId)) {
+    throw new Error(`Node ${nodeId} does not exist.`);
+  }
+  return graph.getNode(nodeId);
+}
+
+function requireLinkNodes(graph: DeltaTarget, link: DeltaLink): void {
+  requireNode(graph, link.fromId);
+  requireNode(graph, link.toId);
+}
+
+function requireValidBbox(
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+): void {
+  if (
+    ![left, top, width, height].every(Number.isFinite) ||
+    width <= 0 ||
+    height <= 0
+  ) {
+    throw new Error(
+      `Invalid bounding box: ${left}, ${top}, ${width} x ${height}.`,
+    );
+  }
+}
@@ -5,7 +5,11 @@ import { LinksIndex } from "./LinksIndex";
 import { NodeCollection } from "./NodeCollection";
 
 /**
- * Provides bulk actions to the NodeCollection store
+ * Provides bulk actions to the NodeCollection store. It works directly
+ * with the node collection, so it emits the node and link events but no
+ * collaboration operations. The notation graph store calls it only inside
+ * a transaction (see NotationGraphStore.setAllNodes and insertManyNodes),
+ * so that the whole bulk action is seen as one change.
  */
 export class BulkActionLayer {
   private nodeCollection: NodeCollection;
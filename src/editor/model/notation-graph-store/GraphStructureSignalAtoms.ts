@@ -1,7 +1,7 @@
 import { LinkType } from "../../../mung/LinkType";
-import { JotaiStore } from "../JotaiStore";
 import { SignalAtomWrapper } from "../SignalAtomWrapper";
 import { NodeCollection } from "./NodeCollection";
+import { SignalBatch } from "./SignalBatch";
 
 /**
  * Defines signal jotai atoms that can be subscribed to when the notation graph
@@ -32,10 +32,10 @@ export class GraphStructureSignalAtoms {
    */
   public readonly whenLinksChange = new SignalAtomWrapper();
 
-  private jotaiStore: JotaiStore;
+  private signalBatch: SignalBatch;
 
-  constructor(nodeCollection: NodeCollection, jotaiStore: JotaiStore) {
-    this.jotaiStore = jotaiStore;
+  constructor(nodeCollection: NodeCollection, signalBatch: SignalBatch) {
+    this.signalBatch = signalBatch;
 
     // nodes
     nodeCollection.onNodeInserted.subscribe(() => {
@@ -55,16 +55,16 @@ export class GraphStructureSignalAtoms {
   }
 
   private signalNode() {
-    this.whenNodesChange.signal(this.jotaiStore.set);
+    this.signalBatch.signal(this.whenNodesChange);
   }
 
   private signalLink(linkType: LinkType) {
     if (linkType === LinkType.Syntax) {
-      this.whenSyntaxLinksChange.signal(this.jotaiStore.set);
+      this.signalBatch.signal(this.whenSyntaxLinksChange);
     }
     if (linkType === LinkType.Precedence) {
-      this.whenPrecedenceLinksChange.signal(this.jotaiStore.set);
+      this.signalBatch.signal(this.whenPrecedenceLinksChange);
     }
-    this.whenLinksChange.signal(this.jotaiStore.set);
+    this.signalBatch.signal(this.whenLinksChange);
   }
 }
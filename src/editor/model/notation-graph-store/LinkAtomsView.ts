@@ -2,7 +2,7 @@ import { atom, Atom } from "jotai";
 import { LinkWithNodes } from "../../../mung/LinkWithNodes";
 import { Link } from "../../../mung/Link";
 import { LinksIndex } from "./LinksIndex";
-import { JotaiStore } from "../JotaiStore";
+import { SignalBatch } from "./SignalBatch";
 import { NodeCollection, NodeUpdateMetadata } from "./NodeCollection";
 import { SignalAtomWrapper } from "../SignalAtomWrapper";
 import { LinkType } from "../../../mung/LinkType";
@@ -15,7 +15,7 @@ export type LinkAtom = Atom<LinkWithNodes>;
  */
 export class LinkAtomsView {
   private allLinksIndex: LinksIndex;
-  private jotaiStore: JotaiStore;
+  private signalBatch: SignalBatch;
 
   private linkAtoms: Map<string, LinkAtom>;
 
@@ -24,10 +24,10 @@ export class LinkAtomsView {
   constructor(
     nodeCollection: NodeCollection,
     allLinksIndex: LinksIndex,
-    jotaiStore: JotaiStore,
+    signalBatch: SignalBatch,
   ) {
     this.allLinksIndex = allLinksIndex;
-    this.jotaiStore = jotaiStore;
+    this.signalBatch = signalBatch;
 
     this.linkAtoms = new Map();
     this.signalAtoms = new Map();
@@ -80,7 +80,7 @@ export class LinkAtomsView {
     const linkId = getLinkId(link);
     const signalAtom = this.signalAtoms.get(linkId);
     if (signalAtom) {
-      signalAtom.signal(this.jotaiStore.set);
+      this.signalBatch.signal(signalAtom);
     }
   }
 
@@ -2,7 +2,7 @@ import { atom, WritableAtom } from "jotai";
 import { Node } from "../../../mung/Node";
 import { NodeCollection } from "./NodeCollection";
 import { SignalAtomWrapper } from "../SignalAtomWrapper";
-import { JotaiStore } from "../JotaiStore";
+import { SignalBatch } from "./SignalBatch";
 
 export type NodeAtom = WritableAtom<Node, [newValue: Node], void>;
 
@@ -11,15 +11,15 @@ export type NodeAtom = WritableAtom<Node, [newValue: Node], void>;
  */
 export class NodeAtomsView {
   private nodeCollection: NodeCollection;
-  private jotaiStore: JotaiStore;
+  private signalBatch: SignalBatch;
 
   private nodeAtoms: Map<number, NodeAtom>;
 
   private signalAtoms: Map<number, SignalAtomWrapper>;
 
-  constructor(nodeCollection: NodeCollection, jotaiStore: JotaiStore) {
+  constructor(nodeCollection: NodeCollection, signalBatch: SignalBatch) {
     this.nodeCollection = nodeCollection;
-    this.jotaiStore = jotaiStore;
+    this.signalBatch = signalBatch;
 
     this.nodeAtoms = new Map();
     this.signalAtoms = new Map();
@@ -44,7 +44,7 @@ export class NodeAtomsView {
   private signalNode(nodeId: number) {
     const signalAtom = this.signalAtoms.get(nodeId);
     if (signalAtom) {
-      signalAtom.signal(this.jotaiStore.set);
+      this.signalBatch.signal(signalAtom);
     }
   }
 
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "vitest";
+import { FieldStamp, NodeFieldGroup } from "../CollabOp";
+import { NodeFieldClocks } from "./NodeFieldClocks";
+
+const NODE_ID = 1;
+
+/**
+ * A node update as it travels between the clients
+ */
+interface Write {
+  readonly fields: readonly NodeFieldGroup[];
+  readonly stamp: FieldStamp;
+  readonly base: Partial<Record<NodeFieldGroup, FieldStamp | null>>;
+  readonly value: string;
+}
+
+/**
+ * One collaborator holding a value for each field group of a single node
+ */
+class Client {
+  public readonly clocks = new NodeFieldClocks();
+  public readonly values = new Map<NodeFieldGroup, string>();
+
+  constructor(public readonly clientId: string) {}
+
+  public write(fields: readonly NodeFieldGroup[], value: string): Write {
+    const { stamp, base } = this.clocks.stampLocalWrite(
+      NODE_ID,
+      fields,
+      this.clientId,
+    );
+    for (const field of fields) this.values.set(field, value);
+    return { fields, stamp, base, value };
+  }
+
+  public receive(write: Write) {
+    const result = this.clocks.mergeRemoteWrite(
+      NODE_ID,
+      write.fields,
+      write.stamp,
+      write.base,
+      this.clientId,
+    );
+    for (const field of result.acceptedFields) {
+      this.values.set(field, write.value);
+    }
+    return result;
+  }
+}
+
+describe("NodeFieldClocks", () => {
+  test("concurrent writes converge in either arrival order", () => {
+    const alice = new Client("alice");
+    const bob = new Client("bob");
+    const aliceWrite = alice.write(["className"], "alice");
+    const bobWrite = bob.write(["className", "geometry"], "bob");
+    alice.receive(bobWrite);
+    bob.receive(aliceWrite);
+
+    // observers get the same writes in the opposite orders
+    const carol = new Client("carol");
+    carol.receive(aliceWrite);
+    carol.receive(bobWrite);
+    const dave = new Client("dave");
+    dave.receive(bobWrite);
+    dave.receive(aliceWrite);
+
+    for (const client of [alice, bob, carol, dave]) {
+      expect(client.values.get("className")).toBe("bob");
+      expect(client.values.get("geometry")).toBe("bob");
+    }
+  });
+
+  test("concurrent writes are reported as conflicts on both sides", () => {
+    const alice = new Client("alice");
+    const bob = new Client("bob");
+    const aliceWrite = alice.write(["className"], "alice");
+    const bobWrite = bob.write(["className"], "bob");
+
+    expect(alice.receive(bobWrite).conflicts).toEqual([
+      {
+        nodeId: NODE_ID,
+        field: "className",
+        remoteClientId: "bob",
+        isRemoteKept: true,
+      },
+    ]);
+    expect(bob.receive(aliceWrite).conflicts).toEqual([
+      {
+        nodeId: NODE_ID,
+        field: "className",
+        remoteClientId: "alice",
+        isRemoteKept: false,
+      },
+    ]);
+  });
+
+  test("writes of different field groups do not conflict", () => {
+    const alice = new Client("alice");
+    const bob = new Client("bob");
+    const aliceWrite = alice.write(["className"], "alice");
+    const bobWrite = bob.write(["geometry"], "bob");
+
+    expect(alice.receive(bobWrite).conflicts).toEqual([]);
+    expect(bob.receive(aliceWrite).conflicts).toEqual([]);
+    for (const client of [alice, bob]) {
+      expect(client.values.get("className")).toBe("alice");
+      expect(client.values.get("geometry")).toBe("bob");
+    }
+  });
+
+  test("a write made after seeing another one wins without a conflict", () => {
+    const alice = new Client("alice");
+    const bob = new Client("bob");
+    const aliceWrite = alice.write(["className"], "alice");
+    bob.receive(aliceWrite);
+    const bobWrite = bob.write(["className"], "bob");
+
+    const result = alice.receive(bobWrite);
+    expect(result.acceptedFields).toEqual(["className"]);
+    expect(result.conflicts).toEqual([]);
+    expect(alice.values.get("className")).toBe("bob");
+  });
+
+  test("a stale write is not applied over a newer one", () => {
+    const alice = new Client("alice");
+    const bob = new Client("bob");
+    const oldWrite = alice.write(["className"], "old");
+    const newWrite = alice.write(["className"], "new");
+
+    bob.receive(newWrite);
+    expect(bob.receive(oldWrite).acceptedFields).toEqual([]);
+    expect(bob.values.get("className")).toBe("new");
+  });
+});
@@ -0,0 +1,131 @@
+import { compareFieldStamps, FieldStamp, NodeFieldGroup } from "../CollabOp";
+
+/**
+ * A concurrent write of the same field group by the local user
+ * and a collaborator
+ */
+export interface FieldConflict {
+  readonly nodeId: number;
+  readonly field: NodeFieldGroup;
+
+  /**
+   * Client ID of the collaborator whose edit clashed with the local one
+   */
+  readonly remoteClientId: string;
+
+  /**
+   * True when the collaborator's value won, false when the local one stayed
+   */
+  readonly isRemoteKept: boolean;
+}
+
+/**
+ * Result of merging a remote node update
+ */
+export interface FieldMergeResult {
+  /**
+   * Field groups whose remote values should be applied
+   */
+  readonly acceptedFields: readonly NodeFieldGroup[];
+
+  readonly conflicts: readonly FieldConflict[];
+}
+
+/**
+ * Per-field Lamport clocks of nodes, used to merge concurrent updates
+ * of the same node. Each write of a field group is stamped and a write
+ * only wins over a write with an older stamp. Since all clients order
+ * the stamps the same way, they converge regardless of the order
+ * in which they receive the updates.
+ */
+export class NodeFieldClocks {
+  private lamportClock = 0;
+
+  /**
+   * Stamp of the last write, for each node and each of its written groups
+   */
+  private stamps = new Map<number, Map<NodeFieldGroup, FieldStamp>>();
+
+  /**
+   * Stamps a local write of the given groups, returns the new stamp
+   * and the stamps the groups had before
+   */
+  public stampLocalWrite(
+    nodeId: number,
+    fields: readonly NodeFieldGroup[],
+    clientId: string,
+  ): {
+    stamp: FieldStamp;
+    base: Partial<Record<NodeFieldGroup, FieldStamp | null>>;
+  } {
+    this.lamportClock += 1;
+    const stamp: FieldStamp = { clock: this.lamportClock, clientId };
+    const nodeStamps = this.getNodeStamps(nodeId);
+    const base: Partial<Record<NodeFieldGroup, FieldStamp | null>> = {};
+    for (const field of fields) {
+      base[field] = nodeStamps.get(field) ?? null;
+      nodeStamps.set(field, stamp);
+    }
+    return { stamp, base };
+  }
+
+  /**
+   * Decides which groups of a remote write are applied and records
+   * their stamps. A conflict is reported when the remote write
+   * did not know about the local write of the same group.
+   */
+  public mergeRemoteWrite(
+    nodeId: number,
+    fields: readonly NodeFieldGroup[],
+    stamp: FieldStamp,
+    base: Partial<Record<NodeFieldGroup, FieldStamp | null>>,
+    localClientId: string,
+  ): FieldMergeResult {
+    this.lamportClock = Math.max(this.lamportClock, stamp.clock);
+
+    const nodeStamps = this.getNodeStamps(nodeId);
+    const acceptedFields: NodeFieldGroup[] = [];
+    const conflicts: FieldConflict[] = [];
+    for (const field of fields) {
+      const localStamp = nodeStamps.get(field) ?? null;
+      const isRemoteNewer =
+        localStamp === null || compareFieldStamps(stamp, localStamp) > 0;
+      if (isRemoteNewer) {
+        acceptedFields.push(field);
+        nodeStamps.set(field, stamp);
+      }
+
+      const baseStamp = base[field] ?? null;
+      const isConcurrent =
+        localStamp !== null &&
+        localStamp.clientId === localClientId &&
+        (baseStamp === null || compareFieldStamps(baseStamp, localStamp) < 0);
+      if (isConcurrent) {
+        conflicts.push({
+          nodeId,
+          field,
+          remoteClientId: stamp.clientId,
+          isRemoteKept: isRemoteNewer,
+        });
+      }
+    }
+    return { acceptedFields, conflicts };
+  }
+
+  public forgetNode(nodeId: number): void {
+    this.stamps.delete(nodeId);
+  }
+
+  public clear(): void {
+    this.stamps.clear();
+  }
+
+  private getNodeStamps(nodeId: number): Map<NodeFieldGroup, FieldStamp> {
+    let nodeStamps = this.stamps.get(nodeId);
+    if (nodeStamps === undefined) {
+      nodeStamps = new Map();
+      this.stamps.set(nodeId, nodeStamps);
+    }
+    return nodeStamps;
+  }
+}
@@ -17,11 +17,37 @@ import { NodeAtom, NodeAtomsView } from "./NodeAtomsView";
 import { LinkAtomsView } from "./LinkAtomsView";
 import { ClassNameCounts, ClassNamesIndex } from "./ClassNamesIndex";
 import { SignalAtomWrapper } from "../SignalAtomWrapper";
-import { ISignal, ISimpleEvent, SignalDispatcher } from "strongly-typed-events";
+import {
+  ISignal,
+  ISimpleEvent,
+  SignalDispatcher,
+  SimpleEventDispatcher,
+} from "strongly-typed-events";
 import { MetadataCollection } from "./MetadataCollection";
 import { MungFileMetadata } from "../../../mung/MungFileMetadata";
 import { MungFile } from "../../../mung/MungFile";
 import { SceneOrderedNodesIndex } from "./SceneOrderedNodesIndex";
+import { SignalBatch } from "./SignalBatch";
+import { TransactionSummary } from "./TransactionSummary";
+import { getLinkId } from "../../../mung/getLinkId";
+import {
+  COLLAB_OP_VERSION,
+  CollabBatchedOp,
+  CollabBatchOp,
+  CollabOp,
+  collabNodeToNode,
+  getChangedFieldGroups,
+  NODE_FIELD_GROUPS,
+  nodeToCollabNode,
+} from "../CollabOp";
+import { FieldConflict, NodeFieldClocks } from "./NodeFieldClocks";
+import {
+  getNodeAttribution,
+  isSameAttribution,
+  mergeNodeAttribution,
+  setNodeAttribution,
+  stampNodeAttribution,
+} from "../../../mung/NodeAttribution";
 
 /**
  * Stores the Music Notation Graph (MuNG) data and provides convenient
@@ -57,6 +83,7 @@ export class NotationGraphStore {
   private bulkActionLayer: BulkActionLayer;
 
   // react connectors
+  private signalBatch: SignalBatch;
   private graphStructureSignalAtoms: GraphStructureSignalAtoms;
   private nodeAtomsView: NodeAtomsView;
   private linkAtomsView: LinkAtomsView;
@@ -66,53 +93,195 @@ export class NotationGraphStore {
    * local graph mutation is emitted as an operation descriptor so it can be
    * broadcast to other clients. Null = no collaboration (default).
    */
-  public opSink: ((op: any) => void) | null = null;
+  public opSink: ((op: CollabOp) => void) | null = null;
+
+  /**
+   * ID of the local collaboration client, it stamps the local node updates
+   */
+  public collabClientId = "";
+
+  /**
+   * Stamps of node field writes, concurrent updates of the same node
+   * are merged field by field according to them
+   */
+  private fieldClocks = new NodeFieldClocks();
 
   /** While true, mutations are NOT re-emitted (used while applying remote ops). */
   private _suppressOps = false;
 
-  private emitOp(op: any): void {
-    if (this.opSink !== null && !this._suppressOps) this.opSink(op);
+  /**
+   * Name of the local user. Nodes they insert or change (including links
+   * going out of the nodes) are stamped with it, see NodeAttribution.
+   * Null = nodes are not stamped (default).
+   */
+  public attributionAuthor: string | null = null;
+
+  /** While true, nodes are NOT stamped (used while history restores them). */
+  private _suppressAttribution = false;
+
+  private get isStampingEnabled(): boolean {
+    return (
+      this.attributionAuthor !== null &&
+      !this._suppressOps &&
+      !this._suppressAttribution
+    );
+  }
+
+  /**
+   * Performs changes that restore previous node values, so the nodes
+   * are not stamped (e.g. undo and redo, the values carry their stamps)
+   */
+  public withoutAttribution<T>(fn: () => T): T {
+    const wasSuppressingAttribution = this._suppressAttribution;
+    this._suppressAttribution = true;
+    try {
+      return fn();
+    } finally {
+      this._suppressAttribution = wasSuppressingAttribution;
+    }
+  }
+
+  /**
+   * Returns the node stamped by the local user, remote changes
+   * carry the stamps of their authors and are not stamped again
+   */
+  private stampNode(node: Node, isCreation: boolean): Node {
+    const author = this.attributionAuthor;
+    if (author === null || !this.isStampingEnabled) return node;
+    this.transactionState?.stampedNodeIds.add(node.id);
+    return {
+      ...node,
+      data: stampNodeAttribution(node.data, author, new Date(), isCreation),
+    };
+  }
+
+  /**
+   * Emits an operation to the op sink, the operation is only built
+   * when there is someone to receive it (encoding masks is not free)
+   */
+  private emitOp(createOp: () => CollabBatchedOp): void {
+    if (this.opSink === null || this._suppressOps) return;
+    if (this.transactionState !== null) {
+      this.transactionState.ops.push(createOp());
+    } else {
+      this.opSink(createOp());
+    }
   }
 
   /**
    * Applies an operation received from another collaborator, without
    * re-broadcasting it. Idempotent: safe to replay an op already reflected in
-   * the graph (e.g. one that raced a save-snapshot).
+   * the graph (e.g. one that raced a save-snapshot). The operation must
+   * have been validated, see validateCollabOp. All node payloads are decoded
+   * before the graph is touched, so an op that fails to decode changes nothing.
    */
-  public applyRemoteOp(op: any): void {
+  public applyRemoteOp(op: CollabOp): void {
+    const apply =
+      op.t === "batch" ? this.prepareRemoteBatch(op) : this.prepareRemoteOp(op);
+
+    const wasSuppressingOps = this._suppressOps;
     this._suppressOps = true;
     try {
-      switch (op?.t) {
-        case "insertNode":
-          if (this.hasNode(op.node.id)) this.updateNode(op.node);
-          else this.insertNode(op.node);
-          break;
-        case "updateNode":
-          if (this.hasNode(op.node.id)) this.updateNode(op.node);
-          break;
-        case "removeNode":
-        case "removeNodeWithLinks":
+      apply();
+    } finally {
+      this._suppressOps = wasSuppressingOps;
+    }
+  }
+
+  private prepareRemoteBatch(op: CollabBatchOp): () => void {
+    const applyOps = op.ops.map((batchOp) => this.prepareRemoteOp(batchOp));
+    return () => {
+      this.transaction(op.label, () => {
+        for (const applyOp of applyOps) applyOp();
+      });
+    };
+  }
+
+  private prepareRemoteOp(op: CollabBatchedOp): () => void {
+    switch (op.t) {
+      case "insertNode": {
+        const node = collabNodeToNode(op.node);
+        return () => {
+          if (this.hasNode(node.id)) {
+            // links travel as separate ops, the local ones are kept
+            const oldNode = this.getNode(node.id);
+            this.updateNode({
+              ...node,
+              syntaxOutlinks: oldNode.syntaxOutlinks,
+              syntaxInlinks: oldNode.syntaxInlinks,
+              precedenceOutlinks: oldNode.precedenceOutlinks,
+              precedenceInlinks: oldNode.precedenceInlinks,
+            });
+          } else {
+            this.insertNode(node);
+          }
+        };
+      }
+      case "updateNode": {
+        const node = collabNodeToNode(op.node);
+        return () => {
+          if (!this.hasNode(node.id)) return;
+          const { acceptedFields, conflicts } =
+            this.fieldClocks.mergeRemoteWrite(
+              node.id,
+              op.fields,
+              op.stamp,
+              op.base,
+              this.collabClientId,
+            );
+          const localNode = this.getNode(node.id);
+          const localAttribution = getNodeAttribution(localNode.data);
+          const attribution = mergeNodeAttribution(
+            localAttribution,
+            getNodeAttribution(node.data),
+          );
+          if (
+            acceptedFields.length > 0 ||
+            !isSameAttribution(attribution, localAttribution)
+          ) {
+            // only the accepted field groups are taken from the remote node
+            const mergedNode: MutableNode = { ...localNode };
+            for (const group of acceptedFields) {
+              for (const field of NODE_FIELD_GROUPS[group]) {
+                copyNodeField(mergedNode, node, field);
+              }
+            }
+            // the attribution is merged regardless of the field groups
+            mergedNode.data = setNodeAttribution(mergedNode.data, attribution);
+            this.updateNode(mergedNode);
+          }
+          for (const conflict of conflicts) {
+            this._onCollabConflict.dispatch(conflict);
+          }
+        };
+      }
+      case "removeNode":
+      case "removeNodeWithLinks":
+        return () => {
           if (this.hasNode(op.id)) this.removeNodeWithLinks(op.id);
-          break;
-        case "insertLink":
+          this.fieldClocks.forgetNode(op.id);
+        };
+      case "insertLink":
+        return () => {
           if (
             this.hasNode(op.from) &&
             this.hasNode(op.to) &&
             !this.hasLink(op.from, op.to, op.linkType)
           )
             this.insertLink(op.from, op.to, op.linkType);
-          break;
-        case "removeLink":
+        };
+      case "removeLink":
+        return () => {
           if (this.hasLink(op.from, op.to, op.linkType))
             this.removeLink(op.from, op.to, op.linkType);
-          break;
-        case "setAll":
-          this.setAllNodes(op.nodes);
-          break;
+        };
+      case "setAll": {
+        const nodes = op.nodes.map(collabNodeToNode);
+        return () => {
+          this.setAllNodes(nodes);
+          this.fieldClocks.clear();
+        };
       }
-    } finally {
-      this._suppressOps = false;
     }
   }
 
@@ -138,9 +307,11 @@ export class NotationGraphStore {
       this.nodeCollection,
     );
 
+    this.signalBatch = new SignalBatch(this.jotaiStore);
+
     this.sceneOrderedNodesIndex = new SceneOrderedNodesIndex(
       this.nodeCollection,
-      this.jotaiStore,
+      this.signalBatch,
     );
 
     this.classNamesIndex = new ClassNamesIndex(this.nodeCollection);
@@ -154,19 +325,19 @@ export class NotationGraphStore {
 
     this.graphStructureSignalAtoms = new GraphStructureSignalAtoms(
       this.nodeCollection,
-      this.jotaiStore,
+      this.signalBatch,
     );
     this.nodeAtomsView = new NodeAtomsView(
       this.nodeCollection,
-      this.jotaiStore,
+      this.signalBatch,
     );
     this.linkAtomsView = new LinkAtomsView(
       this.nodeCollection,
       this.allLinksIndex,
-      this.jotaiStore,
+      this.signalBatch,
     );
     this.classNamesIndex.onChange.subscribe(() => {
-      this.classNamesChangeSignalAtom.signal(this.jotaiStore.set);
+      this.signalBatch.signal(this.classNamesChangeSignalAtom);
     });
 
     // === insert initial data ===
@@ -175,23 +346,49 @@ export class NotationGraphStore {
 
     // === set up events ===
 
-    this.nodeCollection.onNodeInserted.subscribe(() =>
-      this._onChange.dispatch(),
+    this.nodeCollection.onNodeInserted.subscribe((node) =>
+      this.handleChange(node.id, null),
     );
-    this.nodeCollection.onNodeRemoved.subscribe(() =>
-      this._onChange.dispatch(),
+    this.nodeCollection.onNodeRemoved.subscribe((node) =>
+      this.handleChange(node.id, null),
     );
-    this.nodeCollection.onNodeUpdatedOrLinked.subscribe(() =>
-      this._onChange.dispatch(),
+    this.nodeCollection.onNodeUpdatedOrLinked.subscribe((meta) =>
+      this.handleChange(meta.isLinkUpdate ? null : meta.nodeId, null),
     );
-    this.nodeCollection.onLinkInserted.subscribe(() =>
-      this._onChange.dispatch(),
+    this.nodeCollection.onLinkInserted.subscribe((meta) =>
+      this.handleChange(null, {
+        fromId: meta.fromNode.id,
+        toId: meta.toNode.id,
+        type: meta.linkType,
+      }),
     );
-    this.nodeCollection.onLinkRemoved.subscribe(() =>
-      this._onChange.dispatch(),
+    this.nodeCollection.onLinkRemoved.subscribe((meta) =>
+      this.handleChange(null, {
+        fromId: meta.fromNode.id,
+        toId: meta.toNode.id,
+        type: meta.linkType,
+      }),
     );
   }
 
+  /**
+   * Dispatches the change event, or during a transaction,
+   * remembers what has been touched
+   */
+  private handleChange(nodeId: number | null, link: Link | null): void {
+    if (this.transactionState === null) {
+      this._onChange.dispatch();
+      return;
+    }
+    if (nodeId !== null) {
+      this.transactionState.nodeIds.add(nodeId);
+    }
+    if (link !== null) {
+      this.transactionState.links.set(getLinkId(link), link);
+    }
+    this.transactionState.hasChanges = true;
+  }
+
   /**
    * Builds and returns the MuNG file datastructure.
    * Used for saving the annotated document.
@@ -211,12 +408,45 @@ export class NotationGraphStore {
 
   /**
    * Fires whenever the notation graph changes in any way,
-   * used to trigger autosaving and history snapshots
+   * used to trigger autosaving and history snapshots.
+   * A transaction fires it only once, when it completes.
    */
   public get onChange(): ISignal {
     return this._onChange.asEvent();
   }
 
+  private _onTransactionStarted = new SimpleEventDispatcher<string>();
+
+  /**
+   * Fires with the label when the outermost transaction starts,
+   * before any of its changes are made
+   */
+  public get onTransactionStarted(): ISimpleEvent<string> {
+    return this._onTransactionStarted.asEvent();
+  }
+
+  private _onTransactionCompleted =
+    new SimpleEventDispatcher<TransactionSummary>();
+
+  /**
+   * Fires once the outermost transaction completes (even if it throws),
+   * with the summary of all the changes made in it. It fires only if
+   * there were changes and it fires before the change event.
+   */
+  public get onTransactionCompleted(): ISimpleEvent<TransactionSummary> {
+    return this._onTransactionCompleted.asEvent();
+  }
+
+  private _onCollabConflict = new SimpleEventDispatcher<FieldConflict>();
+
+  /**
+   * Fires when a collaborator's update of a node field group
+   * was concurrent with a local update of the same group
+   */
+  public get onCollabConflict(): ISimpleEvent<FieldConflict> {
+    return this._onCollabConflict.asEvent();
+  }
+
   // === expose node collection events ===
 
   /**
@@ -255,6 +485,93 @@ export class NotationGraphStore {
     return this.nodeCollection.onLinkRemoved;
   }
 
+  //////////////////
+  // Transactions //
+  //////////////////
+
+  /**
+   * State of the running transaction, null when none is running
+   */
+  private transactionState: {
+    readonly label: string;
+    readonly nodeIds: Set<number>;
+    readonly links: Map<string, Link>;
+    readonly ops: CollabBatchedOp[];
+    hasChanges: boolean;
+
+    /**
+     * Nodes stamped by the local user during the transaction
+     */
+    readonly stampedNodeIds: Set<number>;
+
+    /**
+     * Nodes whose outgoing links changed, they are stamped
+     * once when the transaction completes
+     */
+    readonly linkedNodeIds: Set<number>;
+  } | null = null;
+
+  /**
+   * True while a transaction is running
+   */
+  public get isInTransaction(): boolean {
+    return this.transactionState !== null;
+  }
+
+  /**
+   * Runs the given function, grouping all the graph mutations it makes
+   * into one labelled unit. Node and link events still fire per mutation,
+   * but the change event fires once at the end, jotai atoms are
+   * re-computed once, history records a single undo step and
+   * collaborators receive a single batch operation.
+   *
+   * The function must be synchronous. Nested transactions become part
+   * of the outermost one (and its label is used). Changes made before
+   * an exception are kept, the transaction is completed either way.
+   */
+  public transaction<T>(label: string, fn: () => T): T {
+    if (this.transactionState !== null) {
+      return fn();
+    }
+
+    this._onTransactionStarted.dispatch(label);
+    this.transactionState = {
+      label,
+      nodeIds: new Set(),
+      links: new Map(),
+      ops: [],
+      hasChanges: false,
+      stampedNodeIds: new Set(),
+      linkedNodeIds: new Set(),
+    };
+    this.signalBatch.open();
+    try {
+      return fn();
+    } finally {
+      this.stampLinkedNodes();
+      const state = this.transactionState;
+      this.transactionState = null;
+      this.signalBatch.close();
+
+      if (state.ops.length > 0 && this.opSink !== null) {
+        this.opSink({
+          v: COLLAB_OP_VERSION,
+          t: "batch",
+          label: state.label,
+          ops: state.ops,
+        });
+      }
+      if (state.hasChanges) {
+        this._onTransactionCompleted.dispatch({
+          label: state.label,
+          nodeIds: [...state.nodeIds],
+          links: [...state.links.values()],
+        });
+        this._onChange.dispatch();
+      }
+    }
+  }
+
   //////////////////////////
   // Javascript Nodes API //
   //////////////////////////
@@ -300,8 +617,13 @@ export class NotationGraphStore {
    * must have NO links.
    */
   public insertNode(node: Node) {
+    node = this.stampNode(node, true);
     this.nodeCollection.insertNode(node);
-    this.emitOp({ t: "insertNode", node });
+    this.emitOp(() => ({
+      v: COLLAB_OP_VERSION,
+      t: "insertNode",
+      node: nodeToCollabNode(node),
+    }));
   }
 
   /**
@@ -309,8 +631,23 @@ export class NotationGraphStore {
    * Links cannot be changed via this method, use the dedicated one instead.
    */
   public updateNode(newValue: Node) {
+    newValue = this.stampNode(newValue, false);
+    const oldValue = this.nodeCollection.getNode(newValue.id);
     this.nodeCollection.updateNode(newValue);
-    this.emitOp({ t: "updateNode", node: newValue });
+    this.emitOp(() => {
+      const fields = getChangedFieldGroups(oldValue, newValue);
+      return {
+        v: COLLAB_OP_VERSION,
+        t: "updateNode",
+        node: nodeToCollabNode(newValue),
+        fields,
+        ...this.fieldClocks.stampLocalWrite(
+          newValue.id,
+          fields,
+          this.collabClientId,
+        ),
+      };
+    });
   }
 
   /**
@@ -321,7 +658,7 @@ export class NotationGraphStore {
    */
   public removeNode(nodeId: number) {
     this.nodeCollection.removeNode(nodeId);
-    this.emitOp({ t: "removeNode", id: nodeId });
+    this.emitOp(() => ({ v: COLLAB_OP_VERSION, t: "removeNode", id: nodeId }));
   }
 
   /**
@@ -350,7 +687,11 @@ export class NotationGraphStore {
 
     // now the node should have no links
     this.nodeCollection.removeNode(nodeId);
-    this.emitOp({ t: "removeNodeWithLinks", id: nodeId });
+    this.emitOp(() => ({
+      v: COLLAB_OP_VERSION,
+      t: "removeNodeWithLinks",
+      id: nodeId,
+    }));
   }
 
   /**
@@ -358,12 +699,60 @@ export class NotationGraphStore {
    * completely overwriting its current contents.
    */
   public setAllNodes(nodes: readonly Node[]) {
-    // TODO: this must be more gentle as it is used to navigate through
-    // the history and so something faster must be used instead
-    // (something that only emits change events for what has actually changed)
-    this.bulkActionLayer.clear();
-    this.bulkActionLayer.insertManyNodes(nodes);
-    this.emitOp({ t: "setAll", nodes });
+    this.transaction("Replace all nodes", () => {
+      this.bulkActionLayer.clear();
+      this.bulkActionLayer.insertManyNodes(nodes);
+      this.emitOp(() => ({
+        v: COLLAB_OP_VERSION,
+        t: "setAll",
+        nodes: nodes.map(nodeToCollabNode),
+      }));
+    });
+  }
+
+  /**
+   * Inserts many nodes at once, as a single transaction. The nodes may
+   * be linked among each other but not with already inserted nodes
+   * and they must have new and distinct IDs.
+   */
+  public insertManyNodes(nodes: readonly Node[], label = "Insert nodes") {
+    nodes = nodes.map((node) => this.stampNode(node, true));
+    this.transaction(label, () => {
+      this.bulkActionLayer.insertManyNodes(nodes);
+      for (const node of nodes) {
+        this.emitOp(() => ({
+          v: COLLAB_OP_VERSION,
+          t: "insertNode",
+          node: nodeToCollabNode({
+            ...node,
+            syntaxInlinks: [],
+            syntaxOutlinks: [],
+            precedenceInlinks: [],
+            precedenceOutlinks: [],
+          }),
+        }));
+      }
+      for (const node of nodes) {
+        for (const toId of node.syntaxOutlinks) {
+          this.emitOp(() => ({
+            v: COLLAB_OP_VERSION,
+            t: "insertLink",
+            from: node.id,
+            to: toId,
+            linkType: LinkType.Syntax,
+          }));
+        }
+        for (const toId of node.precedenceOutlinks) {
+          this.emitOp(() => ({
+            v: COLLAB_OP_VERSION,
+            t: "insertLink",
+            from: node.id,
+            to: toId,
+            linkType: LinkType.Precedence,
+          }));
+        }
+      }
+    });
   }
 
   /////////////////////
@@ -435,7 +824,14 @@ export class NotationGraphStore {
    */
   public insertLink(fromId: number, toId: number, type: LinkType) {
     this.nodeCollection.insertLink(fromId, toId, type);
-    this.emitOp({ t: "insertLink", from: fromId, to: toId, linkType: type });
+    this.emitOp(() => ({
+      v: COLLAB_OP_VERSION,
+      t: "insertLink",
+      from: fromId,
+      to: toId,
+      linkType: type,
+    }));
+    this.stampLinkedNode(fromId);
   }
 
   /**
@@ -443,7 +839,40 @@ export class NotationGraphStore {
    */
   public removeLink(fromId: number, toId: number, type: LinkType) {
     this.nodeCollection.removeLink(fromId, toId, type);
-    this.emitOp({ t: "removeLink", from: fromId, to: toId, linkType: type });
+    this.emitOp(() => ({
+      v: COLLAB_OP_VERSION,
+      t: "removeLink",
+      from: fromId,
+      to: toId,
+      linkType: type,
+    }));
+    this.stampLinkedNode(fromId);
+  }
+
+  /**
+   * Stamps the node by the local user without changing it otherwise,
+   * links are attributed to the node they go out of. Within a transaction,
+   * the node is stamped once when it completes, not for every link.
+   */
+  private stampLinkedNode(nodeId: number): void {
+    if (!this.isStampingEnabled) return;
+    if (this.transactionState !== null) {
+      this.transactionState.linkedNodeIds.add(nodeId);
+      return;
+    }
+    this.updateNode(this.getNode(nodeId));
+  }
+
+  /**
+   * Stamps the nodes whose links changed during the running transaction,
+   * unless they were stamped by an update already
+   */
+  private stampLinkedNodes(): void {
+    const state = this.transactionState!;
+    for (const nodeId of state.linkedNodeIds) {
+      if (state.stampedNodeIds.has(nodeId) || !this.hasNode(nodeId)) continue;
+      this.updateNode(this.getNode(nodeId));
+    }
   }
 
   /**
@@ -597,3 +1026,19 @@ export class NotationGraphStore {
     return this.sceneOrderedNodesIndex.nodeIdsInSceneOrderAtom;
   }
 }
+
+/**
+ * A node being assembled from the fields of other nodes
+ */
+type MutableNode = { -readonly [K in keyof Node]: Node[K] };
+
+/**
+ * Copies a field of the source node, typed by the field name
+ */
+function copyNodeField<K extends keyof Node>(
+  target: MutableNode,
+  source: Node,
+  field: K,
+): void {
+  target[field] = source[field];
+}
@@ -1,8 +1,8 @@
-import { atom, getDefaultStore } from "jotai";
+import { atom } from "jotai";
 import { Node } from "../../../mung/Node";
 import { SignalAtomWrapper } from "../SignalAtomWrapper";
 import { NodeCollection, NodeUpdateMetadata } from "./NodeCollection";
-import { JotaiStore } from "../JotaiStore";
+import { SignalBatch } from "./SignalBatch";
 import { classNameZIndex } from "../../../mung/classNameZIndex";
 
 /**
@@ -28,7 +28,7 @@ function nodeComparator(a: Node, b: Node): number {
  * pointer interactions.
  */
 export class SceneOrderedNodesIndex {
-  private jotaiStore: JotaiStore;
+  private signalBatch: SignalBatch;
   private nodeCollection: NodeCollection;
 
   private idsSignalAtom = new SignalAtomWrapper();
@@ -71,11 +71,8 @@ export class SceneOrderedNodesIndex {
     return this.nodeIdsInSceneOrder;
   });
 
-  constructor(
-    nodeCollection: NodeCollection,
-    jotaiStore: JotaiStore | null = null,
-  ) {
-    this.jotaiStore = jotaiStore || getDefaultStore();
+  constructor(nodeCollection: NodeCollection, signalBatch: SignalBatch) {
+    this.signalBatch = signalBatch;
     this.nodeCollection = nodeCollection;
 
     nodeCollection.onNodeInserted.subscribe(this.onNodeInserted.bind(this));
@@ -142,9 +139,9 @@ export class SceneOrderedNodesIndex {
     }
 
     // notify react stuff
-    this.nodesSignalAtom.signal(this.jotaiStore.set);
+    this.signalBatch.signal(this.nodesSignalAtom);
     if (orderHasChanged) {
-      this.idsSignalAtom.signal(this.jotaiStore.set);
+      this.signalBatch.signal(this.idsSignalAtom);
     }
   }
 }
@@ -0,0 +1,48 @@
+import { JotaiStore } from "../JotaiStore";
+import { SignalAtomWrapper } from "../SignalAtomWrapper";
+
+/**
+ * Signals signal atoms of the notation graph store. Outside of a batch,
+ * atoms are signalled right away. While a batch is open (during
+ * a transaction), each atom is signalled just once when the batch closes,
+ * so that a bulk change re-computes the dependent atoms only once.
+ */
+export class SignalBatch {
+  private readonly jotaiStore: JotaiStore;
+
+  private depth = 0;
+  private pendingSignals = new Set<SignalAtomWrapper>();
+
+  constructor(jotaiStore: JotaiStore) {
+    this.jotaiStore = jotaiStore;
+  }
+
+  public signal(signalAtom: SignalAtomWrapper): void {
+    if (this.depth > 0) {
+      this.pendingSignals.add(signalAtom);
+    } else {
+      signalAtom.signal(this.jotaiStore.set);
+    }
+  }
+
+  /**
+   * Starts deferring signals, batches can be nested
+   */
+  public open(): void {
+    this.depth += 1;
+  }
+
+  /**
+   * Ends the batch, the outermost one fires the deferred signals
+   */
+  public close(): void {
+    this.depth -= 1;
+    if (this.depth > 0) return;
+
+    const signals = [...this.pendingSignals];
+    this.pendingSignals.clear();
+    for (const signalAtom of signals) {
+      signalAtom.signal(this.jotaiStore.set);
+    }
+  }
+}
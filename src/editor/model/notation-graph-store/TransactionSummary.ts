@@ -0,0 +1,22 @@
+import { Link } from "../../../mung/Link";
+
+/**
+ * Describes what a completed notation graph transaction changed
+ */
+export interface TransactionSummary {
+  /**
+   * Human-readable name of the transaction, e.g. "Snap nodes to staves"
+   */
+  readonly label: string;
+
+  /**
+   * IDs of nodes that were inserted, updated or removed
+   * (nodes whose links changed only are not listed)
+   */
+  readonly nodeIds: readonly number[];
+
+  /**
+   * Links that were inserted or removed
+   */
+  readonly links: readonly Link[];
+}
@@ -2,6 +2,9 @@ import { useContext } from "react";
 import { useAtomValue } from "jotai";
 import Box from "@mui/joy/Box";
 import Tooltip from "@mui/joy/Tooltip";
+import Snackbar from "@mui/joy/Snackbar";
+import WarningAmberIcon from "@mui/icons-material/WarningAmber";
+import GroupsIcon from "@mui/icons-material/Groups";
 import { EditorContext } from "../../EditorContext";
 
 /** Initials for the little avatar circle. */
@@ -15,11 +18,15 @@ function initials(name: string): string {
 /**
  * Live "who's on this page" bar (top-right of the scene). Shows the local user
  * plus every other collaborator currently viewing/editing the document, each in
- * their assigned color.
+ * their assigned color. Clicking a peer makes our view follow theirs until we
+ * pan or zoom ourselves.
  */
 export function PresenceBar() {
   const { collabController } = useContext(EditorContext);
   const peers = useAtomValue(collabController!.peersAtom);
+  const warning = useAtomValue(collabController!.warningAtom);
+  const notice = useAtomValue(collabController!.noticeAtom);
+  const followedClientId = useAtomValue(collabController!.followedClientIdAtom);
 
   const people = [
     { clientId: "self", name: "You", color: collabController!.selfColor, self: true },
@@ -47,11 +54,25 @@ export function PresenceBar() {
       {people.map((p) => (
         <Tooltip
           key={p.clientId}
-          title={p.self ? "You" : p.name}
+          title={
+            p.self
+              ? "You"
+              : p.clientId === followedClientId
+                ? `Following ${p.name} (click to stop)`
+                : `${p.name} (click to follow)`
+          }
           size="sm"
           variant="soft"
         >
           <Box
+            onClick={
+              p.self
+                ? undefined
+                : () =>
+                    collabController!.followPeer(
+                      p.clientId === followedClientId ? null : p.clientId,
+                    )
+            }
             sx={{
               width: 26,
               height: 26,
@@ -64,7 +85,12 @@ export function PresenceBar() {
               alignItems: "center",
               justifyContent: "center",
               border: p.self ? "2px solid #fff" : "1px solid rgba(0,0,0,0.15)",
-              boxShadow: p.self ? "0 0 0 1px rgba(0,0,0,0.15)" : "none",
+              boxShadow: p.self
+                ? "0 0 0 1px rgba(0,0,0,0.15)"
+                : p.clientId === followedClientId
+                  ? `0 0 0 2px #fff, 0 0 0 4px ${p.color}`
+                  : "none",
+              cursor: p.self ? "default" : "pointer",
               userSelect: "none",
             }}
           >
@@ -77,6 +103,33 @@ export function PresenceBar() {
           only you
         </Box>
       )}
+      {peers.length > 0 && (
+        <Tooltip title="Bring everyone here" size="sm" variant="soft">
+          <GroupsIcon
+            onClick={() => collabController!.bringEveryoneHere()}
+            sx={{ fontSize: 22, color: "#555", cursor: "pointer" }}
+          />
+        </Tooltip>
+      )}
+      {warning !== null && (
+        <Tooltip title={warning + " Click to dismiss."} size="sm" variant="soft" color="warning">
+          <WarningAmberIcon
+            onClick={() => collabController!.dismissWarning()}
+            sx={{ fontSize: 20, color: "#f76b15", cursor: "pointer" }}
+          />
+        </Tooltip>
+      )}
+      <Snackbar
+        open={notice !== null}
+        autoHideDuration={8000}
+        onClose={() => collabController!.dismissNotice()}
+        color="warning"
+        variant="soft"
+        size="sm"
+        anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+      >
+        {notice}
+      </Snackbar>
     </Box>
   );
 }
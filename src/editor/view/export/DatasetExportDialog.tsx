@@ -0,0 +1,268 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  DialogActions,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  LinearProgress,
+  Modal,
+  ModalClose,
+  ModalDialog,
+  Option,
+  Select,
+  Stack,
+  Textarea,
+  Typography,
+} from "@mui/joy";
+import { useAtom, useAtomValue } from "jotai";
+import { atomWithStorage, createJSONStorage } from "jotai/utils";
+import { PropsWithChildren, useContext, useState } from "react";
+import { EditorContext } from "../../EditorContext";
+import { DEFAULT_YOLO26_DETECTION_OPTIONS } from "../../controller/Yolo26DetectionApi";
+import {
+  createDefaultDatasetClassMap,
+  parseDatasetClassMap,
+} from "../../../mung/dataset/DatasetClassMap";
+import { DatasetCropMode } from "../../../mung/dataset/computeDatasetCrops";
+import {
+  DatasetExportOptions,
+  DatasetExportResult,
+} from "../../../mung/dataset/exportDatasetArchive";
+import { downloadBlob } from "../../../utils/downloadBlob";
+import DatasetIcon from "@mui/icons-material/Dataset";
+
+/**
+ * The class map the user edited the last time (null for the default one),
+ * shared with the import of prediction files
+ */
+export const classMapJsonAtom = atomWithStorage<string | null>(
+  "mung-studio::dataset-export::class-map",
+  null,
+  createJSONStorage<string | null>(() => window.localStorage),
+);
+
+export interface DatasetExportDialogProps extends PropsWithChildren {
+  readonly open: boolean;
+  readonly onClose: () => void;
+
+  /**
+   * Name of the downloaded ZIP file
+   */
+  readonly archiveName: string;
+
+  /**
+   * Runs the export, reporting the number of processed pages
+   */
+  readonly onExport: (
+    options: DatasetExportOptions,
+    onProgress: (donePages: number, totalPages: number) => void,
+  ) => Promise<DatasetExportResult>;
+}
+
+/**
+ * Lets the user configure and run the export of annotated pages
+ * as a COCO / YOLO training dataset. Additional controls (e.g. selection
+ * of pages) can be passed as children.
+ */
+export function DatasetExportDialog(props: DatasetExportDialogProps) {
+  const [classMapJson, setClassMapJson] = useAtom(classMapJsonAtom);
+  const [coco, setCoco] = useState<boolean>(true);
+  const [yolo, setYolo] = useState<boolean>(true);
+  const [cropMode, setCropMode] = useState<DatasetCropMode>("tiles");
+  const [minVisibility, setMinVisibility] = useState<number>(0.5);
+
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<DatasetExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const classMapText =
+    classMapJson ?? JSON.stringify(createDefaultDatasetClassMap(), null, 2);
+  let classMapError: string | null = null;
+  try {
+    parseDatasetClassMap(classMapText);
+  } catch (e) {
+    classMapError = String((e as Error).message ?? e);
+  }
+
+  const isRunning = progress !== null;
+  const canExport =
+    !isRunning && classMapError === null && (coco || yolo) && minVisibility > 0;
+
+  async function runExport() {
+    const defaults = DEFAULT_YOLO26_DETECTION_OPTIONS;
+    const options: DatasetExportOptions = {
+      coco,
+      yolo,
+      crops: {
+        mode: cropMode,
+        tilePatch: defaults.tilePatch,
+        tileStep: defaults.tileStep,
+        stripWidth: defaults.stripWidth,
+        stripHeight: defaults.stripHeight,
+        stripStepX: defaults.stripStepX,
+        stripStepY: defaults.stripStepY,
+      },
+      classMap: parseDatasetClassMap(classMapText),
+      minVisibility,
+    };
+
+    setProgress(0);
+    setResult(null);
+    setError(null);
+    try {
+      const result = await props.onExport(options, (done, total) =>
+        setProgress(total === 0 ? 1 : done / total),
+      );
+      downloadBlob(result.archive, props.archiveName);
+      setResult(result);
+    } catch (e) {
+      console.error(e);
+      setError(String(e));
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  const defaults = DEFAULT_YOLO26_DETECTION_OPTIONS;
+  const cropDescriptions: Record<DatasetCropMode, string> = {
+    page: "One image per page.",
+    tiles:
+      `Square tiles of ${defaults.tilePatch} px with a step of ` +
+      `${defaults.tileStep} px, as used by the small-symbol detector.`,
+    strips:
+      `Full-width strips of ${defaults.stripHeight} px with a step of ` +
+      `${defaults.stripStepY} px, as used by the large-symbol detector.`,
+  };
+
+  return (
+    <Modal open={props.open} onClose={() => !isRunning && props.onClose()}>
+      <ModalDialog sx={{ width: "700px", maxWidth: "90vw", overflowY: "auto" }}>
+        <ModalClose disabled={isRunning} />
+        <Typography level="h4" startDecorator={<DatasetIcon />}>
+          Export training dataset
+        </Typography>
+        <Stack spacing={1.5}>
+          {props.children}
+          <FormControl>
+            <FormLabel>Formats</FormLabel>
+            <Stack direction="row" spacing={2}>
+              <Checkbox
+                label="COCO JSON (RLE masks)"
+                checked={coco}
+                onChange={(e) => setCoco(e.target.checked)}
+              />
+              <Checkbox
+                label="YOLO txt labels"
+                checked={yolo}
+                onChange={(e) => setYolo(e.target.checked)}
+              />
+            </Stack>
+          </FormControl>
+          <FormControl>
+            <FormLabel>Splitting</FormLabel>
+            <Select
+              value={cropMode}
+              onChange={(_, value) => value !== null && setCropMode(value)}
+            >
+              <Option value="page">Whole pages</Option>
+              <Option value="tiles">Tiles</Option>
+              <Option value="strips">Strips</Option>
+            </Select>
+            <FormHelperText>{cropDescriptions[cropMode]}</FormHelperText>
+          </FormControl>
+          <FormControl>
+            <FormLabel>Minimal visible fraction of a clipped node</FormLabel>
+            <Input
+              type="number"
+              value={minVisibility}
+              slotProps={{ input: { min: 0.01, max: 1, step: 0.05 } }}
+              onChange={(e) => setMinVisibility(parseFloat(e.target.value))}
+            />
+          </FormControl>
+          <FormControl error={classMapError !== null}>
+            <FormLabel>
+              Class map (class name to ID)
+              <Button
+                size="sm"
+                variant="plain"
+                sx={{ ml: "auto" }}
+                onClick={() => setClassMapJson(null)}
+              >
+                Reset
+              </Button>
+            </FormLabel>
+            <Textarea
+              minRows={6}
+              maxRows={12}
+              value={classMapText}
+              onChange={(e) => setClassMapJson(e.target.value)}
+              sx={{ fontFamily: "monospace", fontSize: "12px" }}
+            />
+            <FormHelperText>
+              {classMapError ??
+                "Nodes whose class is missing in the map are left out."}
+            </FormHelperText>
+          </FormControl>
+          {progress !== null && (
+            <LinearProgress determinate value={progress * 100} />
+          )}
+          {error !== null && <Alert color="danger">{error}</Alert>}
+          {result !== null && (
+            <Alert color="success">
+              <Box>
+                Exported {result.imageCount} images with{" "}
+                {result.annotationCount} annotations.
+                {result.skippedClassCounts.size > 0 && (
+                  <>
+                    {" "}
+                    Left out classes missing in the map:{" "}
+                    {[...result.skippedClassCounts.entries()]
+                      .map(([className, count]) => `${className} (${count})`)
+                      .join(", ")}
+                    .
+                  </>
+                )}
+              </Box>
+            </Alert>
+          )}
+        </Stack>
+        <DialogActions>
+          <Button disabled={!canExport} loading={isRunning} onClick={runExport}>
+            Export
+          </Button>
+          <Button
+            variant="plain"
+            color="neutral"
+            disabled={isRunning}
+            onClick={props.onClose}
+          >
+            Close
+          </Button>
+        </DialogActions>
+      </ModalDialog>
+    </Modal>
+  );
+}
+
+/**
+ * The dataset export dialog for the document opened in the editor
+ */
+export function EditorDatasetExportDialog() {
+  const { exportController, notationGraphStore } = useContext(EditorContext);
+  const isOpen = useAtomValue(exportController.isDatasetExportDialogOpenAtom);
+
+  return (
+    <DatasetExportDialog
+      open={isOpen}
+      onClose={() => exportController.closeDatasetExportDialog()}
+      archiveName={notationGraphStore.metadata.document + "-dataset.zip"}
+      onExport={(options, onProgress) =>
+        exportController.exportDataset(options, onProgress)
+      }
+    />
+  );
+}
@@ -0,0 +1,96 @@
+import {
+  Box,
+  Button,
+  Chip,
+  DialogActions,
+  Modal,
+  ModalClose,
+  ModalDialog,
+  Table,
+  Typography,
+} from "@mui/joy";
+import { useContext } from "react";
+import { useAtomValue } from "jotai";
+import { EditorContext } from "../../EditorContext";
+import FileDownloadIcon from "@mui/icons-material/FileDownload";
+
+/**
+ * Shows the result of the last export, listing nodes that could not
+ * be exported faithfully. Clicking a node selects it in the scene.
+ */
+export function ExportReportDialog() {
+  const {
+    exportController,
+    selectionStore,
+    zoomController,
+    notationGraphStore,
+  } = useContext(EditorContext);
+
+  const report = useAtomValue(exportController.exportReportAtom);
+  const issues = report?.issues ?? [];
+
+  function close() {
+    exportController.dismissExportReport();
+  }
+
+  function focusNode(nodeId: number) {
+    if (!notationGraphStore.hasNode(nodeId)) return;
+    close();
+    selectionStore.changeSelection([nodeId]);
+    zoomController.zoomToNode(notationGraphStore.getNode(nodeId));
+  }
+
+  return (
+    <Modal open={report !== null} onClose={close}>
+      <ModalDialog sx={{ width: "800px", maxWidth: "90vw" }}>
+        <ModalClose />
+        <Typography level="h4" startDecorator={<FileDownloadIcon />}>
+          {report?.format} export
+        </Typography>
+        <Typography level="body-sm">
+          The file <code>{report?.fileName}</code> has been exported.{" "}
+          {issues.length === 0
+            ? "All the nodes were exported without problems."
+            : `There ${issues.length === 1 ? "is" : "are"} ${issues.length} ` +
+              `problem${issues.length === 1 ? "" : "s"} with nodes ` +
+              `that could not be exported faithfully.`}
+        </Typography>
+        {issues.length > 0 && (
+          <Box sx={{ overflowY: "auto", maxHeight: "50vh" }}>
+            <Table size="sm" stickyHeader>
+              <thead>
+                <tr>
+                  <th style={{ width: "80px" }}>Node</th>
+                  <th style={{ width: "160px" }}>Class</th>
+                  <th>Problem</th>
+                </tr>
+              </thead>
+              <tbody>
+                {issues.map((issue, index) => (
+                  <tr key={index}>
+                    <td>
+                      <Chip
+                        color="neutral"
+                        variant="plain"
+                        size="sm"
+                        disabled={!notationGraphStore.hasNode(issue.nodeId)}
+                        onClick={() => focusNode(issue.nodeId)}
+                      >
+                        {issue.nodeId}
+                      </Chip>
+                    </td>
+                    <td>{issue.className}</td>
+                    <td>{issue.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </Box>
+        )}
+        <DialogActions>
+          <Button onClick={close}>Close</Button>
+        </DialogActions>
+      </ModalDialog>
+    </Modal>
+  );
+}
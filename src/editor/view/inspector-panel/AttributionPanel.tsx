@@ -0,0 +1,50 @@
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Typography,
+} from "@mui/joy";
+import { useContext } from "react";
+import { useAtomValue } from "jotai";
+import { EditorContext } from "../../EditorContext";
+import { getNodeAttribution } from "../../../mung/NodeAttribution";
+
+/**
+ * Shows who created and who last changed the selected node
+ */
+export function AttributionPanel() {
+  const { selectionStore } = useContext(EditorContext);
+
+  const selectedNodes = useAtomValue(selectionStore.selectedNodesAtom);
+
+  // do not render
+  if (selectedNodes.length !== 1) {
+    return null;
+  }
+
+  const attribution = getNodeAttribution(selectedNodes[0].data);
+
+  function formatStamp(author: string | null, at: string | null): string {
+    if (author === null) return "unknown";
+    if (at === null) return author;
+    return author + ", " + new Date(at).toLocaleString();
+  }
+
+  return (
+    <Accordion defaultExpanded={true}>
+      <AccordionSummary>
+        <Typography level="title-sm">Attribution</Typography>
+      </AccordionSummary>
+      <AccordionDetails>
+        <Typography level="body-sm">
+          Created by:{" "}
+          {formatStamp(attribution.createdBy, attribution.createdAt)}
+        </Typography>
+        <Typography level="body-sm">
+          Last changed by:{" "}
+          {formatStamp(attribution.modifiedBy, attribution.modifiedAt)}
+        </Typography>
+      </AccordionDetails>
+    </Accordion>
+  );
+}
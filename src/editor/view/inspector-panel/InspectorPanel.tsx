@@ -7,6 +7,7 @@ import { TextTranscriptionPanel } from "./TextTranscriptionPanel";
 import { StafflinesToolPanel } from "./StafflinesToolPanel";
 import { SelectionPanel } from "./SelectionPanel";
 import { GraphViewPanel } from "./GraphViewPanel";
+import { AttributionPanel } from "./AttributionPanel";
 
 /**
  * The right-side panel, showing details about selected nodes.
@@ -42,6 +43,7 @@ export function InspectorPanel() {
           <PrecedenceLinksToolPanel />
           <TextTranscriptionPanel />
           <GraphViewPanel />
+          <AttributionPanel />
           <SelectionPanel />
         </AccordionGroup>
       </Box>
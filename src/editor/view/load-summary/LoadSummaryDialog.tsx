@@ -0,0 +1,111 @@
+import {
+  Box,
+  Button,
+  Chip,
+  DialogActions,
+  Modal,
+  ModalClose,
+  ModalDialog,
+  Table,
+  Typography,
+} from "@mui/joy";
+import { useContext, useState } from "react";
+import { EditorContext } from "../../EditorContext";
+import { MungParseReport } from "../../../mung/MungParseReport";
+import ReportProblemIcon from "@mui/icons-material/ReportProblem";
+
+export interface LoadSummaryDialogProps {
+  readonly report: MungParseReport | null;
+}
+
+/**
+ * Lists problems that were found in the MuNG file during loading and how
+ * they were repaired. Opens automatically when there is anything to report.
+ */
+export function LoadSummaryDialog(props: LoadSummaryDialogProps) {
+  const { selectionStore, zoomController, notationGraphStore } =
+    useContext(EditorContext);
+
+  const issues = props.report?.issues ?? [];
+  const [isOpen, setOpen] = useState<boolean>(issues.length > 0);
+
+  // how many issues there are of each kind
+  const countsByKind = new Map<string, number>();
+  for (const issue of issues) {
+    countsByKind.set(issue.kind, (countsByKind.get(issue.kind) ?? 0) + 1);
+  }
+
+  function focusNode(nodeId: number) {
+    if (!notationGraphStore.hasNode(nodeId)) return;
+    setOpen(false);
+    selectionStore.changeSelection([nodeId]);
+    zoomController.zoomToNode(notationGraphStore.getNode(nodeId));
+  }
+
+  return (
+    <Modal open={isOpen} onClose={() => setOpen(false)}>
+      <ModalDialog sx={{ width: "800px", maxWidth: "90vw" }}>
+        <ModalClose />
+        <Typography level="h4" startDecorator={<ReportProblemIcon />}>
+          Load summary
+        </Typography>
+        <Typography level="body-sm">
+          The file contained {issues.length} problem
+          {issues.length === 1 ? "" : "s"} that have been repaired during
+          loading. The repairs will be written to the file on the next save.
+        </Typography>
+        <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1 }}>
+          {[...countsByKind.entries()].map(([kind, count]) => (
+            <Chip key={kind} size="sm" variant="soft" color="warning">
+              {kind}: {count}
+            </Chip>
+          ))}
+        </Box>
+        <Box sx={{ overflowY: "auto", maxHeight: "50vh" }}>
+          <Table size="sm" stickyHeader>
+            <thead>
+              <tr>
+                <th style={{ width: "80px" }}>Node</th>
+                <th style={{ width: "160px" }}>Field</th>
+                <th>Raw value</th>
+                <th>Action taken</th>
+              </tr>
+            </thead>
+            <tbody>
+              {issues.map((issue, index) => (
+                <tr key={index}>
+                  <td>
+                    <Chip
+                      color="neutral"
+                      variant="plain"
+                      size="sm"
+                      disabled={!notationGraphStore.hasNode(issue.nodeId)}
+                      onClick={() => focusNode(issue.nodeId)}
+                    >
+                      {issue.nodeId}
+                    </Chip>
+                  </td>
+                  <td>{issue.field}</td>
+                  <td
+                    title={issue.rawValue}
+                    style={{
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {issue.rawValue}
+                  </td>
+                  <td>{issue.action}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        </Box>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>Dismiss</Button>
+        </DialogActions>
+      </ModalDialog>
+    </Modal>
+  );
+}
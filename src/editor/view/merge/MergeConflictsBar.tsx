@@ -0,0 +1,125 @@
+import {
+  Box,
+  Button,
+  ButtonGroup,
+  Chip,
+  IconButton,
+  Stack,
+  Typography,
+} from "@mui/joy";
+import NavigateBeforeIcon from "@mui/icons-material/NavigateBefore";
+import NavigateNextIcon from "@mui/icons-material/NavigateNext";
+import { useAtomValue } from "jotai";
+import { useContext } from "react";
+import { EditorContext } from "../../EditorContext";
+import { MERGE_SIDE_COLORS } from "../../controller/MergeController";
+import { MergeConflict, MergeSide } from "../../../mung/threeWayMerge";
+
+/**
+ * Floating bar over the scene (top-center) for resolving the conflicts
+ * of the merge in progress and applying the merged result
+ */
+export function MergeConflictsBar() {
+  const { mergeController } = useContext(EditorContext);
+  const merge = useAtomValue(mergeController.mergeAtom);
+  const resolutions = useAtomValue(mergeController.resolutionsAtom);
+  const selectedIndex = useAtomValue(mergeController.selectedConflictIndexAtom);
+  if (merge === null) return null;
+
+  const conflict: MergeConflict | undefined = merge.conflicts[selectedIndex];
+  const resolution =
+    conflict === undefined ? null : (resolutions.get(conflict.nodeId) ?? null);
+
+  return (
+    <Box
+      sx={{
+        position: "absolute",
+        top: 8,
+        left: "50%",
+        transform: "translateX(-50%)",
+        zIndex: 30,
+        px: 1.5,
+        py: 1,
+        borderRadius: "md",
+        backgroundColor: "rgba(255,255,255,0.92)",
+        backdropFilter: "blur(4px)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.2)",
+      }}
+    >
+      <Stack gap={1}>
+        <Typography level="body-xs">
+          {merge.nodes.length} nodes and {merge.links.length} links merged
+          automatically
+          {merge.overlapMatchCount > 0 &&
+            `, ${merge.overlapMatchCount} nodes matched by overlap`}
+          {merge.renumberedCount > 0 &&
+            `, ${merge.renumberedCount} of their nodes renumbered`}
+        </Typography>
+
+        {conflict === undefined ? (
+          <Typography level="body-sm">There are no conflicts.</Typography>
+        ) : (
+          <Stack direction="row" alignItems="center" gap={1}>
+            <IconButton
+              size="sm"
+              onClick={() => mergeController.selectConflict(selectedIndex - 1)}
+            >
+              <NavigateBeforeIcon />
+            </IconButton>
+            <Typography level="body-sm">
+              Conflict {selectedIndex + 1} of {merge.conflicts.length}: node #
+              {conflict.nodeId} ({describeConflict(conflict)})
+            </Typography>
+            <IconButton
+              size="sm"
+              onClick={() => mergeController.selectConflict(selectedIndex + 1)}
+            >
+              <NavigateNextIcon />
+            </IconButton>
+            <ButtonGroup size="sm">
+              {(["ours", "theirs"] as MergeSide[]).map((side) => (
+                <Button
+                  key={side}
+                  variant={
+                    (resolution ?? "ours") === side ? "soft" : "outlined"
+                  }
+                  sx={{ color: MERGE_SIDE_COLORS[side] }}
+                  onClick={() =>
+                    mergeController.resolveConflict(conflict.nodeId, side)
+                  }
+                >
+                  Keep {side}
+                </Button>
+              ))}
+            </ButtonGroup>
+          </Stack>
+        )}
+
+        <Stack direction="row" alignItems="center" gap={1}>
+          <Chip size="sm" variant="soft">
+            {resolutions.size} of {merge.conflicts.length} resolved
+          </Chip>
+          <Box sx={{ flexGrow: 1 }} />
+          <Button size="sm" onClick={() => mergeController.applyMerge()}>
+            Apply merge
+          </Button>
+          <Button
+            size="sm"
+            variant="plain"
+            color="neutral"
+            onClick={() => mergeController.cancelMerge()}
+          >
+            Cancel
+          </Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+}
+
+function describeConflict(conflict: MergeConflict): string {
+  if (conflict.ours === null) return "removed by us, changed by them";
+  if (conflict.theirs === null) return "changed by us, removed by them";
+  if (conflict.ancestor === null) return "added differently by both";
+  return "both changed " + conflict.fields.join(", ");
+}
@@ -0,0 +1,145 @@
+import {
+  Alert,
+  Button,
+  DialogActions,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Modal,
+  ModalClose,
+  ModalDialog,
+  Stack,
+  Typography,
+} from "@mui/joy";
+import { useAtomValue } from "jotai";
+import { useContext, useState } from "react";
+import { EditorContext } from "../../EditorContext";
+import { readMungXmlInWorker } from "../../../mung/readMungXmlInWorker";
+import MergeTypeIcon from "@mui/icons-material/MergeType";
+
+/**
+ * Lets the user choose the versions to merge: the common ancestor, our
+ * version (the edited document unless a file is chosen) and their version
+ */
+export function MergeDialog() {
+  const { mergeController, notationGraphStore } = useContext(EditorContext);
+  const isOpen = useAtomValue(mergeController.isMergeDialogOpenAtom);
+
+  const [ancestorFile, setAncestorFile] = useState<File | null>(null);
+  const [ourFile, setOurFile] = useState<File | null>(null);
+  const [theirFile, setTheirFile] = useState<File | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function startMerge() {
+    if (ancestorFile === null || theirFile === null) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      const ancestor = await readMungXmlInWorker(ancestorFile);
+      const ours =
+        ourFile === null
+          ? notationGraphStore.getMungFile()
+          : (await readMungXmlInWorker(ourFile)).mung;
+      const theirs = await readMungXmlInWorker(theirFile);
+      mergeController.startMerge(ancestor.mung, ours, theirs.mung);
+      mergeController.closeMergeDialog();
+    } catch (e) {
+      console.error(e);
+      setError(String(e));
+    } finally {
+      setIsRunning(false);
+    }
+  }
+
+  return (
+    <Modal
+      open={isOpen}
+      onClose={() => !isRunning && mergeController.closeMergeDialog()}
+    >
+      <ModalDialog sx={{ width: "600px", maxWidth: "90vw", overflowY: "auto" }}>
+        <ModalClose disabled={isRunning} />
+        <Typography level="h4" startDecorator={<MergeTypeIcon />}>
+          Merge annotations
+        </Typography>
+        <Stack spacing={1.5}>
+          <MungFileInput
+            label="Common ancestor"
+            helperText="The version both annotators started from."
+            file={ancestorFile}
+            onChange={setAncestorFile}
+          />
+          <MungFileInput
+            label="Our version"
+            helperText="Without a file, the document in the editor is used."
+            file={ourFile}
+            emptyLabel="Current document"
+            onChange={setOurFile}
+          />
+          <MungFileInput
+            label="Their version"
+            helperText="The other annotator's version of the page."
+            file={theirFile}
+            onChange={setTheirFile}
+          />
+          {error !== null && <Alert color="danger">{error}</Alert>}
+        </Stack>
+        <DialogActions>
+          <Button
+            disabled={ancestorFile === null || theirFile === null}
+            loading={isRunning}
+            onClick={startMerge}
+          >
+            Merge
+          </Button>
+          <Button
+            variant="plain"
+            color="neutral"
+            disabled={isRunning}
+            onClick={() => mergeController.closeMergeDialog()}
+          >
+            Close
+          </Button>
+        </DialogActions>
+      </ModalDialog>
+    </Modal>
+  );
+}
+
+interface MungFileInputProps {
+  readonly label: string;
+  readonly helperText: string;
+  readonly file: File | null;
+  readonly emptyLabel?: string;
+  readonly onChange: (file: File | null) => void;
+}
+
+function MungFileInput(props: MungFileInputProps) {
+  return (
+    <FormControl>
+      <FormLabel>
+        {props.label}
+        {props.file !== null && props.emptyLabel !== undefined && (
+          <Button
+            size="sm"
+            variant="plain"
+            sx={{ ml: "auto" }}
+            onClick={() => props.onChange(null)}
+          >
+            Use {props.emptyLabel.toLowerCase()}
+          </Button>
+        )}
+      </FormLabel>
+      <Button component="label" variant="outlined" color="neutral">
+        {props.file?.name ?? props.emptyLabel ?? "Choose file..."}
+        <input
+          type="file"
+          accept=".xml"
+          hidden
+          onChange={(e) => props.onChange(e.target.files?.[0] ?? null)}
+        />
+      </Button>
+      <FormHelperText>{props.helperText}</FormHelperText>
+    </FormControl>
+  );
+}
@@ -0,0 +1,96 @@
+import { Button, Option, Select, Stack, Typography } from "@mui/joy";
+import HighlightAltIcon from "@mui/icons-material/HighlightAlt";
+import { useContext, useState } from "react";
+import { EditorContext } from "../../EditorContext";
+import { Node } from "../../../mung/Node";
+import {
+  getNodeAttribution,
+  isTouchedByOnDay,
+} from "../../../mung/NodeAttribution";
+
+/**
+ * Lets the user select all the nodes an annotator created or changed today,
+ * e.g. to review their work
+ */
+export function AttributionAccordionPanel() {
+  const { notationGraphStore, selectionStore } = useContext(EditorContext);
+
+  const [annotatorCounts, setAnnotatorCounts] = useState<
+    ReadonlyMap<string, number>
+  >(() => countNodesTouchedOnDay(notationGraphStore.nodes, new Date()));
+  const [annotator, setAnnotator] = useState<string | null>(null);
+
+  function selectTouchedNodes() {
+    if (annotator === null) return;
+    const today = new Date();
+    selectionStore.changeSelection(
+      notationGraphStore.nodes
+        .filter((node) =>
+          isTouchedByOnDay(getNodeAttribution(node.data), annotator, today),
+        )
+        .map((node) => node.id),
+    );
+  }
+
+  return (
+    <>
+      <Stack direction="row" gap={1} sx={{ mb: 1 }}>
+        <Select
+          size="sm"
+          placeholder="Annotator"
+          value={annotator}
+          onChange={(_, value) => setAnnotator(value)}
+          onListboxOpenChange={(isOpen) => {
+            if (!isOpen) return;
+            setAnnotatorCounts(
+              countNodesTouchedOnDay(notationGraphStore.nodes, new Date()),
+            );
+          }}
+          sx={{ flexGrow: 1 }}
+        >
+          {[...annotatorCounts.entries()].map(([name, count]) => (
+            <Option key={name} value={name}>
+              {name} ({count})
+            </Option>
+          ))}
+        </Select>
+        <Button
+          size="sm"
+          variant="outlined"
+          startDecorator={<HighlightAltIcon />}
+          disabled={annotator === null}
+          onClick={selectTouchedNodes}
+        >
+          Select
+        </Button>
+      </Stack>
+      <Typography level="body-xs">
+        Selects the nodes the annotator created or was the last to change today.
+      </Typography>
+    </>
+  );
+}
+
+/**
+ * Counts the nodes each annotator created or last changed
+ * during the given day, sorted by name
+ */
+function countNodesTouchedOnDay(
+  nodes: readonly Node[],
+  day: Date,
+): ReadonlyMap<string, number> {
+  const counts = new Map<string, number>();
+  for (const node of nodes) {
+    const attribution = getNodeAttribution(node.data);
+    const annotators = new Set(
+      [attribution.createdBy, attribution.modifiedBy].filter(
+        (name): name is string =>
+          name !== null && isTouchedByOnDay(attribution, name, day),
+      ),
+    );
+    for (const name of annotators) {
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+  }
+  return new Map([...counts.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -0,0 +1,196 @@
+import {
+  Button,
+  Checkbox,
+  Input,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemContent,
+  Stack,
+  Textarea,
+  Typography,
+} from "@mui/joy";
+import AddCommentIcon from "@mui/icons-material/AddComment";
+import CheckIcon from "@mui/icons-material/Check";
+import ReplayIcon from "@mui/icons-material/Replay";
+import { useAtomValue } from "jotai";
+import { useState } from "react";
+import {
+  CommentsController,
+  CommentThread,
+} from "../../controller/CommentsController";
+
+export interface CommentsAccordionPanelProps {
+  readonly commentsController: CommentsController;
+}
+
+/**
+ * Lists the review comment threads of the document. A new thread is
+ * anchored to the selected node, or to the middle of the view.
+ */
+export function CommentsAccordionPanel(props: CommentsAccordionPanelProps) {
+  const { commentsController } = props;
+
+  const threads = useAtomValue(commentsController.threadsAtom);
+  const selectedThreadId = useAtomValue(
+    commentsController.selectedThreadIdAtom,
+  );
+
+  const [text, setText] = useState("");
+  const [showResolved, setShowResolved] = useState(false);
+
+  async function openThread() {
+    if (text.trim() === "") return;
+    try {
+      await commentsController.openThread(text.trim());
+      setText("");
+    } catch (e) {
+      window.alert(String(e));
+    }
+  }
+
+  const visibleThreads = threads.filter(
+    (t) => showResolved || !t.resolved || t.id === selectedThreadId,
+  );
+
+  return (
+    <>
+      <Textarea
+        size="sm"
+        minRows={2}
+        placeholder="Comment on the selected node or the view"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        sx={{ mb: 1 }}
+      />
+      <Stack direction="row" gap={1} sx={{ mb: 1, alignItems: "center" }}>
+        <Checkbox
+          size="sm"
+          label="Show resolved"
+          checked={showResolved}
+          onChange={(e) => setShowResolved(e.target.checked)}
+          sx={{ flexGrow: 1 }}
+        />
+        <Button
+          size="sm"
+          variant="outlined"
+          startDecorator={<AddCommentIcon />}
+          disabled={text.trim() === ""}
+          onClick={openThread}
+        >
+          Comment
+        </Button>
+      </Stack>
+      {visibleThreads.length === 0 && (
+        <Typography level="body-xs">No open comments.</Typography>
+      )}
+      <List size="sm">
+        {visibleThreads.map((thread) => (
+          <ListItem key={thread.id}>
+            {thread.id === selectedThreadId ? (
+              <ThreadDetail
+                thread={thread}
+                commentsController={commentsController}
+              />
+            ) : (
+              <ListItemButton
+                onClick={() => commentsController.selectThread(thread.id)}
+                sx={{ opacity: thread.resolved ? 0.5 : 1 }}
+              >
+                <ListItemContent>
+                  <Typography level="body-sm" noWrap>
+                    {thread.comments[0]?.text}
+                  </Typography>
+                  <Typography level="body-xs">
+                    {thread.createdBy}, {thread.comments.length} comment(s)
+                    {thread.resolved && ", resolved"}
+                  </Typography>
+                </ListItemContent>
+              </ListItemButton>
+            )}
+          </ListItem>
+        ))}
+      </List>
+    </>
+  );
+}
+
+interface ThreadDetailProps {
+  readonly thread: CommentThread;
+  readonly commentsController: CommentsController;
+}
+
+/**
+ * The whole conversation of the selected thread, with a reply box
+ */
+function ThreadDetail(props: ThreadDetailProps) {
+  const { thread, commentsController } = props;
+
+  const [reply, setReply] = useState("");
+
+  async function sendReply() {
+    if (reply.trim() === "") return;
+    try {
+      await commentsController.reply(thread.id, reply.trim());
+      setReply("");
+    } catch (e) {
+      window.alert(String(e));
+    }
+  }
+
+  async function toggleResolved() {
+    try {
+      await commentsController.setResolved(thread.id, !thread.resolved);
+    } catch (e) {
+      window.alert(String(e));
+    }
+  }
+
+  return (
+    <ListItemContent sx={{ py: 0.5 }}>
+      {thread.comments.map((comment) => (
+        <Typography key={comment.id} level="body-sm" sx={{ mb: 0.5 }}>
+          <Typography fontWeight="lg">{comment.author}</Typography>{" "}
+          <Typography level="body-xs">
+            {new Date(comment.createdAt).toLocaleString()}
+          </Typography>
+          <br />
+          {comment.text}
+        </Typography>
+      ))}
+      {thread.resolved && (
+        <Typography level="body-xs" sx={{ mb: 0.5 }}>
+          Resolved by {thread.resolvedBy}
+        </Typography>
+      )}
+      <Input
+        size="sm"
+        placeholder="Reply"
+        value={reply}
+        onChange={(e) => setReply(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") sendReply();
+        }}
+        sx={{ mb: 0.5 }}
+      />
+      <Stack direction="row" gap={1}>
+        <Button
+          size="sm"
+          variant="plain"
+          startDecorator={thread.resolved ? <ReplayIcon /> : <CheckIcon />}
+          onClick={toggleResolved}
+        >
+          {thread.resolved ? "Reopen" : "Resolve"}
+        </Button>
+        <Button
+          size="sm"
+          variant="plain"
+          color="neutral"
+          onClick={() => commentsController.selectThread(null)}
+        >
+          Close
+        </Button>
+      </Stack>
+    </ListItemContent>
+  );
+}
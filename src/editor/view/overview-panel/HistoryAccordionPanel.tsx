@@ -0,0 +1,123 @@
+import {
+  Button,
+  Chip,
+  ChipDelete,
+  Input,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemContent,
+  Stack,
+  Typography,
+} from "@mui/joy";
+import PushPinIcon from "@mui/icons-material/PushPin";
+import DeleteSweepIcon from "@mui/icons-material/DeleteSweep";
+import { useAtomValue } from "jotai";
+import { useContext, useState } from "react";
+import { EditorContext } from "../../EditorContext";
+
+/**
+ * Lists the undo history, newest entries first. Clicking an entry
+ * returns the graph to the state after that entry.
+ */
+export function HistoryAccordionPanel() {
+  const { historyStore, historyPersistence, mainMenuController } =
+    useContext(EditorContext);
+
+  const entries = useAtomValue(historyStore.entriesAtom);
+  const currentEntryId = useAtomValue(historyStore.currentEntryIdAtom);
+  const restoredStepCount = useAtomValue(
+    historyPersistence.restoredStepCountAtom,
+  );
+
+  const [checkpointName, setCheckpointName] = useState("");
+
+  function createCheckpoint() {
+    const name = checkpointName.trim();
+    if (name === "") return;
+    historyStore.createCheckpoint(name);
+    setCheckpointName("");
+  }
+
+  function clearHistory() {
+    const isConfirmed = window.confirm(
+      "Forget the whole undo history of this document? " +
+        "The changes themselves are kept.",
+    );
+    if (!isConfirmed) return;
+    historyPersistence.clear();
+  }
+
+  return (
+    <>
+      <Stack direction="row" gap={1} sx={{ mb: 1 }}>
+        <Input
+          size="sm"
+          placeholder="Checkpoint name"
+          value={checkpointName}
+          onChange={(e) => setCheckpointName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") createCheckpoint();
+          }}
+          sx={{ flexGrow: 1 }}
+        />
+        <Button
+          size="sm"
+          variant="outlined"
+          startDecorator={<PushPinIcon />}
+          disabled={checkpointName.trim() === ""}
+          onClick={createCheckpoint}
+        >
+          Pin
+        </Button>
+      </Stack>
+      <List size="sm">
+        {[...entries].reverse().map((entry) => (
+          <ListItem key={entry.id}>
+            <ListItemButton
+              selected={entry.id === currentEntryId}
+              onClick={() => mainMenuController.jumpToHistoryEntry(entry.id)}
+              sx={{ opacity: entry.isUndone ? 0.5 : 1 }}
+            >
+              <ListItemContent>
+                <Typography level="body-sm">{entry.label}</Typography>
+                <Typography level="body-xs">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </Typography>
+                {entry.checkpointName !== null && (
+                  <Chip
+                    size="sm"
+                    color="primary"
+                    startDecorator={<PushPinIcon />}
+                    endDecorator={
+                      <ChipDelete
+                        onDelete={() => historyStore.removeCheckpoint(entry.id)}
+                      />
+                    }
+                  >
+                    {entry.checkpointName}
+                  </Chip>
+                )}
+              </ListItemContent>
+            </ListItemButton>
+          </ListItem>
+        ))}
+      </List>
+      {restoredStepCount > 0 && (
+        <Typography level="body-xs" sx={{ mb: 1 }}>
+          {restoredStepCount} step(s) restored from the previous session.
+        </Typography>
+      )}
+      <Button
+        size="sm"
+        variant="plain"
+        color="danger"
+        startDecorator={<DeleteSweepIcon />}
+        disabled={entries.length <= 1}
+        onClick={clearHistory}
+      >
+        Clear history
+      </Button>
+    </>
+  );
+}
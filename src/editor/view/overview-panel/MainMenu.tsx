@@ -65,7 +65,12 @@ export interface MainMenuProps {
 }
 
 export function MainMenu(props: MainMenuProps) {
-  const { mainMenuController, settingsStore } = useContext(EditorContext);
+  const {
+    mainMenuController,
+    exportController,
+    mergeController,
+    settingsStore,
+  } = useContext(EditorContext);
   const controller = mainMenuController;
 
   const [_, setSettingsOpen] = useAtom(settingsStore.isSettingsWindowOpenAtom);
@@ -193,6 +198,29 @@ export function MainMenu(props: MainMenuProps) {
           <MyMenuItem disabled>{yolo26Status}</MyMenuItem>
         )}
 
+        <MyListDivider />
+        <MyCategoryTitle>Review</MyCategoryTitle>
+
+        <MyMenuItem onClick={() => mergeController.openMergeDialog()}>
+          Merge annotations...
+        </MyMenuItem>
+
+        <MyListDivider />
+        <MyCategoryTitle>Export</MyCategoryTitle>
+
+        <MyMenuItem onClick={() => exportController.exportMusicXml()}>
+          Export MusicXML
+        </MyMenuItem>
+        <MyMenuItem onClick={() => exportController.exportMei()}>
+          Export MEI with analysis
+        </MyMenuItem>
+        <MyMenuItem onClick={() => exportController.openDatasetExportDialog()}>
+          Export training dataset (COCO / YOLO)...
+        </MyMenuItem>
+        <MyMenuItem onClick={() => exportController.exportHistorySessionLog()}>
+          Export session log (JSON)
+        </MyMenuItem>
+
         <MyListDivider />
         <MyCategoryTitle>Select</MyCategoryTitle>
 
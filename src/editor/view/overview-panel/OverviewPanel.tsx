@@ -21,7 +21,12 @@ import { ViewAccordionPanel } from "./ViewAccordionPanel";
 import { SelectionAccordionPanel } from "./SelectionAccordionPanel";
 import { RecognitionQuickAction } from "./RecognitionQuickAction";
 import { BackupButton } from "./BackupButton";
-import { useState } from "react";
+import { HistoryAccordionPanel } from "./HistoryAccordionPanel";
+import { CommentsAccordionPanel } from "./CommentsAccordionPanel";
+import { AttributionAccordionPanel } from "./AttributionAccordionPanel";
+import { RevisionsAccordionPanel } from "./RevisionsAccordionPanel";
+import { useContext, useState } from "react";
+import { EditorContext } from "../../EditorContext";
 
 export interface OverviewPanelProps {
   readonly onClose: () => void;
@@ -35,6 +40,8 @@ export interface OverviewPanelProps {
  * collapsed to a thin bar to give the canvas more room.
  */
 export function OverviewPanel(props: OverviewPanelProps) {
+  const { commentsController, revisionDiffController } =
+    useContext(EditorContext);
   const [collapsed, setCollapsed] = useState(false);
 
   // Collapsed: a thin bar with only an "expand" button, so the canvas is wide.
@@ -156,6 +163,50 @@ export function OverviewPanel(props: OverviewPanelProps) {
               <NodesAccordionPanel />
             </AccordionDetails>
           </Accordion>
+
+          <Accordion defaultExpanded={false}>
+            <AccordionSummary>
+              <Typography level="title-sm">History</Typography>
+            </AccordionSummary>
+            <AccordionDetails>
+              <HistoryAccordionPanel />
+            </AccordionDetails>
+          </Accordion>
+
+          <Accordion defaultExpanded={false}>
+            <AccordionSummary>
+              <Typography level="title-sm">Attribution</Typography>
+            </AccordionSummary>
+            <AccordionDetails>
+              <AttributionAccordionPanel />
+            </AccordionDetails>
+          </Accordion>
+
+          {revisionDiffController !== null && (
+            <Accordion defaultExpanded={false}>
+              <AccordionSummary>
+                <Typography level="title-sm">Revisions</Typography>
+              </AccordionSummary>
+              <AccordionDetails>
+                <RevisionsAccordionPanel
+                  revisionDiffController={revisionDiffController}
+                />
+              </AccordionDetails>
+            </Accordion>
+          )}
+
+          {commentsController !== null && (
+            <Accordion defaultExpanded={false}>
+              <AccordionSummary>
+                <Typography level="title-sm">Comments</Typography>
+              </AccordionSummary>
+              <AccordionDetails>
+                <CommentsAccordionPanel
+                  commentsController={commentsController}
+                />
+              </AccordionDetails>
+            </Accordion>
+          )}
         </AccordionGroup>
       </Box>
     </Sheet>
@@ -0,0 +1,175 @@
+import {
+  Alert,
+  Button,
+  DialogActions,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Modal,
+  ModalClose,
+  ModalDialog,
+  Option,
+  Select,
+  Stack,
+  Textarea,
+  Typography,
+} from "@mui/joy";
+import { useAtom } from "jotai";
+import { useContext, useState } from "react";
+import { EditorContext } from "../../EditorContext";
+import { PredictionFileFormat } from "../../controller/parsePredictionFile";
+import { classMapJsonAtom } from "../export/DatasetExportDialog";
+import {
+  createDefaultDatasetClassMap,
+  parseDatasetClassMap,
+} from "../../../mung/dataset/DatasetClassMap";
+import UploadFileIcon from "@mui/icons-material/UploadFile";
+
+export interface PredictionImportDialogProps {
+  readonly open: boolean;
+  readonly onClose: () => void;
+}
+
+/**
+ * Lets the user import predictions computed offline (COCO results JSON
+ * or YOLO txt) as prediction nodes
+ */
+export function PredictionImportDialog(props: PredictionImportDialogProps) {
+  const { mainMenuController } = useContext(EditorContext);
+  const [classMapJson, setClassMapJson] = useAtom(classMapJsonAtom);
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<PredictionFileFormat>("coco");
+  const [modelLabel, setModelLabel] = useState<string>("");
+  const [minConfidence, setMinConfidence] = useState<number>(0.25);
+  const [error, setError] = useState<string | null>(null);
+
+  const classMapText =
+    classMapJson ?? JSON.stringify(createDefaultDatasetClassMap(), null, 2);
+  let classMapError: string | null = null;
+  try {
+    parseDatasetClassMap(classMapText);
+  } catch (e) {
+    classMapError = String((e as Error).message ?? e);
+  }
+
+  function selectFile(selectedFile: File | null) {
+    setFile(selectedFile);
+    setError(null);
+    if (selectedFile === null) return;
+    setFormat(selectedFile.name.endsWith(".txt") ? "yolo" : "coco");
+    if (modelLabel === "") setModelLabel(selectedFile.name);
+  }
+
+  async function runImport() {
+    if (file === null) return;
+    setError(null);
+    try {
+      mainMenuController.importPredictionFile(await file.text(), file.name, {
+        format,
+        classMap: parseDatasetClassMap(classMapText),
+        modelLabel: modelLabel === "" ? file.name : modelLabel,
+        minConfidence,
+      });
+      setFile(null);
+      props.onClose();
+    } catch (e) {
+      console.error(e);
+      setError(String(e));
+    }
+  }
+
+  return (
+    <Modal open={props.open} onClose={props.onClose}>
+      <ModalDialog sx={{ width: "600px", maxWidth: "90vw", overflowY: "auto" }}>
+        <ModalClose />
+        <Typography level="h4" startDecorator={<UploadFileIcon />}>
+          Import predictions
+        </Typography>
+        <Stack spacing={1.5}>
+          <FormControl>
+            <FormLabel>Prediction file</FormLabel>
+            <Button component="label" variant="outlined" color="neutral">
+              {file === null ? "Choose file..." : file.name}
+              <input
+                type="file"
+                accept=".json,.txt"
+                hidden
+                onChange={(e) => selectFile(e.target.files?.[0] ?? null)}
+              />
+            </Button>
+          </FormControl>
+          <FormControl>
+            <FormLabel>Format</FormLabel>
+            <Select
+              value={format}
+              onChange={(_, value) => value !== null && setFormat(value)}
+            >
+              <Option value="coco">COCO results JSON</Option>
+              <Option value="yolo">YOLO txt</Option>
+            </Select>
+            <FormHelperText>
+              {format === "coco"
+                ? "Bounding boxes in pixels, category names are used when present."
+                : "Lines with a class ID and a box relative to the page size."}
+            </FormHelperText>
+          </FormControl>
+          <FormControl>
+            <FormLabel>Model label</FormLabel>
+            <Input
+              value={modelLabel}
+              onChange={(e) => setModelLabel(e.target.value)}
+            />
+          </FormControl>
+          <FormControl>
+            <FormLabel>Minimal confidence</FormLabel>
+            <Input
+              type="number"
+              value={minConfidence}
+              slotProps={{ input: { min: 0, max: 1, step: 0.05 } }}
+              onChange={(e) => setMinConfidence(parseFloat(e.target.value))}
+            />
+          </FormControl>
+          <FormControl error={classMapError !== null}>
+            <FormLabel>
+              Class map (class name to ID)
+              <Button
+                size="sm"
+                variant="plain"
+                sx={{ ml: "auto" }}
+                onClick={() => setClassMapJson(null)}
+              >
+                Reset
+              </Button>
+            </FormLabel>
+            <Textarea
+              minRows={6}
+              maxRows={12}
+              value={classMapText}
+              onChange={(e) => setClassMapJson(e.target.value)}
+              sx={{ fontFamily: "monospace", fontSize: "12px" }}
+            />
+            <FormHelperText>
+              {classMapError ??
+                "The same map as for the dataset export. Predictions of class IDs missing in the map are left out."}
+            </FormHelperText>
+          </FormControl>
+          {error !== null && <Alert color="danger">{error}</Alert>}
+        </Stack>
+        <DialogActions>
+          <Button
+            disabled={
+              file === null || classMapError !== null || isNaN(minConfidence)
+            }
+            onClick={runImport}
+          >
+            Import
+          </Button>
+          <Button variant="plain" color="neutral" onClick={props.onClose}>
+            Close
+          </Button>
+        </DialogActions>
+      </ModalDialog>
+    </Modal>
+  );
+}
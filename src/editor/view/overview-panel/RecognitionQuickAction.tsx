@@ -21,6 +21,7 @@ import DeleteSweepIcon from "@mui/icons-material/DeleteSweep";
 import RedoIcon from "@mui/icons-material/Redo";
 import RestartAltIcon from "@mui/icons-material/RestartAlt";
 import UndoIcon from "@mui/icons-material/Undo";
+import UploadFileIcon from "@mui/icons-material/UploadFile";
 import { useAtomValue } from "jotai";
 import { useContext, useEffect, useState } from "react";
 import { useParams } from "react-router-dom";
@@ -37,6 +38,7 @@ import {
   Yolo26DetectionOptions,
 } from "../../controller/Yolo26DetectionApi";
 import CropFreeIcon from "@mui/icons-material/CropFree";
+import { PredictionImportDialog } from "./PredictionImportDialog";
 
 type DetectionParameterKey = keyof Yolo26DetectionOptions;
 type DetectionParameterValues = Record<DetectionParameterKey, string>;
@@ -231,6 +233,7 @@ export function RecognitionQuickAction() {
       ? parsedEdgeThreshold
       : 0.5;
   const syntaxEdgeCount = useAtomValue(controller.syntaxEdgeCountAtom);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
 
   useEffect(() => {
     let cancelled = false;
@@ -560,6 +563,21 @@ export function RecognitionQuickAction() {
           Clear predictions
           {yolo26PredictionCount > 0 ? ` (${yolo26PredictionCount})` : ""}
         </Button>
+        <Button
+          size="sm"
+          variant="soft"
+          color="neutral"
+          fullWidth
+          disabled={isYolo26Running || isRecognitionRegionSelecting}
+          startDecorator={<UploadFileIcon />}
+          onClick={() => setIsImportDialogOpen(true)}
+        >
+          Import predictions from file...
+        </Button>
+        <PredictionImportDialog
+          open={isImportDialogOpen}
+          onClose={() => setIsImportDialogOpen(false)}
+        />
         <ButtonGroup size="sm" variant="soft" color="neutral">
           <Button
             fullWidth
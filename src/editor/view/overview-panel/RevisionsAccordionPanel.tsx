@@ -0,0 +1,224 @@
+import {
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemContent,
+  Option,
+  Select,
+  Stack,
+  Tooltip,
+  Typography,
+} from "@mui/joy";
+import CompareArrowsIcon from "@mui/icons-material/CompareArrows";
+import CloseIcon from "@mui/icons-material/Close";
+import RestoreIcon from "@mui/icons-material/Restore";
+import { useAtomValue } from "jotai";
+import { ReactNode, useEffect, useState } from "react";
+import {
+  REVISION_DIFF_COLORS,
+  RevisionDiffController,
+} from "../../controller/RevisionDiffController";
+import { Node } from "../../../mung/Node";
+import { MungDiff } from "../../../mung/diffMungFiles";
+
+/**
+ * How many differing nodes are listed at most
+ */
+const MAX_LISTED_NODES = 200;
+
+type DiffKind = keyof typeof REVISION_DIFF_COLORS;
+
+export interface RevisionsAccordionPanelProps {
+  readonly revisionDiffController: RevisionDiffController;
+}
+
+/**
+ * Compares saved revisions of the document and lists the nodes
+ * that differ, each can be restored from the older revision
+ */
+export function RevisionsAccordionPanel(props: RevisionsAccordionPanelProps) {
+  const { revisionDiffController } = props;
+
+  const revisions = useAtomValue(revisionDiffController.revisionsAtom);
+  const comparison = useAtomValue(revisionDiffController.comparisonAtom);
+  const isLoading = useAtomValue(revisionDiffController.isLoadingAtom);
+
+  const [baseRevisionId, setBaseRevisionId] = useState<string | null>(null);
+  const [targetRevisionId, setTargetRevisionId] = useState<string>("");
+
+  useEffect(() => {
+    revisionDiffController.loadRevisions().catch((e) => {
+      console.error("Loading revisions failed:", e);
+    });
+  }, []);
+
+  async function compare() {
+    if (baseRevisionId === null) return;
+    try {
+      await revisionDiffController.compare(
+        baseRevisionId,
+        targetRevisionId === "" ? null : targetRevisionId,
+      );
+    } catch (e) {
+      window.alert(String(e));
+    }
+  }
+
+  const differingNodes =
+    comparison === null ? [] : listDifferingNodes(comparison.diff);
+
+  return (
+    <>
+      <Stack gap={1} sx={{ mb: 1 }}>
+        <Select
+          size="sm"
+          placeholder="Older revision"
+          value={baseRevisionId}
+          onChange={(_, value) => setBaseRevisionId(value)}
+        >
+          {revisions.map((revision) => (
+            <Option key={revision.id} value={revision.id}>
+              {revision.id}
+            </Option>
+          ))}
+        </Select>
+        <Select
+          size="sm"
+          value={targetRevisionId}
+          onChange={(_, value) => setTargetRevisionId(value ?? "")}
+        >
+          <Option value="">Current state</Option>
+          {revisions.map((revision) => (
+            <Option key={revision.id} value={revision.id}>
+              {revision.id}
+            </Option>
+          ))}
+        </Select>
+        <Stack direction="row" gap={1}>
+          <Button
+            size="sm"
+            variant="outlined"
+            startDecorator={
+              isLoading ? <CircularProgress size="sm" /> : <CompareArrowsIcon />
+            }
+            disabled={baseRevisionId === null || isLoading}
+            onClick={compare}
+            sx={{ flexGrow: 1 }}
+          >
+            Compare
+          </Button>
+          {comparison !== null && (
+            <Tooltip title="Hide the differences">
+              <IconButton
+                size="sm"
+                variant="outlined"
+                onClick={() => revisionDiffController.closeComparison()}
+              >
+                <CloseIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+        </Stack>
+      </Stack>
+
+      {revisions.length === 0 && (
+        <Typography level="body-xs">
+          The document has no saved revisions yet.
+        </Typography>
+      )}
+
+      {comparison !== null && (
+        <>
+          <Stack direction="row" gap={0.5} sx={{ flexWrap: "wrap", mb: 1 }}>
+            <DiffChip kind="added">
+              +{comparison.diff.addedNodes.length} nodes, +
+              {comparison.diff.addedLinks.length} links
+            </DiffChip>
+            <DiffChip kind="removed">
+              −{comparison.diff.removedNodes.length} nodes, −
+              {comparison.diff.removedLinks.length} links
+            </DiffChip>
+            <DiffChip kind="changed">
+              {comparison.diff.changedNodes.length} nodes changed
+            </DiffChip>
+          </Stack>
+          <List size="sm">
+            {differingNodes.slice(0, MAX_LISTED_NODES).map(({ kind, node }) => (
+              <ListItem
+                key={node.id}
+                endAction={
+                  <Tooltip
+                    title={`Restore from revision ${comparison.baseRevisionId}`}
+                  >
+                    <IconButton
+                      size="sm"
+                      onClick={() =>
+                        revisionDiffController.restoreNode(node.id)
+                      }
+                    >
+                      <RestoreIcon />
+                    </IconButton>
+                  </Tooltip>
+                }
+              >
+                <ListItemButton
+                  onClick={() => revisionDiffController.showNode(node)}
+                >
+                  <ListItemContent>
+                    <Typography
+                      level="body-sm"
+                      sx={{ color: REVISION_DIFF_COLORS[kind] }}
+                    >
+                      {kind} {node.className} #{node.id}
+                    </Typography>
+                  </ListItemContent>
+                </ListItemButton>
+              </ListItem>
+            ))}
+          </List>
+          {differingNodes.length > MAX_LISTED_NODES && (
+            <Typography level="body-xs">
+              ... and {differingNodes.length - MAX_LISTED_NODES} more
+            </Typography>
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
+interface DifferingNode {
+  readonly kind: DiffKind;
+
+  /**
+   * The node from the newer version, unless it was removed
+   */
+  readonly node: Node;
+}
+
+function listDifferingNodes(diff: MungDiff): DifferingNode[] {
+  return [
+    ...diff.addedNodes.map((node) => ({ kind: "added" as const, node })),
+    ...diff.removedNodes.map((node) => ({ kind: "removed" as const, node })),
+    ...diff.changedNodes.map((change) => ({
+      kind: "changed" as const,
+      node: change.after,
+    })),
+  ].sort((a, b) => a.node.id - b.node.id);
+}
+
+function DiffChip(props: { kind: DiffKind; children: ReactNode }) {
+  return (
+    <Chip
+      size="sm"
+      variant="soft"
+      sx={{ color: REVISION_DIFF_COLORS[props.kind] }}
+    >
+      {props.children}
+    </Chip>
+  );
+}
@@ -26,6 +26,10 @@ export function ForegroundLayer() {
     mainMenuController,
     recognitionRegionController,
     nodeNavigationController,
+    mergeController,
+    commentsController,
+    revisionDiffController,
+    validationController,
   } = useContext(EditorContext);
 
   const svgRef = useRef<SVGSVGElement | null>(null);
@@ -46,6 +50,10 @@ export function ForegroundLayer() {
     stafflinesToolController,
     mainMenuController,
     nodeNavigationController,
+    mergeController,
+    validationController,
+    ...(commentsController === null ? [] : [commentsController]),
+    ...(revisionDiffController === null ? [] : [revisionDiffController]),
   ];
 
   // rendering uses isEnabled properties so we need to listen to their changes,
@@ -1,15 +1,20 @@
 import {
+  Alert,
   Button,
   ButtonGroup,
   Modal,
   ModalClose,
   Sheet,
+  Textarea,
   Typography,
 } from "@mui/joy";
-import { useAtom } from "jotai";
-import { useContext } from "react";
+import { useAtom, useAtomValue } from "jotai";
+import { useContext, useEffect, useState } from "react";
 import { EditorContext } from "../../EditorContext";
-import { SceneRenderingEngine } from "../../model/SettingsStore";
+import {
+  SceneRenderingEngine,
+  ValidationEngineKind,
+} from "../../model/SettingsStore";
 
 export function SettingsWindow() {
   const { settingsStore } = useContext(EditorContext);
@@ -20,6 +25,10 @@ export function SettingsWindow() {
     settingsStore.sceneRenderingEngineAtom,
   );
 
+  const [validationEngine, setValidationEngine] = useAtom(
+    settingsStore.validationEngineAtom,
+  );
+
   return (
     <Modal
       aria-labelledby="Settings"
@@ -71,6 +80,24 @@ export function SettingsWindow() {
             Canvas2D
           </Button>
         </ButtonGroup>
+        <Typography textColor="text.tertiary" sx={{ mt: 2 }}>
+          Select the validation engine:
+        </Typography>
+        <ButtonGroup size="md">
+          <Button
+            aria-pressed={validationEngine === ValidationEngineKind.TypeScript}
+            onClick={() => setValidationEngine(ValidationEngineKind.TypeScript)}
+          >
+            TypeScript
+          </Button>
+          <Button
+            aria-pressed={validationEngine === ValidationEngineKind.Pyodide}
+            onClick={() => setValidationEngine(ValidationEngineKind.Pyodide)}
+          >
+            Python (Pyodide)
+          </Button>
+        </ButtonGroup>
+        <DatasetRulesEditor />
         <Typography id="modal-desc" textColor="text.tertiary">
           More settings to be added here...
         </Typography>
@@ -78,3 +105,64 @@ export function SettingsWindow() {
     </Modal>
   );
 }
+
+/**
+ * Editor of the user-defined validation rules of the document's dataset,
+ * written as a JSON rule set (see DeclarativeRuleSet for the format)
+ */
+function DatasetRulesEditor() {
+  const { validationController, notationGraphStore } =
+    useContext(EditorContext);
+  const ruleSet = useAtomValue(validationController.datasetRuleSetAtom);
+  const loadingError = useAtomValue(
+    validationController.datasetRuleSetErrorAtom,
+  );
+
+  const [text, setText] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // show the rules as they are stored
+  useEffect(() => {
+    setText(JSON.stringify(ruleSet ?? { rules: [] }, null, 2));
+  }, [ruleSet]);
+
+  if (!validationController.hasDatasetRules) return null;
+
+  async function save() {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await validationController.saveDatasetRuleSet(text);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <>
+      <Typography textColor="text.tertiary" sx={{ mt: 2 }}>
+        Validation rules of the dataset{" "}
+        <code>{notationGraphStore.metadata.dataset}</code>:
+      </Typography>
+      <Textarea
+        minRows={4}
+        maxRows={12}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        sx={{ fontFamily: "monospace", fontSize: "sm" }}
+      />
+      {(error ?? loadingError) !== null && (
+        <Alert color="danger" sx={{ mt: 1 }}>
+          {error ?? loadingError}
+        </Alert>
+      )}
+      <Button size="sm" sx={{ mt: 1 }} loading={isSaving} onClick={save}>
+        Save rules
+      </Button>
+    </>
+  );
+}
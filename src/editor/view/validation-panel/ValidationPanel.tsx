@@ -1,6 +1,7 @@
 import {
   Alert,
   Box,
+  Button,
   Card,
   Chip,
   CircularProgress,
@@ -20,7 +21,9 @@ import SecurityIcon from "@mui/icons-material/Security";
 import GppMaybeIcon from "@mui/icons-material/GppMaybe";
 import PolicyIcon from "@mui/icons-material/Policy";
 import BuildIcon from "@mui/icons-material/Build";
+import BoltIcon from "@mui/icons-material/Bolt";
 import { computeIssueId } from "../../model/ValidationIssue";
+import { ValidationRuleSet } from "../../../mung/validation/ValidationRuleSet";
 
 export function ValidationPanel() {
   const {
@@ -36,9 +39,17 @@ export function ValidationPanel() {
   );
   const issues = useAtomValue(validationStore.issuesAtom);
   const errorMessage = useAtomValue(validationStore.errorMessageAtom);
+  const resolutionErrorMessage = useAtomValue(
+    validationStore.resolutionErrorMessageAtom,
+  );
   const isValidationRunning = useAtomValue(
     validationController.isValidationRunningAtom,
   );
+  const isLiveValidationEnabled = useAtomValue(
+    validationController.isLiveValidationEnabledAtom,
+  );
+  const ruleSets = useAtomValue(validationController.ruleSetsAtom);
+  const isSchenkerian = ruleSets.includes(ValidationRuleSet.Schenkerian);
 
   // display just the little tab
   if (!isPanelOpen) {
@@ -117,6 +128,48 @@ export function ValidationPanel() {
         >
           Validation Issues
         </Typography>
+        <Tooltip
+          arrow
+          title="Validate the Schenkerian notation in this document"
+        >
+          <Button
+            size="sm"
+            color={isSchenkerian ? "primary" : "neutral"}
+            variant={isSchenkerian ? "soft" : "plain"}
+            aria-pressed={isSchenkerian}
+            sx={{ flexShrink: 0 }}
+            onClick={() =>
+              validationController.setRuleSetEnabled(
+                ValidationRuleSet.Schenkerian,
+                !isSchenkerian,
+              )
+            }
+          >
+            Schenkerian
+          </Button>
+        </Tooltip>
+        <Tooltip
+          arrow
+          title={
+            isLiveValidationEnabled
+              ? "Stop validating changes as you work"
+              : "Validate changes as you work"
+          }
+        >
+          <IconButton
+            size="sm"
+            color={isLiveValidationEnabled ? "primary" : "neutral"}
+            variant={isLiveValidationEnabled ? "soft" : "plain"}
+            aria-pressed={isLiveValidationEnabled}
+            onClick={() =>
+              validationController.setLiveValidationEnabled(
+                !isLiveValidationEnabled,
+              )
+            }
+          >
+            <BoltIcon />
+          </IconButton>
+        </Tooltip>
         <Tooltip arrow title="Run validation">
           <IconButton
             size="sm"
@@ -152,6 +205,27 @@ export function ValidationPanel() {
         </Tooltip>
       </Stack>
       <Box sx={{ overflowY: "scroll", flexGrow: "1" }}>
+        {resolutionErrorMessage && (
+          <Alert
+            color="warning"
+            sx={{ m: 1 }}
+            endDecorator={
+              <IconButton
+                size="sm"
+                color="warning"
+                variant="plain"
+                onClick={() => validationStore.acceptResolutionErrors([])}
+              >
+                <CloseIcon />
+              </IconButton>
+            }
+          >
+            <pre style={{ whiteSpace: "pre-wrap", margin: 0 }}>
+              {resolutionErrorMessage}
+            </pre>
+          </Alert>
+        )}
+
         <Table
           borderAxis="x"
           size="sm"
@@ -1,3 +1,6 @@
+import { LinkType } from "./LinkType";
+import { MungXmlFragment } from "./MungXmlFragment";
+
 /**
  * Represents a sequence of changes to a notation graph
  */
@@ -8,7 +11,17 @@ export interface Delta {
 /**
  * Union type of all operations that can be applied to a notation graph
  */
-export type DeltaOperation = DeltaUpdateNodeClass;
+export type DeltaOperation =
+  | DeltaUpdateNodeClass
+  | DeltaInsertNode
+  | DeltaRemoveNode
+  | DeltaInsertLink
+  | DeltaRemoveLink
+  | DeltaUpdateNodeBbox
+  | DeltaUpdateNodeMask
+  | DeltaUpdateNodePolygon
+  | DeltaSetTextTranscription
+  | DeltaSetDataItem;
 
 export function isUpdateNodeClass(
   op: DeltaOperation,
@@ -30,3 +43,226 @@ export interface DeltaUpdateNodeClass {
    */
   readonly newClassName: string;
 }
+
+export function isInsertNode(op: DeltaOperation): op is DeltaInsertNode {
+  const node = (op as DeltaInsertNode).insertNode;
+  return (
+    typeof node === "object" &&
+    node !== null &&
+    typeof node.id === "number" &&
+    typeof node.className === "string"
+  );
+}
+
+export interface DeltaInsertNode {
+  /**
+   * The node to be inserted, its ID must be free. Links are inserted
+   * by separate operations.
+   */
+  readonly insertNode: {
+    readonly id: number;
+    readonly className: string;
+    readonly left: number;
+    readonly top: number;
+    readonly width: number;
+    readonly height: number;
+
+    /**
+     * The "C:N C:N ..." RLE mask string, as stored in MuNG XML
+     * (missing or null for a node without a mask)
+     */
+    readonly mask?: string | null;
+    readonly polygon?: number[] | null;
+    readonly textTranscription?: string | null;
+    readonly data?: DeltaDataItems;
+
+    /**
+     * XML the editor does not understand, kept so that undoing a removal
+     * restores the node completely
+     */
+    readonly extraXml?: readonly MungXmlFragment[];
+  };
+}
+
+export function isRemoveNode(op: DeltaOperation): op is DeltaRemoveNode {
+  return typeof (op as DeltaRemoveNode).removeNodeId === "number";
+}
+
+export interface DeltaRemoveNode {
+  /**
+   * ID of the node to be removed, together with all its links
+   */
+  readonly removeNodeId: number;
+}
+
+export function isInsertLink(op: DeltaOperation): op is DeltaInsertLink {
+  return isDeltaLink((op as DeltaInsertLink).insertLink);
+}
+
+export interface DeltaInsertLink {
+  /**
+   * The link to be inserted, it must not exist yet
+   */
+  readonly insertLink: DeltaLink;
+}
+
+export function isRemoveLink(op: DeltaOperation): op is DeltaRemoveLink {
+  return isDeltaLink((op as DeltaRemoveLink).removeLink);
+}
+
+export interface DeltaRemoveLink {
+  /**
+   * The link to be removed, it must exist
+   */
+  readonly removeLink: DeltaLink;
+}
+
+export function isUpdateNodeBbox(
+  op: DeltaOperation,
+): op is DeltaUpdateNodeBbox {
+  const bbox = (op as DeltaUpdateNodeBbox).newBbox;
+  return (
+    typeof (op as DeltaUpdateNodeBbox).updateNodeId === "number" &&
+    typeof bbox === "object" &&
+    bbox !== null
+  );
+}
+
+export interface DeltaUpdateNodeBbox {
+  /**
+   * ID of the node to be updated
+   */
+  readonly updateNodeId: number;
+
+  /**
+   * New bounding box of the node. An existing mask is dropped when
+   * the size changes, unless a new mask is set by a following operation.
+   */
+  readonly newBbox: {
+    readonly left: number;
+    readonly top: number;
+    readonly width: number;
+    readonly height: number;
+  };
+}
+
+export function isUpdateNodeMask(
+  op: DeltaOperation,
+): op is DeltaUpdateNodeMask {
+  const mask = (op as DeltaUpdateNodeMask).newMask;
+  return (
+    typeof (op as DeltaUpdateNodeMask).updateNodeId === "number" &&
+    (typeof mask === "string" || mask === null)
+  );
+}
+
+export interface DeltaUpdateNodeMask {
+  /**
+   * ID of the node to be updated
+   */
+  readonly updateNodeId: number;
+
+  /**
+   * The "C:N C:N ..." RLE mask string matching the node bounding box,
+   * or null to remove the mask
+   */
+  readonly newMask: string | null;
+}
+
+export function isUpdateNodePolygon(
+  op: DeltaOperation,
+): op is DeltaUpdateNodePolygon {
+  const polygon = (op as DeltaUpdateNodePolygon).newPolygon;
+  return (
+    typeof (op as DeltaUpdateNodePolygon).updateNodeId === "number" &&
+    (Array.isArray(polygon) || polygon === null)
+  );
+}
+
+export interface DeltaUpdateNodePolygon {
+  /**
+   * ID of the node to be updated
+   */
+  readonly updateNodeId: number;
+
+  /**
+   * New polygon of the node, null removes it
+   */
+  readonly newPolygon: number[] | null;
+}
+
+export function isSetTextTranscription(
+  op: DeltaOperation,
+): op is DeltaSetTextTranscription {
+  const text = (op as DeltaSetTextTranscription).newTextTranscription;
+  return (
+    typeof (op as DeltaSetTextTranscription).updateNodeId === "number" &&
+    (typeof text === "string" || text === null)
+  );
+}
+
+export interface DeltaSetTextTranscription {
+  /**
+   * ID of the node to be updated
+   */
+  readonly updateNodeId: number;
+
+  /**
+   * New text transcription, null removes it
+   */
+  readonly newTextTranscription: string | null;
+}
+
+export function isSetDataItem(op: DeltaOperation): op is DeltaSetDataItem {
+  return (
+    typeof (op as DeltaSetDataItem).updateNodeId === "number" &&
+    typeof (op as DeltaSetDataItem).dataItemKey === "string" &&
+    (op as DeltaSetDataItem).newDataItem !== undefined
+  );
+}
+
+export interface DeltaSetDataItem {
+  /**
+   * ID of the node to be updated
+   */
+  readonly updateNodeId: number;
+
+  /**
+   * Key of the DataItem to be set
+   */
+  readonly dataItemKey: string;
+
+  /**
+   * New value of the DataItem, null removes it
+   */
+  readonly newDataItem: {
+    readonly type: string;
+    readonly value: string;
+  } | null;
+}
+
+/**
+ * A link referenced by link operations
+ */
+export interface DeltaLink {
+  readonly fromId: number;
+  readonly toId: number;
+  readonly type: LinkType;
+}
+
+/**
+ * DataItems of an inserted node
+ */
+export type DeltaDataItems = Readonly<
+  Record<string, { readonly type: string; readonly value: string }>
+>;
+
+function isDeltaLink(link: DeltaLink | undefined): boolean {
+  return (
+    typeof link === "object" &&
+    link !== null &&
+    typeof link.fromId === "number" &&
+    typeof link.toId === "number" &&
+    (link.type === LinkType.Syntax || link.type === LinkType.Precedence)
+  );
+}
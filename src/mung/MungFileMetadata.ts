@@ -1,3 +1,5 @@
+import { MungXmlFragment } from "./MungXmlFragment";
+
 /**
  * Metadata stored at the beginning of a MuNG file.
  */
@@ -11,4 +13,16 @@ export interface MungFileMetadata {
    * Name of the document inside the dataset which is annotated in this file.
    */
   readonly document: string;
+
+  /**
+   * Attributes of the <Nodes> element other than dataset and document,
+   * in the order they appeared in the file. They are written back on save.
+   */
+  readonly extraAttributes?: Readonly<Record<string, string>>;
+
+  /**
+   * Comments and unknown elements placed among the <Node> elements,
+   * they are written back on save.
+   */
+  readonly extraXml?: readonly MungXmlFragment[];
 }
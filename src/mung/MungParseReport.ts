@@ -0,0 +1,64 @@
+import { MungFile } from "./MungFile";
+
+/**
+ * Categories of problems that can be found and repaired
+ * while reading a MuNG file
+ */
+export type MungParseIssueKind =
+  | "invalid-id"
+  | "duplicate-id"
+  | "dangling-link"
+  | "one-sided-link"
+  | "invalid-geometry"
+  | "empty-mask"
+  | "invalid-mask"
+  | "unknown-data-item-type";
+
+/**
+ * One problem found in a MuNG file during reading,
+ * together with the repair action that was taken
+ */
+export interface MungParseIssue {
+  readonly kind: MungParseIssueKind;
+
+  /**
+   * ID of the affected node (NaN if the ID itself could not be parsed)
+   */
+  readonly nodeId: number;
+
+  /**
+   * Name of the XML element or data item that contained the problem
+   */
+  readonly field: string;
+
+  /**
+   * The offending value, as it was written in the file
+   */
+  readonly rawValue: string;
+
+  /**
+   * What has been done to make the node loadable
+   */
+  readonly action: string;
+}
+
+/**
+ * Lists everything that was silently wrong with a MuNG file
+ * and has been repaired while reading it
+ */
+export interface MungParseReport {
+  readonly issues: MungParseIssue[];
+}
+
+/**
+ * The result of reading a MuNG file, the file itself with the report
+ */
+export interface MungParseResult {
+  readonly mung: MungFile;
+  readonly report: MungParseReport;
+}
+
+/**
+ * Called for each issue as soon as it is found during reading
+ */
+export type MungParseIssueCallback = (issue: MungParseIssue) => void;
@@ -0,0 +1,60 @@
+import { MungFile } from "./MungFile";
+import { MungParseIssue, MungParseReport } from "./MungParseReport";
+
+/**
+ * Request sent to the MuNG reading web worker. The XML can be given either
+ * as a string, or as a blob (file), which is then streamed by the worker
+ * without ever being loaded into the main thread.
+ */
+export interface MungReadingRequest {
+  readonly source: string | Blob;
+}
+
+/**
+ * Phases of the MuNG reading process, reported via progress messages
+ */
+export type MungReadingPhase = "parsing" | "decoding-masks";
+
+/**
+ * Reports how far the reading has progressed.
+ * The loaded and total values are measured in characters of the XML input
+ * during parsing and in nodes during mask decoding.
+ */
+export interface MungReadingProgressMessage {
+  readonly type: "progress";
+  readonly phase: MungReadingPhase;
+  readonly loaded: number;
+  readonly total: number;
+}
+
+/**
+ * Something in the file was wrong and has been repaired,
+ * the reading continues
+ */
+export interface MungReadingIssueMessage {
+  readonly type: "issue";
+  readonly issue: MungParseIssue;
+}
+
+/**
+ * The reading has finished successfully
+ */
+export interface MungReadingDoneMessage {
+  readonly type: "done";
+  readonly mung: MungFile;
+  readonly report: MungParseReport;
+}
+
+/**
+ * The reading has failed
+ */
+export interface MungReadingErrorMessage {
+  readonly type: "error";
+  readonly message: string;
+}
+
+export type MungReadingResponse =
+  | MungReadingProgressMessage
+  | MungReadingIssueMessage
+  | MungReadingDoneMessage
+  | MungReadingErrorMessage;
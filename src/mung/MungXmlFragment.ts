@@ -0,0 +1,28 @@
+/**
+ * A piece of MuNG XML that MuNG Studio does not understand (an unknown
+ * element or a comment), but keeps, so that it can be written back
+ * in place when the file is saved. This way the files produced by other
+ * MuNG tooling survive an editing session.
+ */
+export interface MungXmlFragment {
+  /**
+   * The raw XML source of the fragment, e.g. "<!-- note -->"
+   * or "<Confidence>0.93</Confidence>"
+   */
+  readonly xml: string;
+
+  /**
+   * Where the fragment was located. Inside a <Node> element, it is the name
+   * of the known element that precedes the fragment (e.g. "ClassName").
+   * Inside the <Nodes> element, it is the ID of the preceding <Node>.
+   * Inside the <Data> element of a node, it is the key of the preceding
+   * <DataItem>. Null if the fragment is the first child of its parent.
+   */
+  readonly after: string | null;
+
+  /**
+   * Set to "Data" when the fragment lies inside the <Data> element
+   * of a node, missing when it is a direct child of <Node> or <Nodes>
+   */
+  readonly inside?: "Data";
+}
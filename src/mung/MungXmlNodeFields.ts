@@ -0,0 +1,210 @@
+import { DataItems } from "./DataItems";
+import { decodeRleMaskString } from "./decodeRleMaskString";
+import { MungParseIssueCallback } from "./MungParseReport";
+import { MungXmlFragment } from "./MungXmlFragment";
+import { Node } from "./Node";
+
+/**
+ * Raw textual contents of a <Node> element, as extracted by an XML reader,
+ * before they are interpreted and converted into a MuNG Node. Both the DOM
+ * reader and the streaming SAX reader produce this intermediate
+ * representation, so that they share the conversion logic.
+ */
+export interface MungXmlNodeFields {
+  id: string | null;
+  className: string | null;
+  top: string | null;
+  left: string | null;
+  width: string | null;
+  height: string | null;
+  mask: string | null;
+  inlinks: string | null;
+  outlinks: string | null;
+  dataItems: DataItems;
+  extraXml: MungXmlFragment[];
+}
+
+/**
+ * Names of the <Node> child elements understood by MuNG Studio,
+ * in the order in which they are written
+ */
+export const MUNG_NODE_ELEMENT_NAMES: readonly string[] = [
+  "Id",
+  "ClassName",
+  "Top",
+  "Left",
+  "Width",
+  "Height",
+  "Mask",
+  "Inlinks",
+  "Outlinks",
+  "Data",
+];
+
+/**
+ * DataItem types known to the mung python package,
+ * any other type is reported when read
+ */
+const KNOWN_DATA_ITEM_TYPES = new Set<string>([
+  "str",
+  "int",
+  "float",
+  "bool",
+  "list[int]",
+  "list[float]",
+  "list[str]",
+]);
+
+/**
+ * Creates an empty fields container, to be filled by an XML reader
+ */
+export function createEmptyMungXmlNodeFields(): MungXmlNodeFields {
+  return {
+    id: null,
+    className: null,
+    top: null,
+    left: null,
+    width: null,
+    height: null,
+    mask: null,
+    inlinks: null,
+    outlinks: null,
+    dataItems: {},
+    extraXml: [],
+  };
+}
+
+/**
+ * Decodes the mask of a node described by the given XML fields.
+ * A single malformed mask must NOT block the whole document from loading,
+ * therefore any failure is reported as an issue and results in null.
+ */
+export function decodeMungXmlNodeMask(
+  fields: MungXmlNodeFields,
+  onIssue: MungParseIssueCallback,
+): ImageData | null {
+  if (fields.mask === null) return null;
+
+  // Some nodes get saved with an empty/degenerate RLE mask (covers 0 pixels);
+  // drop just that mask, keeping the node (its bbox, class and links
+  // are intact). The node is fully usable without a pixel mask.
+  if (!/(^|\s)1:[1-9]/.test(fields.mask)) {
+    onIssue({
+      kind: "empty-mask",
+      nodeId: parseInt(fields.id || "NaN"),
+      field: "Mask",
+      rawValue: fields.mask,
+      action: "Mask removed, the whole bounding box is used instead.",
+    });
+    return null;
+  }
+
+  try {
+    return decodeRleMaskString(
+      fields.mask,
+      parseInt(fields.width || "NaN"),
+      parseInt(fields.height || "NaN"),
+    );
+  } catch (e) {
+    onIssue({
+      kind: "invalid-mask",
+      nodeId: parseInt(fields.id || "NaN"),
+      field: "Mask",
+      rawValue: fields.mask,
+      action: `Mask removed, the whole bounding box is used instead (${e}).`,
+    });
+    return null;
+  }
+}
+
+/**
+ * Converts the raw XML fields into a MuNG node. The mask is decoded
+ * separately (see decodeMungXmlNodeMask), since it is the expensive part.
+ * Invalid geometry and unknown data item types are reported.
+ */
+export function buildNodeFromMungXmlFields(
+  fields: MungXmlNodeFields,
+  decodedMask: ImageData | null,
+  onIssue: MungParseIssueCallback,
+): Node {
+  const id = parseInt(fields.id || "NaN");
+  const dataItems: DataItems = { ...fields.dataItems };
+
+  // such nodes are dropped by repairMungNodes
+  if (isNaN(id)) {
+    onIssue({
+      kind: "invalid-id",
+      nodeId: id,
+      field: "Id",
+      rawValue: fields.id ?? "",
+      action: `Node of class ${fields.className} dropped.`,
+    });
+  }
+
+  for (const key in dataItems) {
+    const type = dataItems[key].type;
+    if (KNOWN_DATA_ITEM_TYPES.has(type)) continue;
+    onIssue({
+      kind: "unknown-data-item-type",
+      nodeId: id,
+      field: `DataItem[${key}]`,
+      rawValue: type,
+      action: "Kept as is, the value is treated as a string.",
+    });
+  }
+
+  const precedenceOutlinks = parseIntList(
+    dataItems["precedence_outlinks"]?.value,
+  );
+  delete dataItems["precedence_outlinks"];
+  const precedenceInlinks = parseIntList(
+    dataItems["precedence_inlinks"]?.value,
+  );
+  delete dataItems["precedence_inlinks"];
+  const textTranscription = dataItems["text_transcription"]?.value || null;
+  delete dataItems["text_transcription"];
+
+  function parseGeometry(
+    field: string,
+    rawValue: string | null,
+    fallback: number,
+  ): number {
+    const value = parseInt(rawValue || "NaN");
+    if (!isNaN(value)) return value;
+    onIssue({
+      kind: "invalid-geometry",
+      nodeId: id,
+      field,
+      rawValue: rawValue ?? "",
+      action: `Replaced with ${fallback}.`,
+    });
+    return fallback;
+  }
+
+  const node: Node = {
+    id,
+    className: fields.className || "unknown",
+    top: parseGeometry("Top", fields.top, 0),
+    left: parseGeometry("Left", fields.left, 0),
+    width: parseGeometry("Width", fields.width, 1),
+    height: parseGeometry("Height", fields.height, 1),
+    syntaxOutlinks: parseIntList(fields.outlinks),
+    syntaxInlinks: parseIntList(fields.inlinks),
+    precedenceOutlinks,
+    precedenceInlinks,
+    decodedMask,
+    textTranscription,
+    data: dataItems,
+    polygon: null,
+  };
+
+  if (fields.extraXml.length === 0) return node;
+  return { ...node, extraXml: fields.extraXml };
+}
+
+function parseIntList(value?: string | null): number[] {
+  const trimmed = value?.trim();
+  if (!trimmed) return [];
+  const parts = trimmed.split(/\s+/);
+  return parts.map((part) => parseInt(part));
+}
@@ -1,4 +1,5 @@
 import { DataItems } from "./DataItems";
+import { MungXmlFragment } from "./MungXmlFragment";
 
 /**
  * Represents a single MuNG Node (annotated object).
@@ -88,6 +89,13 @@ export interface Node {
    */
   readonly data: DataItems;
 
+  /**
+   * Comments and unknown child elements of the <Node> XML element,
+   * kept so that they can be written back in place. Missing for nodes
+   * that did not come from a file.
+   */
+  readonly extraXml?: readonly MungXmlFragment[];
+
   // TODO: remove this, since it's obsolete
   readonly polygon: number[] | null;
 }
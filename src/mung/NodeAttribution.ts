@@ -0,0 +1,188 @@
+import { DataItems } from "./DataItems";
+
+/**
+ * Keys of the data items that record who created and who last changed
+ * a node, the timestamps are ISO 8601 strings in UTC
+ */
+export const ATTRIBUTION_DATA_ITEM_KEYS = [
+  "created_by",
+  "created_at",
+  "modified_by",
+  "modified_at",
+] as const;
+
+/**
+ * Who created and who last changed a node, null when unknown
+ * (e.g. for nodes coming from a dataset)
+ */
+export interface NodeAttribution {
+  readonly createdBy: string | null;
+  readonly createdAt: string | null;
+  readonly modifiedBy: string | null;
+  readonly modifiedAt: string | null;
+}
+
+/**
+ * Reads the attribution of a node from its data items
+ */
+export function getNodeAttribution(data: DataItems): NodeAttribution {
+  return {
+    createdBy: data["created_by"]?.value ?? null,
+    createdAt: data["created_at"]?.value ?? null,
+    modifiedBy: data["modified_by"]?.value ?? null,
+    modifiedAt: data["modified_at"]?.value ?? null,
+  };
+}
+
+/**
+ * Compares two attributions by value
+ */
+export function isSameAttribution(
+  a: NodeAttribution,
+  b: NodeAttribution,
+): boolean {
+  return (
+    a.createdBy === b.createdBy &&
+    a.createdAt === b.createdAt &&
+    a.modifiedBy === b.modifiedBy &&
+    a.modifiedAt === b.modifiedAt
+  );
+}
+
+/**
+ * Returns the data items with the given attribution written into them
+ * (null values remove the items)
+ */
+export function setNodeAttribution(
+  data: DataItems,
+  attribution: NodeAttribution,
+): DataItems {
+  const newData: DataItems = { ...data };
+  const values: Record<string, string | null> = {
+    created_by: attribution.createdBy,
+    created_at: attribution.createdAt,
+    modified_by: attribution.modifiedBy,
+    modified_at: attribution.modifiedAt,
+  };
+  for (const key of ATTRIBUTION_DATA_ITEM_KEYS) {
+    const value = values[key];
+    if (value === null) {
+      delete newData[key];
+    } else {
+      newData[key] = { type: "str", value };
+    }
+  }
+  return newData;
+}
+
+/**
+ * Returns the data items stamped by a write of the given author,
+ * a creation (e.g. of a pasted copy) replaces the creator as well
+ */
+export function stampNodeAttribution(
+  data: DataItems,
+  author: string,
+  at: Date,
+  isCreation: boolean,
+): DataItems {
+  const attribution = getNodeAttribution(data);
+  const timestamp = at.toISOString();
+  return setNodeAttribution(data, {
+    createdBy: isCreation ? author : attribution.createdBy,
+    createdAt: isCreation ? timestamp : attribution.createdAt,
+    modifiedBy: author,
+    modifiedAt: timestamp,
+  });
+}
+
+/**
+ * Combines the attribution of two replicas of the same node, keeping
+ * the earliest creation and the latest modification. The result does not
+ * depend on the order of the arguments, so collaborators converge.
+ */
+export function mergeNodeAttribution(
+  a: NodeAttribution,
+  b: NodeAttribution,
+): NodeAttribution {
+  const created = pickStamp(
+    [a.createdAt, a.createdBy],
+    [b.createdAt, b.createdBy],
+    -1,
+  );
+  const modified = pickStamp(
+    [a.modifiedAt, a.modifiedBy],
+    [b.modifiedAt, b.modifiedBy],
+    1,
+  );
+  return {
+    createdAt: created[0],
+    createdBy: created[1],
+    modifiedAt: modified[0],
+    modifiedBy: modified[1],
+  };
+}
+
+type Stamp = [string | null, string | null];
+
+/**
+ * Picks the later (direction 1) or the earlier (direction -1) stamp,
+ * unknown stamps lose, ties are broken by the author name
+ */
+function pickStamp(a: Stamp, b: Stamp, direction: 1 | -1): Stamp {
+  if (a[0] === null) return b;
+  if (b[0] === null) return a;
+  const aKey = a[0] + "\u0000" + (a[1] ?? "");
+  const bKey = b[0] + "\u0000" + (b[1] ?? "");
+  const isALater = aKey > bKey;
+  return isALater === (direction === 1) ? a : b;
+}
+
+/**
+ * Tells whether two data item collections differ in anything
+ * other than the attribution
+ */
+export function areDataItemsChanged(
+  oldData: DataItems,
+  newData: DataItems,
+): boolean {
+  if (oldData === newData) return false;
+  const keys = new Set([...Object.keys(oldData), ...Object.keys(newData)]);
+  for (const key of keys) {
+    if ((ATTRIBUTION_DATA_ITEM_KEYS as readonly string[]).includes(key)) {
+      continue;
+    }
+    const oldItem = oldData[key];
+    const newItem = newData[key];
+    if (oldItem?.type !== newItem?.type || oldItem?.value !== newItem?.value) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Tells whether the given annotator created or last changed the node
+ * during the local calendar day of the given date
+ */
+export function isTouchedByOnDay(
+  attribution: NodeAttribution,
+  annotator: string,
+  day: Date,
+): boolean {
+  return (
+    (attribution.createdBy === annotator &&
+      isOnDay(attribution.createdAt, day)) ||
+    (attribution.modifiedBy === annotator &&
+      isOnDay(attribution.modifiedAt, day))
+  );
+}
+
+function isOnDay(timestamp: string | null, day: Date): boolean {
+  if (timestamp === null) return false;
+  const date = new Date(timestamp);
+  return (
+    date.getFullYear() === day.getFullYear() &&
+    date.getMonth() === day.getMonth() &&
+    date.getDate() === day.getDate()
+  );
+}
@@ -0,0 +1,293 @@
+/**
+ * Receives events from the SaxXmlParser as the XML document is being read
+ */
+export interface SaxXmlHandler {
+  onOpenTag(
+    name: string,
+    attributes: Record<string, string>,
+    isSelfClosing: boolean,
+  ): void;
+  onCloseTag(name: string): void;
+  onText(text: string): void;
+  onComment(text: string): void;
+}
+
+/**
+ * A minimal streaming (SAX-style) XML tokenizer. The input is fed in chunks
+ * via the write method and events are dispatched to the handler as soon
+ * as complete XML constructs are available. Only the buffered, not yet
+ * processed, tail of the input is kept in memory.
+ *
+ * It is not a validating parser. It understands elements, attributes,
+ * text, comments, CDATA sections, processing instructions (skipped),
+ * doctype declarations (skipped) and the predefined and numeric entities.
+ * This is everything that appears in MuNG files.
+ */
+export class SaxXmlParser {
+  private readonly handler: SaxXmlHandler;
+
+  /**
+   * Input that has been received but not yet processed
+   */
+  private buffer: string = "";
+
+  /**
+   * Text content that precedes the next markup construct
+   * and has not been dispatched yet
+   */
+  private pendingText: string = "";
+
+  /**
+   * Names of the currently open elements
+   */
+  private readonly openElements: string[] = [];
+
+  /**
+   * Raw source of the construct whose events are being dispatched
+   */
+  private currentRaw: string = "";
+
+  /**
+   * Raw source collected since beginCapture was called (null if not capturing)
+   */
+  private capturedRaw: string | null = null;
+
+  constructor(handler: SaxXmlHandler) {
+    this.handler = handler;
+  }
+
+  /**
+   * Feeds the next chunk of the XML document into the parser
+   */
+  public write(chunk: string): void {
+    this.buffer += chunk;
+    this.processBuffer();
+  }
+
+  /**
+   * Signals the end of the input, checks that the document is complete
+   */
+  public close(): void {
+    this.processBuffer();
+    if (this.buffer.trim() !== "") {
+      throw new Error("Unexpected end of the XML document.");
+    }
+    this.flushText();
+    if (this.openElements.length > 0) {
+      throw new Error(
+        `Unclosed XML element <${this.openElements[this.openElements.length - 1]}>.`,
+      );
+    }
+  }
+
+  /**
+   * Starts recording the raw XML source, beginning with the construct
+   * whose event is currently being handled (e.g. an opening tag).
+   * Used to preserve XML fragments that are not understood byte-for-byte.
+   */
+  public beginCapture(): void {
+    this.capturedRaw = this.currentRaw;
+  }
+
+  /**
+   * Stops recording the raw XML source and returns everything recorded,
+   * including the construct whose event is currently being handled
+   * (e.g. the matching closing tag)
+   */
+  public endCapture(): string {
+    const captured = this.capturedRaw ?? "";
+    this.capturedRaw = null;
+    return captured;
+  }
+
+  /**
+   * Remembers the raw source of the construct that is about to be dispatched
+   */
+  private enterConstruct(raw: string): void {
+    this.currentRaw = raw;
+    if (this.capturedRaw !== null) {
+      this.capturedRaw += raw;
+    }
+  }
+
+  private processBuffer(): void {
+    const buffer = this.buffer;
+    let position = 0;
+
+    while (position < buffer.length) {
+      const markupStart = buffer.indexOf("<", position);
+
+      // only text remains, wait for more input to know where it ends
+      if (markupStart === -1) {
+        this.pendingText += buffer.substring(position);
+        position = buffer.length;
+        break;
+      }
+
+      this.pendingText += buffer.substring(position, markupStart);
+      position = markupStart;
+
+      const markupEnd = this.processMarkup(buffer, markupStart);
+
+      // the markup construct is incomplete, wait for more input
+      if (markupEnd === -1) break;
+
+      position = markupEnd;
+    }
+
+    this.buffer = buffer.substring(position);
+  }
+
+  /**
+   * Processes the markup construct starting at the given position
+   * and returns the position right after it, or -1 if incomplete.
+   */
+  private processMarkup(buffer: string, start: number): number {
+    if (buffer.startsWith("<!--", start)) {
+      const end = buffer.indexOf("-->", start + 4);
+      if (end === -1) return -1;
+      this.flushText();
+      this.enterConstruct(buffer.substring(start, end + 3));
+      this.handler.onComment(buffer.substring(start + 4, end));
+      return end + 3;
+    }
+
+    if (buffer.startsWith("<![CDATA[", start)) {
+      const end = buffer.indexOf("]]>", start + 9);
+      if (end === -1) return -1;
+      // CDATA is text, but must not be entity-decoded
+      this.flushText();
+      this.enterConstruct(buffer.substring(start, end + 3));
+      this.handler.onText(buffer.substring(start + 9, end));
+      return end + 3;
+    }
+
+    if (buffer.startsWith("<?", start)) {
+      const end = buffer.indexOf("?>", start + 2);
+      if (end === -1) return -1;
+      this.flushText();
+      this.enterConstruct(buffer.substring(start, end + 2));
+      return end + 2;
+    }
+
+    if (buffer.startsWith("<!", start)) {
+      return this.skipDeclaration(buffer, start);
+    }
+
+    const end = findTagEnd(buffer, start + 1);
+    if (end === -1) return -1;
+
+    this.flushText();
+    this.enterConstruct(buffer.substring(start, end + 1));
+    this.processTag(buffer.substring(start + 1, end));
+    return end + 1;
+  }
+
+  private skipDeclaration(buffer: string, start: number): number {
+    // doctype declarations may contain an internal subset in brackets
+    let depth = 0;
+    for (let i = start + 2; i < buffer.length; i++) {
+      const c = buffer[i];
+      if (c === "[") depth += 1;
+      else if (c === "]") depth -= 1;
+      else if (c === ">" && depth <= 0) return i + 1;
+    }
+    return -1;
+  }
+
+  private processTag(content: string): void {
+    // closing tag
+    if (content.startsWith("/")) {
+      const name = content.substring(1).trim();
+      const expected = this.openElements.pop();
+      if (expected !== name) {
+        throw new Error(
+          `Mismatched closing tag </${name}>, expected </${expected}>.`,
+        );
+      }
+      this.handler.onCloseTag(name);
+      return;
+    }
+
+    // opening or self-closing tag
+    const isSelfClosing = content.endsWith("/");
+    if (isSelfClosing) {
+      content = content.substring(0, content.length - 1);
+    }
+
+    const nameMatch = /^[^\s/>]+/.exec(content);
+    if (nameMatch === null) {
+      throw new Error(`Malformed XML tag <${content}>.`);
+    }
+    const name = nameMatch[0];
+
+    const attributes: Record<string, string> = {};
+    const attributeRegex = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    attributeRegex.lastIndex = name.length;
+    let match: RegExpExecArray | null;
+    while ((match = attributeRegex.exec(content)) !== null) {
+      attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3]);
+    }
+
+    this.handler.onOpenTag(name, attributes, isSelfClosing);
+    if (isSelfClosing) {
+      this.handler.onCloseTag(name);
+    } else {
+      this.openElements.push(name);
+    }
+  }
+
+  private flushText(): void {
+    if (this.pendingText.length === 0) return;
+    const text = this.pendingText;
+    this.pendingText = "";
+
+    // skip whitespace outside of the root element
+    if (this.openElements.length === 0 && text.trim() === "") return;
+
+    this.enterConstruct(text);
+    this.handler.onText(decodeXmlEntities(text));
+  }
+}
+
+/**
+ * Finds the ">" character that ends a tag, ignoring those in attribute values
+ */
+function findTagEnd(buffer: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < buffer.length; i++) {
+    const c = buffer[i];
+    if (quote !== null) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Replaces XML entity references with the characters they represent
+ */
+export function decodeXmlEntities(text: string): string {
+  if (text.indexOf("&") === -1) return text;
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (ref, name) => {
+    if (name.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(name.substring(2), 16));
+    }
+    if (name.startsWith("#")) {
+      return String.fromCodePoint(parseInt(name.substring(1), 10));
+    }
+    return PREDEFINED_ENTITIES[name] ?? ref;
+  });
+}
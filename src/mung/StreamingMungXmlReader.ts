@@ -0,0 +1,303 @@
+import { MungFileMetadata } from "./MungFileMetadata";
+import { MungXmlFragment } from "./MungXmlFragment";
+import {
+  createEmptyMungXmlNodeFields,
+  MungXmlNodeFields,
+} from "./MungXmlNodeFields";
+import { SaxXmlHandler, SaxXmlParser } from "./SaxXmlParser";
+
+/**
+ * Fields of MungXmlNodeFields that hold the plain text of an element
+ */
+type MungXmlTextField = {
+  [K in keyof MungXmlNodeFields]: MungXmlNodeFields[K] extends string | null
+    ? K
+    : never;
+}[keyof MungXmlNodeFields];
+
+/**
+ * Names of the <Node> child elements that hold plain text values,
+ * mapped to the fields they are stored in
+ */
+const TEXT_FIELDS = new Map<string, MungXmlTextField>([
+  ["Id", "id"],
+  ["ClassName", "className"],
+  ["Top", "top"],
+  ["Left", "left"],
+  ["Width", "width"],
+  ["Height", "height"],
+  ["Mask", "mask"],
+  ["Inlinks", "inlinks"],
+  ["Outlinks", "outlinks"],
+]);
+
+/**
+ * Reads MuNG XML incrementally, as it arrives in chunks, and collects
+ * the raw fields of each node. It never builds the whole DOM tree, so the
+ * memory consumption stays proportional to the resulting nodes, not to
+ * the XML document. Masks are kept as RLE strings, so that they can be
+ * decoded later, in chunks (see MungXmlNodeFields).
+ *
+ * Comments and unknown elements inside <Nodes>, <Node> and <Data> are kept
+ * as raw XML fragments, so that they can be written back.
+ */
+export class StreamingMungXmlReader implements SaxXmlHandler {
+  private readonly parser = new SaxXmlParser(this);
+
+  private metadata: MungFileMetadata | null = null;
+  private readonly nodesExtraXml: MungXmlFragment[] = [];
+
+  private readonly nodeFields: MungXmlNodeFields[] = [];
+
+  // parsing state
+  private isInsideNodes: boolean = false;
+  private currentNode: MungXmlNodeFields | null = null;
+  private currentTextField: MungXmlTextField | null = null;
+  private currentDataItem: { key: string | null; type: string } | null = null;
+  private currentText: string = "";
+
+  /**
+   * Depth of elements inside the current <Node> (or <Nodes> outside nodes)
+   */
+  private childDepth: number = 0;
+
+  /**
+   * Depth at which an unknown element is being captured (null if not)
+   */
+  private capturedElementDepth: number | null = null;
+
+  /**
+   * The last known element inside <Node>, or the last node ID inside <Nodes>
+   */
+  private lastKnownSibling: string | null = null;
+
+  /**
+   * Whether the <Data> element of the current node is being read
+   */
+  private isInsideData: boolean = false;
+
+  /**
+   * Key of the last <DataItem> inside <Data>
+   */
+  private lastDataItemKey: string | null = null;
+
+  /**
+   * Feeds the next chunk of the XML string into the reader
+   */
+  public write(chunk: string): void {
+    this.parser.write(chunk);
+  }
+
+  /**
+   * Finishes reading and returns the document metadata
+   * and the raw fields of all the nodes
+   */
+  public close(): {
+    metadata: MungFileMetadata;
+    nodeFields: MungXmlNodeFields[];
+  } {
+    this.parser.close();
+
+    if (this.metadata === null)
+      throw new Error("The <Nodes> element was not found.");
+
+    return {
+      metadata:
+        this.nodesExtraXml.length === 0
+          ? this.metadata
+          : { ...this.metadata, extraXml: this.nodesExtraXml },
+      nodeFields: this.nodeFields,
+    };
+  }
+
+  /**
+   * How many nodes have been read so far
+   */
+  public get nodeCount(): number {
+    return this.nodeFields.length;
+  }
+
+  /**
+   * Where do fragments found right now belong to
+   */
+  private get currentFragments(): MungXmlFragment[] {
+    return this.currentNode === null
+      ? this.nodesExtraXml
+      : this.currentNode.extraXml;
+  }
+
+  ////////////////////////////
+  // SAX handler interface //
+  ////////////////////////////
+
+  onOpenTag(
+    name: string,
+    attributes: Record<string, string>,
+    _isSelfClosing: boolean,
+  ): void {
+    if (!this.isInsideNodes) {
+      if (name === "Nodes") {
+        this.isInsideNodes = true;
+        this.metadata = readNodesAttributes(attributes);
+      }
+      return;
+    }
+
+    // start of a node
+    if (this.currentNode === null && this.childDepth === 0 && name === "Node") {
+      this.currentNode = createEmptyMungXmlNodeFields();
+      this.lastKnownSibling = null;
+      return;
+    }
+
+    this.childDepth += 1;
+
+    // inside an unknown element that is being captured
+    if (this.capturedElementDepth !== null) return;
+
+    // unknown element among nodes
+    if (this.currentNode === null) {
+      if (this.childDepth === 1) this.beginUnknownElement();
+      return;
+    }
+
+    if (this.childDepth === 1) {
+      const textField = TEXT_FIELDS.get(name);
+      if (textField !== undefined) {
+        this.currentTextField = textField;
+        this.currentText = "";
+      } else if (name === "Data") {
+        this.isInsideData = true;
+        this.lastDataItemKey = null;
+      } else {
+        this.beginUnknownElement();
+      }
+      return;
+    }
+
+    if (this.isInsideData && this.childDepth === 2) {
+      if (name === "DataItem") {
+        this.currentDataItem = {
+          key: attributes["key"] ?? null,
+          type: attributes["type"] || "",
+        };
+        this.currentText = "";
+      } else {
+        this.beginUnknownElement();
+      }
+    }
+  }
+
+  onCloseTag(name: string): void {
+    if (!this.isInsideNodes) return;
+
+    if (this.childDepth === 0) {
+      if (this.currentNode !== null) {
+        // end of a node
+        this.nodeFields.push(this.currentNode);
+        this.lastKnownSibling = this.currentNode.id;
+        this.currentNode = null;
+      } else {
+        // end of the whole document
+        this.isInsideNodes = false;
+      }
+      return;
+    }
+
+    this.childDepth -= 1;
+
+    // end of a captured unknown element
+    if (this.capturedElementDepth !== null) {
+      if (this.childDepth < this.capturedElementDepth) {
+        this.pushFragment(this.parser.endCapture());
+        this.capturedElementDepth = null;
+      }
+      return;
+    }
+
+    if (this.currentNode === null) return;
+
+    if (this.childDepth === 0) {
+      this.lastKnownSibling = name;
+      if (name === "Data") this.isInsideData = false;
+    }
+
+    if (this.currentTextField !== null && TEXT_FIELDS.has(name)) {
+      this.currentNode[this.currentTextField] = this.currentText;
+      this.currentTextField = null;
+      this.currentText = "";
+      return;
+    }
+
+    if (name === "DataItem" && this.currentDataItem !== null) {
+      if (this.currentDataItem.key !== null) {
+        this.currentNode.dataItems[this.currentDataItem.key] = {
+          type: this.currentDataItem.type,
+          value: this.currentText,
+        };
+        this.lastDataItemKey = this.currentDataItem.key;
+      }
+      this.currentDataItem = null;
+      this.currentText = "";
+    }
+  }
+
+  onText(text: string): void {
+    if (this.currentTextField !== null || this.currentDataItem !== null) {
+      this.currentText += text;
+    }
+  }
+
+  onComment(text: string): void {
+    if (!this.isInsideNodes || this.capturedElementDepth !== null) return;
+
+    // only comments placed among nodes, among node fields
+    // and among data items are kept
+    const isAmongDataItems = this.isInsideData && this.childDepth === 1;
+    if (this.childDepth !== 0 && !isAmongDataItems) return;
+
+    this.pushFragment(`<!--${text}-->`);
+  }
+
+  /**
+   * Keeps a fragment found at the current position
+   */
+  private pushFragment(xml: string): void {
+    if (this.currentNode !== null && this.isInsideData) {
+      this.currentNode.extraXml.push({
+        xml,
+        after: this.lastDataItemKey,
+        inside: "Data",
+      });
+      return;
+    }
+    this.currentFragments.push({ xml, after: this.lastKnownSibling });
+  }
+
+  private beginUnknownElement(): void {
+    this.capturedElementDepth = this.childDepth;
+    this.parser.beginCapture();
+  }
+}
+
+/**
+ * Reads the metadata from the attributes of the root <Nodes> element
+ */
+function readNodesAttributes(
+  attributes: Record<string, string>,
+): MungFileMetadata {
+  const extraAttributes: Record<string, string> = {};
+  let hasExtraAttributes = false;
+  for (const name in attributes) {
+    if (name === "dataset" || name === "document") continue;
+    extraAttributes[name] = attributes[name];
+    hasExtraAttributes = true;
+  }
+
+  const metadata: MungFileMetadata = {
+    dataset: attributes["dataset"] || "unknown",
+    document: attributes["document"] || "unknown",
+  };
+  if (!hasExtraAttributes) return metadata;
+  return { ...metadata, extraAttributes };
+}
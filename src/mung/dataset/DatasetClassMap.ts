@@ -0,0 +1,65 @@
+import { MUNG_CLASS_NAMES } from "../ontology/mungClasses";
+
+/**
+ * Maps MuNG class names to the numeric class IDs used by a detector
+ * (COCO category IDs, YOLO class indices). Classes missing from the map
+ * are left out of the exported dataset.
+ */
+export type DatasetClassMap = Readonly<Record<string, number>>;
+
+/**
+ * Creates the default class map, which assigns IDs to all known MuNG
+ * classes in alphabetical order, starting from zero
+ */
+export function createDefaultDatasetClassMap(): DatasetClassMap {
+  const classMap: Record<string, number> = {};
+  MUNG_CLASS_NAMES.forEach((className, index) => {
+    classMap[className] = index;
+  });
+  return classMap;
+}
+
+/**
+ * Parses a class map from its JSON representation,
+ * throws an error describing the problem when it is invalid
+ */
+export function parseDatasetClassMap(json: string): DatasetClassMap {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`The class map is not valid JSON: ${e}`);
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(
+      "The class map must be a JSON object mapping class names to IDs.",
+    );
+  }
+
+  const classMap: Record<string, number> = {};
+  for (const [className, id] of Object.entries(data)) {
+    if (typeof id !== "number" || !Number.isInteger(id) || id < 0) {
+      throw new Error(
+        `The ID of the class "${className}" must be a non-negative integer.`,
+      );
+    }
+    classMap[className] = id;
+  }
+  return classMap;
+}
+
+/**
+ * Lists class names for each class ID (the first class name wins
+ * when several classes share an ID), indexed by the ID
+ */
+export function getDatasetClassNames(classMap: DatasetClassMap): string[] {
+  const names: string[] = [];
+  for (const [className, id] of Object.entries(classMap)) {
+    if (names[id] === undefined) names[id] = className;
+  }
+  for (let i = 0; i < names.length; i++) {
+    if (names[i] === undefined) names[i] = `unused${i}`;
+  }
+  return names;
+}
@@ -0,0 +1,99 @@
+import { MungFile } from "../MungFile";
+import { Node } from "../Node";
+import { DatasetClassMap } from "./DatasetClassMap";
+import {
+  computeDatasetCrops,
+  DatasetCrop,
+  DatasetCropOptions,
+} from "./computeDatasetCrops";
+
+/**
+ * A node, as it appears in one training image
+ */
+export interface DatasetAnnotation {
+  readonly node: Node;
+  readonly classId: number;
+
+  /**
+   * Bounding box clipped to the crop, relative to the crop
+   */
+  readonly left: number;
+  readonly top: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+/**
+ * One training image, i.e. one crop of a page, with its annotations
+ */
+export interface DatasetSample {
+  /**
+   * File name of the image without the extension
+   */
+  readonly name: string;
+  readonly crop: DatasetCrop;
+  readonly annotations: DatasetAnnotation[];
+}
+
+/**
+ * Splits an annotated page into training samples. Nodes are clipped
+ * to each crop and kept only when the visible fraction of their bbox area
+ * reaches the minimum visibility. Classes missing in the class map
+ * are skipped and counted.
+ */
+export function buildDatasetSamples(
+  pageName: string,
+  mung: MungFile,
+  pageWidth: number,
+  pageHeight: number,
+  cropOptions: DatasetCropOptions,
+  classMap: DatasetClassMap,
+  minVisibility: number,
+  skippedClassCounts: Map<string, number>,
+): DatasetSample[] {
+  const nodes: Node[] = [];
+  for (const node of mung.nodes) {
+    if (classMap[node.className] === undefined) {
+      skippedClassCounts.set(
+        node.className,
+        (skippedClassCounts.get(node.className) ?? 0) + 1,
+      );
+      continue;
+    }
+    nodes.push(node);
+  }
+
+  const crops = computeDatasetCrops(pageWidth, pageHeight, cropOptions);
+  return crops.map((crop) => {
+    const annotations: DatasetAnnotation[] = [];
+    for (const node of nodes) {
+      const left = Math.max(node.left, crop.left);
+      const top = Math.max(node.top, crop.top);
+      const right = Math.min(node.left + node.width, crop.left + crop.width);
+      const bottom = Math.min(node.top + node.height, crop.top + crop.height);
+      if (right <= left || bottom <= top) continue;
+
+      const visibility =
+        ((right - left) * (bottom - top)) / (node.width * node.height);
+      if (visibility < minVisibility) continue;
+
+      annotations.push({
+        node,
+        classId: classMap[node.className],
+        left: left - crop.left,
+        top: top - crop.top,
+        width: right - left,
+        height: bottom - top,
+      });
+    }
+
+    return {
+      name:
+        crops.length === 1
+          ? pageName
+          : `${pageName}__x${crop.left}_y${crop.top}`,
+      crop,
+      annotations,
+    };
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * How pages are split into training images
+ */
+export type DatasetCropMode = "page" | "tiles" | "strips";
+
+/**
+ * Crop geometry, mirrors the options of the symbol detector
+ * (see Yolo26DetectionOptions), so that the exported images match
+ * the images the detector sees during inference
+ */
+export interface DatasetCropOptions {
+  readonly mode: DatasetCropMode;
+  readonly tilePatch: number;
+  readonly tileStep: number;
+  readonly stripWidth: number;
+  readonly stripHeight: number;
+  readonly stripStepX: number;
+  readonly stripStepY: number;
+}
+
+/**
+ * A rectangular region of the page, exported as one training image
+ */
+export interface DatasetCrop {
+  readonly left: number;
+  readonly top: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+/**
+ * Computes the regions into which the page is split. Tiles are squares
+ * of the patch size (the last row and column are shifted to fit the page),
+ * strips span the whole width of the page unless the strip width is set.
+ * Positions are computed exactly as in yolo26_inference.py.
+ */
+export function computeDatasetCrops(
+  pageWidth: number,
+  pageHeight: number,
+  options: DatasetCropOptions,
+): DatasetCrop[] {
+  if (options.mode === "page") {
+    return [{ left: 0, top: 0, width: pageWidth, height: pageHeight }];
+  }
+
+  if (options.mode === "tiles") {
+    const patch = options.tilePatch;
+    const xs = tilePositions(pageWidth, patch, options.tileStep);
+    const ys = tilePositions(pageHeight, patch, options.tileStep);
+    return ys.flatMap((top) =>
+      xs.map((left) => ({
+        left,
+        top,
+        width: Math.min(patch, pageWidth - left),
+        height: Math.min(patch, pageHeight - top),
+      })),
+    );
+  }
+
+  const cropWidth =
+    options.stripWidth <= 0
+      ? pageWidth
+      : Math.min(options.stripWidth, pageWidth);
+  const cropHeight = Math.min(options.stripHeight, pageHeight);
+  const xs = cropPositions(pageWidth, cropWidth, options.stripStepX);
+  const ys = cropPositions(pageHeight, cropHeight, options.stripStepY);
+  return ys.flatMap((top) =>
+    xs.map((left) => ({ left, top, width: cropWidth, height: cropHeight })),
+  );
+}
+
+function cropPositions(length: number, crop: number, step: number): number[] {
+  if (crop >= length) return [0];
+  const positions: number[] = [];
+  for (let p = 0; p <= Math.max(length - crop, 0); p += step) {
+    positions.push(p);
+  }
+  if (positions.length === 0 || positions[positions.length - 1] + crop < length)
+    positions.push(length - crop);
+  return [...new Set(positions)].sort((a, b) => a - b);
+}
+
+function tilePositions(length: number, patch: number, step: number): number[] {
+  const positions: number[] = [];
+  for (let p = 0; p <= Math.max(length - patch, 0); p += step) {
+    positions.push(p);
+  }
+  if (
+    positions.length === 0 ||
+    positions[positions.length - 1] + patch < length
+  )
+    positions.push(Math.max(length - patch, 0));
+  return [...new Set(positions)].sort((a, b) => a - b);
+}
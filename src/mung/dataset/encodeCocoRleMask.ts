@@ -0,0 +1,63 @@
+import { Node } from "../Node";
+import { DatasetCrop } from "./computeDatasetCrops";
+
+/**
+ * Uncompressed COCO run-length encoding of a binary mask
+ */
+export interface CocoRle {
+  /**
+   * Height and width of the image
+   */
+  readonly size: [number, number];
+
+  /**
+   * Alternating lengths of background and foreground runs,
+   * in column-major order, starting with background
+   */
+  readonly counts: number[];
+}
+
+/**
+ * Encodes the mask of the node, clipped to the crop, as a COCO RLE
+ * over the whole crop. Nodes without a decoded mask cover their bbox.
+ */
+export function encodeCocoRleMask(node: Node, crop: DatasetCrop): CocoRle {
+  const counts: number[] = [];
+  let isForeground = false;
+  let runLength = 0;
+
+  function push(foreground: boolean, length: number) {
+    if (length === 0) return;
+    if (foreground !== isForeground) {
+      counts.push(runLength);
+      isForeground = foreground;
+      runLength = 0;
+    }
+    runLength += length;
+  }
+
+  const mask = node.decodedMask;
+  const top = Math.max(node.top, crop.top) - crop.top;
+  const bottom =
+    Math.min(node.top + node.height, crop.top + crop.height) - crop.top;
+
+  for (let x = 0; x < crop.width; x++) {
+    const maskX = x + crop.left - node.left;
+    if (maskX < 0 || maskX >= node.width || top >= bottom) {
+      push(false, crop.height);
+      continue;
+    }
+
+    push(false, top);
+    for (let y = top; y < bottom; y++) {
+      const maskY = y + crop.top - node.top;
+      const isInside =
+        mask === null || mask.data[(maskY * mask.width + maskX) * 4 + 3] > 0;
+      push(isInside, 1);
+    }
+    push(false, crop.height - bottom);
+  }
+  counts.push(runLength);
+
+  return { size: [crop.height, crop.width], counts };
+}
@@ -0,0 +1,144 @@
+import { MungFile } from "../MungFile";
+import { createZipArchive, ZipEntry } from "../../utils/createZipArchive";
+import { DatasetClassMap } from "./DatasetClassMap";
+import { buildDatasetSamples, DatasetSample } from "./buildDatasetSamples";
+import { DatasetCropOptions } from "./computeDatasetCrops";
+import { writeCocoDataset } from "./writeCocoDataset";
+import { writeYoloDataYaml, writeYoloLabels } from "./writeYoloDataset";
+
+/**
+ * Pixels of an annotated page
+ */
+export interface DatasetPageImage {
+  readonly width: number;
+  readonly height: number;
+  getImageData(rect: DOMRect): ImageData;
+}
+
+/**
+ * One annotated page to be exported
+ */
+export interface DatasetPage {
+  readonly name: string;
+  readonly mung: MungFile;
+  readonly image: DatasetPageImage;
+}
+
+export interface DatasetExportOptions {
+  readonly coco: boolean;
+  readonly yolo: boolean;
+  readonly crops: DatasetCropOptions;
+  readonly classMap: DatasetClassMap;
+
+  /**
+   * Minimal fraction of the bbox area that must lie inside a crop
+   * for the node to be annotated in that crop
+   */
+  readonly minVisibility: number;
+}
+
+export interface DatasetExportResult {
+  readonly archive: Blob;
+  readonly imageCount: number;
+  readonly annotationCount: number;
+
+  /**
+   * Nodes left out because their class is not in the class map
+   */
+  readonly skippedClassCounts: ReadonlyMap<string, number>;
+}
+
+/**
+ * Exports annotated pages as a ZIP archive with the training images
+ * (images/*.png), COCO annotations (annotations.json) and YOLO labels
+ * (labels/*.txt and data.yaml). Pages are loaded lazily one by one,
+ * so that only one page image is held in memory at a time.
+ */
+export async function exportDatasetArchive(
+  pageNames: readonly string[],
+  loadPage: (name: string) => Promise<DatasetPage>,
+  options: DatasetExportOptions,
+  onProgress?: (donePages: number, totalPages: number) => void,
+): Promise<DatasetExportResult> {
+  const entries: ZipEntry[] = [];
+  const cocoSamples: { sample: DatasetSample; fileName: string }[] = [];
+  const skippedClassCounts = new Map<string, number>();
+  let annotationCount = 0;
+
+  for (let i = 0; i < pageNames.length; i++) {
+    onProgress?.(i, pageNames.length);
+    const page = await loadPage(pageNames[i]);
+    const samples = buildDatasetSamples(
+      sanitizeFileName(page.name),
+      page.mung,
+      page.image.width,
+      page.image.height,
+      options.crops,
+      options.classMap,
+      options.minVisibility,
+      skippedClassCounts,
+    );
+
+    for (const sample of samples) {
+      const fileName = sample.name + ".png";
+      entries.push({
+        path: "images/" + fileName,
+        content: await encodeCropAsPng(page.image, sample),
+      });
+      if (options.yolo) {
+        entries.push({
+          path: "labels/" + sample.name + ".txt",
+          content: writeYoloLabels(sample),
+        });
+      }
+      if (options.coco) {
+        cocoSamples.push({ sample, fileName });
+      }
+      annotationCount += sample.annotations.length;
+    }
+  }
+  onProgress?.(pageNames.length, pageNames.length);
+
+  if (options.coco) {
+    entries.push({
+      path: "annotations.json",
+      content: writeCocoDataset(cocoSamples, options.classMap),
+    });
+  }
+  if (options.yolo) {
+    entries.push({
+      path: "data.yaml",
+      content: writeYoloDataYaml(options.classMap),
+    });
+  }
+
+  return {
+    archive: createZipArchive(entries),
+    imageCount: entries.filter((e) => e.path.startsWith("images/")).length,
+    annotationCount,
+    skippedClassCounts,
+  };
+}
+
+async function encodeCropAsPng(
+  image: DatasetPageImage,
+  sample: DatasetSample,
+): Promise<Uint8Array> {
+  const { left, top, width, height } = sample.crop;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (ctx === null) {
+    throw new Error("Failed to get canvas context for the dataset export.");
+  }
+  ctx.putImageData(
+    image.getImageData(new DOMRect(left, top, width, height)),
+    0,
+    0,
+  );
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_.-]+/g, "_");
+}
@@ -0,0 +1,63 @@
+import { DatasetClassMap, getDatasetClassNames } from "./DatasetClassMap";
+import { DatasetSample } from "./buildDatasetSamples";
+import { encodeCocoRleMask } from "./encodeCocoRleMask";
+
+/**
+ * Constructs a COCO instance segmentation JSON string from the samples.
+ * Segmentations are uncompressed RLE masks, each annotation remembers
+ * the MuNG node it was created from in the "mung_node_id" field.
+ * @param samples Samples with the file names of their images
+ */
+export function writeCocoDataset(
+  samples: readonly { sample: DatasetSample; fileName: string }[],
+  classMap: DatasetClassMap,
+): string {
+  const classNames = getDatasetClassNames(classMap);
+  const usedIds = new Set(Object.values(classMap));
+
+  const images: object[] = [];
+  const annotations: object[] = [];
+
+  samples.forEach(({ sample, fileName }, imageIndex) => {
+    const imageId = imageIndex + 1;
+    images.push({
+      id: imageId,
+      file_name: fileName,
+      width: sample.crop.width,
+      height: sample.crop.height,
+    });
+
+    for (const annotation of sample.annotations) {
+      const rle = encodeCocoRleMask(annotation.node, sample.crop);
+      let area = 0;
+      for (let i = 1; i < rle.counts.length; i += 2) area += rle.counts[i];
+
+      annotations.push({
+        id: annotations.length + 1,
+        image_id: imageId,
+        category_id: annotation.classId,
+        bbox: [
+          annotation.left,
+          annotation.top,
+          annotation.width,
+          annotation.height,
+        ],
+        area,
+        segmentation: rle,
+        iscrowd: 0,
+        mung_node_id: annotation.node.id,
+      });
+    }
+  });
+
+  const categories = classNames
+    .map((name, id) => ({ id, name }))
+    .filter((category) => usedIds.has(category.id));
+
+  return JSON.stringify({
+    info: { description: "Exported from MuNG Studio" },
+    images,
+    annotations,
+    categories,
+  });
+}
@@ -0,0 +1,37 @@
+import { DatasetClassMap, getDatasetClassNames } from "./DatasetClassMap";
+import { DatasetSample } from "./buildDatasetSamples";
+
+/**
+ * Constructs the YOLO label file of a sample, one line per annotation:
+ * class ID, bbox center and size, all relative to the image size
+ */
+export function writeYoloLabels(sample: DatasetSample): string {
+  const { width, height } = sample.crop;
+  return sample.annotations
+    .map((a) =>
+      [
+        a.classId,
+        ((a.left + a.width / 2) / width).toFixed(6),
+        ((a.top + a.height / 2) / height).toFixed(6),
+        (a.width / width).toFixed(6),
+        (a.height / height).toFixed(6),
+      ].join(" "),
+    )
+    .map((line) => line + "\n")
+    .join("");
+}
+
+/**
+ * Constructs the YOLO dataset description file (data.yaml)
+ */
+export function writeYoloDataYaml(classMap: DatasetClassMap): string {
+  const names = getDatasetClassNames(classMap);
+  return (
+    "path: .\n" +
+    "train: images\n" +
+    "val: images\n" +
+    `nc: ${names.length}\n` +
+    "names:\n" +
+    names.map((name, id) => `  ${id}: ${name}\n`).join("")
+  );
+}
@@ -0,0 +1,58 @@
+import { MUNG_MAX_MASK_SIZE } from "./mungConstants";
+
+/**
+ * Decodes the run-length-encoded mask string stored in the <Mask> element
+ * of a MuNG node into image data with red opaque pixels for the mask
+ * and black transparent pixels for the background.
+ * @param maskString The "C:N C:N ..." RLE string
+ * @param width Width of the node bounding box
+ * @param height Height of the node bounding box
+ */
+export function decodeRleMaskString(
+  maskString: string,
+  width: number,
+  height: number,
+): ImageData {
+  // validate dimensions
+  if (width > MUNG_MAX_MASK_SIZE || height > MUNG_MAX_MASK_SIZE) {
+    throw new Error("Mask too large.");
+  }
+  width = Math.floor(width);
+  height = Math.floor(height);
+
+  // allocate the pixel buffer
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  // process the RLE string
+  let pixelIndex = 0;
+  for (const token of maskString.split(" ")) {
+    const [value, count] = token.split(":").map((x) => parseInt(x));
+
+    // keep black transparent pixels
+    if (value === 0) {
+      pixelIndex += count;
+      continue;
+    }
+
+    // else set RED pixels (not white!)
+    // (red pixels can be hue rotated in CSS filters)
+    for (let i = 0; i < count; i++) {
+      data[pixelIndex * 4 + 0] = 255;
+      data[pixelIndex * 4 + 1] = 0;
+      data[pixelIndex * 4 + 2] = 0;
+      data[pixelIndex * 4 + 3] = 255;
+
+      pixelIndex += 1;
+    }
+  }
+
+  // checks
+  if (pixelIndex !== width * height) {
+    throw new Error("RLE string does not match mask pixel count");
+  }
+
+  // wrap pixels in a meta container
+  const imageData = new ImageData(data, width, height, { colorSpace: "srgb" });
+
+  return imageData;
+}
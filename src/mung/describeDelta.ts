@@ -0,0 +1,110 @@
+import {
+  Delta,
+  DeltaOperation,
+  isInsertLink,
+  isInsertNode,
+  isRemoveLink,
+  isRemoveNode,
+  isSetDataItem,
+  isSetTextTranscription,
+  isUpdateNodeBbox,
+  isUpdateNodeClass,
+  isUpdateNodeMask,
+  isUpdateNodePolygon,
+} from "./Delta";
+
+/**
+ * Builds a short human-readable description of a delta,
+ * e.g. "Edit mask of node 317" or "Remove 12 nodes"
+ */
+export function describeDelta(delta: Delta): string {
+  const ops = delta.operations;
+  if (ops.length === 0) return "No change";
+
+  const insertedNodes = ops.filter(isInsertNode);
+  const removedNodes = ops.filter(isRemoveNode);
+  const insertedLinks = ops.filter(isInsertLink);
+  const removedLinks = ops.filter(isRemoveLink);
+  const updates = ops.filter(
+    (op) =>
+      !isInsertNode(op) &&
+      !isRemoveNode(op) &&
+      !isInsertLink(op) &&
+      !isRemoveLink(op),
+  );
+
+  // links of inserted and removed nodes are part of the node change
+  if (insertedNodes.length > 0 && removedNodes.length === 0) {
+    if (insertedNodes.length === 1) {
+      const node = insertedNodes[0].insertNode;
+      return `Add node ${node.id} (${node.className})`;
+    }
+    return `Add ${insertedNodes.length} nodes`;
+  }
+  if (removedNodes.length > 0 && insertedNodes.length === 0) {
+    if (removedNodes.length === 1) {
+      return `Remove node ${removedNodes[0].removeNodeId}`;
+    }
+    return `Remove ${removedNodes.length} nodes`;
+  }
+  if (insertedNodes.length > 0) {
+    return `Add ${insertedNodes.length} and remove ${removedNodes.length} nodes`;
+  }
+
+  if (updates.length === 0) {
+    if (removedLinks.length === 0) {
+      return describeLinks(
+        "Add",
+        insertedLinks.map((op) => op.insertLink),
+      );
+    }
+    if (insertedLinks.length === 0) {
+      return describeLinks(
+        "Remove",
+        removedLinks.map((op) => op.removeLink),
+      );
+    }
+    return `Edit ${insertedLinks.length + removedLinks.length} links`;
+  }
+
+  const updatedNodeIds = new Set(
+    updates.map((op) => (op as { updateNodeId: number }).updateNodeId),
+  );
+  if (updatedNodeIds.size > 1 || ops.length > updates.length) {
+    return `Edit ${updatedNodeIds.size} nodes`;
+  }
+
+  const nodeId = [...updatedNodeIds][0];
+  return `${describeUpdates(updates)} of node ${nodeId}`;
+}
+
+function describeLinks(
+  verb: string,
+  links: { fromId: number; toId: number; type: string }[],
+): string {
+  if (links.length === 1) {
+    const { fromId, toId, type } = links[0];
+    return `${verb} ${type} link ${fromId} → ${toId}`;
+  }
+  return `${verb} ${links.length} links`;
+}
+
+/**
+ * Describes updates of a single node, e.g. "Edit mask"
+ */
+function describeUpdates(updates: DeltaOperation[]): string {
+  // a mask edit usually changes the bounding box as well
+  if (updates.some(isUpdateNodeMask)) return "Edit mask";
+
+  const kinds = new Set(
+    updates.map((op) => {
+      if (isUpdateNodeClass(op)) return "Change class";
+      if (isUpdateNodeBbox(op)) return "Edit bounding box";
+      if (isUpdateNodePolygon(op)) return "Edit polygon";
+      if (isSetTextTranscription(op)) return "Edit text";
+      if (isSetDataItem(op)) return "Edit data";
+      return "Edit";
+    }),
+  );
+  return kinds.size === 1 ? [...kinds][0] : "Edit";
+}
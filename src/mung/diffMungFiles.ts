@@ -0,0 +1,137 @@
+import { getLinkId } from "./getLinkId";
+import { LinkType } from "./LinkType";
+import { LinkWithNodes } from "./LinkWithNodes";
+import { MungFile } from "./MungFile";
+import { Node } from "./Node";
+import { areDataItemsChanged } from "./NodeAttribution";
+
+/**
+ * A node present in both compared files with a different value
+ */
+export interface NodeChange {
+  readonly before: Node;
+  readonly after: Node;
+}
+
+/**
+ * Differences between two versions of a MuNG document,
+ * nodes are matched by their IDs
+ */
+export interface MungDiff {
+  /**
+   * Nodes only in the newer version
+   */
+  readonly addedNodes: readonly Node[];
+
+  /**
+   * Nodes only in the older version
+   */
+  readonly removedNodes: readonly Node[];
+
+  /**
+   * Nodes in both versions, but with different values
+   * (links and attribution excluded)
+   */
+  readonly changedNodes: readonly NodeChange[];
+
+  /**
+   * Links only in the newer version, with its nodes
+   */
+  readonly addedLinks: readonly LinkWithNodes[];
+
+  /**
+   * Links only in the older version, with its nodes
+   */
+  readonly removedLinks: readonly LinkWithNodes[];
+}
+
+/**
+ * Compares two versions of a MuNG document
+ * @param before The older version
+ * @param after The newer version
+ */
+export function diffMungFiles(before: MungFile, after: MungFile): MungDiff {
+  const beforeNodes = new Map(before.nodes.map((n) => [n.id, n]));
+  const afterNodes = new Map(after.nodes.map((n) => [n.id, n]));
+
+  const addedNodes = after.nodes.filter((n) => !beforeNodes.has(n.id));
+  const removedNodes = before.nodes.filter((n) => !afterNodes.has(n.id));
+  const changedNodes: NodeChange[] = [];
+  for (const node of after.nodes) {
+    const oldNode = beforeNodes.get(node.id);
+    if (oldNode !== undefined && isNodeChanged(oldNode, node)) {
+      changedNodes.push({ before: oldNode, after: node });
+    }
+  }
+
+  const beforeLinks = collectLinks(beforeNodes);
+  const afterLinks = collectLinks(afterNodes);
+
+  return {
+    addedNodes,
+    removedNodes,
+    changedNodes,
+    addedLinks: [...afterLinks.entries()]
+      .filter(([id]) => !beforeLinks.has(id))
+      .map(([_, link]) => link),
+    removedLinks: [...beforeLinks.entries()]
+      .filter(([id]) => !afterLinks.has(id))
+      .map(([_, link]) => link),
+  };
+}
+
+function isNodeChanged(a: Node, b: Node): boolean {
+  return (
+    a.className !== b.className ||
+    a.top !== b.top ||
+    a.left !== b.left ||
+    a.width !== b.width ||
+    a.height !== b.height ||
+    a.textTranscription !== b.textTranscription ||
+    !areMasksEqual(a.decodedMask, b.decodedMask) ||
+    JSON.stringify(a.polygon) !== JSON.stringify(b.polygon) ||
+    JSON.stringify(a.extraXml ?? []) !== JSON.stringify(b.extraXml ?? []) ||
+    areDataItemsChanged(a.data, b.data)
+  );
+}
+
+/**
+ * Compares two node masks pixel by pixel
+ */
+export function areMasksEqual(
+  a: ImageData | null,
+  b: ImageData | null,
+): boolean {
+  if (a === b) return true;
+  if (a === null || b === null) return false;
+  if (a.width !== b.width || a.height !== b.height) return false;
+  for (let i = 0; i < a.data.length; i++) {
+    if (a.data[i] !== b.data[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Lists all links of the graph by their IDs, links whose other node
+ * is missing are skipped
+ */
+function collectLinks(
+  nodes: ReadonlyMap<number, Node>,
+): Map<string, LinkWithNodes> {
+  const links = new Map<string, LinkWithNodes>();
+  for (const fromNode of nodes.values()) {
+    const outlinks: [LinkType, readonly number[]][] = [
+      [LinkType.Syntax, fromNode.syntaxOutlinks],
+      [LinkType.Precedence, fromNode.precedenceOutlinks],
+    ];
+    for (const [type, toIds] of outlinks) {
+      for (const toId of toIds) {
+        const toNode = nodes.get(toId);
+        if (toNode === undefined) continue;
+        const link = { fromId: fromNode.id, toId, type, fromNode, toNode };
+        links.set(getLinkId(link), link);
+      }
+    }
+  }
+  return links;
+}
@@ -0,0 +1,252 @@
+import { MungFile } from "../MungFile";
+import { Node } from "../Node";
+import { Score, ScoreIssue } from "../score/Score";
+
+/**
+ * A Schenkerian or harmonic analysis symbol, attached to notes of the score
+ */
+export interface AnalyticalMarking {
+  readonly kind: "harm" | "slur" | "beamSpan" | "voiceExchange";
+
+  /**
+   * The MuNG node of the analytical symbol
+   */
+  readonly nodeId: number;
+  readonly className: string;
+
+  /**
+   * Noteheads the marking refers to, ordered from left to right
+   */
+  readonly noteNodeIds: number[];
+
+  /**
+   * Text of the marking (roman numeral, scale degree, ...)
+   */
+  readonly label: string | null;
+
+  /**
+   * Additional qualifiers, e.g. "partialLeft", "dashed", "above"
+   */
+  readonly qualifiers: string[];
+}
+
+const ROMAN_NUMERALS: Record<string, string> = {
+  I: "I",
+  II: "II",
+  III: "III",
+  IV: "IV",
+  V: "V",
+  VI: "VI",
+  VII: "VII",
+};
+
+/**
+ * Finds analytical symbols in the notation graph and resolves the notes
+ * they refer to. Slurs, beams and voice exchanges must be linked to
+ * noteheads, harmonic labels are attached to the nearest note horizontally
+ * when not linked. Symbols that cannot be attached are reported.
+ */
+export function collectAnalyticalMarkings(
+  mung: MungFile,
+  score: Score,
+): { markings: AnalyticalMarking[]; issues: ScoreIssue[] } {
+  const nodesById = new Map<number, Node>(mung.nodes.map((n) => [n.id, n]));
+  const exportedNoteIds = new Set<number>();
+  for (const part of score.parts) {
+    for (const measure of part.measures) {
+      for (const event of measure.events) {
+        for (const note of event.notes) exportedNoteIds.add(note.nodeId);
+      }
+    }
+  }
+
+  // noteheads linked to the node, in any direction
+  function linkedNotes(node: Node): Node[] {
+    return [...node.syntaxOutlinks, ...node.syntaxInlinks]
+      .filter((id) => exportedNoteIds.has(id))
+      .map((id) => nodesById.get(id)!)
+      .sort((a, b) => a.left - b.left);
+  }
+
+  const markings: AnalyticalMarking[] = [];
+  const issues: ScoreIssue[] = [];
+
+  function reportUnattached(node: Node) {
+    issues.push({
+      nodeId: node.id,
+      className: node.className,
+      message: "Not linked to any exported notehead, left out.",
+    });
+  }
+
+  for (const node of mung.nodes) {
+    const className = node.className;
+
+    if (className.startsWith("slurStructural")) {
+      const notes = linkedNotes(node);
+      if (notes.length < 2) {
+        reportUnattached(node);
+        continue;
+      }
+      markings.push({
+        kind: "slur",
+        nodeId: node.id,
+        className,
+        noteNodeIds: notes.map((n) => n.id),
+        label: null,
+        qualifiers: [
+          className.includes("Up") ? "above" : "below",
+          ...(className.endsWith("Dashed") ? ["dashed"] : []),
+        ],
+      });
+      continue;
+    }
+
+    if (className.startsWith("beamStructural")) {
+      const notes = linkedNotes(node);
+      if (notes.length < 1) {
+        reportUnattached(node);
+        continue;
+      }
+      const variant = lowerFirst(className.substring("beamStructural".length));
+      markings.push({
+        kind: "beamSpan",
+        nodeId: node.id,
+        className,
+        noteNodeIds: notes.map((n) => n.id),
+        label: null,
+        qualifiers: variant === "" ? [] : [variant],
+      });
+      continue;
+    }
+
+    if (className.startsWith("voiceExchange")) {
+      const notes = linkedNotes(node);
+      if (notes.length < 2) {
+        reportUnattached(node);
+        continue;
+      }
+      markings.push({
+        kind: "voiceExchange",
+        nodeId: node.id,
+        className,
+        noteNodeIds: notes.map((n) => n.id),
+        label: null,
+        qualifiers: [className.endsWith("Up") ? "up" : "down"],
+      });
+      continue;
+    }
+
+    const label = harmonicLabel(node, nodesById);
+    if (label !== null) {
+      const linked = linkedNotes(node);
+      const notes =
+        linked.length > 0 ? linked : nearestNote(node, score, nodesById);
+      if (notes.length === 0) {
+        reportUnattached(node);
+        continue;
+      }
+      markings.push({
+        kind: "harm",
+        nodeId: node.id,
+        className,
+        noteNodeIds: [notes[0].id],
+        label: label.text,
+        qualifiers: [label.type],
+      });
+    }
+  }
+
+  return { markings, issues };
+}
+
+/**
+ * Text of a roman numeral, a scale degree or a key label
+ * (null when the node is not a harmonic label)
+ */
+function harmonicLabel(
+  node: Node,
+  nodesById: Map<number, Node>,
+): { text: string; type: string } | null {
+  const className = node.className;
+
+  const numeralMatch = /^(analytical|numeralRoman)(I|II|III|IV|V|VI|VII)$/.exec(
+    className,
+  );
+  if (numeralMatch !== null) {
+    return {
+      text: node.textTranscription ?? ROMAN_NUMERALS[numeralMatch[2]],
+      type: "romanNumeral",
+    };
+  }
+
+  if (className === "scaleDegreeMark") {
+    // the caret is linked to the digit it stands above
+    const digits = [...node.syntaxOutlinks, ...node.syntaxInlinks]
+      .map((id) => nodesById.get(id))
+      .filter((n) => n !== undefined && /^numeral[0-9]$/.test(n.className))
+      .map((n) => n!.className.substring("numeral".length));
+    return {
+      text: "^" + (node.textTranscription ?? digits.join("")),
+      type: "scaleDegree",
+    };
+  }
+
+  if (className === "keyAnalysis") {
+    return { text: node.textTranscription ?? "", type: "key" };
+  }
+
+  return null;
+}
+
+/**
+ * The note horizontally closest to the node, on the staff that is
+ * vertically closest to it
+ */
+function nearestNote(
+  node: Node,
+  score: Score,
+  nodesById: Map<number, Node>,
+): Node[] {
+  const centerX = node.left + node.width / 2;
+  const centerY = node.top + node.height / 2;
+
+  let bestStaff: Node | null = null;
+  let bestStaffDistance = Infinity;
+  for (const part of score.parts) {
+    for (const staffId of part.staffNodeIds) {
+      const staff = nodesById.get(staffId)!;
+      if (centerX < staff.left || centerX > staff.left + staff.width) continue;
+      const distance = Math.max(
+        0,
+        staff.top - centerY,
+        centerY - (staff.top + staff.height),
+      );
+      if (distance < bestStaffDistance) {
+        bestStaff = staff;
+        bestStaffDistance = distance;
+      }
+    }
+  }
+  if (bestStaff === null) return [];
+
+  let best: Node | null = null;
+  let bestDistance = Infinity;
+  for (const part of score.parts) {
+    for (const measure of part.measures) {
+      for (const event of measure.events) {
+        if (event.staffNodeId !== bestStaff.id || event.isRest) continue;
+        const distance = Math.abs(event.x - centerX);
+        if (distance < bestDistance) {
+          best = nodesById.get(event.notes[0].nodeId)!;
+          bestDistance = distance;
+        }
+      }
+    }
+  }
+  return best === null ? [] : [best];
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.substring(1);
+}
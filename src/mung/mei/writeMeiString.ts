@@ -0,0 +1,387 @@
+import { MungFile } from "../MungFile";
+import { Node } from "../Node";
+import {
+  Score,
+  ScoreClef,
+  ScoreEvent,
+  ScoreKey,
+  ScoreMeasure,
+  ScoreNote,
+  ScoreNoteType,
+  ScoreTime,
+} from "../score/Score";
+import { AnalyticalMarking } from "./collectAnalyticalMarkings";
+import { indentXmlElement } from "../../utils/indentXmlElement";
+
+const NEWLINE = "\n";
+const PROCESSING_INSTRUCTION = `<?xml version="1.0" encoding="UTF-8"?>`;
+const MEI_NAMESPACE = "http://www.music-encoding.org/ns/mei";
+const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+
+/**
+ * Prefix of xml:id attributes, the rest of the ID is the MuNG node ID,
+ * so that notes and analytical markings can be traced back
+ */
+export const MEI_ID_PREFIX = "mung-";
+
+const DURATIONS: Record<ScoreNoteType, string> = {
+  long: "long",
+  breve: "breve",
+  whole: "1",
+  half: "2",
+  quarter: "4",
+  eighth: "8",
+  "16th": "16",
+  "32nd": "32",
+  "64th": "64",
+  "128th": "128",
+  "256th": "256",
+  "512th": "512",
+  "1024th": "1024",
+};
+
+const ACCIDENTALS: Record<number, string> = {
+  [-3]: "tf",
+  [-2]: "ff",
+  [-1]: "f",
+  [0]: "n",
+  [1]: "s",
+  [2]: "x",
+  [3]: "ts",
+};
+
+/**
+ * Constructs an MEI 5 string from the reconstructed score
+ * (see reconstructScore) and the analytical markings found
+ * in the notation graph (see collectAnalyticalMarkings).
+ * Schenkerian symbols attached to notes (structural stems and flags,
+ * implied noteheads) are recorded in the type attribute of notes.
+ */
+export function writeMeiString(
+  score: Score,
+  markings: readonly AnalyticalMarking[],
+  mung: MungFile,
+): string {
+  const doc: XMLDocument = document.implementation.createDocument(
+    MEI_NAMESPACE,
+    "mei",
+  );
+  const root = doc.documentElement;
+  root.setAttribute("meiversion", "5.0");
+  const nodesById = new Map<number, Node>(mung.nodes.map((n) => [n.id, n]));
+
+  // header
+  const meiHead = appendElement(root, "meiHead");
+  const fileDesc = appendElement(meiHead, "fileDesc");
+  const titleStmt = appendElement(fileDesc, "titleStmt");
+  appendElement(titleStmt, "title", score.title);
+  appendElement(fileDesc, "pubStmt");
+  const encodingDesc = appendElement(meiHead, "encodingDesc");
+  const appInfo = appendElement(encodingDesc, "appInfo");
+  const application = appendElement(appInfo, "application");
+  appendElement(application, "name", "MuNG Studio");
+
+  // the score
+  const music = appendElement(root, "music");
+  const body = appendElement(music, "body");
+  const mdiv = appendElement(body, "mdiv");
+  const scoreElement = appendElement(mdiv, "score");
+
+  appendScoreDef(
+    scoreElement,
+    score.parts.map((part) => part.measures[0] ?? null),
+    true,
+  );
+
+  // analytical markings go into the measure of their first note
+  const measureOfNote = new Map<number, number>();
+  score.parts.forEach((part) =>
+    part.measures.forEach((measure, index) => {
+      for (const event of measure.events) {
+        for (const note of event.notes) measureOfNote.set(note.nodeId, index);
+      }
+    }),
+  );
+  const staffOfNote = new Map<number, number>();
+  score.parts.forEach((part, p) =>
+    part.measures.forEach((measure) => {
+      for (const event of measure.events) {
+        for (const note of event.notes) staffOfNote.set(note.nodeId, p + 1);
+      }
+    }),
+  );
+
+  const section = appendElement(scoreElement, "section");
+  const measureCount = Math.max(
+    0,
+    ...score.parts.map((p) => p.measures.length),
+  );
+  for (let i = 0; i < measureCount; i++) {
+    const measures = score.parts.map((part) => part.measures[i] ?? null);
+
+    if (i > 0 && measures.some((m) => m?.isNewSystem)) {
+      appendElement(section, "sb");
+    }
+    if (
+      i > 0 &&
+      measures.some(
+        (m) => m !== null && (m.clef !== null || m.key !== null || m.time),
+      )
+    ) {
+      appendScoreDef(section, measures, false);
+    }
+
+    const measureElement = appendElement(section, "measure");
+    measureElement.setAttribute("n", String(i + 1));
+
+    measures.forEach((measure, p) => {
+      appendStaff(measureElement, measure, p + 1, nodesById);
+    });
+
+    for (const marking of markings) {
+      if (measureOfNote.get(marking.noteNodeIds[0]) !== i) continue;
+      appendMarking(
+        measureElement,
+        marking,
+        staffOfNote.get(marking.noteNodeIds[0])!,
+      );
+    }
+  }
+
+  indentXmlElement(root);
+
+  const serializer = new XMLSerializer();
+  return PROCESSING_INSTRUCTION + NEWLINE + serializer.serializeToString(doc);
+}
+
+/**
+ * Writes staff definitions, either complete (at the start of the score)
+ * or only with the attributes that change at the given measures
+ */
+function appendScoreDef(
+  parent: Element,
+  measures: (ScoreMeasure | null)[],
+  isInitial: boolean,
+): void {
+  const scoreDef = appendElement(parent, "scoreDef");
+
+  const time = measures.find((m) => m?.time)?.time ?? null;
+  if (time !== null) appendMeter(scoreDef, time);
+
+  const staffGrp = appendElement(scoreDef, "staffGrp");
+  measures.forEach((measure, p) => {
+    if (!isInitial && (measure === null || (!measure.clef && !measure.key)))
+      return;
+    const staffDef = appendElement(staffGrp, "staffDef");
+    staffDef.setAttribute("n", String(p + 1));
+    if (isInitial) staffDef.setAttribute("lines", "5");
+    if (measure?.clef) appendClef(staffDef, measure.clef);
+    if (measure?.key || isInitial) appendKey(staffDef, measure?.key ?? null);
+  });
+}
+
+function appendMeter(scoreDef: Element, time: ScoreTime): void {
+  scoreDef.setAttribute("meter.count", time.beats);
+  scoreDef.setAttribute("meter.unit", time.beatType);
+  if (time.symbol !== null) scoreDef.setAttribute("meter.sym", time.symbol);
+}
+
+function appendClef(staffDef: Element, clef: ScoreClef): void {
+  staffDef.setAttribute("clef.shape", clef.sign);
+  staffDef.setAttribute("clef.line", String(clef.line));
+  if (clef.octaveChange !== 0) {
+    staffDef.setAttribute("clef.dis", clef.octaveChange === 1 ? "8" : "15");
+    staffDef.setAttribute(
+      "clef.dis.place",
+      clef.octaveChange > 0 ? "above" : "below",
+    );
+  }
+}
+
+function appendKey(staffDef: Element, key: ScoreKey | null): void {
+  const fifths = key?.fifths ?? 0;
+  staffDef.setAttribute(
+    "keysig",
+    fifths === 0 ? "0" : `${Math.abs(fifths)}${fifths > 0 ? "s" : "f"}`,
+  );
+}
+
+function appendStaff(
+  measureElement: Element,
+  measure: ScoreMeasure | null,
+  staffNumber: number,
+  nodesById: Map<number, Node>,
+): void {
+  const staff = appendElement(measureElement, "staff");
+  staff.setAttribute("n", String(staffNumber));
+
+  // nothing recognized in this measure, fill it with a measure rest
+  if (measure === null || measure.events.length === 0) {
+    const layer = appendElement(staff, "layer");
+    layer.setAttribute("n", "1");
+    appendElement(layer, "mRest");
+    return;
+  }
+
+  let layer: Element | null = null;
+  let voice: number | null = null;
+  for (const event of measure.events) {
+    if (event.voice !== voice || layer === null) {
+      voice = event.voice;
+      layer = appendElement(staff, "layer");
+      layer.setAttribute("n", String(voice));
+    }
+    appendEvent(layer, event, nodesById);
+  }
+}
+
+function appendEvent(
+  layer: Element,
+  event: ScoreEvent,
+  nodesById: Map<number, Node>,
+): void {
+  if (event.isRest) {
+    const rest = appendElement(layer, "rest");
+    setXmlId(rest, event.nodeIds[0]);
+    appendDuration(rest, event);
+    return;
+  }
+
+  const stemTypes = event.stemNodeIds
+    .map((id) => nodesById.get(id)!.className)
+    .filter((className) => className.startsWith("stemStructural"))
+    .map(
+      (className) =>
+        "structuralStem" + className.substring("stemStructural".length),
+    );
+
+  // a single note carries the duration itself, a chord for all of its notes
+  let container = layer;
+  if (event.notes.length > 1) {
+    container = appendElement(layer, "chord");
+    appendDuration(container, event);
+    if (stemTypes.length > 0) container.setAttribute("type", stemTypes[0]);
+  }
+
+  for (const scoreNote of event.notes) {
+    const note = appendElement(container, "note");
+    setXmlId(note, scoreNote.nodeId);
+    appendPitch(note, scoreNote);
+    if (event.notes.length === 1) appendDuration(note, event);
+
+    const types = noteTypes(nodesById.get(scoreNote.nodeId)!, nodesById);
+    if (event.notes.length === 1) types.unshift(...stemTypes);
+    if (types.length > 0) note.setAttribute("type", types.join(" "));
+  }
+}
+
+/**
+ * Schenkerian qualifiers of the notehead itself
+ */
+function noteTypes(notehead: Node, nodesById: Map<number, Node>): string[] {
+  const types: string[] = [];
+  if (notehead.className.endsWith("Implied")) types.push("implied");
+  for (const id of notehead.syntaxOutlinks) {
+    if (nodesById.get(id)?.className.startsWith("flagStructural")) {
+      types.push("structuralFlag");
+      break;
+    }
+  }
+  return types;
+}
+
+function appendPitch(note: Element, scoreNote: ScoreNote): void {
+  note.setAttribute("pname", scoreNote.pitch.step.toLowerCase());
+  note.setAttribute("oct", String(scoreNote.pitch.octave));
+  if (scoreNote.accidental !== null) {
+    note.setAttribute("accid", ACCIDENTALS[scoreNote.accidental]);
+  } else if (scoreNote.pitch.alter !== 0) {
+    note.setAttribute("accid.ges", ACCIDENTALS[scoreNote.pitch.alter]);
+  }
+  if (scoreNote.tieStart && scoreNote.tieStop) note.setAttribute("tie", "m");
+  else if (scoreNote.tieStart) note.setAttribute("tie", "i");
+  else if (scoreNote.tieStop) note.setAttribute("tie", "t");
+}
+
+function appendDuration(element: Element, event: ScoreEvent): void {
+  element.setAttribute("dur", DURATIONS[event.duration.type]);
+  if (event.duration.dots > 0) {
+    element.setAttribute("dots", String(event.duration.dots));
+  }
+  if (event.isGrace) element.setAttribute("grace", "unacc");
+}
+
+function appendMarking(
+  measureElement: Element,
+  marking: AnalyticalMarking,
+  staffNumber: number,
+): void {
+  const first = "#" + MEI_ID_PREFIX + marking.noteNodeIds[0];
+  const last =
+    "#" + MEI_ID_PREFIX + marking.noteNodeIds[marking.noteNodeIds.length - 1];
+  const plist = marking.noteNodeIds.map((id) => "#" + MEI_ID_PREFIX + id);
+
+  if (marking.kind === "harm") {
+    const harm = appendElement(measureElement, "harm", marking.label);
+    setXmlId(harm, marking.nodeId);
+    harm.setAttribute("type", marking.qualifiers.join(" "));
+    harm.setAttribute("staff", String(staffNumber));
+    harm.setAttribute("startid", first);
+    return;
+  }
+
+  if (marking.kind === "slur") {
+    const slur = appendElement(measureElement, "slur");
+    setXmlId(slur, marking.nodeId);
+    slur.setAttribute("type", "structural");
+    slur.setAttribute("staff", String(staffNumber));
+    slur.setAttribute("startid", first);
+    slur.setAttribute("endid", last);
+    slur.setAttribute("curvedir", marking.qualifiers[0]);
+    if (marking.qualifiers.includes("dashed")) {
+      slur.setAttribute("lform", "dashed");
+    }
+    return;
+  }
+
+  if (marking.kind === "beamSpan") {
+    const beamSpan = appendElement(measureElement, "beamSpan");
+    setXmlId(beamSpan, marking.nodeId);
+    beamSpan.setAttribute(
+      "type",
+      ["structural", ...marking.qualifiers].join(" "),
+    );
+    beamSpan.setAttribute("staff", String(staffNumber));
+    beamSpan.setAttribute("startid", first);
+    beamSpan.setAttribute("endid", last);
+    beamSpan.setAttribute("plist", plist.join(" "));
+    return;
+  }
+
+  // voice exchange has no dedicated element in MEI
+  const annot = appendElement(measureElement, "annot", "Voice exchange");
+  setXmlId(annot, marking.nodeId);
+  annot.setAttribute(
+    "type",
+    ["voiceExchange", ...marking.qualifiers].join(" "),
+  );
+  annot.setAttribute("staff", String(staffNumber));
+  annot.setAttribute("startid", first);
+  annot.setAttribute("endid", last);
+  annot.setAttribute("plist", plist.join(" "));
+}
+
+function setXmlId(element: Element, nodeId: number): void {
+  element.setAttributeNS(XML_NAMESPACE, "xml:id", MEI_ID_PREFIX + nodeId);
+}
+
+function appendElement(
+  parent: Element,
+  name: string,
+  text: string | null = null,
+): Element {
+  const element = parent.ownerDocument.createElementNS(MEI_NAMESPACE, name);
+  if (text !== null) element.textContent = text;
+  parent.appendChild(element);
+  return element;
+}
@@ -0,0 +1,114 @@
+import {
+  MungReadingRequest,
+  MungReadingResponse,
+} from "./MungReadingWorkerMessages";
+import {
+  buildNodeFromMungXmlFields,
+  decodeMungXmlNodeMask,
+  MungXmlNodeFields,
+} from "./MungXmlNodeFields";
+import { MungParseIssue } from "./MungParseReport";
+import { Node } from "./Node";
+import { repairMungNodes } from "./repairMungNodes";
+import { StreamingMungXmlReader } from "./StreamingMungXmlReader";
+
+/**
+ * How many characters of a string source are fed into the parser at once
+ */
+const STRING_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * How many node masks are decoded between two progress reports
+ */
+const MASK_CHUNK_SIZE = 1000;
+
+onmessage = async (e: MessageEvent<MungReadingRequest>) => {
+  try {
+    await readMung(e.data.source);
+  } catch (error) {
+    respond({ type: "error", message: String(error) });
+  }
+};
+
+function respond(message: MungReadingResponse, transfer: Transferable[] = []) {
+  postMessage(message, { transfer });
+}
+
+async function readMung(source: string | Blob) {
+  const reader = new StreamingMungXmlReader();
+
+  // phase 1: stream the XML through the SAX parser
+  if (typeof source === "string") {
+    const total = source.length;
+    for (let i = 0; i < total; i += STRING_CHUNK_SIZE) {
+      reader.write(source.substring(i, i + STRING_CHUNK_SIZE));
+      respond({
+        type: "progress",
+        phase: "parsing",
+        loaded: Math.min(i + STRING_CHUNK_SIZE, total),
+        total,
+      });
+    }
+  } else {
+    // bytes are counted before decoding, the total is in bytes too
+    const total = source.size;
+    let loaded = 0;
+    const decoder = new TextDecoder();
+    const byteReader = source.stream().getReader();
+    while (true) {
+      const { done, value } = await byteReader.read();
+      if (done) break;
+      reader.write(decoder.decode(value, { stream: true }));
+      loaded = Math.min(loaded + value.byteLength, total);
+      respond({ type: "progress", phase: "parsing", loaded, total });
+    }
+    reader.write(decoder.decode());
+  }
+  const closedReader = reader.close();
+  const metadata = closedReader.metadata;
+  const nodeFields: (MungXmlNodeFields | null)[] = closedReader.nodeFields;
+
+  // every problem is reported immediately and also collected for the report
+  const issues: MungParseIssue[] = [];
+  const onIssue = (issue: MungParseIssue) => {
+    issues.push(issue);
+    respond({ type: "issue", issue });
+  };
+
+  // phase 2: decode masks in chunks and build the nodes
+  const nodes: Node[] = [];
+  const transfer: Transferable[] = [];
+  for (let i = 0; i < nodeFields.length; i++) {
+    const fields = nodeFields[i]!;
+    const decodedMask = decodeMungXmlNodeMask(fields, onIssue);
+    if (decodedMask !== null) {
+      transfer.push(decodedMask.data.buffer);
+    }
+    nodes.push(buildNodeFromMungXmlFields(fields, decodedMask, onIssue));
+
+    // let the raw mask string be garbage collected
+    nodeFields[i] = null;
+
+    if ((i + 1) % MASK_CHUNK_SIZE === 0 || i + 1 === nodeFields.length) {
+      respond({
+        type: "progress",
+        phase: "decoding-masks",
+        loaded: i + 1,
+        total: nodeFields.length,
+      });
+    }
+  }
+
+  // phase 3: make the graph consistent
+  const repairedNodes = repairMungNodes(nodes, onIssue);
+
+  // the mask pixel buffers are transferred, not copied
+  respond(
+    {
+      type: "done",
+      mung: { metadata, nodes: repairedNodes },
+      report: { issues },
+    },
+    transfer,
+  );
+}
@@ -0,0 +1,290 @@
+import {
+  Score,
+  ScoreClef,
+  ScoreEvent,
+  ScoreKey,
+  ScoreMeasure,
+  ScoreNote,
+  ScoreTime,
+} from "../score/Score";
+import { indentXmlElement } from "../../utils/indentXmlElement";
+
+const NEWLINE = "\n";
+const PROCESSING_INSTRUCTION = `<?xml version="1.0" encoding="UTF-8"?>`;
+
+/**
+ * Prefix of note IDs, the rest of the ID is the MuNG node ID
+ * of the notehead (or rest), so that notes can be traced back
+ */
+export const MUSICXML_NOTE_ID_PREFIX = "mung-";
+
+const ACCIDENTAL_NAMES: Record<number, string> = {
+  [-3]: "triple-flat",
+  [-2]: "flat-flat",
+  [-1]: "flat",
+  [0]: "natural",
+  [1]: "sharp",
+  [2]: "double-sharp",
+  [3]: "triple-sharp",
+};
+
+/**
+ * Constructs a partwise MusicXML 4.0 string from the reconstructed score
+ * (see reconstructScore)
+ */
+export function writeMusicXmlString(score: Score): string {
+  const doctype = document.implementation.createDocumentType(
+    "score-partwise",
+    "-//Recordare//DTD MusicXML 4.0 Partwise//EN",
+    "http://www.musicxml.org/dtds/partwise.dtd",
+  );
+  const doc: XMLDocument = document.implementation.createDocument(
+    null,
+    "score-partwise",
+    doctype,
+  );
+  const root = doc.documentElement;
+  root.setAttribute("version", "4.0");
+
+  const work = appendElement(root, "work");
+  appendElement(work, "work-title", score.title);
+
+  const identification = appendElement(root, "identification");
+  const encoding = appendElement(identification, "encoding");
+  appendElement(encoding, "software", "MuNG Studio");
+
+  const partList = appendElement(root, "part-list");
+  for (const part of score.parts) {
+    const scorePart = appendElement(partList, "score-part");
+    scorePart.setAttribute("id", part.id);
+    appendElement(scorePart, "part-name", part.name);
+  }
+
+  const divisions = computeDivisions(score);
+  for (const part of score.parts) {
+    const partElement = appendElement(root, "part");
+    partElement.setAttribute("id", part.id);
+
+    let currentTime: ScoreTime | null = null;
+    for (const measure of part.measures) {
+      currentTime = measure.time ?? currentTime;
+      appendMeasure(partElement, measure, divisions, currentTime);
+    }
+  }
+
+  indentXmlElement(root);
+
+  // the serializer puts the doctype on the same line as the root element
+  const serializer = new XMLSerializer();
+  return (
+    PROCESSING_INSTRUCTION +
+    NEWLINE +
+    serializer.serializeToString(doctype) +
+    NEWLINE +
+    serializer.serializeToString(root) +
+    NEWLINE
+  );
+}
+
+function appendMeasure(
+  partElement: Element,
+  measure: ScoreMeasure,
+  divisions: number,
+  currentTime: ScoreTime | null,
+): void {
+  const measureElement = appendElement(partElement, "measure");
+  measureElement.setAttribute("number", String(measure.number));
+
+  if (measure.isNewSystem && measure.number > 1) {
+    appendElement(measureElement, "print").setAttribute("new-system", "yes");
+  }
+
+  if (
+    measure.number === 1 ||
+    measure.clef !== null ||
+    measure.key !== null ||
+    measure.time !== null
+  ) {
+    const attributes = appendElement(measureElement, "attributes");
+    if (measure.number === 1) {
+      appendElement(attributes, "divisions", String(divisions));
+    }
+    if (measure.key !== null || measure.number === 1) {
+      appendKey(attributes, measure.key);
+    }
+    if (measure.time !== null) {
+      appendTime(attributes, measure.time);
+    }
+    if (measure.clef !== null) {
+      appendClef(attributes, measure.clef);
+    }
+  }
+
+  // nothing recognized in this measure, fill it with a measure rest
+  if (measure.events.length === 0) {
+    const quarters =
+      currentTime === null
+        ? 4
+        : (parseInt(currentTime.beats) * 4) / parseInt(currentTime.beatType);
+    const note = appendElement(measureElement, "note");
+    appendElement(note, "rest").setAttribute("measure", "yes");
+    appendElement(
+      note,
+      "duration",
+      String(Math.round((isNaN(quarters) ? 4 : quarters) * divisions)),
+    );
+    appendElement(note, "voice", "1");
+    return;
+  }
+
+  // voices are written one after another, rewinding in between
+  let voice = measure.events[0].voice;
+  let voiceDuration = 0;
+  for (const event of measure.events) {
+    if (event.voice !== voice) {
+      if (voiceDuration > 0) {
+        const backup = appendElement(measureElement, "backup");
+        appendElement(backup, "duration", String(voiceDuration));
+      }
+      voice = event.voice;
+      voiceDuration = 0;
+    }
+    appendEvent(measureElement, event, divisions);
+    voiceDuration += Math.round(event.duration.quarters * divisions);
+  }
+}
+
+function appendKey(attributes: Element, key: ScoreKey | null): void {
+  const keyElement = appendElement(attributes, "key");
+  appendElement(keyElement, "fifths", String(key?.fifths ?? 0));
+}
+
+function appendTime(attributes: Element, time: ScoreTime): void {
+  const timeElement = appendElement(attributes, "time");
+  if (time.symbol !== null) {
+    timeElement.setAttribute("symbol", time.symbol);
+  }
+  appendElement(timeElement, "beats", time.beats);
+  appendElement(timeElement, "beat-type", time.beatType);
+}
+
+function appendClef(attributes: Element, clef: ScoreClef): void {
+  const clefElement = appendElement(attributes, "clef");
+  appendElement(clefElement, "sign", clef.sign);
+  appendElement(clefElement, "line", String(clef.line));
+  if (clef.octaveChange !== 0) {
+    appendElement(clefElement, "clef-octave-change", String(clef.octaveChange));
+  }
+}
+
+function appendEvent(
+  measureElement: Element,
+  event: ScoreEvent,
+  divisions: number,
+): void {
+  if (event.isRest) {
+    const note = appendNoteStart(measureElement, event, event.nodeIds[0]);
+    appendElement(note, "rest");
+    appendNoteDurationAndType(note, event, divisions);
+    return;
+  }
+
+  event.notes.forEach((scoreNote, index) => {
+    const note = appendNoteStart(measureElement, event, scoreNote.nodeId);
+    if (index > 0) appendElement(note, "chord");
+    appendPitch(note, scoreNote);
+    appendNoteDurationAndType(note, event, divisions, scoreNote);
+  });
+}
+
+/**
+ * Creates the note element and the elements that must precede the pitch
+ */
+function appendNoteStart(
+  measureElement: Element,
+  event: ScoreEvent,
+  nodeId: number,
+): Element {
+  const note = appendElement(measureElement, "note");
+  note.setAttribute("id", MUSICXML_NOTE_ID_PREFIX + nodeId);
+  if (event.isGrace) appendElement(note, "grace");
+  return note;
+}
+
+function appendPitch(note: Element, scoreNote: ScoreNote): void {
+  const pitch = appendElement(note, "pitch");
+  appendElement(pitch, "step", scoreNote.pitch.step);
+  if (scoreNote.pitch.alter !== 0) {
+    appendElement(pitch, "alter", String(scoreNote.pitch.alter));
+  }
+  appendElement(pitch, "octave", String(scoreNote.pitch.octave));
+}
+
+/**
+ * Appends the rest of the note content, in the order required by the schema
+ */
+function appendNoteDurationAndType(
+  note: Element,
+  event: ScoreEvent,
+  divisions: number,
+  scoreNote: ScoreNote | null = null,
+): void {
+  if (!event.isGrace) {
+    appendElement(
+      note,
+      "duration",
+      String(Math.round(event.duration.quarters * divisions)),
+    );
+  }
+  if (scoreNote?.tieStop)
+    appendElement(note, "tie").setAttribute("type", "stop");
+  if (scoreNote?.tieStart)
+    appendElement(note, "tie").setAttribute("type", "start");
+  appendElement(note, "voice", String(event.voice));
+  appendElement(note, "type", event.duration.type);
+  for (let i = 0; i < event.duration.dots; i++) {
+    appendElement(note, "dot");
+  }
+  if (scoreNote !== null && scoreNote.accidental !== null) {
+    appendElement(note, "accidental", ACCIDENTAL_NAMES[scoreNote.accidental]);
+  }
+  if (scoreNote?.tieStop || scoreNote?.tieStart) {
+    const notations = appendElement(note, "notations");
+    if (scoreNote.tieStop)
+      appendElement(notations, "tied").setAttribute("type", "stop");
+    if (scoreNote.tieStart)
+      appendElement(notations, "tied").setAttribute("type", "start");
+  }
+}
+
+/**
+ * Finds the smallest number of divisions per quarter note,
+ * in which all the durations are whole numbers
+ */
+function computeDivisions(score: Score): number {
+  let divisions = 1;
+  for (const part of score.parts) {
+    for (const measure of part.measures) {
+      for (const event of measure.events) {
+        while (
+          !Number.isInteger(event.duration.quarters * divisions) &&
+          divisions < 1024
+        ) {
+          divisions *= 2;
+        }
+      }
+    }
+  }
+  return divisions;
+}
+
+function appendElement(
+  parent: Element,
+  name: string,
+  text: string | null = null,
+): Element {
+  const element = parent.ownerDocument.createElement(name);
+  if (text !== null) element.textContent = text;
+  parent.appendChild(element);
+  return element;
+}
@@ -0,0 +1,66 @@
+import { MungParseIssueCallback, MungParseResult } from "./MungParseReport";
+import {
+  MungReadingProgressMessage,
+  MungReadingResponse,
+} from "./MungReadingWorkerMessages";
+
+export interface ReadMungXmlInWorkerOptions {
+  /**
+   * Called repeatedly as the reading progresses
+   */
+  readonly onProgress?: (progress: MungReadingProgressMessage) => void;
+
+  /**
+   * Called for each problem with a node that has been repaired
+   * (all of them are also listed in the final report)
+   */
+  readonly onIssue?: MungParseIssueCallback;
+}
+
+/**
+ * Parses MuNG file from an XML string or a file in a web worker,
+ * using a streaming parser. Use this for documents that are too large
+ * to be parsed in the main thread without freezing the UI.
+ * Problems that do not prevent the file from being loaded are repaired
+ * and listed in the report.
+ * @param source The XML string or a blob (file) containing MuNG
+ * @param options Progress and issue callbacks
+ */
+export function readMungXmlInWorker(
+  source: string | Blob,
+  options: ReadMungXmlInWorkerOptions = {},
+): Promise<MungParseResult> {
+  return new Promise<MungParseResult>((resolve, reject) => {
+    const worker = new Worker(
+      new URL("./mung-reading-worker.ts", import.meta.url),
+      { type: "module" },
+    );
+
+    worker.onmessage = (e: MessageEvent<MungReadingResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case "progress":
+          options.onProgress?.(message);
+          break;
+        case "issue":
+          options.onIssue?.(message.issue);
+          break;
+        case "done":
+          worker.terminate();
+          resolve({ mung: message.mung, report: message.report });
+          break;
+        case "error":
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (e: ErrorEvent) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+
+    worker.postMessage({ source });
+  });
+}
@@ -1,13 +1,26 @@
 import { DataItems } from "./DataItems";
-import { MUNG_MAX_MASK_SIZE } from "./mungConstants";
-import { MungFile } from "./MungFile";
+import {
+  MungParseIssue,
+  MungParseIssueCallback,
+  MungParseResult,
+} from "./MungParseReport";
+import {
+  buildNodeFromMungXmlFields,
+  createEmptyMungXmlNodeFields,
+  decodeMungXmlNodeMask,
+  MUNG_NODE_ELEMENT_NAMES,
+} from "./MungXmlNodeFields";
+import { MungFileMetadata } from "./MungFileMetadata";
+import { MungXmlFragment } from "./MungXmlFragment";
 import { Node } from "./Node";
+import { repairMungNodes } from "./repairMungNodes";
 
 /**
- * Parses MuNG file from an XML string
+ * Parses MuNG file from an XML string. Problems that do not prevent
+ * the file from being loaded are repaired and listed in the report.
  * @param xml The XML string containing MuNG
  */
-export function readMungXmlString(xml: string): MungFile {
+export function readMungXmlString(xml: string): MungParseResult {
   const parser = new DOMParser();
   const xmlDocument = parser.parseFromString(xml, "application/xml");
 
@@ -17,73 +30,124 @@ export function readMungXmlString(xml: string): MungFile {
     throw new Error("The <Nodes> element was not found.");
 
   // extract dataset metadata
-  const mungDataset: string = rootElement.getAttribute("dataset") || "unknown";
-  const mungDocument: string =
-    rootElement.getAttribute("document") || "unknown";
-
-  // extract all node elements and parse them
-  const nodeElements = rootElement.querySelectorAll("Node");
-  const nodes = [...nodeElements].map((n) => readNodeFromXmlElement(n));
+  const metadata: MungFileMetadata = readNodesAttributes(rootElement);
+
+  // extract all node elements and parse them,
+  // keep comments and unknown elements in between
+  const issues: MungParseIssue[] = [];
+  const onIssue = (issue: MungParseIssue) => issues.push(issue);
+  const nodes: Node[] = [];
+  const extraXml: MungXmlFragment[] = [];
+  let lastNodeId: string | null = null;
+  for (const child of rootElement.childNodes) {
+    if (child instanceof Element && child.tagName === "Node") {
+      const node = readNodeFromXmlElement(child, onIssue);
+      nodes.push(node);
+      lastNodeId = child.querySelector("Id")?.textContent ?? null;
+      continue;
+    }
+    const fragment = serializeUnknownXmlNode(child);
+    if (fragment !== null) {
+      extraXml.push({ xml: fragment, after: lastNodeId });
+    }
+  }
 
   return {
-    metadata: {
-      dataset: mungDataset,
-      document: mungDocument,
+    mung: {
+      metadata: extraXml.length === 0 ? metadata : { ...metadata, extraXml },
+      nodes: repairMungNodes(nodes, onIssue),
     },
-    nodes: nodes,
+    report: { issues },
+  };
+}
+
+function readNodesAttributes(rootElement: Element): MungFileMetadata {
+  const extraAttributes: Record<string, string> = {};
+  let hasExtraAttributes = false;
+  for (const attribute of rootElement.attributes) {
+    if (attribute.name === "dataset" || attribute.name === "document") continue;
+    extraAttributes[attribute.name] = attribute.value;
+    hasExtraAttributes = true;
+  }
+
+  const metadata: MungFileMetadata = {
+    dataset: rootElement.getAttribute("dataset") || "unknown",
+    document: rootElement.getAttribute("document") || "unknown",
   };
+  if (!hasExtraAttributes) return metadata;
+  return { ...metadata, extraAttributes };
 }
 
-function readNodeFromXmlElement(element: Element): Node {
-  const width = parseInt(element.querySelector("Width")?.innerHTML || "NaN");
-  const height = parseInt(element.querySelector("Height")?.innerHTML || "NaN");
-  const maskString = element.querySelector("Mask")?.textContent || null;
-
-  // A single malformed mask must NOT block the whole document from loading.
-  // Some nodes get saved with an empty/degenerate RLE mask (covers 0 pixels);
-  // decode defensively and drop just that mask, keeping the node (its bbox,
-  // class and links are intact). The node is fully usable without a pixel mask.
-  let decodedMask: ImageData | null = null;
-  if (maskString !== null) {
-    try {
-      decodedMask = decodeRleMaskString(maskString, width, height);
-    } catch (e) {
-      console.warn(
-        `Ignoring invalid mask on node ` +
-          `${element.querySelector("Id")?.innerHTML ?? "?"}: ${e}`,
-      );
-      decodedMask = null;
+/**
+ * Returns the XML source of a comment or an element that MuNG Studio
+ * does not understand, or null for anything else (e.g. whitespace)
+ */
+function serializeUnknownXmlNode(xmlNode: ChildNode): string | null {
+  if (xmlNode instanceof Comment) {
+    return `<!--${xmlNode.data}-->`;
+  }
+  if (xmlNode instanceof Element) {
+    return new XMLSerializer().serializeToString(xmlNode);
+  }
+  return null;
+}
+
+function readNodeFromXmlElement(
+  element: Element,
+  onIssue: MungParseIssueCallback,
+): Node {
+  const fields = createEmptyMungXmlNodeFields();
+  fields.id = element.querySelector("Id")?.textContent ?? null;
+  fields.className = element.querySelector("ClassName")?.textContent ?? null;
+  fields.top = element.querySelector("Top")?.textContent ?? null;
+  fields.left = element.querySelector("Left")?.textContent ?? null;
+  fields.width = element.querySelector("Width")?.textContent ?? null;
+  fields.height = element.querySelector("Height")?.textContent ?? null;
+  fields.mask = element.querySelector("Mask")?.textContent ?? null;
+  fields.inlinks = element.querySelector("Inlinks")?.textContent ?? null;
+  fields.outlinks = element.querySelector("Outlinks")?.textContent ?? null;
+  fields.dataItems = parseDataItems(element);
+
+  // keep comments and unknown elements
+  let lastKnownElement: string | null = null;
+  for (const child of element.childNodes) {
+    if (
+      child instanceof Element &&
+      MUNG_NODE_ELEMENT_NAMES.includes(child.tagName)
+    ) {
+      lastKnownElement = child.tagName;
+      if (child.tagName === "Data") readDataExtraXml(child, fields.extraXml);
+      continue;
+    }
+    const fragment = serializeUnknownXmlNode(child);
+    if (fragment !== null) {
+      fields.extraXml.push({ xml: fragment, after: lastKnownElement });
     }
   }
 
-  const dataItems = parseDataItems(element);
-  const precedenceOutlinks = parseIntList(
-    dataItems["precedence_outlinks"]?.value,
-  );
-  delete dataItems["precedence_outlinks"];
-  const precedenceInlinks = parseIntList(
-    dataItems["precedence_inlinks"]?.value,
-  );
-  delete dataItems["precedence_inlinks"];
-  const textTranscription = dataItems["text_transcription"]?.value || null;
-  delete dataItems["text_transcription"];
+  const decodedMask = decodeMungXmlNodeMask(fields, onIssue);
 
-  return {
-    id: parseInt(element.querySelector("Id")?.innerHTML || "NaN"),
-    className: element.querySelector("ClassName")?.innerHTML || "unknown",
-    top: parseInt(element.querySelector("Top")?.innerHTML || "NaN"),
-    left: parseInt(element.querySelector("Left")?.innerHTML || "NaN"),
-    width,
-    height,
-    syntaxOutlinks: parseIntList(element.querySelector("Outlinks")?.innerHTML),
-    syntaxInlinks: parseIntList(element.querySelector("Inlinks")?.innerHTML),
-    precedenceOutlinks,
-    precedenceInlinks,
-    decodedMask,
-    textTranscription,
-    data: dataItems,
-    polygon: null,
-  };
+  return buildNodeFromMungXmlFields(fields, decodedMask, onIssue);
+}
+
+/**
+ * Keeps comments and unknown elements placed among the data items
+ */
+function readDataExtraXml(
+  dataElement: Element,
+  extraXml: MungXmlFragment[],
+): void {
+  let lastDataItemKey: string | null = null;
+  for (const child of dataElement.childNodes) {
+    if (child instanceof Element && child.tagName === "DataItem") {
+      lastDataItemKey = child.getAttribute("key") ?? lastDataItemKey;
+      continue;
+    }
+    const fragment = serializeUnknownXmlNode(child);
+    if (fragment !== null) {
+      extraXml.push({ xml: fragment, after: lastDataItemKey, inside: "Data" });
+    }
+  }
 }
 
 function parseDataItems(nodeElement: Element): DataItems {
@@ -104,58 +168,3 @@ function parseDataItems(nodeElement: Element): DataItems {
 
   return parsedItems;
 }
-
-function parseIntList(value?: string): number[] {
-  if (!value) return [];
-  const parts = value.split(" ");
-  return parts.map((part) => parseInt(part));
-}
-
-function decodeRleMaskString(
-  maskString: string,
-  width: number,
-  height: number,
-): ImageData {
-  // validate dimensions
-  if (width > MUNG_MAX_MASK_SIZE || height > MUNG_MAX_MASK_SIZE) {
-    throw new Error("Mask too large.");
-  }
-  width = Math.floor(width);
-  height = Math.floor(height);
-
-  // allocate the pixel buffer
-  const data = new Uint8ClampedArray(width * height * 4);
-
-  // process the RLE string
-  let pixelIndex = 0;
-  for (const token of maskString.split(" ")) {
-    const [value, count] = token.split(":").map((x) => parseInt(x));
-
-    // keep black transparent pixels
-    if (value === 0) {
-      pixelIndex += count;
-      continue;
-    }
-
-    // else set RED pixels (not white!)
-    // (red pixels can be hue rotated in CSS filters)
-    for (let i = 0; i < count; i++) {
-      data[pixelIndex * 4 + 0] = 255;
-      data[pixelIndex * 4 + 1] = 0;
-      data[pixelIndex * 4 + 2] = 0;
-      data[pixelIndex * 4 + 3] = 255;
-
-      pixelIndex += 1;
-    }
-  }
-
-  // checks
-  if (pixelIndex !== width * height) {
-    throw new Error("RLE string does not match mask pixel count");
-  }
-
-  // wrap pixels in a meta container
-  const imageData = new ImageData(data, width, height, { colorSpace: "srgb" });
-
-  return imageData;
-}
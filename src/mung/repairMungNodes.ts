@@ -0,0 +1,127 @@
+import { MungParseIssueCallback } from "./MungParseReport";
+import { Node } from "./Node";
+
+/**
+ * Fixes graph-level inconsistencies of freshly read nodes, so that they can
+ * be loaded into the editor: nodes with invalid or duplicate IDs are dropped,
+ * links to missing nodes are removed and links that are listed only on one
+ * of their two ends are completed. Every repair is reported.
+ * @param nodes Nodes as they were read from the file
+ * @param onIssue Receives the report of each repair
+ */
+export function repairMungNodes(
+  nodes: Node[],
+  onIssue: MungParseIssueCallback,
+): Node[] {
+  // drop nodes with invalid and duplicate IDs (the first one wins)
+  const nodesById = new Map<number, Node>();
+  for (const node of nodes) {
+    // (already reported when the node was read)
+    if (isNaN(node.id)) continue;
+    if (nodesById.has(node.id)) {
+      onIssue({
+        kind: "duplicate-id",
+        nodeId: node.id,
+        field: "Id",
+        rawValue: String(node.id),
+        action:
+          `Duplicate node of class ${node.className} dropped, ` +
+          `the first node with this ID is kept.`,
+      });
+      continue;
+    }
+    nodesById.set(node.id, node);
+  }
+
+  // mutable copies of link lists, so that they can be repaired
+  const links = new Map<number, LinkLists>();
+  for (const node of nodesById.values()) {
+    links.set(node.id, {
+      Outlinks: [...node.syntaxOutlinks],
+      Inlinks: [...node.syntaxInlinks],
+      precedence_outlinks: [...node.precedenceOutlinks],
+      precedence_inlinks: [...node.precedenceInlinks],
+    });
+  }
+
+  for (const node of nodesById.values()) {
+    const nodeLinks = links.get(node.id)!;
+    for (const field of LINK_FIELDS) {
+      // remove dangling links
+      const valid = nodeLinks[field].filter((otherId) => links.has(otherId));
+      if (valid.length !== nodeLinks[field].length) {
+        onIssue({
+          kind: "dangling-link",
+          nodeId: node.id,
+          field,
+          rawValue: nodeLinks[field].join(" "),
+          action:
+            "Links to missing nodes removed: " +
+            nodeLinks[field].filter((id) => !links.has(id)).join(" "),
+        });
+      }
+
+      // remove duplicates
+      nodeLinks[field] = [...new Set(valid)];
+    }
+  }
+
+  for (const node of nodesById.values()) {
+    const nodeLinks = links.get(node.id)!;
+    for (const field of LINK_FIELDS) {
+      const counterpart = COUNTERPART_FIELD[field];
+      for (const otherId of nodeLinks[field]) {
+        const otherLinks = links.get(otherId)!;
+        if (otherLinks[counterpart].includes(node.id)) continue;
+        otherLinks[counterpart].push(node.id);
+        onIssue({
+          kind: "one-sided-link",
+          nodeId: otherId,
+          field: counterpart,
+          rawValue: otherLinks[counterpart]
+            .filter((id) => id !== node.id)
+            .join(" "),
+          action:
+            `Added ${node.id}, because node ${node.id} ` +
+            `lists this node in its ${field}.`,
+        });
+      }
+    }
+  }
+
+  return [...nodesById.values()].map((node) => {
+    const nodeLinks = links.get(node.id)!;
+    return {
+      ...node,
+      syntaxOutlinks: nodeLinks.Outlinks,
+      syntaxInlinks: nodeLinks.Inlinks,
+      precedenceOutlinks: nodeLinks.precedence_outlinks,
+      precedenceInlinks: nodeLinks.precedence_inlinks,
+    };
+  });
+}
+
+/**
+ * Link lists of a node, named by the XML element or data item
+ * they are stored in
+ */
+interface LinkLists {
+  Outlinks: number[];
+  Inlinks: number[];
+  precedence_outlinks: number[];
+  precedence_inlinks: number[];
+}
+
+const LINK_FIELDS: (keyof LinkLists)[] = [
+  "Outlinks",
+  "Inlinks",
+  "precedence_outlinks",
+  "precedence_inlinks",
+];
+
+const COUNTERPART_FIELD: Record<keyof LinkLists, keyof LinkLists> = {
+  Outlinks: "Inlinks",
+  Inlinks: "Outlinks",
+  precedence_outlinks: "precedence_inlinks",
+  precedence_inlinks: "precedence_outlinks",
+};
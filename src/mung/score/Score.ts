@@ -0,0 +1,189 @@
+/**
+ * Music notation types used for exporting MuNG into symbolic music formats
+ * (MusicXML, MEI). The score is reconstructed from the notation graph
+ * by the reconstructScore function. Every musical object remembers the IDs
+ * of the MuNG nodes it was built from, so that exports can be traced back
+ * to the annotated image.
+ */
+
+/**
+ * Pitch step name (without alteration)
+ */
+export type ScoreStep = "C" | "D" | "E" | "F" | "G" | "A" | "B";
+
+/**
+ * Graphical note value, named as in MusicXML
+ */
+export type ScoreNoteType =
+  | "long"
+  | "breve"
+  | "whole"
+  | "half"
+  | "quarter"
+  | "eighth"
+  | "16th"
+  | "32nd"
+  | "64th"
+  | "128th"
+  | "256th"
+  | "512th"
+  | "1024th";
+
+export interface ScorePitch {
+  readonly step: ScoreStep;
+  readonly octave: number;
+
+  /**
+   * Chromatic alteration in semitones (-1 flat, +1 sharp)
+   */
+  readonly alter: number;
+}
+
+export interface ScoreDuration {
+  readonly type: ScoreNoteType;
+  readonly dots: number;
+
+  /**
+   * Length of the event measured in quarter notes
+   * (zero for grace notes)
+   */
+  readonly quarters: number;
+}
+
+/**
+ * One notehead of a note or a chord
+ */
+export interface ScoreNote {
+  readonly nodeId: number;
+  readonly pitch: ScorePitch;
+
+  /**
+   * Alteration of the explicitly written accidental (null when none)
+   */
+  readonly accidental: number | null;
+
+  readonly tieStart: boolean;
+  readonly tieStop: boolean;
+}
+
+/**
+ * A note, a chord or a rest
+ */
+export interface ScoreEvent {
+  /**
+   * The noteheads of the chord, or the rest node
+   */
+  readonly nodeIds: number[];
+
+  readonly isRest: boolean;
+  readonly isGrace: boolean;
+
+  /**
+   * Notes of the chord, empty for rests
+   */
+  readonly notes: ScoreNote[];
+
+  readonly duration: ScoreDuration;
+
+  /**
+   * Voice number within the part, starting from 1
+   */
+  readonly voice: number;
+
+  /**
+   * Horizontal position of the event in the image (center of the bbox)
+   */
+  readonly x: number;
+
+  readonly staffNodeId: number;
+
+  /**
+   * Stems attached to the noteheads of the event
+   */
+  readonly stemNodeIds: number[];
+}
+
+export interface ScoreClef {
+  readonly nodeId: number;
+  readonly sign: "G" | "F" | "C";
+
+  /**
+   * Staff line the clef sits on, counted from the bottom, starting at 1
+   */
+  readonly line: number;
+
+  /**
+   * Octave transposition of the clef (e.g. -1 for a tenor G clef)
+   */
+  readonly octaveChange: number;
+}
+
+export interface ScoreKey {
+  readonly nodeId: number;
+
+  /**
+   * Number of sharps (positive) or flats (negative)
+   */
+  readonly fifths: number;
+}
+
+export interface ScoreTime {
+  readonly nodeId: number;
+  readonly beats: string;
+  readonly beatType: string;
+  readonly symbol: "common" | "cut" | null;
+}
+
+export interface ScoreMeasure {
+  /**
+   * Number of the measure within the part, starting from 1
+   */
+  readonly number: number;
+
+  /**
+   * Attribute changes that take place at the start of the measure
+   */
+  readonly clef: ScoreClef | null;
+  readonly key: ScoreKey | null;
+  readonly time: ScoreTime | null;
+
+  /**
+   * Events sorted by voice and then by their position
+   */
+  readonly events: ScoreEvent[];
+
+  /**
+   * Does this measure start a new system (line of music)
+   */
+  readonly isNewSystem: boolean;
+
+  /**
+   * The measureSeparator node that ends this measure (if any)
+   */
+  readonly measureSeparatorId: number | null;
+}
+
+/**
+ * A part is made of the staves at the same position in each system
+ */
+export interface ScorePart {
+  readonly id: string;
+  readonly name: string;
+  readonly staffNodeIds: number[];
+  readonly measures: ScoreMeasure[];
+}
+
+/**
+ * Something that could not be exported faithfully
+ */
+export interface ScoreIssue {
+  readonly nodeId: number;
+  readonly className: string;
+  readonly message: string;
+}
+
+export interface Score {
+  readonly title: string;
+  readonly parts: ScorePart[];
+  readonly issues: ScoreIssue[];
+}
@@ -0,0 +1,1026 @@
+import { MungFile } from "../MungFile";
+import { Node } from "../Node";
+import {
+  Score,
+  ScoreClef,
+  ScoreDuration,
+  ScoreEvent,
+  ScoreIssue,
+  ScoreKey,
+  ScoreMeasure,
+  ScoreNote,
+  ScoreNoteType,
+  ScorePart,
+  ScorePitch,
+  ScoreStep,
+  ScoreTime,
+} from "./Score";
+
+export interface ReconstructScoreOptions {
+  /**
+   * Include implied noteheads (Schenkerian analysis annotations)
+   * as regular notes. They are excluded by default, since they are not
+   * part of the notated music.
+   */
+  readonly includeImpliedNotes?: boolean;
+}
+
+/**
+ * Rebuilds the symbolic music content (parts, measures, voices, pitches
+ * and durations) from the notation graph. Syntax links are used to attach
+ * stems, beams, flags, dots, accidentals and ties to noteheads and to assign
+ * symbols to staves. Precedence links are used to separate voices.
+ * Nodes that cannot be placed are listed in the issues of the result.
+ */
+export function reconstructScore(
+  mung: MungFile,
+  options: ReconstructScoreOptions = {},
+): Score {
+  return new ScoreReconstruction(mung, options).run();
+}
+
+///////////////////////
+// Class definitions //
+///////////////////////
+
+/**
+ * Noteheads and their duration in quarter notes (before flags and beams)
+ */
+const NOTEHEAD_QUARTERS: Record<string, number> = {
+  noteheadDoubleWhole: 8,
+  noteheadDoubleWholeSquare: 8,
+  noteheadWhole: 4,
+  noteheadHalf: 2,
+  noteheadBlack: 1,
+  noteheadFull: 1,
+  noteheadXBlack: 1,
+  noteheadWholeSmall: 4,
+  noteheadHalfSmall: 2,
+  noteheadBlackSmall: 1,
+  noteheadFullSmall: 1,
+};
+
+const GRACE_NOTEHEADS = new Set<string>([
+  "noteheadWholeSmall",
+  "noteheadHalfSmall",
+  "noteheadBlackSmall",
+  "noteheadFullSmall",
+]);
+
+const IMPLIED_NOTEHEAD_QUARTERS: Record<string, number> = {
+  noteheadImplied: 1,
+  noteheadOpenImplied: 2,
+};
+
+const REST_QUARTERS: Record<string, number> = {
+  restLonga: 16,
+  restDoubleWhole: 8,
+  restBreve: 8,
+  restWhole: 4,
+  restSemibreve: 4,
+  restHalf: 2,
+  restMinim: 2,
+  restQuarter: 1,
+  restCrotchet: 1,
+  rest8th: 1 / 2,
+  restQuaver: 1 / 2,
+  rest16th: 1 / 4,
+  restSemiquaver: 1 / 4,
+  rest32nd: 1 / 8,
+  restDemisemiquaver: 1 / 8,
+  rest64th: 1 / 16,
+  rest128th: 1 / 32,
+  rest256th: 1 / 64,
+  rest512th: 1 / 128,
+  rest1024th: 1 / 256,
+};
+
+const NOTE_TYPES_BY_QUARTERS: [number, ScoreNoteType][] = [
+  [16, "long"],
+  [8, "breve"],
+  [4, "whole"],
+  [2, "half"],
+  [1, "quarter"],
+  [1 / 2, "eighth"],
+  [1 / 4, "16th"],
+  [1 / 8, "32nd"],
+  [1 / 16, "64th"],
+  [1 / 32, "128th"],
+  [1 / 64, "256th"],
+  [1 / 128, "512th"],
+  [1 / 256, "1024th"],
+];
+
+/**
+ * Number of beams equivalent to each flag
+ */
+const FLAG_LEVELS: Record<string, number> = {
+  flag8thUp: 1,
+  flag8thDown: 1,
+  flag16thUp: 2,
+  flag16thDown: 2,
+  flag32ndUp: 3,
+  flag32ndDown: 3,
+  flag64thUp: 4,
+  flag64thDown: 4,
+  flag128thUp: 5,
+  flag128thDown: 5,
+  flag256thUp: 6,
+  flag256thDown: 6,
+  flag512thUp: 7,
+  flag512thDown: 7,
+  flag1024thUp: 8,
+  flag1024thDown: 8,
+};
+
+const ACCIDENTAL_ALTERS: Record<string, number> = {
+  accidentalSharp: 1,
+  accidentalFlat: -1,
+  accidentalNatural: 0,
+  accidentalDoubleSharp: 2,
+  accidentalDoubleFlat: -2,
+  accidentalTripleSharp: 3,
+  accidentalTripleFlat: -3,
+  accidentalNaturalFlat: -1,
+  accidentalNaturalSharp: 1,
+  accidentalSharpSharp: 2,
+};
+
+const CLEF_SIGNS: Record<string, "G" | "F" | "C"> = {
+  gClef: "G",
+  gClefChange: "G",
+  fClef: "F",
+  fClefChange: "F",
+  cClef: "C",
+  cClefSquare: "C",
+  cClefChange: "C",
+};
+
+/**
+ * Staff line the clef sits on, when it is not linked to any
+ */
+const DEFAULT_CLEF_LINES: Record<"G" | "F" | "C", number> = {
+  G: 2,
+  F: 4,
+  C: 3,
+};
+
+/**
+ * Diatonic index (octave * 7 + step) of the pitch on the clef line
+ */
+const CLEF_REFERENCE_PITCHES: Record<"G" | "F" | "C", number> = {
+  G: 4 * 7 + 4, // G4
+  F: 3 * 7 + 3, // F3
+  C: 4 * 7 + 0, // C4
+};
+
+const STEPS: ScoreStep[] = ["C", "D", "E", "F", "G", "A", "B"];
+const SHARPS_ORDER: ScoreStep[] = ["F", "C", "G", "D", "A", "E", "B"];
+const FLATS_ORDER: ScoreStep[] = ["B", "E", "A", "D", "G", "C", "F"];
+
+/////////////////////
+// Reconstruction //
+/////////////////////
+
+/**
+ * Vertical geometry of a staff, used to compute pitches
+ */
+interface StaffGeometry {
+  readonly staff: Node;
+  readonly bottomLineY: number;
+  readonly halfSpace: number;
+  readonly lineNodeIds: number[]; // from the bottom
+}
+
+/**
+ * A note or a rest before it is assigned to a measure and a voice
+ */
+interface RawEvent {
+  readonly nodes: Node[];
+  readonly isRest: boolean;
+  readonly isGrace: boolean;
+  readonly staff: StaffGeometry;
+  readonly x: number;
+  readonly y: number;
+  readonly left: number;
+  readonly right: number;
+  readonly duration: ScoreDuration;
+  readonly stemNodeIds: number[];
+}
+
+interface StaffAttributes {
+  readonly clefs: ScoreClef[];
+  readonly clefXs: number[];
+  readonly keys: ScoreKey[];
+  readonly keyXs: number[];
+  readonly times: ScoreTime[];
+  readonly timeXs: number[];
+}
+
+class ScoreReconstruction {
+  private readonly mung: MungFile;
+  private readonly options: ReconstructScoreOptions;
+  private readonly nodesById = new Map<number, Node>();
+  private readonly issues: ScoreIssue[] = [];
+
+  constructor(mung: MungFile, options: ReconstructScoreOptions) {
+    this.mung = mung;
+    this.options = options;
+    for (const node of mung.nodes) {
+      this.nodesById.set(node.id, node);
+    }
+  }
+
+  public run(): Score {
+    const staves = this.mung.nodes
+      .filter((n) => n.className === "staff")
+      .map((staff) => this.computeStaffGeometry(staff));
+    const stavesById = new Map(staves.map((s) => [s.staff.id, s]));
+
+    const events = this.collectEvents(stavesById);
+    const systems = this.groupStavesIntoSystems(staves);
+
+    const partCount = Math.max(0, ...systems.map((s) => s.length));
+    const parts: ScorePart[] = [];
+    for (let p = 0; p < partCount; p++) {
+      parts.push({
+        id: `P${p + 1}`,
+        name: `Staff ${p + 1}`,
+        staffNodeIds: [],
+        measures: [],
+      });
+    }
+
+    // state carried over from system to system for each part
+    const activeClefs: (ScoreClef | null)[] = parts.map(() => null);
+    const activeKeys: (ScoreKey | null)[] = parts.map(() => null);
+
+    for (const system of systems) {
+      const boundaries = this.computeMeasureBoundaries(system);
+      const systemEvents = new Map<number, RawEvent[]>();
+      for (const staff of system) {
+        systemEvents.set(
+          staff.staff.id,
+          events.filter((e) => e.staff === staff),
+        );
+      }
+
+      // bins that contain no events in any of the staves are skipped
+      const usedBins = new Set<number>();
+      for (const staffEvents of systemEvents.values()) {
+        for (const event of staffEvents) {
+          usedBins.add(binIndex(boundaries, event.x));
+        }
+      }
+      const bins = [...usedBins].sort((a, b) => a - b);
+
+      for (let p = 0; p < partCount; p++) {
+        const staff = system[p];
+        const part = parts[p];
+        const isFirstMeasureOfPart = part.measures.length === 0;
+
+        // this system has fewer staves, pad with empty measures
+        if (staff === undefined) {
+          for (let i = 0; i < bins.length; i++) {
+            part.measures.push(
+              this.emptyMeasure(part.measures.length + 1, i === 0),
+            );
+          }
+          continue;
+        }
+
+        part.staffNodeIds.push(staff.staff.id);
+        const attributes = this.collectStaffAttributes(staff);
+
+        if (isFirstMeasureOfPart && attributes.clefs.length === 0) {
+          this.issues.push({
+            nodeId: staff.staff.id,
+            className: staff.staff.className,
+            message: "The staff has no clef, treble clef is assumed.",
+          });
+        }
+
+        for (let b = 0; b < bins.length; b++) {
+          const bin = bins[b];
+          const binStart = b === 0 ? -Infinity : boundaries[bins[b - 1]];
+          const binEnd = bin < boundaries.length ? boundaries[bin] : Infinity;
+          const staffEvents = systemEvents
+            .get(staff.staff.id)!
+            .filter((e) => binIndex(boundaries, e.x) === bin);
+
+          // attribute changes located in this measure (or skipped bins)
+          const clef = lastBefore(attributes.clefs, attributes.clefXs, binEnd);
+          const key = lastBefore(attributes.keys, attributes.keyXs, binEnd);
+          const time = lastBefore(attributes.times, attributes.timeXs, binEnd);
+          const clefChanged =
+            clef !== null && clef.nodeId !== activeClefs[p]?.nodeId;
+          const keyChanged =
+            key !== null && key.nodeId !== activeKeys[p]?.nodeId;
+          const timeChanged =
+            time !== null &&
+            attributes.timeXs[attributes.times.indexOf(time)] >= binStart;
+          if (clefChanged) activeClefs[p] = clef;
+          if (keyChanged) activeKeys[p] = key;
+
+          const measureNumber = part.measures.length + 1;
+          part.measures.push({
+            number: measureNumber,
+            clef: clefChanged
+              ? clef
+              : measureNumber === 1
+                ? DEFAULT_CLEF
+                : null,
+            key: keyChanged ? key : null,
+            time: timeChanged || (measureNumber === 1 && time) ? time : null,
+            events: this.buildMeasureEvents(
+              staffEvents,
+              attributes,
+              activeClefs[p] ?? DEFAULT_CLEF,
+              activeKeys[p],
+            ),
+            isNewSystem: b === 0,
+            measureSeparatorId: this.findMeasureSeparator(staff, binEnd),
+          });
+        }
+      }
+    }
+
+    return {
+      title: this.mung.metadata.document,
+      parts,
+      issues: this.issues,
+    };
+  }
+
+  ///////////////////////
+  // Staves & systems //
+  ///////////////////////
+
+  private computeStaffGeometry(staff: Node): StaffGeometry {
+    const lines = this.children(staff)
+      .filter((n) => n.className === "staffLine")
+      .sort((a, b) => centerY(b) - centerY(a)); // from the bottom
+
+    if (lines.length >= 2) {
+      const bottom = centerY(lines[0]);
+      const top = centerY(lines[lines.length - 1]);
+      return {
+        staff,
+        bottomLineY: bottom,
+        halfSpace: (bottom - top) / (lines.length - 1) / 2,
+        lineNodeIds: lines.map((l) => l.id),
+      };
+    }
+
+    // no stafflines annotated, assume 5 lines spanning the staff bbox
+    return {
+      staff,
+      bottomLineY: staff.top + staff.height,
+      halfSpace: staff.height / 8,
+      lineNodeIds: [],
+    };
+  }
+
+  /**
+   * Staves connected by a measure separator or a staff grouping
+   * belong to the same system. Systems are ordered from the top
+   * and so are staves in each system.
+   */
+  private groupStavesIntoSystems(staves: StaffGeometry[]): StaffGeometry[][] {
+    const systemOf = new Map<number, number>();
+    staves.forEach((s, i) => systemOf.set(s.staff.id, i));
+
+    const find = (id: number): number => {
+      let root = systemOf.get(id)!;
+      while (systemOf.get(staves[root].staff.id) !== root) {
+        root = systemOf.get(staves[root].staff.id)!;
+      }
+      return root;
+    };
+
+    for (const node of this.mung.nodes) {
+      if (
+        node.className !== "measureSeparator" &&
+        node.className !== "staffGrouping"
+      )
+        continue;
+      const connected = this.children(node).filter(
+        (n) => n.className === "staff",
+      );
+      for (let i = 1; i < connected.length; i++) {
+        const a = find(connected[0].id);
+        const b = find(connected[i].id);
+        if (a !== b) systemOf.set(staves[b].staff.id, a);
+      }
+    }
+
+    const systems = new Map<number, StaffGeometry[]>();
+    for (const staff of staves) {
+      const root = find(staff.staff.id);
+      if (!systems.has(root)) systems.set(root, []);
+      systems.get(root)!.push(staff);
+    }
+
+    return [...systems.values()]
+      .map((system) => system.sort((a, b) => a.staff.top - b.staff.top))
+      .sort((a, b) => a[0].staff.top - b[0].staff.top);
+  }
+
+  /**
+   * Horizontal positions of measure separators in the system
+   */
+  private computeMeasureBoundaries(system: StaffGeometry[]): number[] {
+    const systemStaffIds = new Set(system.map((s) => s.staff.id));
+    const xs: number[] = [];
+    for (const node of this.mung.nodes) {
+      if (node.className !== "measureSeparator") continue;
+      if (!node.syntaxOutlinks.some((id) => systemStaffIds.has(id))) continue;
+      xs.push(centerX(node));
+    }
+    xs.sort((a, b) => a - b);
+
+    // separators of different staves at (almost) the same position
+    const tolerance = system[0].halfSpace * 2;
+    const boundaries: number[] = [];
+    for (const x of xs) {
+      if (
+        boundaries.length > 0 &&
+        x - boundaries[boundaries.length - 1] < tolerance
+      )
+        continue;
+      boundaries.push(x);
+    }
+    return boundaries;
+  }
+
+  private findMeasureSeparator(
+    staff: StaffGeometry,
+    binEnd: number,
+  ): number | null {
+    if (binEnd === Infinity) return null;
+    const tolerance = staff.halfSpace * 2;
+    for (const parent of this.parents(staff.staff)) {
+      if (parent.className !== "measureSeparator") continue;
+      if (Math.abs(centerX(parent) - binEnd) < tolerance) return parent.id;
+    }
+    return null;
+  }
+
+  private collectStaffAttributes(staff: StaffGeometry): StaffAttributes {
+    const parents = this.parents(staff.staff).sort(
+      (a, b) => centerX(a) - centerX(b),
+    );
+
+    const clefNodes = parents.filter((n) => n.className in CLEF_SIGNS);
+    const keyNodes = parents.filter((n) => n.className === "keySignature");
+    const timeNodes = parents.filter((n) => n.className === "timeSignature");
+
+    const times: ScoreTime[] = [];
+    const timeXs: number[] = [];
+    for (const node of timeNodes) {
+      const time = this.readTimeSignature(node);
+      if (time === null) continue;
+      times.push(time);
+      timeXs.push(centerX(node));
+    }
+
+    return {
+      clefs: clefNodes.map((n) => this.readClef(n, staff)),
+      clefXs: clefNodes.map(centerX),
+      keys: keyNodes.map((n) => this.readKeySignature(n)),
+      keyXs: keyNodes.map(centerX),
+      times,
+      timeXs,
+    };
+  }
+
+  private readClef(node: Node, staff: StaffGeometry): ScoreClef {
+    const sign = CLEF_SIGNS[node.className];
+
+    let line = DEFAULT_CLEF_LINES[sign];
+    for (const child of this.children(node)) {
+      const index = staff.lineNodeIds.indexOf(child.id);
+      if (index !== -1) line = index + 1;
+    }
+
+    let octaveChange = 0;
+    for (const other of [...this.children(node), ...this.parents(node)]) {
+      const octaves =
+        other.className === "clef8" ? 1 : other.className === "clef15" ? 2 : 0;
+      if (octaves === 0) continue;
+      octaveChange = centerY(other) > centerY(node) ? -octaves : octaves;
+    }
+
+    return { nodeId: node.id, sign, line, octaveChange };
+  }
+
+  private readKeySignature(node: Node): ScoreKey {
+    let fifths = 0;
+    for (const child of this.children(node)) {
+      if (child.className === "accidentalSharp") fifths += 1;
+      if (child.className === "accidentalFlat") fifths -= 1;
+    }
+    return { nodeId: node.id, fifths };
+  }
+
+  private readTimeSignature(node: Node): ScoreTime | null {
+    const children = this.children(node);
+
+    if (children.some((c) => c.className === "timeSigCommon")) {
+      return { nodeId: node.id, beats: "4", beatType: "4", symbol: "common" };
+    }
+    if (children.some((c) => c.className === "timeSigCutCommon")) {
+      return { nodeId: node.id, beats: "2", beatType: "2", symbol: "cut" };
+    }
+
+    const digits = children
+      .filter((c) => /^timeSig[0-9]$/.test(c.className))
+      .sort((a, b) => centerX(a) - centerX(b));
+    const middle = centerY(node);
+    const upper = digits.filter((d) => centerY(d) < middle);
+    const lower = digits.filter((d) => centerY(d) >= middle);
+    const toNumber = (ds: Node[]) =>
+      ds.map((d) => d.className.substring("timeSig".length)).join("");
+
+    if (upper.length === 0 || lower.length === 0) {
+      this.issues.push({
+        nodeId: node.id,
+        className: node.className,
+        message: "The time signature could not be read, it is not exported.",
+      });
+      return null;
+    }
+
+    return {
+      nodeId: node.id,
+      beats: toNumber(upper),
+      beatType: toNumber(lower),
+      symbol: null,
+    };
+  }
+
+  /////////////
+  // Events //
+  /////////////
+
+  private collectEvents(stavesById: Map<number, StaffGeometry>): RawEvent[] {
+    const noteheadQuarters: Record<string, number> = {
+      ...NOTEHEAD_QUARTERS,
+      ...(this.options.includeImpliedNotes ? IMPLIED_NOTEHEAD_QUARTERS : {}),
+    };
+
+    // noteheads sharing a stem form a chord
+    const chords = new Map<
+      string,
+      { staff: StaffGeometry; noteheads: Node[] }
+    >();
+    const events: RawEvent[] = [];
+
+    for (const node of this.mung.nodes) {
+      const isNotehead = node.className in noteheadQuarters;
+      const isRest = node.className in REST_QUARTERS;
+      if (!isNotehead && !isRest) continue;
+
+      const staff = this.findStaff(node, stavesById);
+      if (staff === null) continue;
+
+      if (isRest) {
+        events.push(this.buildRawEvent([node], staff, true));
+        continue;
+      }
+
+      const stem = this.children(node).find((c) => c.className === "stem");
+      const chordKey =
+        stem === undefined
+          ? `notehead-${node.id}`
+          : `stem-${stem.id}-staff-${staff.staff.id}`;
+      if (!chords.has(chordKey)) chords.set(chordKey, { staff, noteheads: [] });
+      chords.get(chordKey)!.noteheads.push(node);
+    }
+
+    for (const { staff, noteheads } of chords.values()) {
+      events.push(this.buildRawEvent(noteheads, staff, false));
+    }
+
+    return this.mergeStemlessChords(events);
+  }
+
+  /**
+   * Stemless noteheads (e.g. whole notes) that are stacked above each other
+   * with the same duration are merged into chords
+   */
+  private mergeStemlessChords(events: RawEvent[]): RawEvent[] {
+    const result: RawEvent[] = [];
+    for (const event of events) {
+      const canMerge = (other: RawEvent) =>
+        !other.isRest &&
+        !event.isRest &&
+        other.stemNodeIds.length === 0 &&
+        event.stemNodeIds.length === 0 &&
+        other.staff === event.staff &&
+        other.isGrace === event.isGrace &&
+        other.duration.quarters === event.duration.quarters &&
+        overlapRatio(other, event) > 0.5 &&
+        !this.arePrecedenceLinked(other, event);
+      const index = result.findIndex(canMerge);
+      if (index === -1) {
+        result.push(event);
+        continue;
+      }
+      const other = result[index];
+      result[index] = {
+        ...other,
+        nodes: [...other.nodes, ...event.nodes],
+        left: Math.min(other.left, event.left),
+        right: Math.max(other.right, event.right),
+        y: (other.y + event.y) / 2,
+      };
+    }
+    return result;
+  }
+
+  private buildRawEvent(
+    nodes: Node[],
+    staff: StaffGeometry,
+    isRest: boolean,
+  ): RawEvent {
+    const left = Math.min(...nodes.map((n) => n.left));
+    const right = Math.max(...nodes.map((n) => n.left + n.width));
+    const stemNodeIds = new Set<number>();
+    for (const node of nodes) {
+      for (const child of this.children(node)) {
+        if (child.className.startsWith("stem")) stemNodeIds.add(child.id);
+      }
+    }
+
+    return {
+      nodes,
+      isRest,
+      isGrace: !isRest && GRACE_NOTEHEADS.has(nodes[0].className),
+      staff,
+      x: (left + right) / 2,
+      y: nodes.reduce((sum, n) => sum + centerY(n), 0) / nodes.length,
+      left,
+      right,
+      duration: this.computeDuration(nodes, isRest),
+      stemNodeIds: [...stemNodeIds],
+    };
+  }
+
+  private computeDuration(nodes: Node[], isRest: boolean): ScoreDuration {
+    const first = nodes[0];
+    let quarters =
+      REST_QUARTERS[first.className] ??
+      NOTEHEAD_QUARTERS[first.className] ??
+      IMPLIED_NOTEHEAD_QUARTERS[first.className];
+
+    // flags and beams shorten the note
+    if (!isRest) {
+      let level = 0;
+      for (const node of nodes) {
+        const children = this.children(node);
+        const beams = children.filter((c) => c.className === "beam").length;
+        level = Math.max(level, beams);
+        for (const child of children) {
+          level = Math.max(level, FLAG_LEVELS[child.className] ?? 0);
+        }
+      }
+      quarters = quarters / Math.pow(2, level);
+    }
+
+    let dots = 0;
+    for (const node of nodes) {
+      const nodeDots = this.children(node).filter(
+        (c) => c.className === "augmentationDot",
+      ).length;
+      dots = Math.max(dots, nodeDots);
+    }
+
+    const type = quartersToNoteType(quarters);
+    const isGrace = !isRest && GRACE_NOTEHEADS.has(first.className);
+
+    return {
+      type,
+      dots,
+      quarters: isGrace ? 0 : quarters * (2 - Math.pow(2, -dots)),
+    };
+  }
+
+  /**
+   * Finds the staff of a notehead or a rest, by its syntax link,
+   * or by its position when the link is missing
+   */
+  private findStaff(
+    node: Node,
+    stavesById: Map<number, StaffGeometry>,
+  ): StaffGeometry | null {
+    for (const id of node.syntaxOutlinks) {
+      const staff = stavesById.get(id);
+      if (staff !== undefined) return staff;
+    }
+
+    // the nearest staff vertically, overlapping horizontally
+    let best: StaffGeometry | null = null;
+    let bestDistance = Infinity;
+    for (const staff of stavesById.values()) {
+      const s = staff.staff;
+      if (node.left + node.width < s.left || node.left > s.left + s.width)
+        continue;
+      const distance = Math.abs(centerY(node) - centerY(s));
+      const reach = s.height / 2 + staff.halfSpace * 8;
+      if (distance <= reach && distance < bestDistance) {
+        best = staff;
+        bestDistance = distance;
+      }
+    }
+
+    this.issues.push({
+      nodeId: node.id,
+      className: node.className,
+      message:
+        best === null
+          ? "Not linked to a staff and no staff is nearby, left out."
+          : `Not linked to a staff, assigned to staff ${best.staff.id} ` +
+            `by its position.`,
+    });
+    return best;
+  }
+
+  private arePrecedenceLinked(a: RawEvent, b: RawEvent): boolean {
+    const bIds = new Set(b.nodes.map((n) => n.id));
+    return a.nodes.some(
+      (n) =>
+        n.precedenceOutlinks.some((id) => bIds.has(id)) ||
+        n.precedenceInlinks.some((id) => bIds.has(id)),
+    );
+  }
+
+  /////////////////////////
+  // Measures & voices //
+  /////////////////////////
+
+  private emptyMeasure(number: number, isNewSystem: boolean): ScoreMeasure {
+    return {
+      number,
+      clef: number === 1 ? DEFAULT_CLEF : null,
+      key: null,
+      time: null,
+      events: [],
+      isNewSystem,
+      measureSeparatorId: null,
+    };
+  }
+
+  private buildMeasureEvents(
+    rawEvents: RawEvent[],
+    attributes: StaffAttributes,
+    measureClef: ScoreClef,
+    measureKey: ScoreKey | null,
+  ): ScoreEvent[] {
+    const voices = this.separateVoices(rawEvents);
+
+    // accidentals hold until the end of the measure
+    const measureAlters = new Map<string, number>();
+
+    const events: ScoreEvent[] = [];
+    const allInOrder = voices
+      .flatMap((voice, v) => voice.map((e) => ({ event: e, voice: v + 1 })))
+      .sort((a, b) => a.event.x - b.event.x);
+
+    const built = new Map<RawEvent, ScoreEvent>();
+    for (const { event, voice } of allInOrder) {
+      const clef =
+        lastBefore(attributes.clefs, attributes.clefXs, event.x) ?? measureClef;
+      const key =
+        lastBefore(attributes.keys, attributes.keyXs, event.x) ?? measureKey;
+
+      const notes: ScoreNote[] = event.isRest
+        ? []
+        : event.nodes
+            .map((n) =>
+              this.buildNote(n, event.staff, clef, key, measureAlters),
+            )
+            .sort(
+              (a, b) => pitchToDiatonic(a.pitch) - pitchToDiatonic(b.pitch),
+            );
+
+      built.set(event, {
+        nodeIds: event.isRest
+          ? event.nodes.map((n) => n.id)
+          : notes.map((n) => n.nodeId),
+        isRest: event.isRest,
+        isGrace: event.isGrace,
+        notes,
+        duration: event.duration,
+        voice,
+        x: event.x,
+        staffNodeId: event.staff.staff.id,
+        stemNodeIds: event.stemNodeIds,
+      });
+    }
+
+    voices.forEach((voice) => {
+      for (const event of voice) events.push(built.get(event)!);
+    });
+    return events;
+  }
+
+  /**
+   * Splits events of one staff in one measure into voices.
+   * An event continues the voice whose last event precedes it via
+   * a precedence link. Otherwise it continues the first voice whose
+   * last event does not overlap with it horizontally and is not
+   * waiting for its precedence successor.
+   */
+  private separateVoices(rawEvents: RawEvent[]): RawEvent[][] {
+    const sorted = [...rawEvents].sort((a, b) => a.x - b.x);
+    const voices: RawEvent[][] = [];
+
+    for (const event of sorted) {
+      const linked = voices.find((voice) =>
+        this.precedes(voice[voice.length - 1], event),
+      );
+      if (linked !== undefined) {
+        linked.push(event);
+        continue;
+      }
+
+      const hasPredecessor = sorted.some(
+        (other) => other !== event && this.precedes(other, event),
+      );
+      const hasSuccessor = (last: RawEvent) =>
+        sorted.some((other) => this.precedes(last, other));
+      const free = hasPredecessor
+        ? undefined
+        : voices.find(
+            (voice) =>
+              overlapRatio(voice[voice.length - 1], event) === 0 &&
+              !hasSuccessor(voice[voice.length - 1]),
+          );
+      if (free !== undefined) {
+        free.push(event);
+        continue;
+      }
+
+      voices.push([event]);
+    }
+
+    // upper voices first
+    const meanY = (voice: RawEvent[]) =>
+      voice.reduce((sum, e) => sum + e.y, 0) / voice.length;
+    return voices.sort((a, b) => meanY(a) - meanY(b));
+  }
+
+  private precedes(a: RawEvent, b: RawEvent): boolean {
+    const bIds = new Set(b.nodes.map((n) => n.id));
+    return a.nodes.some((n) => n.precedenceOutlinks.some((id) => bIds.has(id)));
+  }
+
+  private buildNote(
+    notehead: Node,
+    staff: StaffGeometry,
+    clef: ScoreClef,
+    key: ScoreKey | null,
+    measureAlters: Map<string, number>,
+  ): ScoreNote {
+    const children = this.children(notehead);
+
+    // the staffline/staffspace the notehead is linked to is more precise
+    const positionNode =
+      children.find(
+        (c) => c.className === "staffLine" || c.className === "staffSpace",
+      ) ?? notehead;
+    const position = Math.round(
+      (staff.bottomLineY - centerY(positionNode)) / staff.halfSpace,
+    );
+
+    const clefLinePosition = 2 * (clef.line - 1);
+    const diatonic =
+      CLEF_REFERENCE_PITCHES[clef.sign] +
+      position -
+      clefLinePosition +
+      7 * clef.octaveChange;
+    const step = STEPS[((diatonic % 7) + 7) % 7];
+    const octave = Math.floor(diatonic / 7);
+
+    const accidentalNode = children.find(
+      (c) => c.className in ACCIDENTAL_ALTERS,
+    );
+    const accidental =
+      accidentalNode === undefined
+        ? null
+        : ACCIDENTAL_ALTERS[accidentalNode.className];
+
+    const alterKey = `${step}${octave}`;
+    if (accidental !== null) measureAlters.set(alterKey, accidental);
+    const alter = measureAlters.get(alterKey) ?? keyAlter(step, key);
+
+    // ties
+    let tieStart = false;
+    let tieStop = false;
+    for (const tie of children.filter((c) => c.className === "tie")) {
+      const tiedNoteheads = this.parents(tie).filter(
+        (p) => p.id !== notehead.id && p.className in NOTEHEAD_QUARTERS,
+      );
+      const otherX =
+        tiedNoteheads.length > 0 ? centerX(tiedNoteheads[0]) : centerX(tie);
+      if (centerX(notehead) < otherX) tieStart = true;
+      else tieStop = true;
+    }
+
+    return {
+      nodeId: notehead.id,
+      pitch: { step, octave, alter },
+      accidental,
+      tieStart,
+      tieStop,
+    };
+  }
+
+  //////////////
+  // Helpers //
+  //////////////
+
+  private children(node: Node): Node[] {
+    const result: Node[] = [];
+    for (const id of node.syntaxOutlinks) {
+      const child = this.nodesById.get(id);
+      if (child !== undefined) result.push(child);
+    }
+    return result;
+  }
+
+  private parents(node: Node): Node[] {
+    const result: Node[] = [];
+    for (const id of node.syntaxInlinks) {
+      const parent = this.nodesById.get(id);
+      if (parent !== undefined) result.push(parent);
+    }
+    return result;
+  }
+}
+
+const DEFAULT_CLEF: ScoreClef = {
+  nodeId: -1,
+  sign: "G",
+  line: 2,
+  octaveChange: 0,
+};
+
+function centerX(node: Node): number {
+  return node.left + node.width / 2;
+}
+
+function centerY(node: Node): number {
+  return node.top + node.height / 2;
+}
+
+function overlapRatio(a: RawEvent, b: RawEvent): number {
+  const overlap = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+  if (overlap <= 0) return 0;
+  return overlap / Math.min(a.right - a.left, b.right - b.left);
+}
+
+/**
+ * Index of the measure bin the position falls into
+ */
+function binIndex(boundaries: number[], x: number): number {
+  let index = 0;
+  while (index < boundaries.length && boundaries[index] <= x) index++;
+  return index;
+}
+
+/**
+ * The last item whose position is before the given one
+ */
+function lastBefore<T>(items: T[], xs: number[], x: number): T | null {
+  let result: T | null = null;
+  for (let i = 0; i < items.length; i++) {
+    if (xs[i] < x) result = items[i];
+  }
+  return result;
+}
+
+function quartersToNoteType(quarters: number): ScoreNoteType {
+  let best = NOTE_TYPES_BY_QUARTERS[0];
+  for (const entry of NOTE_TYPES_BY_QUARTERS) {
+    if (Math.abs(entry[0] - quarters) < Math.abs(best[0] - quarters)) {
+      best = entry;
+    }
+  }
+  return best[1];
+}
+
+function keyAlter(step: ScoreStep, key: ScoreKey | null): number {
+  if (key === null) return 0;
+  if (key.fifths > 0 && SHARPS_ORDER.indexOf(step) < key.fifths) return 1;
+  if (key.fifths < 0 && FLATS_ORDER.indexOf(step) < -key.fifths) return -1;
+  return 0;
+}
+
+/**
+ * Converts a pitch into the number of diatonic steps from C0
+ */
+export function pitchToDiatonic(pitch: ScorePitch): number {
+  return pitch.octave * 7 + STEPS.indexOf(pitch.step);
+}
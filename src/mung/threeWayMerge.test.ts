@@ -0,0 +1,147 @@
+import { describe, expect, test } from "vitest";
+import { MungFile } from "./MungFile";
+import { Node } from "./Node";
+import { resolveMungMerge, threeWayMerge } from "./threeWayMerge";
+
+function createNode(id: number, fields: Partial<Node> = {}): Node {
+  return {
+    id,
+    className: "noteheadFull",
+    top: 10 * id,
+    left: 10 * id,
+    width: 8,
+    height: 8,
+    syntaxOutlinks: [],
+    syntaxInlinks: [],
+    precedenceOutlinks: [],
+    precedenceInlinks: [],
+    decodedMask: null,
+    textTranscription: null,
+    data: {},
+    polygon: null,
+    ...fields,
+  };
+}
+
+function createFile(nodes: Node[]): MungFile {
+  return { metadata: { dataset: "test", document: "test" }, nodes };
+}
+
+function getNodeById(nodes: readonly Node[], id: number): Node | undefined {
+  return nodes.find((node) => node.id === id);
+}
+
+describe("threeWayMerge", () => {
+  test("combines changes of different field groups", () => {
+    const ancestor = createFile([createNode(1)]);
+    const ours = createFile([createNode(1, { className: "noteheadHalf" })]);
+    const theirs = createFile([createNode(1, { top: 50 })]);
+
+    const merge = threeWayMerge(ancestor, ours, theirs);
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.nodes).toHaveLength(1);
+    expect(merge.nodes[0].className).toBe("noteheadHalf");
+    expect(merge.nodes[0].top).toBe(50);
+  });
+
+  test("reports different changes of the same field group", () => {
+    const ancestor = createFile([createNode(1)]);
+    const ours = createFile([createNode(1, { className: "noteheadHalf" })]);
+    const theirs = createFile([createNode(1, { className: "noteheadWhole" })]);
+
+    const merge = threeWayMerge(ancestor, ours, theirs);
+    expect(merge.nodes).toEqual([]);
+    expect(merge.conflicts).toHaveLength(1);
+    expect(merge.conflicts[0].fields).toEqual(["className"]);
+
+    const unresolved = resolveMungMerge(merge, new Map());
+    expect(unresolved[0].className).toBe("noteheadHalf");
+    const resolved = resolveMungMerge(merge, new Map([[1, "theirs"]]));
+    expect(resolved[0].className).toBe("noteheadWhole");
+  });
+
+  test("the same change in both versions is not a conflict", () => {
+    const ancestor = createFile([createNode(1)]);
+    const ours = createFile([createNode(1, { className: "noteheadHalf" })]);
+    const theirs = createFile([createNode(1, { className: "noteheadHalf" })]);
+
+    const merge = threeWayMerge(ancestor, ours, theirs);
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.nodes[0].className).toBe("noteheadHalf");
+  });
+
+  test("reports a node removed by one version and changed by the other", () => {
+    const ancestor = createFile([createNode(1), createNode(2)]);
+    const ours = createFile([createNode(2)]);
+    const theirs = createFile([
+      createNode(1, { className: "noteheadHalf" }),
+      createNode(2),
+    ]);
+
+    const merge = threeWayMerge(ancestor, ours, theirs);
+    expect(merge.conflicts).toHaveLength(1);
+    const conflict = merge.conflicts[0];
+    expect(conflict.nodeId).toBe(1);
+    expect(conflict.ours).toBeNull();
+    expect(conflict.theirs?.className).toBe("noteheadHalf");
+    expect(conflict.fields).toEqual([]);
+
+    const keptRemoval = resolveMungMerge(merge, new Map());
+    expect(getNodeById(keptRemoval, 1)).toBeUndefined();
+    const keptChange = resolveMungMerge(merge, new Map([[1, "theirs"]]));
+    expect(getNodeById(keptChange, 1)?.className).toBe("noteheadHalf");
+  });
+
+  test("removes a node removed by one version and untouched by the other", () => {
+    const ancestor = createFile([createNode(1), createNode(2)]);
+    const ours = createFile([createNode(2)]);
+    const theirs = createFile([createNode(1), createNode(2)]);
+
+    const merge = threeWayMerge(ancestor, ours, theirs);
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.nodes.map((node) => node.id)).toEqual([2]);
+  });
+
+  test("matches nodes both versions added by their overlap", () => {
+    const box = { top: 100, width: 40, height: 40 };
+    const ancestor = createFile([createNode(1)]);
+    const ours = createFile([
+      createNode(1, { syntaxOutlinks: [5] }),
+      createNode(5, { ...box, left: 100, syntaxInlinks: [1] }),
+    ]);
+    const theirs = createFile([
+      createNode(1, { syntaxOutlinks: [7] }),
+      createNode(7, { ...box, left: 102, syntaxInlinks: [1] }),
+    ]);
+
+    const merge = threeWayMerge(ancestor, ours, theirs);
+    expect(merge.overlapMatchCount).toBe(1);
+    expect(merge.renumberedCount).toBe(0);
+    expect(merge.nodes.map((node) => node.id)).toEqual([1]);
+
+    // their copy of the added node conflicts with ours, under our ID
+    expect(merge.conflicts).toHaveLength(1);
+    expect(merge.conflicts[0].nodeId).toBe(5);
+    expect(merge.conflicts[0].fields).toEqual(["geometry"]);
+
+    // their link points to our node, so it is not duplicated
+    const nodes = resolveMungMerge(merge, new Map());
+    expect(getNodeById(nodes, 1)?.syntaxOutlinks).toEqual([5]);
+  });
+
+  test("keeps nodes both versions added apart, renumbering theirs", () => {
+    const ancestor = createFile([createNode(1)]);
+    const ours = createFile([createNode(1), createNode(5, { top: 100 })]);
+    const theirs = createFile([createNode(1), createNode(5, { top: 300 })]);
+
+    const merge = threeWayMerge(ancestor, ours, theirs);
+    expect(merge.overlapMatchCount).toBe(0);
+    expect(merge.renumberedCount).toBe(1);
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.nodes.map((node) => [node.id, node.top])).toEqual([
+      [1, 10],
+      [5, 100],
+      [6, 300],
+    ]);
+  });
+});
@@ -0,0 +1,455 @@
+import { areMasksEqual } from "./diffMungFiles";
+import { getLinkId } from "./getLinkId";
+import { Link } from "./Link";
+import { LinkType } from "./LinkType";
+import { MungFile } from "./MungFile";
+import { Node } from "./Node";
+import {
+  areDataItemsChanged,
+  getNodeAttribution,
+  mergeNodeAttribution,
+  setNodeAttribution,
+} from "./NodeAttribution";
+
+/**
+ * Groups of node fields that are merged independently
+ */
+export type MergeFieldGroup =
+  | "className"
+  | "geometry"
+  | "textTranscription"
+  | "data";
+
+const MERGE_FIELD_GROUPS: readonly MergeFieldGroup[] = [
+  "className",
+  "geometry",
+  "textTranscription",
+  "data",
+];
+
+/**
+ * Which of the two merged versions wins a conflict
+ */
+export type MergeSide = "ours" | "theirs";
+
+/**
+ * A node changed differently in the two merged versions
+ */
+export interface MergeConflict {
+  /**
+   * ID of the node in the merged document
+   */
+  readonly nodeId: number;
+
+  /**
+   * The node in the common ancestor, null if both versions added it
+   */
+  readonly ancestor: Node | null;
+
+  /**
+   * The node if our version wins, null when our version removed it
+   * (links are not filled in)
+   */
+  readonly ours: Node | null;
+
+  /**
+   * The node if their version wins, null when their version removed it
+   * (links are not filled in)
+   */
+  readonly theirs: Node | null;
+
+  /**
+   * Field groups changed by both versions to different values,
+   * empty when one version removed the node and the other changed it
+   */
+  readonly fields: readonly MergeFieldGroup[];
+}
+
+/**
+ * Result of a three-way merge, the conflicts still have to be resolved
+ * before the merged nodes can be built, see resolveMungMerge
+ */
+export interface MungMerge {
+  /**
+   * Nodes merged without conflicts (links are not filled in)
+   */
+  readonly nodes: readonly Node[];
+
+  readonly conflicts: readonly MergeConflict[];
+
+  /**
+   * Merged links, IDs refer to the merged document
+   */
+  readonly links: readonly Link[];
+
+  /**
+   * Nodes added by their version that were matched to nodes added
+   * by our version by the overlap of their bounding boxes
+   */
+  readonly overlapMatchCount: number;
+
+  /**
+   * Nodes added by their version that got a new ID, since our version
+   * used the ID for another node
+   */
+  readonly renumberedCount: number;
+}
+
+export interface ThreeWayMergeOptions {
+  /**
+   * Minimal intersection over union of the bounding boxes of two nodes
+   * of the same class added independently by both versions, for them
+   * to be considered the same node
+   */
+  readonly iouThreshold?: number;
+}
+
+/**
+ * Merges two versions of a document derived from a common ancestor.
+ * Nodes are matched by their IDs and nodes added by both versions also
+ * by the overlap of their bounding boxes. Changes of different field
+ * groups of a node are combined, changes of the same group to different
+ * values are reported as conflicts. Links are merged as sets, a link
+ * is kept unless one of the versions removed it.
+ */
+export function threeWayMerge(
+  ancestor: MungFile,
+  ours: MungFile,
+  theirs: MungFile,
+  options: ThreeWayMergeOptions = {},
+): MungMerge {
+  const iouThreshold = options.iouThreshold ?? 0.8;
+
+  const ancestorNodes = new Map(ancestor.nodes.map((n) => [n.id, n]));
+  const ourNodes = new Map(ours.nodes.map((n) => [n.id, n]));
+
+  // === map their node IDs to the merged document ===
+
+  const theirIdMap = new Map<number, number>();
+  const usedIds = new Set<number>([
+    ...ancestorNodes.keys(),
+    ...ourNodes.keys(),
+  ]);
+  const ourAddedNodes = ours.nodes.filter((n) => !ancestorNodes.has(n.id));
+  const matchedOurIds = new Set<number>();
+  let overlapMatchCount = 0;
+  let renumberedCount = 0;
+  let nextFreeId = -1;
+  for (const node of [...ancestor.nodes, ...ours.nodes, ...theirs.nodes]) {
+    nextFreeId = Math.max(nextFreeId, node.id);
+  }
+
+  for (const node of theirs.nodes) {
+    if (ancestorNodes.has(node.id)) {
+      theirIdMap.set(node.id, node.id);
+      continue;
+    }
+
+    // added by both versions with the same ID
+    const sameIdNode = ourNodes.get(node.id);
+    if (
+      sameIdNode !== undefined &&
+      !matchedOurIds.has(node.id) &&
+      isSameSymbol(sameIdNode, node, iouThreshold)
+    ) {
+      theirIdMap.set(node.id, node.id);
+      matchedOurIds.add(node.id);
+      continue;
+    }
+
+    // added by both versions with different IDs
+    const overlappingNode = findBestOverlap(
+      node,
+      ourAddedNodes.filter((n) => !matchedOurIds.has(n.id)),
+      iouThreshold,
+    );
+    if (overlappingNode !== null) {
+      theirIdMap.set(node.id, overlappingNode.id);
+      matchedOurIds.add(overlappingNode.id);
+      overlapMatchCount += 1;
+      continue;
+    }
+
+    // added by their version only
+    if (usedIds.has(node.id)) {
+      nextFreeId += 1;
+      theirIdMap.set(node.id, nextFreeId);
+      renumberedCount += 1;
+    } else {
+      theirIdMap.set(node.id, node.id);
+    }
+    usedIds.add(theirIdMap.get(node.id)!);
+  }
+
+  const theirNodes = new Map<number, Node>();
+  for (const node of theirs.nodes) {
+    const id = theirIdMap.get(node.id)!;
+    theirNodes.set(id, { ...node, id });
+  }
+
+  // === merge nodes ===
+
+  const nodes: Node[] = [];
+  const conflicts: MergeConflict[] = [];
+  const allIds = new Set([
+    ...ancestorNodes.keys(),
+    ...ourNodes.keys(),
+    ...theirNodes.keys(),
+  ]);
+  for (const id of [...allIds].sort((a, b) => a - b)) {
+    const base = ancestorNodes.get(id) ?? null;
+    const ourNode = ourNodes.get(id) ?? null;
+    const theirNode = theirNodes.get(id) ?? null;
+
+    if (ourNode !== null && theirNode !== null) {
+      const merged = mergeNode(base, ourNode, theirNode);
+      if (merged.fields.length === 0) {
+        nodes.push(merged.ours);
+      } else {
+        conflicts.push({
+          nodeId: id,
+          ancestor: base,
+          ours: merged.ours,
+          theirs: merged.theirs,
+          fields: merged.fields,
+        });
+      }
+      continue;
+    }
+
+    const keptNode = ourNode ?? theirNode;
+    if (keptNode === null) continue; // removed by both
+    if (base === null) {
+      nodes.push(keptNode); // added by one version
+      continue;
+    }
+    if (getChangedGroups(base, keptNode).length === 0) {
+      continue; // removed by one version, untouched by the other
+    }
+    conflicts.push({
+      nodeId: id,
+      ancestor: base,
+      ours: ourNode,
+      theirs: theirNode,
+      fields: [],
+    });
+  }
+
+  // === merge links ===
+
+  const ancestorLinks = collectLinks(ancestor.nodes, (id) => id);
+  const ourLinks = collectLinks(ours.nodes, (id) => id);
+  const theirLinks = collectLinks(theirs.nodes, (id) => theirIdMap.get(id));
+  const links = new Map<string, Link>();
+  for (const [linkId, link] of [...ourLinks, ...theirLinks]) {
+    const isInBoth = ourLinks.has(linkId) && theirLinks.has(linkId);
+    if (isInBoth || !ancestorLinks.has(linkId)) {
+      links.set(linkId, link);
+    }
+  }
+
+  return {
+    nodes,
+    conflicts,
+    links: [...links.values()],
+    overlapMatchCount,
+    renumberedCount,
+  };
+}
+
+/**
+ * Builds the nodes of the merged document, conflicts without
+ * a resolution are won by our version. Links to removed nodes are dropped.
+ */
+export function resolveMungMerge(
+  merge: MungMerge,
+  resolutions: ReadonlyMap<number, MergeSide>,
+): Node[] {
+  const nodes = new Map<number, Node>();
+  for (const node of merge.nodes) {
+    nodes.set(node.id, withoutLinks(node));
+  }
+  for (const conflict of merge.conflicts) {
+    const side = resolutions.get(conflict.nodeId) ?? "ours";
+    const node = side === "ours" ? conflict.ours : conflict.theirs;
+    if (node !== null) nodes.set(node.id, withoutLinks(node));
+  }
+
+  for (const link of merge.links) {
+    const fromNode = nodes.get(link.fromId);
+    const toNode = nodes.get(link.toId);
+    if (fromNode === undefined || toNode === undefined) continue;
+    if (link.type === LinkType.Syntax) {
+      fromNode.syntaxOutlinks.push(link.toId);
+      toNode.syntaxInlinks.push(link.fromId);
+    } else {
+      fromNode.precedenceOutlinks.push(link.toId);
+      toNode.precedenceInlinks.push(link.fromId);
+    }
+  }
+
+  return [...nodes.values()];
+}
+
+/**
+ * Merges two versions of a node field group by field group, returns
+ * the node as won by each side and the conflicting groups
+ */
+function mergeNode(
+  base: Node | null,
+  ourNode: Node,
+  theirNode: Node,
+): { ours: Node; theirs: Node; fields: MergeFieldGroup[] } {
+  let merged: Node = ourNode;
+  const fields: MergeFieldGroup[] = [];
+  for (const group of getChangedGroups(ourNode, theirNode)) {
+    const isChangedByUs =
+      base === null || getChangedGroups(base, ourNode).includes(group);
+    const isChangedByThem =
+      base === null || getChangedGroups(base, theirNode).includes(group);
+    if (isChangedByUs && isChangedByThem) {
+      fields.push(group);
+    } else if (isChangedByThem) {
+      merged = copyGroup(merged, theirNode, group);
+    }
+  }
+
+  // both sides keep the latest attribution
+  const attribution = mergeNodeAttribution(
+    getNodeAttribution(ourNode.data),
+    getNodeAttribution(theirNode.data),
+  );
+  const withAttribution = (node: Node): Node => ({
+    ...node,
+    data: setNodeAttribution(node.data, attribution),
+  });
+
+  let theirMerged = merged;
+  for (const group of fields) {
+    theirMerged = copyGroup(theirMerged, theirNode, group);
+  }
+  return {
+    ours: withAttribution(merged),
+    theirs: withAttribution(theirMerged),
+    fields,
+  };
+}
+
+function getChangedGroups(a: Node, b: Node): MergeFieldGroup[] {
+  return MERGE_FIELD_GROUPS.filter((group) => {
+    switch (group) {
+      case "className":
+        return a.className !== b.className;
+      case "geometry":
+        return (
+          a.top !== b.top ||
+          a.left !== b.left ||
+          a.width !== b.width ||
+          a.height !== b.height ||
+          !areMasksEqual(a.decodedMask, b.decodedMask) ||
+          JSON.stringify(a.polygon) !== JSON.stringify(b.polygon)
+        );
+      case "textTranscription":
+        return a.textTranscription !== b.textTranscription;
+      case "data":
+        return (
+          areDataItemsChanged(a.data, b.data) ||
+          JSON.stringify(a.extraXml ?? []) !== JSON.stringify(b.extraXml ?? [])
+        );
+    }
+  });
+}
+
+function copyGroup(target: Node, source: Node, group: MergeFieldGroup): Node {
+  switch (group) {
+    case "className":
+      return { ...target, className: source.className };
+    case "geometry":
+      return {
+        ...target,
+        top: source.top,
+        left: source.left,
+        width: source.width,
+        height: source.height,
+        decodedMask: source.decodedMask,
+        polygon: source.polygon,
+      };
+    case "textTranscription":
+      return { ...target, textTranscription: source.textTranscription };
+    case "data":
+      return { ...target, data: source.data, extraXml: source.extraXml };
+  }
+}
+
+function isSameSymbol(a: Node, b: Node, iouThreshold: number): boolean {
+  return a.className === b.className && getIoU(a, b) >= iouThreshold;
+}
+
+function findBestOverlap(
+  node: Node,
+  candidates: readonly Node[],
+  iouThreshold: number,
+): Node | null {
+  let bestNode: Node | null = null;
+  let bestIoU = iouThreshold;
+  for (const candidate of candidates) {
+    if (candidate.className !== node.className) continue;
+    const iou = getIoU(node, candidate);
+    if (iou >= bestIoU) {
+      bestNode = candidate;
+      bestIoU = iou;
+    }
+  }
+  return bestNode;
+}
+
+/**
+ * Intersection over union of the bounding boxes of two nodes
+ */
+function getIoU(a: Node, b: Node): number {
+  const width =
+    Math.min(a.left + a.width, b.left + b.width) - Math.max(a.left, b.left);
+  const height =
+    Math.min(a.top + a.height, b.top + b.height) - Math.max(a.top, b.top);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return (
+    intersection / (a.width * a.height + b.width * b.height - intersection)
+  );
+}
+
+/**
+ * Lists the links of a version by their IDs, node IDs are mapped
+ * to the merged document (links to unknown nodes are skipped)
+ */
+function collectLinks(
+  nodes: readonly Node[],
+  mapId: (id: number) => number | undefined,
+): Map<string, Link> {
+  const links = new Map<string, Link>();
+  for (const node of nodes) {
+    const outlinks: [LinkType, readonly number[]][] = [
+      [LinkType.Syntax, node.syntaxOutlinks],
+      [LinkType.Precedence, node.precedenceOutlinks],
+    ];
+    for (const [type, toIds] of outlinks) {
+      const fromId = mapId(node.id);
+      for (const toId of toIds.map(mapId)) {
+        if (fromId === undefined || toId === undefined) continue;
+        const link: Link = { fromId, toId, type };
+        links.set(getLinkId(link), link);
+      }
+    }
+  }
+  return links;
+}
+
+function withoutLinks(node: Node): Node {
+  return {
+    ...node,
+    syntaxOutlinks: [],
+    syntaxInlinks: [],
+    precedenceOutlinks: [],
+    precedenceInlinks: [],
+  };
+}
@@ -0,0 +1,223 @@
+import { LinkType } from "../LinkType";
+
+/**
+ * Validation rules defined by annotators in JSON, without a code change.
+ * Codes of the rules must be in the 8xxx range. Example:
+ *
+ * {
+ *   "rules": [
+ *     { "code": 8001, "kind": "requiresTranscription",
+ *       "classes": ["keyAnalysis"] },
+ *     { "code": 8002, "kind": "requiresParent",
+ *       "classes": ["scaleDegreeMark"], "parents": ["numeral3", "numeral5"] },
+ *     { "code": 8003, "kind": "allowedLinks",
+ *       "from": ["keyAnalysis"], "to": ["staff"] },
+ *     { "code": 8004, "kind": "linkCount", "classes": ["beamStructural"],
+ *       "direction": "out", "targets": ["stemStructural"], "min": 2 }
+ *   ]
+ * }
+ */
+export interface DeclarativeRuleSet {
+  readonly rules: readonly DeclarativeRule[];
+}
+
+export type DeclarativeRule =
+  | RequiresTranscriptionRuleDefinition
+  | RequiresParentRuleDefinition
+  | AllowedLinksRuleDefinition
+  | LinkCountRuleDefinition;
+
+interface DeclarativeRuleBase {
+  readonly code: number;
+
+  /**
+   * Replaces the default issue message, "{node}" is substituted
+   * with the class name and ID of the node with the issue
+   */
+  readonly message?: string;
+}
+
+/**
+ * Nodes of the classes must have a text transcription
+ */
+export interface RequiresTranscriptionRuleDefinition
+  extends DeclarativeRuleBase {
+  readonly kind: "requiresTranscription";
+  readonly classes: readonly string[];
+}
+
+/**
+ * Nodes of the classes must have an inlink from a node of a parent class
+ */
+export interface RequiresParentRuleDefinition extends DeclarativeRuleBase {
+  readonly kind: "requiresParent";
+  readonly classes: readonly string[];
+  readonly parents: readonly string[];
+  readonly linkType?: LinkType;
+}
+
+/**
+ * Outlinks of nodes of the "from" classes may lead only to nodes
+ * of the "to" classes
+ */
+export interface AllowedLinksRuleDefinition extends DeclarativeRuleBase {
+  readonly kind: "allowedLinks";
+  readonly from: readonly string[];
+  readonly to: readonly string[];
+  readonly linkType?: LinkType;
+}
+
+/**
+ * Nodes of the classes must have between min and max links
+ * in the direction to (or from) nodes of the target classes
+ */
+export interface LinkCountRuleDefinition extends DeclarativeRuleBase {
+  readonly kind: "linkCount";
+  readonly classes: readonly string[];
+  readonly direction: "in" | "out";
+  readonly targets: readonly string[];
+  readonly min?: number;
+  readonly max?: number;
+  readonly linkType?: LinkType;
+}
+
+/**
+ * Checks the parsed JSON and returns it as a rule set,
+ * throws an error describing the first problem found
+ */
+export function parseDeclarativeRuleSet(value: unknown): DeclarativeRuleSet {
+  if (!isObject(value) || !Array.isArray(value.rules)) {
+    throw new Error('The rule set must be an object with a "rules" list.');
+  }
+  const codes = new Set<number>();
+  const rules = value.rules.map((item: unknown, index: number) => {
+    const where = `Rule ${index + 1}`;
+    const rule = parseRule(item, where);
+    if (codes.has(rule.code)) {
+      throw new Error(`${where}: the code ${rule.code} is used twice.`);
+    }
+    codes.add(rule.code);
+    return rule;
+  });
+  return { rules };
+}
+
+function parseRule(rule: unknown, where: string): DeclarativeRule {
+  if (!isObject(rule)) {
+    throw new Error(`${where} must be an object.`);
+  }
+  const code = rule.code;
+  if (
+    typeof code !== "number" ||
+    !Number.isInteger(code) ||
+    code < 8000 ||
+    code >= 9000
+  ) {
+    throw new Error(`${where}: "code" must be a number from 8000 to 8999.`);
+  }
+  const message = rule.message;
+  if (message !== undefined && typeof message !== "string") {
+    throw new Error(`${where}: "message" must be a string.`);
+  }
+  const linkType = rule.linkType;
+  if (
+    linkType !== undefined &&
+    linkType !== LinkType.Syntax &&
+    linkType !== LinkType.Precedence
+  ) {
+    throw new Error(`${where}: "linkType" must be "syntax" or "precedence".`);
+  }
+
+  switch (rule.kind) {
+    case "requiresTranscription":
+      return {
+        kind: "requiresTranscription",
+        code,
+        message,
+        classes: readClassNames(rule, "classes", where),
+      };
+    case "requiresParent":
+      return {
+        kind: "requiresParent",
+        code,
+        message,
+        classes: readClassNames(rule, "classes", where),
+        parents: readClassNames(rule, "parents", where),
+        linkType,
+      };
+    case "allowedLinks":
+      return {
+        kind: "allowedLinks",
+        code,
+        message,
+        from: readClassNames(rule, "from", where),
+        to: readClassNames(rule, "to", where),
+        linkType,
+      };
+    case "linkCount": {
+      const classes = readClassNames(rule, "classes", where);
+      const targets = readClassNames(rule, "targets", where);
+      const direction = rule.direction;
+      if (direction !== "in" && direction !== "out") {
+        throw new Error(`${where}: "direction" must be "in" or "out".`);
+      }
+      const min = readBound(rule, "min", where);
+      const max = readBound(rule, "max", where);
+      if (min === undefined && max === undefined) {
+        throw new Error(`${where}: "min" or "max" must be given.`);
+      }
+      return {
+        kind: "linkCount",
+        code,
+        message,
+        classes,
+        direction,
+        targets,
+        min,
+        max,
+        linkType,
+      };
+    }
+    default:
+      throw new Error(
+        `${where}: "kind" must be one of "requiresTranscription", ` +
+          `"requiresParent", "allowedLinks" or "linkCount".`,
+      );
+  }
+}
+
+function readClassNames(
+  rule: Record<string, unknown>,
+  field: string,
+  where: string,
+): string[] {
+  const value = rule[field];
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${where}: "${field}" must be a list of class names.`);
+  }
+  const classNames: string[] = [];
+  for (const item of value) {
+    if (typeof item !== "string") {
+      throw new Error(`${where}: "${field}" must be a list of class names.`);
+    }
+    classNames.push(item);
+  }
+  return classNames;
+}
+
+function readBound(
+  rule: Record<string, unknown>,
+  field: "min" | "max",
+  where: string,
+): number | undefined {
+  const value = rule[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${where}: "${field}" must be a whole number.`);
+  }
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
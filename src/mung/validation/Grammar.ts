@@ -0,0 +1,265 @@
+import { Link } from "../Link";
+
+/**
+ * Allowed number of links of a node, max is Infinity when unbounded
+ */
+export interface GrammarCardinality {
+  readonly min: number;
+  readonly max: number;
+}
+
+/**
+ * One side of a grammar rule is a list of tokens, each token is a single
+ * class name or an ANYOF(...) group of class names, optionally followed
+ * by a cardinality in curly braces
+ */
+export interface GrammarToken {
+  readonly classNames: readonly string[];
+
+  /**
+   * How many links each node of the token's classes must have to the nodes
+   * of the opposite side of the rule, null when the number is not restricted
+   */
+  readonly cardinality: GrammarCardinality | null;
+}
+
+/**
+ * One line of the grammar: "parents | children". Links are allowed
+ * from classes on the left to classes on the right.
+ */
+export interface GrammarRule {
+  /**
+   * The rule as written in the grammar
+   */
+  readonly text: string;
+
+  readonly parents: readonly GrammarToken[];
+  readonly children: readonly GrammarToken[];
+}
+
+/**
+ * A node, whose class is not in the alphabet
+ */
+export interface SymbolNotInAlphabetViolation {
+  readonly type: "SymbolNotInAlphabet";
+  readonly nodeId: number;
+  readonly className: string;
+}
+
+/**
+ * A link, that no rule of the grammar allows
+ */
+export interface EdgeNotInAlphabetViolation {
+  readonly type: "EdgeNotInAlphabet";
+  readonly fromId: number;
+  readonly fromClassName: string;
+  readonly toId: number;
+  readonly toClassName: string;
+}
+
+/**
+ * A node with more or less links than a rule allows
+ */
+export interface InvalidLinkCountViolation {
+  readonly type: "InvalidLinkCount";
+  readonly nodeId: number;
+  readonly className: string;
+  readonly linkCount: number;
+  readonly direction: "in" | "out";
+
+  /**
+   * Classes on the opposite side of the rule, the links are counted to them
+   */
+  readonly targetClassNames: readonly string[];
+
+  readonly rule: GrammarRule;
+  readonly cardinality: GrammarCardinality;
+}
+
+export type GrammarViolation =
+  | SymbolNotInAlphabetViolation
+  | EdgeNotInAlphabetViolation
+  | InvalidLinkCountViolation;
+
+/**
+ * Grammar of links between MuNG classes, written in the same text format
+ * as the grammar definitions of the python validation
+ * (see pyodide/mstudio/mstudio/validation/grammar_syntax.py)
+ */
+export class Grammar {
+  public readonly rules: readonly GrammarRule[];
+  public readonly alphabet: ReadonlySet<string>;
+
+  /**
+   * For each parent class the set of allowed child classes
+   */
+  private readonly allowedEdges = new Map<string, Set<string>>();
+
+  constructor(rules: readonly GrammarRule[], alphabet: Iterable<string>) {
+    this.rules = rules;
+    this.alphabet = new Set(alphabet);
+    for (const rule of rules) {
+      for (const parentClass of getClassNames(rule.parents)) {
+        const children = this.allowedEdges.get(parentClass) ?? new Set();
+        getClassNames(rule.children).forEach((c) => children.add(c));
+        this.allowedEdges.set(parentClass, children);
+      }
+    }
+  }
+
+  /**
+   * Parses the grammar text, one rule per line, "#" starts a comment
+   */
+  public static fromText(text: string, alphabet: Iterable<string>): Grammar {
+    const rules: GrammarRule[] = [];
+    for (const line of text.split("\n")) {
+      const ruleText = line.replace(/#.*$/, "").trim();
+      if (ruleText === "") continue;
+      const sides = ruleText.split("|");
+      if (sides.length !== 2) {
+        throw new Error(`Grammar rule "${ruleText}" must have two sides.`);
+      }
+      rules.push({
+        text: ruleText,
+        parents: parseTokens(sides[0]),
+        children: parseTokens(sides[1]),
+      });
+    }
+    return new Grammar(rules, alphabet);
+  }
+
+  /**
+   * Finds all places, where the graph does not conform to the grammar
+   * @param classNames Class names of the graph nodes by their IDs
+   * @param links Links of the graph, all of the same type
+   */
+  public findInvalid(
+    classNames: ReadonlyMap<number, string>,
+    links: readonly Link[],
+  ): GrammarViolation[] {
+    const violations: GrammarViolation[] = [];
+
+    for (const [nodeId, className] of classNames) {
+      if (!this.alphabet.has(className)) {
+        violations.push({ type: "SymbolNotInAlphabet", nodeId, className });
+      }
+    }
+
+    const outlinks = new Map<number, number[]>();
+    const inlinks = new Map<number, number[]>();
+    for (const link of links) {
+      const fromClassName = classNames.get(link.fromId);
+      const toClassName = classNames.get(link.toId);
+      if (fromClassName === undefined || toClassName === undefined) continue;
+      pushToGroup(outlinks, link.fromId, link.toId);
+      pushToGroup(inlinks, link.toId, link.fromId);
+      if (!this.allowedEdges.get(fromClassName)?.has(toClassName)) {
+        violations.push({
+          type: "EdgeNotInAlphabet",
+          fromId: link.fromId,
+          fromClassName,
+          toId: link.toId,
+          toClassName,
+        });
+      }
+    }
+
+    const nodeIdsByClass = new Map<string, number[]>();
+    for (const [nodeId, className] of classNames) {
+      pushToGroup(nodeIdsByClass, className, nodeId);
+    }
+
+    const checkSide = (
+      rule: GrammarRule,
+      tokens: readonly GrammarToken[],
+      targetTokens: readonly GrammarToken[],
+      direction: "in" | "out",
+    ) => {
+      const targetClassNames = getClassNames(targetTokens);
+      const targetClassSet = new Set(targetClassNames);
+      const neighbours = direction === "out" ? outlinks : inlinks;
+      for (const token of tokens) {
+        if (token.cardinality === null) continue;
+        const { min, max } = token.cardinality;
+        for (const className of token.classNames) {
+          for (const nodeId of nodeIdsByClass.get(className) ?? []) {
+            const linkCount = (neighbours.get(nodeId) ?? []).filter((id) =>
+              targetClassSet.has(classNames.get(id)!),
+            ).length;
+            if (linkCount < min || linkCount > max) {
+              violations.push({
+                type: "InvalidLinkCount",
+                nodeId,
+                className,
+                linkCount,
+                direction,
+                targetClassNames,
+                rule,
+                cardinality: token.cardinality,
+              });
+            }
+          }
+        }
+      }
+    };
+
+    for (const rule of this.rules) {
+      checkSide(rule, rule.parents, rule.children, "out");
+      checkSide(rule, rule.children, rule.parents, "in");
+    }
+
+    return violations;
+  }
+}
+
+const TOKEN_PATTERN =
+  /ANYOF\(([^)]*)\)(\{[^}]*\})?|([A-Za-z0-9_]+)(\{[^}]*\})?/g;
+
+function parseTokens(side: string): GrammarToken[] {
+  const tokens: GrammarToken[] = [];
+  const pattern = new RegExp(TOKEN_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(side)) !== null) {
+    const [_, anyOfClasses, anyOfCardinality, className, cardinality] = match;
+    tokens.push(
+      anyOfClasses !== undefined
+        ? {
+            classNames: anyOfClasses.trim().split(/\s+/),
+            cardinality: parseCardinality(anyOfCardinality),
+          }
+        : {
+            classNames: [className],
+            cardinality: parseCardinality(cardinality),
+          },
+    );
+  }
+  return tokens;
+}
+
+/**
+ * Parses "{n}", "{min,}", "{,max}" or "{min,max}"
+ */
+function parseCardinality(text: string | undefined): GrammarCardinality | null {
+  if (text === undefined) return null;
+  const bounds = text.slice(1, -1).split(",");
+  const parseBound = (bound: string, fallback: number) =>
+    bound.trim() === "" ? fallback : parseInt(bound);
+  if (bounds.length === 1) {
+    const count = parseBound(bounds[0], 0);
+    return { min: count, max: count };
+  }
+  return {
+    min: parseBound(bounds[0], 0),
+    max: parseBound(bounds[1], Infinity),
+  };
+}
+
+function pushToGroup<K, V>(groups: Map<K, V[]>, key: K, value: V): void {
+  const group = groups.get(key);
+  if (group === undefined) groups.set(key, [value]);
+  else group.push(value);
+}
+
+function getClassNames(tokens: readonly GrammarToken[]): string[] {
+  return tokens.flatMap((token) => token.classNames);
+}
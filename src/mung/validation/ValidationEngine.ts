@@ -0,0 +1,102 @@
+import { ValidationIssue } from "../../editor/model/ValidationIssue";
+import { Node } from "../Node";
+import { ValidationGraph } from "./ValidationGraph";
+import { ValidationRule } from "./ValidationRule";
+
+/**
+ * Evaluates a list of validation rules against a notation graph
+ */
+export class ValidationEngine {
+  public readonly rules: readonly ValidationRule[];
+
+  constructor(rules: readonly ValidationRule[]) {
+    this.rules = rules;
+  }
+
+  /**
+   * Executes the validation logic and returns all found issues
+   */
+  public run(graph: ValidationGraph): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    for (const rule of this.rules) {
+      for (const issue of rule.scanGraph(graph)) {
+        issues.push(issue);
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Re-checks only the given nodes. Local rules scan just the nodes and
+   * their linked neighbours and their issues pegged to the given nodes are
+   * returned. The other rules scan the whole graph and all their issues are
+   * returned, since a change may fix or break them anywhere in the graph.
+   * Nodes no longer in the graph are skipped.
+   */
+  public runOnNodes(
+    graph: ValidationGraph,
+    nodeIds: ReadonlySet<number>,
+  ): PartialValidationResult {
+    const scannedIds = new Set<number>();
+    for (const nodeId of nodeIds) {
+      if (!graph.hasNode(nodeId)) continue;
+      scannedIds.add(nodeId);
+      getLinkedNodeIds(graph.getNode(nodeId)).forEach((id) =>
+        scannedIds.add(id),
+      );
+    }
+    const neighbourhood: ValidationGraph = {
+      nodes: [...scannedIds].map((id) => graph.getNode(id)),
+      getNode: (id) => graph.getNode(id),
+      hasNode: (id) => scannedIds.has(id),
+    };
+
+    const issues: ValidationIssue[] = [];
+    const globalCodes = new Set<number>();
+    for (const rule of this.rules) {
+      if (!rule.isLocal) {
+        rule.issueCodes.forEach((code) => globalCodes.add(code));
+        issues.push(...rule.scanGraph(graph));
+        continue;
+      }
+      for (const issue of rule.scanGraph(neighbourhood)) {
+        if (nodeIds.has(issue.nodeId)) {
+          issues.push(issue);
+        }
+      }
+    }
+    return { issues, nodeIds, globalCodes };
+  }
+}
+
+/**
+ * Issues found by re-checking a part of the notation graph,
+ * together with the scope of the issues they replace
+ */
+export interface PartialValidationResult {
+  readonly issues: ValidationIssue[];
+
+  /**
+   * The re-checked nodes, their previous issues are replaced
+   */
+  readonly nodeIds: ReadonlySet<number>;
+
+  /**
+   * Codes of the rules that re-checked the whole graph,
+   * all the previous issues with these codes are replaced
+   */
+  readonly globalCodes: ReadonlySet<number>;
+}
+
+/**
+ * Returns IDs of all the nodes linked to the given node,
+ * by syntax or precedence links in either direction
+ */
+export function getLinkedNodeIds(node: Node): number[] {
+  return [
+    ...node.syntaxOutlinks,
+    ...node.syntaxInlinks,
+    ...node.precedenceOutlinks,
+    ...node.precedenceInlinks,
+  ];
+}
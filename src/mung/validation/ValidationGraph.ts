@@ -0,0 +1,35 @@
+import { Node } from "../Node";
+
+/**
+ * Read access to the validated notation graph,
+ * implemented by the NotationGraphStore
+ */
+export interface ValidationGraph {
+  /**
+   * All nodes of the graph, in the document order
+   */
+  readonly nodes: readonly Node[];
+
+  getNode(nodeId: number): Node;
+
+  hasNode(nodeId: number): boolean;
+}
+
+/**
+ * Read access to a plain list of nodes, e.g. of a MuNG file
+ * that is not open in the editor
+ */
+export function createValidationGraph(nodes: readonly Node[]): ValidationGraph {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  return {
+    nodes,
+    getNode(nodeId: number): Node {
+      const node = nodesById.get(nodeId);
+      if (node === undefined) {
+        throw new Error(`The node ${nodeId} is not present in the graph.`);
+      }
+      return node;
+    },
+    hasNode: (nodeId) => nodesById.has(nodeId),
+  };
+}
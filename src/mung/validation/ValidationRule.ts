@@ -0,0 +1,25 @@
+import { ValidationIssue } from "../../editor/model/ValidationIssue";
+import { ValidationGraph } from "./ValidationGraph";
+
+/**
+ * A validation rule, mirrors the ValidationRule class
+ * of the python validation
+ */
+export interface ValidationRule {
+  /**
+   * True when the issues of a node depend only on the node and its linked
+   * neighbours, so that the rule can be re-checked on a part of the graph
+   */
+  readonly isLocal: boolean;
+
+  /**
+   * Codes of all the issues the rule may report, the live validation
+   * replaces the issues of the rules that are not local by their codes
+   */
+  readonly issueCodes: readonly number[];
+
+  /**
+   * Go through the notation graph and find places where the rule is broken
+   */
+  scanGraph(graph: ValidationGraph): Iterable<ValidationIssue>;
+}
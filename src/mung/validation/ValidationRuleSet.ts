@@ -0,0 +1,33 @@
+/**
+ * Optional sets of validation rules, enabled per document
+ */
+export enum ValidationRuleSet {
+  /**
+   * Rules for the Schenkerian analysis notation, 7xxx codes
+   */
+  Schenkerian = "schenkerian",
+}
+
+/**
+ * Returns the known rule sets among the names stored for a document
+ */
+export function parseValidationRuleSets(
+  names: readonly string[],
+): ValidationRuleSet[] {
+  const known: string[] = Object.values(ValidationRuleSet);
+  return names.filter((name) => known.includes(name)) as ValidationRuleSet[];
+}
+
+/**
+ * Enables or disables a rule set in the names stored for a document,
+ * names not known to this version are kept
+ */
+export function toggleValidationRuleSet(
+  names: readonly string[],
+  ruleSet: ValidationRuleSet,
+  enabled: boolean,
+): string[] {
+  const toggled = names.filter((name) => name !== ruleSet);
+  if (enabled) toggled.push(ruleSet);
+  return toggled;
+}
@@ -0,0 +1,28 @@
+import { DeclarativeRule, DeclarativeRuleSet } from "./DeclarativeRuleSet";
+import { ValidationRule } from "./ValidationRule";
+import { AllowedLinksRule } from "./rules/declarative/AllowedLinksRule";
+import { LinkCountRule } from "./rules/declarative/LinkCountRule";
+import { RequiresParentRule } from "./rules/declarative/RequiresParentRule";
+import { RequiresTranscriptionRule } from "./rules/declarative/RequiresTranscriptionRule";
+
+/**
+ * Turns the rules of a declarative rule set into validation rules
+ */
+export function buildDeclarativeRules(
+  ruleSet: DeclarativeRuleSet,
+): ValidationRule[] {
+  return ruleSet.rules.map(buildDeclarativeRule);
+}
+
+function buildDeclarativeRule(rule: DeclarativeRule): ValidationRule {
+  switch (rule.kind) {
+    case "requiresTranscription":
+      return new RequiresTranscriptionRule(rule);
+    case "requiresParent":
+      return new RequiresParentRule(rule);
+    case "allowedLinks":
+      return new AllowedLinksRule(rule);
+    case "linkCount":
+      return new LinkCountRule(rule);
+  }
+}
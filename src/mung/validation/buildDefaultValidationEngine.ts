@@ -0,0 +1,230 @@
+import { ValidationEngine } from "./ValidationEngine";
+import { ValidationRule } from "./ValidationRule";
+import { GrammarDefinitions } from "./loadGrammarDefinitions";
+import { DeprecatedClassNameRule } from "./rules/DeprecatedClassNameRule";
+import { NoteheadChildOrientationRule } from "./rules/NoteheadChildOrientationRule";
+import { SinglePixelLineRule } from "./rules/SinglePixelLineRule";
+import { MandatoryTextTranscriptionRule } from "./rules/MandatoryTextTranscriptionRule";
+import { GrammarRule } from "./rules/GrammarRule";
+import { PrecedenceSequentionalityRule } from "./rules/PrecedenceSequentionalityRule";
+import { MeasureSeparatorCardinalityRule } from "./rules/MeasureSeparatorCardinalityRule";
+import { ValidationRuleSet } from "./ValidationRuleSet";
+import { SCHENKERIAN_CLASS_NAMES } from "./rules/schenkerian/schenkerianClassNames";
+import { StructuralStemNoteheadRule } from "./rules/schenkerian/StructuralStemNoteheadRule";
+import { StructuralBeamStemsRule } from "./rules/schenkerian/StructuralBeamStemsRule";
+import { ScaleDegreeMarkRule } from "./rules/schenkerian/ScaleDegreeMarkRule";
+import { VoiceExchangePairRule } from "./rules/schenkerian/VoiceExchangePairRule";
+import { DeclarativeRuleSet } from "./DeclarativeRuleSet";
+import { buildDeclarativeRules } from "./buildDeclarativeRules";
+
+/**
+ * Constructs a validation engine for the current MuNG format with all
+ * the available validation rules included. The rules and their codes
+ * mirror build_default_validation_engine of the python validation
+ * (pyodide/mstudio/mstudio/validation/move_this_to_mung.py),
+ * keep the two in sync. Optional rule sets and the user-defined rules
+ * of the dataset exist only here.
+ */
+export function buildDefaultValidationEngine(
+  grammars: GrammarDefinitions,
+  ruleSets: readonly ValidationRuleSet[] = [],
+  datasetRuleSet: DeclarativeRuleSet | null = null,
+): ValidationEngine {
+  const isSchenkerian = ruleSets.includes(ValidationRuleSet.Schenkerian);
+  return new ValidationEngine([
+    // 1xxx codes are class name deprecations
+    new DeprecatedClassNameRule(1001, "noteheadFull", "noteheadBlack"),
+    new DeprecatedClassNameRule(
+      1002,
+      "noteheadFullSmall",
+      "noteheadBlackSmall",
+    ),
+    new DeprecatedClassNameRule(1003, "restBreve", "restDoubleWhole"),
+    new DeprecatedClassNameRule(1003, "restSemibreve", "restWhole"),
+    new DeprecatedClassNameRule(1003, "restMinim", "restHalf"),
+    new DeprecatedClassNameRule(1003, "restCrotchet", "restQuarter"),
+    new DeprecatedClassNameRule(1003, "restQuaver", "rest8th"),
+    new DeprecatedClassNameRule(1003, "restSemiquaver", "rest16th"),
+    new DeprecatedClassNameRule(1003, "restDemisemiquaver", "rest32nd"),
+    new DeprecatedClassNameRule(1004, "multiMeasureRest", "restHBar"),
+    new DeprecatedClassNameRule(1005, "dynamicLetterF", "dynamicForte"),
+    new DeprecatedClassNameRule(1005, "dynamicLetterM", "dynamicMezzo"),
+    new DeprecatedClassNameRule(1005, "dynamicLetterN", "dynamicNiente"),
+    new DeprecatedClassNameRule(1005, "dynamicLetterP", "dynamicPiano"),
+    new DeprecatedClassNameRule(1005, "dynamicLetterR", "dynamicRinforzando"),
+    new DeprecatedClassNameRule(1005, "dynamicLetterS", "dynamicSforzando"),
+    new DeprecatedClassNameRule(1005, "dynamicLetterZ", "dynamicZ"),
+    new DeprecatedClassNameRule(1006, "tuple", "tuplet"),
+    new DeprecatedClassNameRule(1006, "tupleBracket", "tupletBracket"),
+    new DeprecatedClassNameRule(1007, "singleNoteTremolo"),
+    new DeprecatedClassNameRule(1007, "tremoloMark"),
+    new DeprecatedClassNameRule(1008, "flag"),
+    new DeprecatedClassNameRule(1009, "fermata"),
+    new DeprecatedClassNameRule(1010, "arpegio", "arpeggiato"),
+    new DeprecatedClassNameRule(1011, "ledgerLine", "legerLine"),
+    new DeprecatedClassNameRule(1012, "sharp", "accidentalSharp"),
+    new DeprecatedClassNameRule(1012, "flat", "accidentalFlat"),
+    new DeprecatedClassNameRule(1012, "natural", "accidentalNatural"),
+    new DeprecatedClassNameRule(1012, "double_sharp", "accidentalDoubleSharp"),
+    new DeprecatedClassNameRule(1012, "double_flat", "accidentalDoubleFlat"),
+    new DeprecatedClassNameRule(1013, "numeral0"),
+    new DeprecatedClassNameRule(1013, "numeral1"),
+    new DeprecatedClassNameRule(1013, "numeral2"),
+    new DeprecatedClassNameRule(1013, "numeral3"),
+    new DeprecatedClassNameRule(1013, "numeral4"),
+    new DeprecatedClassNameRule(1013, "numeral5"),
+    new DeprecatedClassNameRule(1013, "numeral6"),
+    new DeprecatedClassNameRule(1013, "numeral7"),
+    new DeprecatedClassNameRule(1013, "numeral8"),
+    new DeprecatedClassNameRule(1013, "numeral9"),
+    new DeprecatedClassNameRule(1014, "timeSigDivider", "timeSigSlash"),
+    new DeprecatedClassNameRule(1015, "barline", "barlineSingle"),
+    new DeprecatedClassNameRule(1016, "articulationAccent", "articAccentAbove"),
+    new DeprecatedClassNameRule(
+      1016,
+      "articulationMarcatoAbove",
+      "articMarcatoAbove",
+    ),
+    new DeprecatedClassNameRule(
+      1016,
+      "articulationMarcatoBelow",
+      "articMarcatoBelow",
+    ),
+    new DeprecatedClassNameRule(
+      1016,
+      "articulationStaccato",
+      "articStaccatoBelow",
+    ),
+    new DeprecatedClassNameRule(1016, "articulationTenuto", "articTenutoBelow"),
+    new DeprecatedClassNameRule(1017, "repeatOneBar", "repeat1Bar"),
+    new DeprecatedClassNameRule(
+      1018,
+      "graceNoteAcciaccatura",
+      "graceNoteSlashStemUp",
+    ),
+
+    // 2xxx codes are manual class+graph interactions
+    new NoteheadChildOrientationRule(2001, "Up", "Down", [
+      "flag8th",
+      "flag16th",
+      "flag32nd",
+      "flag64th",
+      "flag128th",
+      "flag256th",
+      "flag512th",
+      "flag1024th",
+    ]),
+    new NoteheadChildOrientationRule(2002, "Above", "Below", [
+      "articAccent",
+      "articMarcato",
+      "articStaccato",
+      "articTenuto",
+      "articStaccatissimo",
+    ]),
+    new NoteheadChildOrientationRule(2003, "Above", "Below", ["fermata"]),
+    new NoteheadChildOrientationRule(2004, "Up", "Down", [
+      "graceNoteSlashStem",
+    ]),
+
+    // 3xxx codes are mask pixel-shape validation issues
+    new SinglePixelLineRule(3001, "barlineSingle", 1),
+    new SinglePixelLineRule(3001, "barlineHeavy", 1),
+    new SinglePixelLineRule(3002, "staffLine", 0),
+    new SinglePixelLineRule(3003, "stem", 1),
+
+    // 4xxx codes are text-nodes related issues
+    new MandatoryTextTranscriptionRule(4001, "restText"),
+    new MandatoryTextTranscriptionRule(4001, "verseNumber"),
+    new MandatoryTextTranscriptionRule(4001, "tempoText"),
+    new MandatoryTextTranscriptionRule(4001, "tempoRitardando"),
+    new MandatoryTextTranscriptionRule(4001, "tempoAccelerando"),
+    new MandatoryTextTranscriptionRule(4001, "tempoATempo"),
+    new MandatoryTextTranscriptionRule(4001, "measureNumber"),
+    new MandatoryTextTranscriptionRule(4001, "pageNumber"),
+    new MandatoryTextTranscriptionRule(4001, "dynamicsText"),
+    new MandatoryTextTranscriptionRule(4001, "voltaText"),
+    new MandatoryTextTranscriptionRule(4001, "repeatText"),
+
+    // 5xxx codes are grammar validation issues
+    // 5001 - generic grammar issue
+    // 5002 - unknown node class
+    // 5101 - syntax link is present but not allowed by the grammar
+    // 5102 - syntax link cardinality violates grammar
+    // 5201 - precedence link is present but not allowed by the grammar
+    // 5202 - precedence link cardinality violates grammar
+    // (the python rule currently reports 52xx codes for both link types)
+    new GrammarRule(
+      grammars.syntax,
+      grammars.precedence,
+      isSchenkerian ? SCHENKERIAN_CLASS_NAMES : new Set(),
+    ),
+    new PrecedenceSequentionalityRule(5301, "timeSignature", [
+      "timeSig0",
+      "timeSig1",
+      "timeSig2",
+      "timeSig3",
+      "timeSig4",
+      "timeSig5",
+      "timeSig6",
+      "timeSig7",
+      "timeSig8",
+      "timeSig9",
+      "timeSigCommon",
+      "timeSigCutCommon",
+      "timeSigSlash",
+      "timeSigFractionalSlash",
+      "timeSigPlus",
+      "timeSigEquals",
+    ]),
+    new PrecedenceSequentionalityRule(5301, "dynamicsText", [
+      "dynamicPiano",
+      "dynamicMezzo",
+      "dynamicForte",
+      "dynamicRinforzando",
+      "dynamicSforzando",
+      "dynamicZ",
+      "dynamicNiente",
+    ]),
+    new PrecedenceSequentionalityRule(5301, "tuplet", [
+      "tupletColon",
+      "tuplet0",
+      "tuplet1",
+      "tuplet2",
+      "tuplet3",
+      "tuplet4",
+      "tuplet5",
+      "tuplet6",
+      "tuplet7",
+      "tuplet8",
+      "tuplet9",
+    ]),
+    new MeasureSeparatorCardinalityRule(5302),
+
+    // 6xxx codes are musicxml conversion issues
+
+    ...(isSchenkerian ? buildSchenkerianRules() : []),
+
+    // 8xxx codes are user-defined rules of datasets
+    ...(datasetRuleSet !== null ? buildDeclarativeRules(datasetRuleSet) : []),
+  ]);
+}
+
+/**
+ * Rules of the Schenkerian rule set, its classes are exempt
+ * from the grammar validation (5xxx codes)
+ */
+function buildSchenkerianRules(): ValidationRule[] {
+  return [
+    // 7xxx codes are Schenkerian notation issues
+    // 7001 - structural stem without a notehead
+    // 7002 - structural beam connects too few structural stems
+    // 7003 - structural beam connects a common stem
+    // 7004 - scale degree mark without a numeral
+    // 7005 - scale degree mark not above its numeral
+    // 7006 - unpaired voice exchange line
+    new StructuralStemNoteheadRule(7001),
+    new StructuralBeamStemsRule(7002, 7003),
+    new ScaleDegreeMarkRule(7004, 7005),
+    new VoiceExchangePairRule(7006),
+  ];
+}
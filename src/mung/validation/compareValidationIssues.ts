@@ -0,0 +1,52 @@
+import {
+  computeIssueId,
+  ValidationIssue,
+} from "../../editor/model/ValidationIssue";
+
+/**
+ * Differences between two lists of validation issues,
+ * issues are matched by their IDs (code, node and fingerprint)
+ */
+export interface ValidationIssuesComparison {
+  readonly onlyInFirst: readonly ValidationIssue[];
+  readonly onlyInSecond: readonly ValidationIssue[];
+
+  /**
+   * Issues with the same ID but a different message or resolution
+   */
+  readonly differing: readonly [ValidationIssue, ValidationIssue][];
+}
+
+/**
+ * Compares issues found by two validation engines, used to check that
+ * the typescript rules behave the same as the python ones
+ */
+export function compareValidationIssues(
+  first: readonly ValidationIssue[],
+  second: readonly ValidationIssue[],
+): ValidationIssuesComparison {
+  const firstById = new Map(first.map((i) => [computeIssueId(i), i]));
+  const secondById = new Map(second.map((i) => [computeIssueId(i), i]));
+
+  const differing: [ValidationIssue, ValidationIssue][] = [];
+  for (const [id, issue] of firstById) {
+    const other = secondById.get(id);
+    if (other === undefined) continue;
+    if (
+      issue.message !== other.message ||
+      JSON.stringify(issue.resolution) !== JSON.stringify(other.resolution)
+    ) {
+      differing.push([issue, other]);
+    }
+  }
+
+  return {
+    onlyInFirst: [...firstById]
+      .filter(([id]) => !secondById.has(id))
+      .map(([_, i]) => i),
+    onlyInSecond: [...secondById]
+      .filter(([id]) => !firstById.has(id))
+      .map(([_, i]) => i),
+    differing,
+  };
+}
@@ -0,0 +1,16 @@
+import { Node } from "../Node";
+import { ValidationGraph } from "./ValidationGraph";
+
+/**
+ * Returns the syntax children of a node with one of the given classes,
+ * in the order of the node's outlinks
+ */
+export function getChildren(
+  graph: ValidationGraph,
+  node: Node,
+  classNames: ReadonlySet<string>,
+): Node[] {
+  return node.syntaxOutlinks
+    .map((id) => graph.getNode(id))
+    .filter((child) => classNames.has(child.className));
+}
@@ -0,0 +1,93 @@
+import { Grammar } from "./Grammar";
+import { readPythonConstants } from "./readPythonConstants";
+
+/**
+ * Grammars of the syntax and precedence links
+ */
+export interface GrammarDefinitions {
+  readonly syntax: Grammar;
+  readonly precedence: Grammar;
+}
+
+let loadedDefinitions: Promise<GrammarDefinitions> | null = null;
+
+/**
+ * Loads the grammars from the same python files that the python validation
+ * uses, so that both validations stay in sync. The files are downloaded
+ * once and cached.
+ */
+export function loadGrammarDefinitions(): Promise<GrammarDefinitions> {
+  if (loadedDefinitions === null) {
+    loadedDefinitions = fetchGrammarDefinitions();
+    loadedDefinitions.catch(() => {
+      loadedDefinitions = null; // allow retrying
+    });
+  }
+  return loadedDefinitions;
+}
+
+async function fetchGrammarDefinitions(): Promise<GrammarDefinitions> {
+  const [syntaxSource, precedenceSource, alphabetSource] = await Promise.all(
+    [
+      new URL(
+        "../../../pyodide/mstudio/mstudio/validation/grammar_syntax.py",
+        import.meta.url,
+      ),
+      new URL(
+        "../../../pyodide/mstudio/mstudio/validation/grammar_precedence.py",
+        import.meta.url,
+      ),
+      new URL(
+        "../../../pyodide/mstudio/mstudio/validation/grammar_alphabet.py",
+        import.meta.url,
+      ),
+    ].map(fetchText),
+  );
+
+  return parseGrammarDefinitions(
+    syntaxSource,
+    precedenceSource,
+    alphabetSource,
+  );
+}
+
+/**
+ * Builds the grammars from the sources of the python files
+ * grammar_syntax.py, grammar_precedence.py and grammar_alphabet.py
+ */
+export function parseGrammarDefinitions(
+  syntaxSource: string,
+  precedenceSource: string,
+  alphabetSource: string,
+): GrammarDefinitions {
+  const alphabet = readPythonConstant(alphabetSource, "GRAMMAR_ALPHABET");
+  const syntax = readPythonConstant(syntaxSource, "GRAMMAR_SYNTAX");
+  const precedence = readPythonConstant(precedenceSource, "GRAMMAR_PRECEDENCE");
+  if (typeof alphabet === "string") {
+    throw new Error("GRAMMAR_ALPHABET must be a list of class names.");
+  }
+  if (typeof syntax !== "string" || typeof precedence !== "string") {
+    throw new Error("Grammars must be defined as strings.");
+  }
+
+  return {
+    syntax: Grammar.fromText(syntax, alphabet),
+    precedence: Grammar.fromText(precedence, alphabet),
+  };
+}
+
+async function fetchText(url: URL): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Loading ${url} failed with status ${response.status}.`);
+  }
+  return await response.text();
+}
+
+function readPythonConstant(source: string, name: string) {
+  const value = readPythonConstants(source).get(name);
+  if (value === undefined) {
+    throw new Error(`The python constant ${name} is not defined.`);
+  }
+  return value;
+}
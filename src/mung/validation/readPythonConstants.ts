@@ -0,0 +1,179 @@
+/**
+ * Value of a python module constant understood by readPythonConstants
+ */
+export type PythonConstant = string | readonly string[];
+
+/**
+ * Evaluates module-level constants of a python source file, so that
+ * definitions shared with python code (e.g. validation grammars) do not
+ * have to be duplicated. Only assignments of string literals, lists
+ * of strings, names of previously defined constants and their
+ * concatenation via "+" are supported.
+ * @param source Contents of the python file
+ */
+export function readPythonConstants(
+  source: string,
+): Map<string, PythonConstant> {
+  const tokens = tokenize(source);
+  const constants = new Map<string, PythonConstant>();
+  let position = 0;
+
+  function peek(): Token | undefined {
+    return tokens[position];
+  }
+
+  function next(): Token {
+    const token = tokens[position++];
+    if (token === undefined) {
+      throw new Error("Unexpected end of the python source.");
+    }
+    return token;
+  }
+
+  function expect(value: string): void {
+    const token = next();
+    if (token.kind !== "operator" || token.value !== value) {
+      throw new Error(
+        `Expected "${value}" but found "${token.value}" in the python source.`,
+      );
+    }
+  }
+
+  function isOperator(token: Token | undefined, value: string): boolean {
+    return token?.kind === "operator" && token.value === value;
+  }
+
+  function parseTerm(): PythonConstant {
+    const token = next();
+    if (token.kind === "string") return token.value;
+    if (token.kind === "name") {
+      const value = constants.get(token.value);
+      if (value === undefined) {
+        throw new Error(`Unknown python constant "${token.value}".`);
+      }
+      return value;
+    }
+    if (isOperator(token, "[")) {
+      const items: string[] = [];
+      while (!isOperator(peek(), "]")) {
+        const item = parseExpression();
+        if (typeof item !== "string") {
+          throw new Error("Nested python lists are not supported.");
+        }
+        items.push(item);
+        if (isOperator(peek(), ",")) next();
+      }
+      expect("]");
+      return items;
+    }
+    throw new Error(`Unexpected "${token.value}" in the python source.`);
+  }
+
+  function parseExpression(): PythonConstant {
+    let value = parseTerm();
+    while (isOperator(peek(), "+")) {
+      next();
+      const operand = parseTerm();
+      if (typeof value === "string" && typeof operand === "string") {
+        value = value + operand;
+      } else if (typeof value !== "string" && typeof operand !== "string") {
+        value = [...value, ...operand];
+      } else {
+        throw new Error("Cannot concatenate a python string with a list.");
+      }
+    }
+    return value;
+  }
+
+  while (position < tokens.length) {
+    const name = next();
+    if (name.kind !== "name") {
+      throw new Error(`Unexpected "${name.value}" in the python source.`);
+    }
+
+    // skip the type annotation
+    if (isOperator(peek(), ":")) {
+      while (!isOperator(peek(), "=")) next();
+    }
+
+    expect("=");
+    constants.set(name.value, parseExpression());
+  }
+
+  return constants;
+}
+
+interface Token {
+  readonly kind: "string" | "name" | "operator";
+  readonly value: string;
+}
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  "\\": "\\",
+  '"': '"',
+  "'": "'",
+  "\n": "",
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    // whitespace and line continuations
+    if (/\s/.test(char) || (char === "\\" && source[i + 1] === "\n")) {
+      i += char === "\\" ? 2 : 1;
+      continue;
+    }
+
+    // comments
+    if (char === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+
+    // string literals, both single-line and triple-quoted
+    if (char === '"' || char === "'") {
+      const quote = source.startsWith(char.repeat(3), i)
+        ? char.repeat(3)
+        : char;
+      i += quote.length;
+      let value = "";
+      while (!source.startsWith(quote, i)) {
+        if (i >= source.length || (quote.length === 1 && source[i] === "\n")) {
+          throw new Error("Unterminated string in the python source.");
+        }
+        if (source[i] === "\\") {
+          const escaped = source[i + 1];
+          value += STRING_ESCAPES[escaped] ?? "\\" + escaped;
+          i += 2;
+          continue;
+        }
+        value += source[i++];
+      }
+      i += quote.length;
+      tokens.push({ kind: "string", value });
+      continue;
+    }
+
+    // names of constants (and of types in annotations)
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i, i + 256));
+    if (name !== null) {
+      tokens.push({ kind: "name", value: name[0] });
+      i += name[0].length;
+      continue;
+    }
+
+    if ("=+[],:".includes(char)) {
+      tokens.push({ kind: "operator", value: char });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unsupported character "${char}" in the python source.`);
+  }
+  return tokens;
+}
@@ -0,0 +1,61 @@
+import { ValidationIssue } from "../../../editor/model/ValidationIssue";
+import { Node } from "../../Node";
+import { ValidationGraph } from "../ValidationGraph";
+import { ValidationRule } from "../ValidationRule";
+
+/**
+ * Reports nodes with a deprecated class name,
+ * fixable when the replacing class is known
+ */
+export class DeprecatedClassNameRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes: readonly number[];
+
+  private readonly code: number;
+  private readonly oldClass: string;
+  private readonly newClass: string | null;
+  private readonly message: string;
+
+  constructor(
+    code: number,
+    oldClass: string,
+    newClass: string | null = null,
+    message: string | null = null,
+  ) {
+    this.code = code;
+    this.issueCodes = [code];
+    this.oldClass = oldClass;
+    this.newClass = newClass;
+    this.message =
+      message ??
+      `Class '${oldClass}' is deprecated. ` +
+        (newClass !== null
+          ? `Use '${newClass}' instead.`
+          : "See the annotation instructions for more info.");
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const node of graph.nodes) {
+      if (node.className === this.oldClass) {
+        yield this.buildIssue(node);
+      }
+    }
+  }
+
+  private buildIssue(node: Node): ValidationIssue {
+    return {
+      code: this.code,
+      message: this.message,
+      nodeId: node.id,
+      resolution:
+        this.newClass === null
+          ? null
+          : {
+              operations: [
+                { updateNodeId: node.id, newClassName: this.newClass },
+              ],
+            },
+      fingerprint: null,
+    };
+  }
+}
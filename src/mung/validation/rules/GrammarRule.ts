@@ -0,0 +1,175 @@
+import { ValidationIssue } from "../../../editor/model/ValidationIssue";
+import { Link } from "../../Link";
+import { LinkType } from "../../LinkType";
+import {
+  EdgeNotInAlphabetViolation,
+  Grammar,
+  GrammarViolation,
+  InvalidLinkCountViolation,
+  SymbolNotInAlphabetViolation,
+} from "../Grammar";
+import { ValidationGraph } from "../ValidationGraph";
+import { ValidationRule } from "../ValidationRule";
+
+/**
+ * Checks the syntax and precedence links against their grammars.
+ * Codes and messages match the python GrammarRule (including the
+ * 52xx codes used for both link types). Nodes of the ignored classes
+ * and their links are validated by other rules.
+ */
+export class GrammarRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes = [5002, 5201, 5202];
+
+  private readonly syntaxGrammar: Grammar;
+  private readonly precedenceGrammar: Grammar;
+  private readonly ignoredClassNames: ReadonlySet<string>;
+
+  constructor(
+    syntaxGrammar: Grammar,
+    precedenceGrammar: Grammar,
+    ignoredClassNames: ReadonlySet<string> = new Set(),
+  ) {
+    this.syntaxGrammar = syntaxGrammar;
+    this.precedenceGrammar = precedenceGrammar;
+    this.ignoredClassNames = ignoredClassNames;
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    const classNames = new Map(graph.nodes.map((n) => [n.id, n.className]));
+
+    // syntax graph
+    for (const violation of this.syntaxGrammar.findInvalid(
+      classNames,
+      collectLinks(graph, LinkType.Syntax),
+    )) {
+      yield* this.translateViolation(violation, false);
+    }
+
+    // precedence graph
+    for (const violation of this.precedenceGrammar.findInvalid(
+      classNames,
+      collectLinks(graph, LinkType.Precedence),
+    )) {
+      yield* this.translateViolation(violation, true);
+    }
+  }
+
+  private *translateViolation(
+    violation: GrammarViolation,
+    isPrecedence: boolean,
+  ): Iterable<ValidationIssue> {
+    if (this.isIgnored(violation)) return;
+    const precode = 5200;
+    const linkBadge = isPrecedence ? "[🟢 precedence]" : "[🔴 syntax]";
+
+    switch (violation.type) {
+      case "SymbolNotInAlphabet":
+        if (!isPrecedence) return; // only check by syntax grammar
+        yield this.translateSymbolNotInAlphabet(violation);
+        return;
+      case "InvalidLinkCount":
+        yield this.translateInvalidLinkCount(violation, precode, linkBadge);
+        return;
+      case "EdgeNotInAlphabet":
+        yield this.translateEdgeNotInAlphabet(violation, precode, linkBadge);
+        return;
+    }
+  }
+
+  private isIgnored(violation: GrammarViolation): boolean {
+    switch (violation.type) {
+      case "SymbolNotInAlphabet":
+      case "InvalidLinkCount":
+        return this.ignoredClassNames.has(violation.className);
+      case "EdgeNotInAlphabet":
+        return (
+          this.ignoredClassNames.has(violation.fromClassName) ||
+          this.ignoredClassNames.has(violation.toClassName)
+        );
+    }
+  }
+
+  private translateInvalidLinkCount(
+    violation: InvalidLinkCountViolation,
+    precode: number,
+    linkBadge: string,
+  ): ValidationIssue {
+    const { className, linkCount, direction, cardinality } = violation;
+    const targetClasses = violation.targetClassNames.join(", ");
+    const cardinalityMin = String(cardinality.min);
+    const cardinalityMax =
+      cardinality.max === Infinity ? "inf" : String(cardinality.max);
+
+    // [foo] should have X to Y [syntax] outlinks to [...] but currently has X.
+    let cardinalityPhrase = `${cardinalityMin} to ${cardinalityMax}`;
+    let pluralLinks = "s";
+    if (cardinalityMin === cardinalityMax) {
+      cardinalityPhrase = `exactly ${cardinalityMin}`;
+      if (cardinalityMin === "1") pluralLinks = "";
+    } else if (cardinalityMax === "inf") {
+      cardinalityPhrase = `at least ${cardinalityMin}`;
+      if (cardinalityMin === "1") pluralLinks = "";
+    } else if (cardinalityMin === "0") {
+      cardinalityPhrase = `at most ${cardinalityMax}`;
+      if (cardinalityMax === "1") pluralLinks = "";
+    }
+    const directionPhrase =
+      direction === "out"
+        ? `outlink${pluralLinks} to`
+        : `inlink${pluralLinks} from`;
+
+    return {
+      code: precode + 2,
+      message: `[${className}] should have ${cardinalityPhrase} ${linkBadge} ${directionPhrase} [${targetClasses}] but currently has ${linkCount}.`,
+      nodeId: violation.nodeId,
+      resolution: null,
+      fingerprint:
+        `Symbol ${violation.nodeId} ("${className}") has ${linkCount} ` +
+        `${direction}links to [${violation.targetClassNames.map((c) => `'${c}'`).join(", ")}], ` +
+        `but grammar specifies rule: ${violation.rule.text} ` +
+        `{min=${cardinalityMin}, max=${cardinalityMax}}`,
+    };
+  }
+
+  private translateEdgeNotInAlphabet(
+    violation: EdgeNotInAlphabetViolation,
+    precode: number,
+    linkBadge: string,
+  ): ValidationIssue {
+    const link =
+      `[${violation.fromClassName}:${violation.fromId}]-->` +
+      `[${violation.toClassName}:${violation.toId}]`;
+    return {
+      code: precode + 1,
+      message: `${linkBadge} link ${link} is present but not allowed by the grammar.`,
+      nodeId: violation.fromId,
+      resolution: null,
+      fingerprint: String(violation.toId),
+    };
+  }
+
+  private translateSymbolNotInAlphabet(
+    violation: SymbolNotInAlphabetViolation,
+  ): ValidationIssue {
+    return {
+      code: 5002,
+      message: `Class name "${violation.className}" does not exist in MuNG 2.0`,
+      nodeId: violation.nodeId,
+      resolution: null,
+      fingerprint: null,
+    };
+  }
+}
+
+function collectLinks(graph: ValidationGraph, type: LinkType): Link[] {
+  const links: Link[] = [];
+  for (const node of graph.nodes) {
+    const outlinks =
+      type === LinkType.Syntax ? node.syntaxOutlinks : node.precedenceOutlinks;
+    for (const toId of outlinks) {
+      links.push({ fromId: node.id, toId, type });
+    }
+  }
+  return links;
+}
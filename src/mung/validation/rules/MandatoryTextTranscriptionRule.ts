@@ -0,0 +1,42 @@
+import { ValidationIssue } from "../../../editor/model/ValidationIssue";
+import { Node } from "../../Node";
+import { ValidationGraph } from "../ValidationGraph";
+import { ValidationRule } from "../ValidationRule";
+
+/**
+ * Reports text nodes without a text transcription
+ */
+export class MandatoryTextTranscriptionRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes: readonly number[];
+
+  private readonly code: number;
+  private readonly className: string;
+
+  constructor(code: number, className: string) {
+    this.code = code;
+    this.issueCodes = [code];
+    this.className = className;
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const node of graph.nodes) {
+      if (
+        node.className === this.className &&
+        node.textTranscription === null
+      ) {
+        yield this.buildIssue(node);
+      }
+    }
+  }
+
+  private buildIssue(node: Node): ValidationIssue {
+    return {
+      code: this.code,
+      message: `Node '${node.className}' is missing mandatory text transcription.`,
+      nodeId: node.id,
+      resolution: null,
+      fingerprint: null,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { ValidationIssue } from "../../../editor/model/ValidationIssue";
+import { Node } from "../../Node";
+import { getChildren } from "../getChildren";
+import { ValidationGraph } from "../ValidationGraph";
+import { ValidationRule } from "../ValidationRule";
+
+const STAFF = new Set(["staff"]);
+
+/**
+ * Reports measure separators linked to an unusual number of staves,
+ * compared to the rest of the page
+ */
+export class MeasureSeparatorCardinalityRule implements ValidationRule {
+  // the most common staff count is computed from the whole page
+  public readonly isLocal = false;
+  public readonly issueCodes: readonly number[];
+
+  private readonly code: number;
+
+  constructor(code: number) {
+    this.code = code;
+    this.issueCodes = [code];
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    const separators = graph.nodes.filter(
+      (n) => n.className === "measureSeparator",
+    );
+    if (separators.length === 0) return;
+    const staffCounts = separators.map(
+      (n) => getChildren(graph, n, STAFF).length,
+    );
+
+    // the first encountered count wins ties, as with python's Counter
+    const occurrences = new Map<number, number>();
+    for (const count of staffCounts) {
+      occurrences.set(count, (occurrences.get(count) ?? 0) + 1);
+    }
+    let mostCommonStaffCount = staffCounts[0];
+    for (const [count, occurrence] of occurrences) {
+      if (occurrence > occurrences.get(mostCommonStaffCount)!) {
+        mostCommonStaffCount = count;
+      }
+    }
+
+    // raise an issue for each measureSeparator that has different
+    // staff count than this most common staff count
+    for (let i = 0; i < separators.length; i++) {
+      if (staffCounts[i] !== mostCommonStaffCount) {
+        yield this.buildIssue(
+          separators[i],
+          mostCommonStaffCount,
+          staffCounts[i],
+        );
+      }
+    }
+  }
+
+  private buildIssue(
+    node: Node,
+    mostCommonStaffCount: number,
+    thisStaffCount: number,
+  ): ValidationIssue {
+    return {
+      code: this.code,
+      message: `⚠️ [${node.className}:${node.id}] links to an unexpected number (${thisStaffCount}) of [staff] nodes. Most common staff count is ${mostCommonStaffCount}. This may not be an issue in a small minority of pages, but is very suspicious for most.`,
+      nodeId: node.id,
+      resolution: null,
+      fingerprint: null,
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { ValidationIssue } from "../../../editor/model/ValidationIssue";
+import { Node } from "../../Node";
+import { getChildren } from "../getChildren";
+import { ValidationGraph } from "../ValidationGraph";
+import { ValidationRule } from "../ValidationRule";
+
+const NOTEHEADS = new Set([
+  "noteheadBlack",
+  "noteheadHalf",
+  "noteheadWhole",
+  "noteheadBlackSmall",
+  "noteheadHalfSmall",
+  "noteheadWholeSmall",
+]);
+
+/**
+ * Reports children of noteheads (flags, articulations, ...) whose
+ * above/below or up/down class suffix contradicts their actual position
+ * relative to the notehead
+ */
+export class NoteheadChildOrientationRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes: readonly number[];
+
+  private readonly code: number;
+  private readonly aboveSuffix: string;
+  private readonly belowSuffix: string;
+  private readonly childClasses: ReadonlySet<string>;
+
+  constructor(
+    code: number,
+    aboveSuffix: string,
+    belowSuffix: string,
+    classRoots: readonly string[],
+  ) {
+    this.code = code;
+    this.issueCodes = [code];
+    this.aboveSuffix = aboveSuffix;
+    this.belowSuffix = belowSuffix;
+    this.childClasses = new Set([
+      ...classRoots.map((r) => r + aboveSuffix),
+      ...classRoots.map((r) => r + belowSuffix),
+    ]);
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const node of graph.nodes) {
+      if (NOTEHEADS.has(node.className)) {
+        yield* this.inspectNotehead(graph, node);
+      }
+    }
+  }
+
+  private *inspectNotehead(
+    graph: ValidationGraph,
+    notehead: Node,
+  ): Iterable<ValidationIssue> {
+    for (const child of getChildren(graph, notehead, this.childClasses)) {
+      if (child.className.endsWith(this.aboveSuffix)) {
+        if (getMiddleRow(notehead) < getMiddleRow(child)) {
+          yield this.buildIssue(notehead, child, false);
+        }
+      } else if (child.className.endsWith(this.belowSuffix)) {
+        if (getMiddleRow(notehead) > getMiddleRow(child)) {
+          yield this.buildIssue(notehead, child, true);
+        }
+      }
+    }
+  }
+
+  private buildIssue(
+    notehead: Node,
+    child: Node,
+    isActuallyAbove: boolean,
+  ): ValidationIssue {
+    const suffixFrom = isActuallyAbove ? this.belowSuffix : this.aboveSuffix;
+    const suffixTo = isActuallyAbove ? this.aboveSuffix : this.belowSuffix;
+    const newClass = child.className.split(suffixFrom).join(suffixTo);
+    return {
+      code: this.code,
+      message:
+        `Node '${child.className}' should be '${newClass}' since it ` +
+        `is acutally ${isActuallyAbove ? "above" : "below"} the notehead.`,
+      nodeId: child.id,
+      resolution: {
+        operations: [{ updateNodeId: child.id, newClassName: newClass }],
+      },
+      // the child may belong to multiple noteheads (e.g. a flag),
+      // so we fingerprint by the notehead ID to disambiguate issues
+      fingerprint: String(notehead.id),
+    };
+  }
+}
+
+/**
+ * Vertical coordinate of the node's middle, as computed by the mung package
+ */
+function getMiddleRow(node: Node): number {
+  return node.top + Math.floor(node.height / 2);
+}
@@ -0,0 +1,71 @@
+import { ValidationIssue } from "../../../editor/model/ValidationIssue";
+import { Node } from "../../Node";
+import { getChildren } from "../getChildren";
+import { ValidationGraph } from "../ValidationGraph";
+import { ValidationRule } from "../ValidationRule";
+
+/**
+ * Reports containers (e.g. time signatures) whose children are not
+ * chained into a single sequence by precedence links
+ */
+export class PrecedenceSequentionalityRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes: readonly number[];
+
+  private readonly code: number;
+  private readonly containerClassName: string;
+  private readonly childClassNames: ReadonlySet<string>;
+
+  constructor(
+    code: number,
+    containerClassName: string,
+    childClassNames: readonly string[],
+  ) {
+    this.code = code;
+    this.issueCodes = [code];
+    this.containerClassName = containerClassName;
+    this.childClassNames = new Set(childClassNames);
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const node of graph.nodes) {
+      if (node.className === this.containerClassName) {
+        const children = getChildren(graph, node, this.childClassNames);
+        yield* this.inspectContainer(node, children);
+      }
+    }
+  }
+
+  private *inspectContainer(
+    container: Node,
+    children: readonly Node[],
+  ): Iterable<ValidationIssue> {
+    // if there are no children, they are considered properly ordered
+    if (children.length === 0) return;
+
+    const sourceCount = children.filter(
+      (c) => c.precedenceInlinks.length === 0,
+    ).length;
+    const targetCount = children.filter(
+      (c) => c.precedenceOutlinks.length === 0,
+    ).length;
+
+    // there must be 1 source and 1 target for the graph to be
+    // a DAG with one start and one end. The max inlink/outlink
+    // rule in the precedence grammar will make sure it has to be a line,
+    // not a generic DAG.
+    if (sourceCount !== 1 || targetCount !== 1) {
+      yield this.buildIssue(container);
+    }
+  }
+
+  private buildIssue(node: Node): ValidationIssue {
+    return {
+      code: this.code,
+      message: `Children of [${node.className}:${node.id}] are not sequentially ordered via [🟢 precedence] links.`,
+      nodeId: node.id,
+      resolution: null,
+      fingerprint: null,
+    };
+  }
+}
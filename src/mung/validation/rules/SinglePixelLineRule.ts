@@ -0,0 +1,74 @@
+import { ValidationIssue } from "../../../editor/model/ValidationIssue";
+import { Node } from "../../Node";
+import { ValidationGraph } from "../ValidationGraph";
+import { ValidationRule } from "../ValidationRule";
+
+/**
+ * Reports masks that are mostly a single pixel thick,
+ * i.e. lines drawn instead of proper masks
+ */
+export class SinglePixelLineRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes: readonly number[];
+
+  private readonly code: number;
+  private readonly className: string;
+  private readonly sumAxis: 0 | 1;
+  private readonly detectionThreshold: number;
+
+  /**
+   * @param sumAxis 0 to measure the thickness of columns, 1 of rows
+   */
+  constructor(
+    code: number,
+    className: string,
+    sumAxis: 0 | 1,
+    detectionThreshold: number = 0.8,
+  ) {
+    this.code = code;
+    this.issueCodes = [code];
+    this.className = className;
+    this.sumAxis = sumAxis;
+    this.detectionThreshold = detectionThreshold;
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const node of graph.nodes) {
+      if (node.className === this.className) {
+        yield* this.inspectNode(node);
+      }
+    }
+  }
+
+  private *inspectNode(node: Node): Iterable<ValidationIssue> {
+    const mask = node.decodedMask;
+    if (mask === null) return;
+
+    // pixel counts of mask rows (axis 1) or columns (axis 0)
+    const sums = new Array<number>(
+      this.sumAxis === 1 ? mask.height : mask.width,
+    ).fill(0);
+    for (let y = 0; y < mask.height; y++) {
+      for (let x = 0; x < mask.width; x++) {
+        if (mask.data[(y * mask.width + x) * 4 + 3] === 0) continue;
+        sums[this.sumAxis === 1 ? y : x] += 1;
+      }
+    }
+
+    if (sums.length === 0) return;
+    const singlePixelRatio = sums.filter((s) => s === 1).length / sums.length;
+    if (singlePixelRatio >= this.detectionThreshold) {
+      yield this.buildIssue(node);
+    }
+  }
+
+  private buildIssue(node: Node): ValidationIssue {
+    return {
+      code: this.code,
+      message: `Node '${node.className}' is likely a single-pixel line, instead of a proper mask.`,
+      nodeId: node.id,
+      resolution: null,
+      fingerprint: null,
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import { ValidationIssue } from "../../../../editor/model/ValidationIssue";
+import { LinkType } from "../../../LinkType";
+import { AllowedLinksRuleDefinition } from "../../DeclarativeRuleSet";
+import { ValidationGraph } from "../../ValidationGraph";
+import { ValidationRule } from "../../ValidationRule";
+import {
+  formatIssueMessage,
+  getLinkBadge,
+  getOutlinks,
+} from "./declarativeRuleHelpers";
+
+/**
+ * Reports outlinks of nodes of the "from" classes leading to nodes
+ * not of the "to" classes, the fix removes the link
+ */
+export class AllowedLinksRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes: readonly number[];
+
+  private readonly definition: AllowedLinksRuleDefinition;
+  private readonly from: ReadonlySet<string>;
+  private readonly to: ReadonlySet<string>;
+  private readonly linkType: LinkType;
+
+  constructor(definition: AllowedLinksRuleDefinition) {
+    this.definition = definition;
+    this.issueCodes = [definition.code];
+    this.from = new Set(definition.from);
+    this.to = new Set(definition.to);
+    this.linkType = definition.linkType ?? LinkType.Syntax;
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const node of graph.nodes) {
+      if (!this.from.has(node.className)) continue;
+      for (const toId of getOutlinks(node, this.linkType)) {
+        const target = graph.getNode(toId);
+        if (this.to.has(target.className)) continue;
+        yield {
+          code: this.definition.code,
+          message: formatIssueMessage(
+            this.definition.message,
+            node,
+            `${getLinkBadge(this.linkType)} link [${node.className}:${node.id}]-->[${target.className}:${target.id}] is not allowed by the dataset rules.`,
+          ),
+          nodeId: node.id,
+          resolution: {
+            operations: [
+              {
+                removeLink: {
+                  fromId: node.id,
+                  toId: target.id,
+                  type: this.linkType,
+                },
+              },
+            ],
+          },
+          fingerprint: String(target.id),
+        };
+      }
+    }
+  }
+}
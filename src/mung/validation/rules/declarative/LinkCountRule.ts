@@ -0,0 +1,81 @@
+import { ValidationIssue } from "../../../../editor/model/ValidationIssue";
+import { LinkType } from "../../../LinkType";
+import { LinkCountRuleDefinition } from "../../DeclarativeRuleSet";
+import { ValidationGraph } from "../../ValidationGraph";
+import { ValidationRule } from "../../ValidationRule";
+import {
+  formatIssueMessage,
+  getInlinks,
+  getLinkBadge,
+  getOutlinks,
+} from "./declarativeRuleHelpers";
+
+/**
+ * Reports nodes of the given classes with fewer or more links
+ * to (or from) nodes of the target classes than allowed
+ */
+export class LinkCountRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes: readonly number[];
+
+  private readonly definition: LinkCountRuleDefinition;
+  private readonly classes: ReadonlySet<string>;
+  private readonly targets: ReadonlySet<string>;
+  private readonly linkType: LinkType;
+  private readonly min: number;
+  private readonly max: number;
+
+  constructor(definition: LinkCountRuleDefinition) {
+    this.definition = definition;
+    this.issueCodes = [definition.code];
+    this.classes = new Set(definition.classes);
+    this.targets = new Set(definition.targets);
+    this.linkType = definition.linkType ?? LinkType.Syntax;
+    this.min = definition.min ?? 0;
+    this.max = definition.max ?? Infinity;
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const node of graph.nodes) {
+      if (!this.classes.has(node.className)) continue;
+      const links =
+        this.definition.direction === "out"
+          ? getOutlinks(node, this.linkType)
+          : getInlinks(node, this.linkType);
+      const linkCount = links.filter((id) =>
+        this.targets.has(graph.getNode(id).className),
+      ).length;
+      if (linkCount >= this.min && linkCount <= this.max) continue;
+      yield {
+        code: this.definition.code,
+        message: formatIssueMessage(
+          this.definition.message,
+          node,
+          this.buildDefaultMessage(node.className, node.id, linkCount),
+        ),
+        nodeId: node.id,
+        resolution: null,
+        fingerprint: null,
+      };
+    }
+  }
+
+  private buildDefaultMessage(
+    className: string,
+    nodeId: number,
+    linkCount: number,
+  ): string {
+    const limit =
+      this.max === Infinity
+        ? `at least ${this.min}`
+        : this.min === 0
+          ? `at most ${this.max}`
+          : this.min === this.max
+            ? `exactly ${this.min}`
+            : `${this.min} to ${this.max}`;
+    const direction =
+      this.definition.direction === "out" ? "outlinks to" : "inlinks from";
+    const targets = this.definition.targets.join(", ");
+    return `[${className}:${nodeId}] should have ${limit} ${getLinkBadge(this.linkType)} ${direction} [${targets}] but currently has ${linkCount}.`;
+  }
+}
@@ -0,0 +1,54 @@
+import { ValidationIssue } from "../../../../editor/model/ValidationIssue";
+import { LinkType } from "../../../LinkType";
+import { RequiresParentRuleDefinition } from "../../DeclarativeRuleSet";
+import { ValidationGraph } from "../../ValidationGraph";
+import { ValidationRule } from "../../ValidationRule";
+import {
+  formatIssueMessage,
+  getInlinks,
+  getLinkBadge,
+} from "./declarativeRuleHelpers";
+
+/**
+ * Reports nodes of the given classes without an inlink
+ * from a node of one of the parent classes
+ */
+export class RequiresParentRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes: readonly number[];
+
+  private readonly definition: RequiresParentRuleDefinition;
+  private readonly classes: ReadonlySet<string>;
+  private readonly parents: ReadonlySet<string>;
+  private readonly linkType: LinkType;
+
+  constructor(definition: RequiresParentRuleDefinition) {
+    this.definition = definition;
+    this.issueCodes = [definition.code];
+    this.classes = new Set(definition.classes);
+    this.parents = new Set(definition.parents);
+    this.linkType = definition.linkType ?? LinkType.Syntax;
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const node of graph.nodes) {
+      if (!this.classes.has(node.className)) continue;
+      const hasParent = getInlinks(node, this.linkType).some((id) =>
+        this.parents.has(graph.getNode(id).className),
+      );
+      if (hasParent) continue;
+      const parents = this.definition.parents.join(", ");
+      yield {
+        code: this.definition.code,
+        message: formatIssueMessage(
+          this.definition.message,
+          node,
+          `[${node.className}:${node.id}] requires a ${getLinkBadge(this.linkType)} inlink from [${parents}].`,
+        ),
+        nodeId: node.id,
+        resolution: null,
+        fingerprint: null,
+      };
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { ValidationIssue } from "../../../../editor/model/ValidationIssue";
+import { RequiresTranscriptionRuleDefinition } from "../../DeclarativeRuleSet";
+import { ValidationGraph } from "../../ValidationGraph";
+import { ValidationRule } from "../../ValidationRule";
+import { formatIssueMessage } from "./declarativeRuleHelpers";
+
+/**
+ * Reports nodes of the given classes without a text transcription
+ */
+export class RequiresTranscriptionRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes: readonly number[];
+
+  private readonly definition: RequiresTranscriptionRuleDefinition;
+  private readonly classes: ReadonlySet<string>;
+
+  constructor(definition: RequiresTranscriptionRuleDefinition) {
+    this.definition = definition;
+    this.issueCodes = [definition.code];
+    this.classes = new Set(definition.classes);
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const node of graph.nodes) {
+      if (!this.classes.has(node.className)) continue;
+      if (node.textTranscription !== null) continue;
+      yield {
+        code: this.definition.code,
+        message: formatIssueMessage(
+          this.definition.message,
+          node,
+          `[${node.className}:${node.id}] requires a text transcription.`,
+        ),
+        nodeId: node.id,
+        resolution: null,
+        fingerprint: null,
+      };
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { LinkType } from "../../../LinkType";
+import { Node } from "../../../Node";
+
+/**
+ * The custom message of a declarative rule with "{node}" substituted,
+ * or the default message when the rule has none
+ */
+export function formatIssueMessage(
+  customMessage: string | undefined,
+  node: Node,
+  defaultMessage: string,
+): string {
+  if (customMessage === undefined) return defaultMessage;
+  return customMessage.split("{node}").join(`[${node.className}:${node.id}]`);
+}
+
+export function getOutlinks(node: Node, type: LinkType): readonly number[] {
+  return type === LinkType.Syntax
+    ? node.syntaxOutlinks
+    : node.precedenceOutlinks;
+}
+
+export function getInlinks(node: Node, type: LinkType): readonly number[] {
+  return type === LinkType.Syntax ? node.syntaxInlinks : node.precedenceInlinks;
+}
+
+/**
+ * Marks the link type in messages the same way the grammar rule does
+ */
+export function getLinkBadge(type: LinkType): string {
+  return type === LinkType.Syntax ? "[🔴 syntax]" : "[🟢 precedence]";
+}
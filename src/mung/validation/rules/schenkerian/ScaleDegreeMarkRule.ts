@@ -0,0 +1,97 @@
+import { ValidationIssue } from "../../../../editor/model/ValidationIssue";
+import { LinkType } from "../../../LinkType";
+import { Node } from "../../../Node";
+import { getChildren } from "../../getChildren";
+import { ValidationGraph } from "../../ValidationGraph";
+import { ValidationRule } from "../../ValidationRule";
+import { findNearestNode } from "./findNearestNode";
+import { NUMERALS } from "./schenkerianClassNames";
+
+const SCALE_DEGREE_MARK = new Set(["scaleDegreeMark"]);
+
+/**
+ * Reports scale degree marks (the caret of "3̂") that do not belong
+ * to a numeral as its child, or that are not above their numeral.
+ * The missing link is proposed to the numeral right below the mark.
+ */
+export class ScaleDegreeMarkRule implements ValidationRule {
+  // the proposed numeral is searched for in the whole graph
+  public readonly isLocal = false;
+  public readonly issueCodes: readonly number[];
+
+  private readonly missingNumeralCode: number;
+  private readonly notAboveCode: number;
+
+  constructor(missingNumeralCode: number, notAboveCode: number) {
+    this.missingNumeralCode = missingNumeralCode;
+    this.notAboveCode = notAboveCode;
+    this.issueCodes = [missingNumeralCode, notAboveCode];
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const mark of graph.nodes) {
+      if (mark.className !== "scaleDegreeMark") continue;
+      const numerals = mark.syntaxInlinks
+        .map((id) => graph.getNode(id))
+        .filter((node) => NUMERALS.has(node.className));
+      if (numerals.length === 0) {
+        yield this.buildMissingNumeralIssue(graph, mark);
+      }
+      for (const numeral of numerals) {
+        if (getMiddleRow(mark) >= getMiddleRow(numeral)) {
+          yield this.buildNotAboveIssue(mark, numeral);
+        }
+      }
+    }
+  }
+
+  private buildMissingNumeralIssue(
+    graph: ValidationGraph,
+    mark: Node,
+  ): ValidationIssue {
+    // the closest numeral below the mark, that has no mark yet
+    const numeral = findNearestNode(
+      graph,
+      mark,
+      NUMERALS,
+      mark.height * 2,
+      (candidate) =>
+        getMiddleRow(candidate) > getMiddleRow(mark) &&
+        getChildren(graph, candidate, SCALE_DEGREE_MARK).length === 0,
+    );
+    return {
+      code: this.missingNumeralCode,
+      message: `[${mark.className}:${mark.id}] must have a [🔴 syntax] inlink from the numeral below it.`,
+      nodeId: mark.id,
+      resolution:
+        numeral === null
+          ? null
+          : {
+              operations: [
+                {
+                  insertLink: {
+                    fromId: numeral.id,
+                    toId: mark.id,
+                    type: LinkType.Syntax,
+                  },
+                },
+              ],
+            },
+      fingerprint: null,
+    };
+  }
+
+  private buildNotAboveIssue(mark: Node, numeral: Node): ValidationIssue {
+    return {
+      code: this.notAboveCode,
+      message: `[${mark.className}:${mark.id}] should sit above its [${numeral.className}:${numeral.id}].`,
+      nodeId: mark.id,
+      resolution: null,
+      fingerprint: String(numeral.id),
+    };
+  }
+}
+
+function getMiddleRow(node: Node): number {
+  return node.top + Math.floor(node.height / 2);
+}
@@ -0,0 +1,85 @@
+import { ValidationIssue } from "../../../../editor/model/ValidationIssue";
+import { Node } from "../../../Node";
+import { ValidationGraph } from "../../ValidationGraph";
+import { ValidationRule } from "../../ValidationRule";
+import { STRUCTURAL_STEMS } from "./schenkerianClassNames";
+
+/**
+ * How many structural stems each structural beam must connect
+ */
+const MIN_STEM_COUNTS: Readonly<Record<string, number>> = {
+  beamStructural: 2,
+  beamStructuralPartialLeft: 1,
+  beamStructuralPartialRight: 1,
+  beamStructuralPartialMiddle: 1,
+};
+
+/**
+ * Reports structural beams that do not connect enough structural stems
+ * (by syntax links in either direction), and beams linked to common stems instead,
+ * which are fixed by making the stem structural
+ */
+export class StructuralBeamStemsRule implements ValidationRule {
+  public readonly isLocal = true;
+  public readonly issueCodes: readonly number[];
+
+  private readonly missingStemsCode: number;
+  private readonly commonStemCode: number;
+
+  constructor(missingStemsCode: number, commonStemCode: number) {
+    this.missingStemsCode = missingStemsCode;
+    this.commonStemCode = commonStemCode;
+    this.issueCodes = [missingStemsCode, commonStemCode];
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const beam of graph.nodes) {
+      const minStemCount = MIN_STEM_COUNTS[beam.className];
+      if (minStemCount === undefined) continue;
+
+      const linkedNodes = [...beam.syntaxOutlinks, ...beam.syntaxInlinks].map(
+        (id) => graph.getNode(id),
+      );
+      const commonStems = linkedNodes.filter((n) => n.className === "stem");
+      const structuralStemCount = linkedNodes.filter((n) =>
+        STRUCTURAL_STEMS.has(n.className),
+      ).length;
+
+      for (const stem of commonStems) {
+        yield this.buildCommonStemIssue(beam, stem);
+      }
+
+      // common stems are counted in, since the above issue covers them
+      const stemCount = structuralStemCount + commonStems.length;
+      if (stemCount < minStemCount) {
+        yield this.buildMissingStemsIssue(beam, minStemCount, stemCount);
+      }
+    }
+  }
+
+  private buildMissingStemsIssue(
+    beam: Node,
+    minStemCount: number,
+    stemCount: number,
+  ): ValidationIssue {
+    return {
+      code: this.missingStemsCode,
+      message: `[${beam.className}:${beam.id}] should connect at least ${minStemCount} [stemStructural] but currently connects ${stemCount}.`,
+      nodeId: beam.id,
+      resolution: null,
+      fingerprint: null,
+    };
+  }
+
+  private buildCommonStemIssue(beam: Node, stem: Node): ValidationIssue {
+    return {
+      code: this.commonStemCode,
+      message: `[${beam.className}:${beam.id}] connects [${stem.className}:${stem.id}], which should be a [stemStructural].`,
+      nodeId: beam.id,
+      resolution: {
+        operations: [{ updateNodeId: stem.id, newClassName: "stemStructural" }],
+      },
+      fingerprint: String(stem.id),
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import { ValidationIssue } from "../../../../editor/model/ValidationIssue";
+import { DeltaOperation } from "../../../Delta";
+import { LinkType } from "../../../LinkType";
+import { Node } from "../../../Node";
+import { ValidationGraph } from "../../ValidationGraph";
+import { ValidationRule } from "../../ValidationRule";
+import { findNearestNode } from "./findNearestNode";
+import {
+  STRUCTURAL_NOTEHEADS,
+  STRUCTURAL_STEMS,
+} from "./schenkerianClassNames";
+
+/**
+ * Reports structural stems without a notehead, which should be their
+ * parent, just like with common stems. The fix links the notehead the stem
+ * touches, or reverses a link going from the stem to a notehead.
+ */
+export class StructuralStemNoteheadRule implements ValidationRule {
+  // the proposed notehead is searched for in the whole graph
+  public readonly isLocal = false;
+  public readonly issueCodes: readonly number[];
+
+  private readonly code: number;
+
+  constructor(code: number) {
+    this.code = code;
+    this.issueCodes = [code];
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const stem of graph.nodes) {
+      if (!STRUCTURAL_STEMS.has(stem.className)) continue;
+      const hasNotehead = stem.syntaxInlinks.some((id) =>
+        STRUCTURAL_NOTEHEADS.has(graph.getNode(id).className),
+      );
+      if (!hasNotehead) {
+        yield this.buildIssue(stem, this.proposeFix(graph, stem));
+      }
+    }
+  }
+
+  private proposeFix(graph: ValidationGraph, stem: Node): DeltaOperation[] {
+    const reversedNotehead = stem.syntaxOutlinks
+      .map((id) => graph.getNode(id))
+      .find((node) => STRUCTURAL_NOTEHEADS.has(node.className));
+    if (reversedNotehead !== undefined) {
+      return [
+        {
+          removeLink: {
+            fromId: stem.id,
+            toId: reversedNotehead.id,
+            type: LinkType.Syntax,
+          },
+        },
+        {
+          insertLink: {
+            fromId: reversedNotehead.id,
+            toId: stem.id,
+            type: LinkType.Syntax,
+          },
+        },
+      ];
+    }
+
+    // the stem should touch its notehead
+    const notehead = findNearestNode(graph, stem, STRUCTURAL_NOTEHEADS, 2);
+    if (notehead === null) return [];
+    return [
+      {
+        insertLink: {
+          fromId: notehead.id,
+          toId: stem.id,
+          type: LinkType.Syntax,
+        },
+      },
+    ];
+  }
+
+  private buildIssue(stem: Node, fix: DeltaOperation[]): ValidationIssue {
+    return {
+      code: this.code,
+      message: `[${stem.className}:${stem.id}] must have a [🔴 syntax] inlink from a notehead.`,
+      nodeId: stem.id,
+      resolution: fix.length === 0 ? null : { operations: fix },
+      fingerprint: null,
+    };
+  }
+}
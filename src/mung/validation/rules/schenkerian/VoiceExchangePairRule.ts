@@ -0,0 +1,89 @@
+import { ValidationIssue } from "../../../../editor/model/ValidationIssue";
+import { LinkType } from "../../../LinkType";
+import { Node } from "../../../Node";
+import { ValidationGraph } from "../../ValidationGraph";
+import { ValidationRule } from "../../ValidationRule";
+import { findNearestNode } from "./findNearestNode";
+
+const COUNTERPARTS: Readonly<Record<string, string>> = {
+  voiceExchangeUp: "voiceExchangeDown",
+  voiceExchangeDown: "voiceExchangeUp",
+};
+
+/**
+ * Reports voice exchange lines not paired with exactly one line
+ * of the opposite direction. An unpaired up line is fixed by linking it
+ * to the unpaired down line crossing it (the fix is offered only on the
+ * up line, so that fixing all issues does not insert the link twice).
+ */
+export class VoiceExchangePairRule implements ValidationRule {
+  // the proposed counterpart is searched for in the whole graph
+  public readonly isLocal = false;
+  public readonly issueCodes: readonly number[];
+
+  private readonly code: number;
+
+  constructor(code: number) {
+    this.code = code;
+    this.issueCodes = [code];
+  }
+
+  public *scanGraph(graph: ValidationGraph): Iterable<ValidationIssue> {
+    for (const line of graph.nodes) {
+      const counterpartClass = COUNTERPARTS[line.className];
+      if (counterpartClass === undefined) continue;
+      const pairCount = countCounterparts(graph, line);
+      if (pairCount !== 1) {
+        yield this.buildIssue(graph, line, counterpartClass, pairCount);
+      }
+    }
+  }
+
+  private buildIssue(
+    graph: ValidationGraph,
+    line: Node,
+    counterpartClass: string,
+    pairCount: number,
+  ): ValidationIssue {
+    const counterpart =
+      pairCount === 0 && line.className === "voiceExchangeUp"
+        ? findNearestNode(
+            graph,
+            line,
+            new Set([counterpartClass]),
+            0,
+            (candidate) => countCounterparts(graph, candidate) === 0,
+          )
+        : null;
+    return {
+      code: this.code,
+      message: `[${line.className}:${line.id}] should pair with exactly one [${counterpartClass}] but is linked to ${pairCount}.`,
+      nodeId: line.id,
+      resolution:
+        counterpart === null
+          ? null
+          : {
+              operations: [
+                {
+                  insertLink: {
+                    fromId: line.id,
+                    toId: counterpart.id,
+                    type: LinkType.Syntax,
+                  },
+                },
+              ],
+            },
+      fingerprint: null,
+    };
+  }
+}
+
+/**
+ * Counts the lines of the opposite direction syntax-linked to the given line
+ */
+function countCounterparts(graph: ValidationGraph, line: Node): number {
+  const counterpartClass = COUNTERPARTS[line.className];
+  return [...line.syntaxOutlinks, ...line.syntaxInlinks].filter(
+    (id) => graph.getNode(id).className === counterpartClass,
+  ).length;
+}
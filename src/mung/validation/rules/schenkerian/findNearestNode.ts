@@ -0,0 +1,47 @@
+import { Node } from "../../../Node";
+import { ValidationGraph } from "../../ValidationGraph";
+
+/**
+ * Finds the node of one of the given classes closest to the given node,
+ * measured as the gap between their bounding boxes. Used to propose
+ * a missing link. Returns null when no node is within the distance.
+ * @param maxDistance The largest allowed gap in pixels
+ * @param accept Additional condition for the candidate nodes
+ */
+export function findNearestNode(
+  graph: ValidationGraph,
+  node: Node,
+  classNames: ReadonlySet<string>,
+  maxDistance: number,
+  accept: (candidate: Node) => boolean = () => true,
+): Node | null {
+  let nearest: Node | null = null;
+  let nearestDistance = Infinity;
+  for (const candidate of graph.nodes) {
+    if (candidate.id === node.id) continue;
+    if (!classNames.has(candidate.className)) continue;
+    const distance = getBoxGap(node, candidate);
+    if (distance > maxDistance || distance >= nearestDistance) continue;
+    if (!accept(candidate)) continue;
+    nearest = candidate;
+    nearestDistance = distance;
+  }
+  return nearest;
+}
+
+/**
+ * Distance between the bounding boxes of two nodes, zero when they overlap
+ */
+function getBoxGap(a: Node, b: Node): number {
+  const dx = Math.max(
+    0,
+    a.left - (b.left + b.width),
+    b.left - (a.left + a.width),
+  );
+  const dy = Math.max(
+    0,
+    a.top - (b.top + b.height),
+    b.top - (a.top + a.height),
+  );
+  return Math.hypot(dx, dy);
+}
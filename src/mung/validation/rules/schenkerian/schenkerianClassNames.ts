@@ -0,0 +1,92 @@
+/**
+ * Classes of the Schenkerian notation (see the "SCHENKERIAN NOTATION"
+ * section of mungClasses.ts), they are not part of the MuNG 2.0 grammars
+ */
+export const SCHENKERIAN_CLASS_NAMES: ReadonlySet<string> = new Set([
+  "stemStructural",
+  "stemStructuralPartial",
+  "stemStructuralBridgeLeft",
+  "stemStructuralBridgeRight",
+  "flagStructuralUp",
+  "flagStructuralDown",
+  "slurStructuralDown",
+  "slurStructuralUp",
+  "slurStructuralUpDashed",
+  "slurStructuralDownDashed",
+  "beamStructural",
+  "beamStructuralPartialLeft",
+  "beamStructuralPartialRight",
+  "beamStructuralPartialMiddle",
+  "beamStructuralBridgeUp",
+  "beamStructuralBridgeDown",
+  "beamStructuralUnfoldingDown",
+  "beamStructuralUnfoldingUp",
+  "voiceExchangeDown",
+  "voiceExchangeUp",
+  "parensImpliedLeft",
+  "parensImpliedRight",
+  "noteheadImplied",
+  "noteheadOpenImplied",
+  "scaleDegreeMark",
+  "characterColonDotUpper",
+  "characterColonDotLower",
+  "characterExclamation",
+  "characterHyphen",
+  "characterEqual",
+  "braceAnalytical",
+  "barlineStructuralDotted",
+  "barlineStructuralDottedPartial",
+  "keyAnalysis",
+  "analyticalI",
+  "analyticalII",
+  "analyticalIII",
+  "analyticalIV",
+  "analyticalV",
+  "analyticalVI",
+  "analyticalVII",
+  "numeralRomanI",
+  "numeralRomanII",
+  "numeralRomanIII",
+  "numeralRomanIV",
+  "numeralRomanV",
+  "numeralRomanVI",
+  "numeralRomanVII",
+  "analyticalPlus",
+  "analyticalMinus",
+  "secondaryHarmonyArrowRight",
+  "secondaryHarmonyArrowLeft",
+  "motiveBracket",
+  "tonicizationBar",
+  "circleEmphasis",
+  "circleMeasureNumber",
+  "analysisInterruption",
+]);
+
+export const STRUCTURAL_STEMS: ReadonlySet<string> = new Set([
+  "stemStructural",
+  "stemStructuralPartial",
+]);
+
+export const STRUCTURAL_NOTEHEADS: ReadonlySet<string> = new Set([
+  "noteheadBlack",
+  "noteheadHalf",
+  "noteheadWhole",
+  "noteheadBlackSmall",
+  "noteheadHalfSmall",
+  "noteheadWholeSmall",
+  "noteheadImplied",
+  "noteheadOpenImplied",
+]);
+
+export const NUMERALS: ReadonlySet<string> = new Set([
+  "numeral0",
+  "numeral1",
+  "numeral2",
+  "numeral3",
+  "numeral4",
+  "numeral5",
+  "numeral6",
+  "numeral7",
+  "numeral8",
+  "numeral9",
+]);
@@ -0,0 +1,92 @@
+import { ValidationIssue } from "../../editor/model/ValidationIssue";
+import { MungFile } from "../MungFile";
+import { DeclarativeRuleSet } from "./DeclarativeRuleSet";
+import { ValidationEngine } from "./ValidationEngine";
+import { createValidationGraph } from "./ValidationGraph";
+import { parseValidationRuleSets } from "./ValidationRuleSet";
+import { buildDefaultValidationEngine } from "./buildDefaultValidationEngine";
+import { loadGrammarDefinitions } from "./loadGrammarDefinitions";
+
+/**
+ * A document of a batch to be validated
+ */
+export interface DocumentToValidate {
+  readonly name: string;
+
+  /**
+   * Names of the optional rule sets enabled for the document
+   */
+  readonly ruleSetNames: readonly string[];
+}
+
+/**
+ * Validation issues of one document of a batch
+ */
+export interface DocumentValidationResult {
+  readonly documentName: string;
+  readonly issues: readonly ValidationIssue[];
+
+  /**
+   * Why the document could not be validated, null when it was
+   */
+  readonly error: string | null;
+}
+
+/**
+ * Validates many documents with the typescript engine, each with its
+ * enabled rule sets and the rules of its dataset. Documents are loaded
+ * lazily one by one, a document that fails to load or validate is
+ * reported with the error and the batch continues.
+ * @param loadDatasetRuleSet Returns the user-defined rules of a dataset,
+ * null when it has none, it is called once per dataset
+ */
+export async function validateDocuments(
+  documents: readonly DocumentToValidate[],
+  loadDocument: (name: string) => Promise<MungFile>,
+  loadDatasetRuleSet: (dataset: string) => Promise<DeclarativeRuleSet | null>,
+  onProgress?: (doneDocuments: number, totalDocuments: number) => void,
+): Promise<DocumentValidationResult[]> {
+  const grammars = await loadGrammarDefinitions();
+  const datasetRuleSets = new Map<string, Promise<DeclarativeRuleSet | null>>();
+  const engines = new Map<string, ValidationEngine>();
+  const results: DocumentValidationResult[] = [];
+
+  for (let i = 0; i < documents.length; i++) {
+    onProgress?.(i, documents.length);
+    const documentName = documents[i].name;
+    try {
+      const mung = await loadDocument(documentName);
+      const { dataset } = mung.metadata;
+      const ruleSets = parseValidationRuleSets(documents[i].ruleSetNames);
+
+      let datasetRuleSet = datasetRuleSets.get(dataset);
+      if (datasetRuleSet === undefined) {
+        datasetRuleSet = loadDatasetRuleSet(dataset);
+        datasetRuleSets.set(dataset, datasetRuleSet);
+      }
+
+      const key = dataset + " " + ruleSets.join(" ");
+      let engine = engines.get(key);
+      if (engine === undefined) {
+        engine = buildDefaultValidationEngine(
+          grammars,
+          ruleSets,
+          await datasetRuleSet,
+        );
+        engines.set(key, engine);
+      }
+
+      results.push({
+        documentName,
+        issues: engine.run(createValidationGraph(mung.nodes)),
+        error: null,
+      });
+    } catch (e) {
+      console.error(e);
+      results.push({ documentName, issues: [], error: String(e) });
+    }
+  }
+  onProgress?.(documents.length, documents.length);
+
+  return results;
+}
@@ -0,0 +1,128 @@
+import { spawnSync } from "child_process";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, test } from "vitest";
+import { ValidationIssue } from "../../editor/model/ValidationIssue";
+import { readMungXmlString } from "../readMungXmlString";
+import { buildDefaultValidationEngine } from "./buildDefaultValidationEngine";
+import { compareValidationIssues } from "./compareValidationIssues";
+import { parseGrammarDefinitions } from "./loadGrammarDefinitions";
+import { createValidationGraph } from "./ValidationGraph";
+
+/**
+ * MuNG documents that trigger the rules both engines implement,
+ * each must produce the same issues in typescript and in python.
+ * The issues python reports are kept next to each document
+ * (e.g. links.expected.json for links.xml), so that typescript
+ * is checked against them without the python environment.
+ */
+const FIXTURES_PATH = join(__dirname, "__fixtures__", "parity");
+const FIXTURE_NAMES = readdirSync(FIXTURES_PATH).filter((name) =>
+  name.endsWith(".xml"),
+);
+
+const MSTUDIO_PATH = join(__dirname, "..", "..", "..", "pyodide", "mstudio");
+const GRAMMARS_PATH = join(MSTUDIO_PATH, "mstudio", "validation");
+
+/**
+ * Python of the virtual environment made by "make setup" in pyodide/mstudio,
+ * the python engine needs the mung package installed there
+ */
+const PYTHON_PATH = join(MSTUDIO_PATH, ".venv", "bin", "python3");
+
+const PYTHON_SCRIPT = [
+  "import json, sys",
+  "from mstudio.validation.run_validation import run_validation",
+  "issues = run_validation(sys.stdin.read())",
+  "print(json.dumps([i.to_json() for i in issues]))",
+].join("\n");
+
+function readFixture(name: string): string {
+  return readFileSync(join(FIXTURES_PATH, name), "utf-8");
+}
+
+/**
+ * The parts of an issue both engines must agree on
+ */
+interface ExpectedIssue {
+  readonly code: number;
+  readonly nodeId: number;
+  readonly message: string;
+}
+
+function readExpectedIssues(name: string): ExpectedIssue[] {
+  const expectedName = name.replace(/\.xml$/, ".expected.json");
+  return JSON.parse(readFixture(expectedName)) as ExpectedIssue[];
+}
+
+/**
+ * Projects the issues to the compared parts in a stable order,
+ * the engines may list them in different orders
+ */
+function toExpectedIssues(issues: readonly ExpectedIssue[]): ExpectedIssue[] {
+  return issues
+    .map(({ code, nodeId, message }) => ({ code, nodeId, message }))
+    .sort(
+      (a, b) =>
+        a.code - b.code ||
+        a.nodeId - b.nodeId ||
+        (a.message < b.message ? -1 : a.message > b.message ? 1 : 0),
+    );
+}
+
+function runTypescriptValidation(xml: string): ValidationIssue[] {
+  const grammars = parseGrammarDefinitions(
+    readFileSync(join(GRAMMARS_PATH, "grammar_syntax.py"), "utf-8"),
+    readFileSync(join(GRAMMARS_PATH, "grammar_precedence.py"), "utf-8"),
+    readFileSync(join(GRAMMARS_PATH, "grammar_alphabet.py"), "utf-8"),
+  );
+  const { mung } = readMungXmlString(xml);
+  return buildDefaultValidationEngine(grammars).run(
+    createValidationGraph(mung.nodes),
+  );
+}
+
+function runPythonValidation(xml: string): ValidationIssue[] {
+  const result = spawnSync(PYTHON_PATH, ["-c", PYTHON_SCRIPT], {
+    cwd: MSTUDIO_PATH,
+    input: xml,
+    encoding: "utf-8",
+    timeout: 60_000,
+  });
+  if (result.status !== 0) {
+    throw new Error("Python validation failed: " + result.stderr);
+  }
+  return JSON.parse(result.stdout) as ValidationIssue[];
+}
+
+describe("Typescript validation engine on the parity fixtures", () => {
+  test.each(FIXTURE_NAMES)("%s produces the python issues", (name) => {
+    const issues = runTypescriptValidation(readFixture(name));
+    expect(toExpectedIssues(issues)).toEqual(
+      toExpectedIssues(readExpectedIssues(name)),
+    );
+  });
+});
+
+describe.skipIf(!existsSync(PYTHON_PATH))(
+  "Typescript and python validation engines (needs 'make setup' in pyodide/mstudio)",
+  () => {
+    test.each(FIXTURE_NAMES)("%s produces the same issues", (name) => {
+      const xml = readFixture(name);
+      const comparison = compareValidationIssues(
+        runTypescriptValidation(xml),
+        runPythonValidation(xml),
+      );
+      expect(comparison.onlyInFirst).toEqual([]);
+      expect(comparison.onlyInSecond).toEqual([]);
+      expect(comparison.differing).toEqual([]);
+    });
+
+    test.each(FIXTURE_NAMES)("%s has up-to-date python issues", (name) => {
+      const issues = runPythonValidation(readFixture(name));
+      expect(toExpectedIssues(issues)).toEqual(
+        toExpectedIssues(readExpectedIssues(name)),
+      );
+    });
+  },
+);
@@ -0,0 +1,38 @@
+import { isWarningIssue } from "../../editor/model/ValidationIssue";
+import { DocumentValidationResult } from "./validateDocuments";
+
+const CSV_HEADER = ["document", "node", "code", "severity", "message"];
+
+/**
+ * Writes the issues of validated documents as a CSV table, one issue
+ * per row. Documents that could not be validated get a row with
+ * the "failed" severity and the error as the message.
+ */
+export function writeValidationReportCsv(
+  results: readonly DocumentValidationResult[],
+): string {
+  const rows: string[][] = [CSV_HEADER];
+  for (const result of results) {
+    if (result.error !== null) {
+      rows.push([result.documentName, "", "", "failed", result.error]);
+    }
+    for (const issue of result.issues) {
+      rows.push([
+        result.documentName,
+        String(issue.nodeId),
+        String(issue.code),
+        isWarningIssue(issue) ? "warning" : "error",
+        issue.message,
+      ]);
+    }
+  }
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+}
+
+/**
+ * Quotes the field when it contains a separator, a quote or a line break
+ */
+function escapeCsvField(field: string): string {
+  if (!/[",\r\n]/.test(field)) return field;
+  return '"' + field.split('"').join('""') + '"';
+}
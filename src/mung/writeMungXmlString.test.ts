@@ -0,0 +1,58 @@
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, test } from "vitest";
+import { MungFile } from "./MungFile";
+import { MungParseIssue } from "./MungParseReport";
+import {
+  buildNodeFromMungXmlFields,
+  decodeMungXmlNodeMask,
+} from "./MungXmlNodeFields";
+import { readMungXmlString } from "./readMungXmlString";
+import { repairMungNodes } from "./repairMungNodes";
+import { StreamingMungXmlReader } from "./StreamingMungXmlReader";
+import { writeMungXmlString } from "./writeMungXmlString";
+
+/**
+ * MuNG files as MuNG Studio writes them, each must be written back
+ * byte for byte after it is read, including the parts it does not know
+ */
+const FIXTURES_PATH = join(__dirname, "__fixtures__", "round-trip");
+const FIXTURE_NAMES = readdirSync(FIXTURES_PATH).filter((name) =>
+  name.endsWith(".xml"),
+);
+
+/**
+ * Reads the file the way the reading worker does, in small chunks
+ */
+function readMungXmlStreaming(xml: string): MungFile {
+  const reader = new StreamingMungXmlReader();
+  for (let i = 0; i < xml.length; i += 64) {
+    reader.write(xml.substring(i, i + 64));
+  }
+  const { metadata, nodeFields } = reader.close();
+  const issues: MungParseIssue[] = [];
+  const onIssue = (issue: MungParseIssue) => issues.push(issue);
+  const nodes = nodeFields.map((fields) =>
+    buildNodeFromMungXmlFields(
+      fields,
+      decodeMungXmlNodeMask(fields, onIssue),
+      onIssue,
+    ),
+  );
+  expect(issues).toEqual([]);
+  return { metadata, nodes: repairMungNodes(nodes, onIssue) };
+}
+
+describe.each(FIXTURE_NAMES)("%s", (fixtureName) => {
+  const xml = readFileSync(join(FIXTURES_PATH, fixtureName), "utf-8");
+
+  test("is written back unchanged after the streaming read", () => {
+    expect(writeMungXmlString(readMungXmlStreaming(xml))).toBe(xml);
+  });
+
+  test("is written back unchanged after the DOM read", () => {
+    const { mung, report } = readMungXmlString(xml);
+    expect(report.issues).toEqual([]);
+    expect(writeMungXmlString(mung)).toBe(xml);
+  });
+});
@@ -1,5 +1,8 @@
 import { DataItems } from "./DataItems";
+import { encodeRleMaskString } from "./encodeRleMaskString";
 import { MungFile } from "./MungFile";
+import { MUNG_NODE_ELEMENT_NAMES } from "./MungXmlNodeFields";
+import { MungXmlFragment } from "./MungXmlFragment";
 import { Node } from "./Node";
 
 const ONE_INDENT = "\t";
@@ -22,21 +25,52 @@ export function writeMungXmlString(mung: MungFile): string {
   nodesElement.setAttribute("dataset", mung.metadata.dataset);
   nodesElement.setAttribute("document", mung.metadata.document);
 
-  // set XML magic attributes
-  nodesElement.setAttribute(
-    "xmlns:xsi",
-    "http://www.w3.org/2001/XMLSchema-instance",
-  );
-  nodesElement.setAttribute(
-    "xsi:noNamespaceSchemaLocation",
-    "CVC-MUSCIMA_Schema.xsd",
-  );
+  // set XML magic attributes (unless the file came with its own)
+  const extraAttributes = mung.metadata.extraAttributes ?? {};
+  if (!("xmlns:xsi" in extraAttributes)) {
+    nodesElement.setAttribute(
+      "xmlns:xsi",
+      "http://www.w3.org/2001/XMLSchema-instance",
+    );
+  }
+  if (!("xsi:noNamespaceSchemaLocation" in extraAttributes)) {
+    nodesElement.setAttribute(
+      "xsi:noNamespaceSchemaLocation",
+      "CVC-MUSCIMA_Schema.xsd",
+    );
+  }
+
+  // re-emit attributes that came with the file in their original order
+  for (const name in extraAttributes) {
+    nodesElement.setAttribute(name, extraAttributes[name]);
+  }
   nodesElement.append(NEWLINE);
 
+  // comments and unknown elements that were placed among nodes follow
+  // the node they followed originally, wherever it is in the list now,
+  // fragments of removed nodes stay with the fragment before them
+  const nodeIds = new Set(mung.nodes.map((node) => node.id));
+  const fragmentsAfterNode = new Map<number | null, MungXmlFragment[]>();
+  let anchorNodeId: number | null = null;
+  for (const fragment of mung.metadata.extraXml ?? []) {
+    const nodeId = fragment.after === null ? null : parseInt(fragment.after);
+    if (nodeId === null || nodeIds.has(nodeId)) anchorNodeId = nodeId;
+    const fragments = fragmentsAfterNode.get(anchorNodeId) ?? [];
+    fragments.push(fragment);
+    fragmentsAfterNode.set(anchorNodeId, fragments);
+  }
+  function appendFragmentsAfter(nodeId: number | null) {
+    for (const fragment of fragmentsAfterNode.get(nodeId) ?? []) {
+      nodesElement.append(...parseXmlFragment(doc, fragment.xml), NEWLINE);
+    }
+  }
+
   // append all mung nodes
+  appendFragmentsAfter(null);
   for (let node of mung.nodes) {
     const nodeElement = createXmlElementForMungNode(doc, node);
     nodesElement.append(nodeElement, NEWLINE);
+    appendFragmentsAfter(node.id);
   }
 
   // stringify and prepend processing instruction
@@ -52,54 +86,70 @@ function createXmlElementForMungNode(
   const nodeElement = doc.createElement("Node");
   nodeElement.append(NEWLINE);
 
+  // known child elements by their name
+  const childElements = new Map<string, Element>();
+
   const idElement = doc.createElement("Id");
   idElement.append(String(node.id));
-  nodeElement.append(ONE_INDENT, idElement, NEWLINE);
+  childElements.set("Id", idElement);
 
   const classNameElement = doc.createElement("ClassName");
   classNameElement.append(node.className);
-  nodeElement.append(ONE_INDENT, classNameElement, NEWLINE);
+  childElements.set("ClassName", classNameElement);
 
   const topElement = doc.createElement("Top");
   topElement.append(String(node.top));
-  nodeElement.append(ONE_INDENT, topElement, NEWLINE);
+  childElements.set("Top", topElement);
 
   const leftElement = doc.createElement("Left");
   leftElement.append(String(node.left));
-  nodeElement.append(ONE_INDENT, leftElement, NEWLINE);
+  childElements.set("Left", leftElement);
 
   const widthElement = doc.createElement("Width");
   widthElement.append(String(node.width));
-  nodeElement.append(ONE_INDENT, widthElement, NEWLINE);
+  childElements.set("Width", widthElement);
 
   const heightElement = doc.createElement("Height");
   heightElement.append(String(node.height));
-  nodeElement.append(ONE_INDENT, heightElement, NEWLINE);
+  childElements.set("Height", heightElement);
 
   if (node.decodedMask !== null) {
     const maskElement = doc.createElement("Mask");
     maskElement.append(encodeRleMaskString(node.decodedMask));
-    nodeElement.append(ONE_INDENT, maskElement, NEWLINE);
+    childElements.set("Mask", maskElement);
   }
 
   if (node.syntaxInlinks.length > 0) {
     const syntaxInlinksElement = doc.createElement("Inlinks");
     syntaxInlinksElement.append(intListToString(node.syntaxInlinks));
-    nodeElement.append(ONE_INDENT, syntaxInlinksElement, NEWLINE);
+    childElements.set("Inlinks", syntaxInlinksElement);
   }
 
   if (node.syntaxOutlinks.length > 0) {
     const syntaxOutlinksElement = doc.createElement("Outlinks");
     syntaxOutlinksElement.append(intListToString(node.syntaxOutlinks));
-    nodeElement.append(ONE_INDENT, syntaxOutlinksElement, NEWLINE);
+    childElements.set("Outlinks", syntaxOutlinksElement);
   }
 
   const dataItems = prepareDataItems(node);
+  const extraXml = node.extraXml ?? [];
+  const dataExtraXml = extraXml.filter((f) => f.inside === "Data");
 
-  if (!isEmptyObject(dataItems)) {
+  if (!isEmptyObject(dataItems) || dataExtraXml.length > 0) {
     const dataElement = doc.createElement("Data");
     dataElement.append(NEWLINE);
 
+    // preserved fragments follow the data item they originally followed,
+    // those of removed items go last
+    function appendDataFragmentsAfter(key: string | null) {
+      for (const fragment of dataExtraXml) {
+        if (fragment.after !== key) continue;
+        const xmlNodes = parseXmlFragment(doc, fragment.xml);
+        dataElement.append(ONE_INDENT + ONE_INDENT, ...xmlNodes, NEWLINE);
+      }
+    }
+
+    appendDataFragmentsAfter(null);
     for (const key in dataItems) {
       const itemElement = doc.createElement("DataItem");
 
@@ -108,15 +158,68 @@ function createXmlElementForMungNode(
       itemElement.append(dataItems[key].value);
 
       dataElement.append(ONE_INDENT + ONE_INDENT, itemElement, NEWLINE);
+      appendDataFragmentsAfter(key);
+    }
+    for (const fragment of dataExtraXml) {
+      if (fragment.after === null || fragment.after in dataItems) continue;
+      const xmlNodes = parseXmlFragment(doc, fragment.xml);
+      dataElement.append(ONE_INDENT + ONE_INDENT, ...xmlNodes, NEWLINE);
     }
 
     dataElement.append(ONE_INDENT);
-    nodeElement.append(ONE_INDENT, dataElement, NEWLINE);
+    childElements.set("Data", dataElement);
+  }
+
+  // Emit known elements in order, with the preserved fragments after the
+  // element they originally followed. If that element is not written
+  // anymore (e.g. the mask was removed), they follow the nearest
+  // preceding one.
+  const nodeExtraXml = extraXml.filter((f) => f.inside === undefined);
+  function appendFragmentsAfter(anchor: string | null) {
+    for (const fragment of nodeExtraXml) {
+      if (fragment.after !== anchor) continue;
+      const xmlNodes = parseXmlFragment(doc, fragment.xml);
+      nodeElement.append(ONE_INDENT, ...xmlNodes, NEWLINE);
+    }
+  }
+
+  appendFragmentsAfter(null);
+  for (const name of MUNG_NODE_ELEMENT_NAMES) {
+    const childElement = childElements.get(name);
+    if (childElement !== undefined) {
+      nodeElement.append(ONE_INDENT, childElement, NEWLINE);
+    }
+    appendFragmentsAfter(name);
+  }
+
+  // fragments anchored to elements this version does not know about
+  for (const fragment of nodeExtraXml) {
+    if (fragment.after === null) continue;
+    if (MUNG_NODE_ELEMENT_NAMES.includes(fragment.after)) continue;
+    const xmlNodes = parseXmlFragment(doc, fragment.xml);
+    nodeElement.append(ONE_INDENT, ...xmlNodes, NEWLINE);
   }
 
   return nodeElement;
 }
 
+/**
+ * Parses a preserved raw XML fragment into nodes of the given document
+ */
+function parseXmlFragment(doc: XMLDocument, xml: string): ChildNode[] {
+  const parsed = new DOMParser().parseFromString(
+    `<fragment>${xml}</fragment>`,
+    "application/xml",
+  );
+  if (parsed.querySelector("parsererror") !== null) {
+    console.warn(`Dropping unparsable preserved XML fragment: ${xml}`);
+    return [];
+  }
+  return [...parsed.documentElement.childNodes].map(
+    (child) => doc.importNode(child, true) as ChildNode,
+  );
+}
+
 function prepareDataItems(node: Node): DataItems {
   const dataItems: DataItems = { ...node.data };
 
@@ -154,41 +257,3 @@ function isEmptyObject(obj: object): boolean {
   }
   return true;
 }
-
-function encodeRleMaskString(mask: ImageData): string {
-  // Pixel-level view at the data where each pixel is represented
-  // by one uint32 value and zero means black transparency.
-  // We will treat everything non-zero as a mask pixel.
-  const pixels = new Uint32Array(mask.data.buffer);
-
-  // output tokens, one token is the "C:N" bit, where C is 0/1 and N is count.
-  const tokens: string[] = [];
-
-  // which pixel type are we currently counting
-  let currentRunType: 0 | 1 = 0;
-
-  // how many pixels are there in the current run
-  let currentRunLength = 0;
-
-  // run through the pixel array
-  for (let i = 0; i < pixels.length; i++) {
-    const pixelType: 0 | 1 = pixels[i] === 0 ? 0 : 1;
-
-    if (pixelType === currentRunType) {
-      // continue the current run
-      currentRunLength += 1;
-    } else {
-      // emit previous run on pixel type change
-      tokens.push(currentRunType + ":" + currentRunLength);
-
-      // set up the next run
-      currentRunType = pixelType;
-      currentRunLength = 1;
-    }
-  }
-  // emit the last run
-  tokens.push(currentRunType + ":" + currentRunLength);
-
-  // join tokens and return
-  return tokens.join(" ");
-}
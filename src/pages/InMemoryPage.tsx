@@ -1,5 +1,5 @@
 import { SyntheticEvent, useEffect, useState } from "react";
-import { readMungXmlString } from "../mung/readMungXmlString";
+import { readMungXmlInWorker } from "../mung/readMungXmlInWorker";
 import { Editor } from "../editor/Editor";
 import Box from "@mui/joy/Box";
 import Typography from "@mui/joy/Typography";
@@ -9,6 +9,9 @@ import Button from "@mui/joy/Button";
 import Stack from "@mui/joy/Stack";
 import ArrowBackIcon from "@mui/icons-material/ArrowBack";
 import { MungFile } from "../mung/MungFile";
+import { MungReadingProgressMessage } from "../mung/MungReadingWorkerMessages";
+import { MungParseReport } from "../mung/MungParseReport";
+import { MungReadingProgress } from "./MungReadingProgress";
 
 const STORAGE_NODES_KEY = "MungStudio::InMemory::NODES";
 const STORAGE_IMAGE_KEY = "MungStudio::InMemory::IMAGE";
@@ -60,6 +63,10 @@ async function tryLoadingUserData(): Promise<UserData | null> {
 
 export function InMemoryPage() {
   const [userData, setUserData] = useState<UserData | null>(null);
+  const [isReading, setIsReading] = useState<boolean>(false);
+  const [readingProgress, setReadingProgress] =
+    useState<MungReadingProgressMessage | null>(null);
+  const [parseReport, setParseReport] = useState<MungParseReport | null>(null);
 
   useEffect(() => {
     (async () => {
@@ -87,8 +94,23 @@ export function InMemoryPage() {
       return;
     }
 
-    const uploadedMungXml = await mungFile.files[0].text();
-    const mung = readMungXmlString(uploadedMungXml);
+    // the file is streamed into the parser in a worker,
+    // so that large documents do not freeze the page
+    let mung: MungFile;
+    setIsReading(true);
+    setReadingProgress(null);
+    try {
+      const result = await readMungXmlInWorker(mungFile.files[0], {
+        onProgress: setReadingProgress,
+      });
+      mung = result.mung;
+      setParseReport(result.report);
+    } catch (e) {
+      alert("The MuNG file could not be read: " + String(e));
+      return;
+    } finally {
+      setIsReading(false);
+    }
 
     const imageUrl =
       imageFile.files.length > 0
@@ -105,6 +127,7 @@ export function InMemoryPage() {
 
   function handleClose() {
     setUserData(null);
+    setParseReport(null);
     localStorage.removeItem(STORAGE_NODES_KEY);
     localStorage.removeItem(STORAGE_IMAGE_KEY);
   }
@@ -125,6 +148,7 @@ export function InMemoryPage() {
         <Editor
           initialMungFileMetadata={userData.mung.metadata}
           initialNodes={userData.mung.nodes}
+          parseReport={parseReport}
           backgroundImageUrl={userData.imageUrl}
           onClose={handleClose}
           fileName="In-Memory"
@@ -137,6 +161,10 @@ export function InMemoryPage() {
   // The upload-file webpage //
   /////////////////////////////
 
+  if (isReading) {
+    return <MungReadingProgress progress={readingProgress} />;
+  }
+
   return (
     <Box
       sx={{
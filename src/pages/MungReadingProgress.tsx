@@ -0,0 +1,34 @@
+import { LinearProgress, Stack, Typography } from "@mui/joy";
+import { MungReadingProgressMessage } from "../mung/MungReadingWorkerMessages";
+
+export interface MungReadingProgressProps {
+  readonly progress: MungReadingProgressMessage | null;
+}
+
+/**
+ * Displays the progress of a MuNG file being read in a web worker
+ */
+export function MungReadingProgress(props: MungReadingProgressProps) {
+  const progress = props.progress;
+
+  let label = "Loading...";
+  let percent: number | null = null;
+  if (progress !== null) {
+    percent =
+      progress.total > 0 ? (progress.loaded / progress.total) * 100 : 100;
+    label =
+      progress.phase === "parsing"
+        ? `Parsing MuNG XML... ${Math.floor(percent)}%`
+        : `Decoding masks... ${progress.loaded} / ${progress.total} nodes`;
+  }
+
+  return (
+    <Stack spacing={1} sx={{ maxWidth: "400px", margin: "80px auto" }}>
+      <Typography level="body-sm">{label}</Typography>
+      <LinearProgress
+        determinate={percent !== null}
+        value={percent ?? undefined}
+      />
+    </Stack>
+  );
+}
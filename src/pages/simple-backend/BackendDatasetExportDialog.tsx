@@ -0,0 +1,111 @@
+import {
+  Checkbox,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Stack,
+} from "@mui/joy";
+import { useState } from "react";
+import { DatasetExportDialog } from "../../editor/view/export/DatasetExportDialog";
+import {
+  DatasetPage,
+  exportDatasetArchive,
+} from "../../mung/dataset/exportDatasetArchive";
+import { readMungXmlInWorker } from "../../mung/readMungXmlInWorker";
+import { SimpleBackendConnection } from "./SimpleBackendConnection";
+import { Document, DocStatus, SimpleBackendApi } from "./SimpleBackendApi";
+
+const STATUS_LABELS: Record<DocStatus, string> = {
+  "not-started": "Not started",
+  "in-progress": "In progress",
+  "pending-review": "Pending review",
+  done: "Done",
+};
+
+export interface BackendDatasetExportDialogProps {
+  readonly open: boolean;
+  readonly onClose: () => void;
+  readonly connection: SimpleBackendConnection;
+  readonly documents: readonly Document[];
+}
+
+/**
+ * Exports a set of backend documents (selected by their status)
+ * as a training dataset for the symbol detector
+ */
+export function BackendDatasetExportDialog(
+  props: BackendDatasetExportDialogProps,
+) {
+  const [statuses, setStatuses] = useState<Set<DocStatus>>(
+    new Set<DocStatus>(["done"]),
+  );
+
+  const selectedNames = props.documents
+    .filter((d) => d.hasImage && statuses.has(d.status ?? "not-started"))
+    .map((d) => d.name);
+
+  function toggleStatus(status: DocStatus, checked: boolean) {
+    const newStatuses = new Set(statuses);
+    if (checked) newStatuses.add(status);
+    else newStatuses.delete(status);
+    setStatuses(newStatuses);
+  }
+
+  async function loadPage(name: string): Promise<DatasetPage> {
+    const api = new SimpleBackendApi(props.connection);
+    const mungXmlString = await api.getDocumentMung(name);
+    const { mung } = await readMungXmlInWorker(mungXmlString);
+
+    const imageBitmap = await createImageBitmap(
+      await api.getDocumentImage(name),
+    );
+    const canvas = new OffscreenCanvas(imageBitmap.width, imageBitmap.height);
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (ctx === null) {
+      throw new Error("Failed to get canvas context for the dataset export.");
+    }
+    ctx.drawImage(imageBitmap, 0, 0);
+    imageBitmap.close();
+
+    return {
+      name,
+      mung,
+      image: {
+        width: canvas.width,
+        height: canvas.height,
+        getImageData: (rect) =>
+          ctx.getImageData(rect.x, rect.y, rect.width, rect.height),
+      },
+    };
+  }
+
+  return (
+    <DatasetExportDialog
+      open={props.open}
+      onClose={props.onClose}
+      archiveName="mung-dataset.zip"
+      onExport={(options, onProgress) =>
+        exportDatasetArchive(selectedNames, loadPage, options, onProgress)
+      }
+    >
+      <FormControl>
+        <FormLabel>Documents with status</FormLabel>
+        <Stack direction="row" spacing={2}>
+          {(Object.keys(STATUS_LABELS) as DocStatus[]).map((status) => (
+            <Checkbox
+              key={status}
+              label={STATUS_LABELS[status]}
+              checked={statuses.has(status)}
+              onChange={(e) => toggleStatus(status, e.target.checked)}
+            />
+          ))}
+        </Stack>
+        <FormHelperText>
+          {selectedNames.length} document
+          {selectedNames.length === 1 ? "" : "s"} with an image will be
+          exported.
+        </FormHelperText>
+      </FormControl>
+    </DatasetExportDialog>
+  );
+}
@@ -1,17 +1,22 @@
-import { useNavigate, useParams } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { Alert, Box, CircularProgress } from "@mui/joy";
 import { Editor } from "../../editor/Editor";
 import { useEffect, useState } from "react";
 import { useAtomValue } from "jotai";
 import { simpleBackendConnectionAtom } from "./SimpleBackendConnection";
 import { SimpleBackendApi } from "./SimpleBackendApi";
-import { readMungXmlString } from "../../mung/readMungXmlString";
+import { readMungXmlInWorker } from "../../mung/readMungXmlInWorker";
 import { MungFile } from "../../mung/MungFile";
 import { writeMungXmlString } from "../../mung/writeMungXmlString";
+import { MungReadingProgressMessage } from "../../mung/MungReadingWorkerMessages";
+import { MungParseReport } from "../../mung/MungParseReport";
+import { MungReadingProgress } from "../MungReadingProgress";
 
 export function DocumentEditorPage() {
   const navigate = useNavigate();
   const documentName: string = useParams().documentName || "";
+  const [searchParams] = useSearchParams();
+  const focusNodeId = parseNodeId(searchParams.get("node"));
   const connection = useAtomValue(simpleBackendConnectionAtom);
 
   const [mung, setMung] = useState<MungFile | null>(null);
@@ -19,6 +24,9 @@ export function DocumentEditorPage() {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [userName, setUserName] = useState<string>("");
+  const [readingProgress, setReadingProgress] =
+    useState<MungReadingProgressMessage | null>(null);
+  const [parseReport, setParseReport] = useState<MungParseReport | null>(null);
 
   useEffect(() => {
     if (connection.userToken === null) {
@@ -32,21 +40,25 @@ export function DocumentEditorPage() {
       setMung(null);
       setImageUrl(null);
       setError(null);
+      setReadingProgress(null);
 
       try {
         const api = new SimpleBackendApi(connection);
 
-        // who am I (for collaboration presence)
+        // who am I (for collaboration presence and node attribution)
         try {
           const who = await api.whoami();
           setUserName(who.name);
         } catch {
-          /* non-fatal: presence just shows a generic name */
+          /* non-fatal: presence shows a generic name, nodes are not attributed */
         }
 
         // download MuNG and parse into nodes
         const mungXmlString = await api.getDocumentMung(documentName);
-        const parsedMung = readMungXmlString(mungXmlString);
+        const { mung: parsedMung, report } = await readMungXmlInWorker(
+          mungXmlString,
+          { onProgress: setReadingProgress },
+        );
 
         // download background image
         const imageBlob = await api.getDocumentImage(documentName);
@@ -54,6 +66,7 @@ export function DocumentEditorPage() {
           imageBlob === null ? null : URL.createObjectURL(imageBlob);
 
         setMung(parsedMung);
+        setParseReport(report);
         setImageUrl(downloadedImageUrl);
         setIsLoading(false);
       } catch (e) {
@@ -85,15 +98,50 @@ export function DocumentEditorPage() {
         overflow: "hidden",
       }}
     >
-      {isLoading && <CircularProgress />}
+      {isLoading &&
+        (readingProgress === null ? (
+          <CircularProgress />
+        ) : (
+          <MungReadingProgress progress={readingProgress} />
+        ))}
       {mung !== null && (
         <Editor
           initialMungFileMetadata={mung.metadata}
           initialNodes={mung.nodes}
+          parseReport={parseReport}
           backgroundImageUrl={imageUrl}
           onSave={onSave}
           onClose={onClose}
           fileName={documentName}
+          userName={userName || null}
+          focusNodeId={focusNodeId}
+          revisionSource={{
+            listRevisions: () =>
+              new SimpleBackendApi(connection).listRevisions(documentName),
+            getRevisionMung: (revisionId) =>
+              new SimpleBackendApi(connection).getRevisionMung(
+                documentName,
+                revisionId,
+              ),
+          }}
+          validationRuleSetSource={{
+            loadRuleSet: (dataset) =>
+              new SimpleBackendApi(connection).getValidationRules(dataset),
+            saveRuleSet: (dataset, ruleSet) =>
+              new SimpleBackendApi(connection).saveValidationRules(
+                dataset,
+                ruleSet,
+              ),
+            loadDocumentRuleSets: () =>
+              new SimpleBackendApi(connection).getDocumentValidationRuleSets(
+                documentName,
+              ),
+            saveDocumentRuleSets: (names) =>
+              new SimpleBackendApi(connection).setDocumentValidationRuleSets(
+                documentName,
+                names,
+              ),
+          }}
           collabConfig={
             connection.userToken !== null
               ? {
@@ -110,3 +158,12 @@ export function DocumentEditorPage() {
     </Box>
   );
 }
+
+/**
+ * Reads the ID of the node to show from the "node" query parameter
+ * (e.g. #/simple-backend/page-01?node=42), null when missing or invalid
+ */
+function parseNodeId(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  return parseInt(value);
+}
@@ -15,6 +15,7 @@ import {
 } from "@mui/joy";
 import MusicNoteIcon from "@mui/icons-material/MusicNote";
 import PersonIcon from "@mui/icons-material/Person";
+import CommentIcon from "@mui/icons-material/Comment";
 import { classNameToHue } from "../../mung/classNameToHue";
 
 const STATUS_META: Record<
@@ -112,6 +113,16 @@ export function DocumentsList(props: DocumentsListProps) {
                     being annotated by {annotator}
                   </Chip>
                 )}
+                {(document.openComments ?? 0) > 0 && (
+                  <Chip
+                    size="sm"
+                    variant="soft"
+                    color="primary"
+                    startDecorator={<CommentIcon />}
+                  >
+                    {document.openComments} open comment(s)
+                  </Chip>
+                )}
               </Stack>
             </Box>
 
@@ -1,5 +1,7 @@
 import { Alert, Box, Button, CircularProgress, Typography } from "@mui/joy";
 import CloudUploadIcon from "@mui/icons-material/CloudUpload";
+import DatasetIcon from "@mui/icons-material/Dataset";
+import RuleIcon from "@mui/icons-material/Rule";
 import { useAtomValue } from "jotai";
 import { simpleBackendConnectionAtom } from "./SimpleBackendConnection";
 import { AuthenticationSection } from "./AuthenticationSection";
@@ -9,6 +11,7 @@ import ArrowBackIcon from "@mui/icons-material/ArrowBack";
 import { Link as RouterLink } from "react-router-dom";
 import Link from "@mui/joy/Link";
 import { DocumentsList } from "./DocumentsList";
+import { BackendDatasetExportDialog } from "./BackendDatasetExportDialog";
 
 export function DocumentsPage() {
   const connection = useAtomValue(simpleBackendConnectionAtom);
@@ -62,6 +65,8 @@ export function DocumentsPage() {
     });
   };
 
+  const [isDatasetExportOpen, setDatasetExportOpen] = useState<boolean>(false);
+
   const [backingUp, setBackingUp] = useState<boolean>(false);
   const [backupMsg, setBackupMsg] = useState<{ ok: boolean; text: string } | null>(
     null,
@@ -116,16 +121,38 @@ export function DocumentsPage() {
       >
         <Typography level="h2">Documents</Typography>
         {connection.userToken !== null && (
-          <Button
-            variant="outlined"
-            color="neutral"
-            size="sm"
-            startDecorator={<CloudUploadIcon />}
-            loading={backingUp}
-            onClick={handleBackup}
-          >
-            Backup now
-          </Button>
+          <Box sx={{ display: "flex", gap: 1 }}>
+            <Button
+              variant="outlined"
+              color="neutral"
+              size="sm"
+              startDecorator={<RuleIcon />}
+              component={RouterLink}
+              to="/simple-backend/reports/validation"
+            >
+              Validation report
+            </Button>
+            <Button
+              variant="outlined"
+              color="neutral"
+              size="sm"
+              startDecorator={<DatasetIcon />}
+              disabled={documents === null}
+              onClick={() => setDatasetExportOpen(true)}
+            >
+              Export dataset
+            </Button>
+            <Button
+              variant="outlined"
+              color="neutral"
+              size="sm"
+              startDecorator={<CloudUploadIcon />}
+              loading={backingUp}
+              onClick={handleBackup}
+            >
+              Backup now
+            </Button>
+          </Box>
         )}
       </Box>
       {backupMsg !== null && (
@@ -145,6 +172,14 @@ export function DocumentsPage() {
           onStatusChange={handleStatusChange}
         />
       )}
+      {documents !== null && (
+        <BackendDatasetExportDialog
+          open={isDatasetExportOpen}
+          onClose={() => setDatasetExportOpen(false)}
+          connection={connection}
+          documents={documents}
+        />
+      )}
       {isLoading && <CircularProgress />}
       {error !== null && <Alert color="danger">{error}</Alert>}
     </Box>
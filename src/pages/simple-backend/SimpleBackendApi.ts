@@ -1,4 +1,5 @@
 import { SimpleBackendConnection } from "./SimpleBackendConnection";
+import { DeclarativeRuleSet } from "../../mung/validation/DeclarativeRuleSet";
 
 export type DocStatus =
   | "not-started"
@@ -12,6 +13,17 @@ export interface Document {
   readonly modifiedAt: string;
   readonly status?: DocStatus;
   readonly annotator?: string;
+
+  /**
+   * Names of the optional validation rule sets enabled for the document
+   */
+  readonly validationRuleSets?: string[];
+
+  /**
+   * Number of unresolved review comment threads,
+   * null when the comments of the document cannot be read
+   */
+  readonly openComments?: number | null;
 }
 
 export interface WhoamiResponse {
@@ -21,6 +33,18 @@ export interface WhoamiResponse {
   readonly name: string;
 }
 
+/**
+ * A saved version of a document (a daily backup made when saving)
+ */
+export interface DocumentRevision {
+  /**
+   * Date of the revision, YYYY-MM-DD
+   */
+  readonly id: string;
+  readonly savedAt: string;
+  readonly size: number;
+}
+
 export class SimpleBackendApi {
   private readonly connection: SimpleBackendConnection;
 
@@ -97,6 +121,54 @@ export class SimpleBackendApi {
     }
   }
 
+  /**
+   * Fetches the names of the optional validation rule sets
+   * enabled for the document
+   */
+  public async getDocumentValidationRuleSets(
+    documentName: string,
+  ): Promise<string[]> {
+    const response = await fetch(
+      this.buildUrl("get-doc-validation-rule-sets", documentName),
+      {
+        headers: {
+          Authorization: "Bearer " + this.connection.userToken,
+        },
+      },
+    );
+    if (response.status === 401) {
+      throw new Error("Invalid user token.");
+    }
+    if (!response.ok) {
+      throw new Error("Unexpected response: " + (await response.text()));
+    }
+    const data = await response.json();
+    return data.validationRuleSets as string[];
+  }
+
+  public async setDocumentValidationRuleSets(
+    documentName: string,
+    validationRuleSets: readonly string[],
+  ): Promise<void> {
+    const response = await fetch(
+      this.buildUrl("set-doc-validation-rule-sets", documentName),
+      {
+        method: "POST",
+        headers: {
+          Authorization: "Bearer " + this.connection.userToken,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ validationRuleSets }),
+      },
+    );
+    if (response.status === 401) {
+      throw new Error("Invalid user token.");
+    }
+    if (!response.ok) {
+      throw new Error("Unexpected response: " + (await response.text()));
+    }
+  }
+
   public async backupDocuments(): Promise<{
     ok: boolean;
     log?: string;
@@ -153,6 +225,102 @@ export class SimpleBackendApi {
     return await response.blob();
   }
 
+  public async listRevisions(
+    documentName: string,
+  ): Promise<DocumentRevision[]> {
+    const response = await fetch(
+      this.buildUrl("list-revisions", documentName),
+      {
+        method: "POST",
+        headers: {
+          Authorization: "Bearer " + this.connection.userToken,
+        },
+      },
+    );
+    if (response.status === 401) {
+      throw new Error("Invalid user token.");
+    }
+    if (!response.ok) {
+      throw new Error("Unexpected response: " + (await response.text()));
+    }
+    const data = await response.json();
+    return data.revisions as DocumentRevision[];
+  }
+
+  public async getRevisionMung(
+    documentName: string,
+    revisionId: string,
+  ): Promise<string> {
+    const response = await fetch(
+      this.buildUrl("get-revision", documentName) +
+        "&revision=" +
+        encodeURIComponent(revisionId),
+      {
+        method: "POST",
+        headers: {
+          Authorization: "Bearer " + this.connection.userToken,
+        },
+      },
+    );
+    if (response.status === 401) {
+      throw new Error("Invalid user token.");
+    }
+    if (!response.ok) {
+      throw new Error("Unexpected response: " + (await response.text()));
+    }
+    return await response.text();
+  }
+
+  /**
+   * Fetches the validation rule set of the dataset, null when none was saved
+   */
+  public async getValidationRules(dataset: string): Promise<unknown | null> {
+    const response = await fetch(
+      this.buildUrl("get-validation-rules") +
+        "&dataset=" +
+        encodeURIComponent(dataset),
+      {
+        method: "POST",
+        headers: {
+          Authorization: "Bearer " + this.connection.userToken,
+        },
+      },
+    );
+    if (response.status === 401) {
+      throw new Error("Invalid user token.");
+    }
+    if (!response.ok) {
+      throw new Error("Unexpected response: " + (await response.text()));
+    }
+    const data = await response.json();
+    return data.ruleSet ?? null;
+  }
+
+  public async saveValidationRules(
+    dataset: string,
+    ruleSet: DeclarativeRuleSet,
+  ): Promise<void> {
+    const response = await fetch(
+      this.buildUrl("save-validation-rules") +
+        "&dataset=" +
+        encodeURIComponent(dataset),
+      {
+        method: "POST",
+        headers: {
+          Authorization: "Bearer " + this.connection.userToken,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ruleSet }),
+      },
+    );
+    if (response.status === 401) {
+      throw new Error("Invalid user token.");
+    }
+    if (!response.ok) {
+      throw new Error("Unexpected response: " + (await response.text()));
+    }
+  }
+
   public async uploadDocumentMung(
     documentName: string,
     mungXmlString: string,
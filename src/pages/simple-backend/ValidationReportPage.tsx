@@ -0,0 +1,365 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  LinearProgress,
+  Stack,
+  Table,
+  Typography,
+} from "@mui/joy";
+import ArrowBackIcon from "@mui/icons-material/ArrowBack";
+import DownloadIcon from "@mui/icons-material/Download";
+import RuleIcon from "@mui/icons-material/Rule";
+import { useAtomValue } from "jotai";
+import { useState } from "react";
+import { Link as RouterLink } from "react-router-dom";
+import Link from "@mui/joy/Link";
+import { simpleBackendConnectionAtom } from "./SimpleBackendConnection";
+import { SimpleBackendApi } from "./SimpleBackendApi";
+import { readMungXmlInWorker } from "../../mung/readMungXmlInWorker";
+import { parseDeclarativeRuleSet } from "../../mung/validation/DeclarativeRuleSet";
+import {
+  DocumentValidationResult,
+  validateDocuments,
+} from "../../mung/validation/validateDocuments";
+import { writeValidationReportCsv } from "../../mung/validation/writeValidationReportCsv";
+import {
+  isWarningIssue,
+  ValidationIssue,
+} from "../../editor/model/ValidationIssue";
+import { downloadTextFile } from "../../utils/downloadTextFile";
+
+/**
+ * How many issues are listed at most, the CSV export contains all of them
+ */
+const MAX_LISTED_ISSUES = 500;
+
+/**
+ * Validates all backend documents and summarizes the issues
+ * by their code and by document, e.g. before a dataset release
+ */
+export function ValidationReportPage() {
+  const connection = useAtomValue(simpleBackendConnectionAtom);
+
+  const [results, setResults] = useState<DocumentValidationResult[] | null>(
+    null,
+  );
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [selectedCode, setSelectedCode] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function runValidation() {
+    setResults(null);
+    setSelectedCode(null);
+    setError(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const api = new SimpleBackendApi(connection);
+      const documents = await api.listDocuments();
+      const newResults = await validateDocuments(
+        documents.map((d) => ({
+          name: d.name,
+          ruleSetNames: d.validationRuleSets ?? [],
+        })),
+        async (name) => {
+          const { mung } = await readMungXmlInWorker(
+            await api.getDocumentMung(name),
+          );
+          return mung;
+        },
+        async (dataset) => {
+          const ruleSet = await api.getValidationRules(dataset);
+          return ruleSet === null ? null : parseDeclarativeRuleSet(ruleSet);
+        },
+        (done, total) => setProgress({ done, total }),
+      );
+      setResults(newResults);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  function exportCsv() {
+    if (results === null) return;
+    downloadTextFile(
+      writeValidationReportCsv(results),
+      "validation-report.csv",
+      "text/csv",
+    );
+  }
+
+  const issues: ReportedIssue[] =
+    results?.flatMap((result) =>
+      result.issues.map((issue) => ({
+        documentName: result.documentName,
+        issue,
+      })),
+    ) ?? [];
+  const listedIssues = issues
+    .filter(({ issue }) => selectedCode === null || issue.code === selectedCode)
+    .slice(0, MAX_LISTED_ISSUES);
+
+  return (
+    <Box
+      sx={{
+        maxWidth: "1000px",
+        margin: "80px auto",
+      }}
+    >
+      <Typography level="h1" gutterBottom>
+        Validation report
+      </Typography>
+      <Link
+        component={RouterLink}
+        to="/simple-backend"
+        startDecorator={<ArrowBackIcon />}
+      >
+        Back to documents
+      </Link>
+      <Typography level="body-md" sx={{ mt: 2, mb: 2 }}>
+        Validates every document on the server with the typescript engine,
+        including the rule sets enabled for each document and the rules of its
+        dataset. Click a row to open the document at the node.
+      </Typography>
+
+      {connection.userToken === null && (
+        <Alert>
+          You must authenticate on the documents page to validate documents.
+        </Alert>
+      )}
+      {connection.userToken !== null && (
+        <Stack direction="row" spacing={1}>
+          <Button
+            startDecorator={<RuleIcon />}
+            loading={progress !== null}
+            onClick={runValidation}
+          >
+            Validate all documents
+          </Button>
+          <Button
+            variant="outlined"
+            color="neutral"
+            startDecorator={<DownloadIcon />}
+            disabled={results === null}
+            onClick={exportCsv}
+          >
+            Export CSV
+          </Button>
+        </Stack>
+      )}
+      {progress !== null && (
+        <Box sx={{ mt: 2 }}>
+          <LinearProgress
+            determinate={progress.total > 0}
+            value={
+              progress.total > 0 ? (progress.done / progress.total) * 100 : 0
+            }
+          />
+          <Typography level="body-sm">
+            {progress.done} of {progress.total} documents validated
+          </Typography>
+        </Box>
+      )}
+      {error !== null && (
+        <Alert color="danger" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {results !== null && (
+        <>
+          <Stack direction="row" spacing={1} sx={{ mt: 2 }}>
+            <Chip variant="soft">{results.length} documents</Chip>
+            <Chip variant="soft" color="danger">
+              {issues.filter(({ issue }) => !isWarningIssue(issue)).length}{" "}
+              errors
+            </Chip>
+            <Chip variant="soft" color="warning">
+              {issues.filter(({ issue }) => isWarningIssue(issue)).length}{" "}
+              warnings
+            </Chip>
+          </Stack>
+
+          <Typography level="h2" sx={{ mt: 3 }}>
+            Issues by code
+          </Typography>
+          <IssuesByCodeTable
+            issues={issues}
+            selectedCode={selectedCode}
+            onSelectCode={setSelectedCode}
+          />
+
+          <Typography level="h2" sx={{ mt: 3 }}>
+            Issues by document
+          </Typography>
+          <IssuesByDocumentTable results={results} />
+
+          <Typography level="h2" sx={{ mt: 3 }}>
+            Issues
+            {selectedCode !== null && ` with code ${selectedCode}`}
+          </Typography>
+          {listedIssues.length === MAX_LISTED_ISSUES && (
+            <Typography level="body-sm">
+              Only the first {MAX_LISTED_ISSUES} issues are listed, export the
+              CSV to see all of them.
+            </Typography>
+          )}
+          <IssuesTable issues={listedIssues} />
+        </>
+      )}
+    </Box>
+  );
+}
+
+interface ReportedIssue {
+  readonly documentName: string;
+  readonly issue: ValidationIssue;
+}
+
+/**
+ * Route of the editor opened at the given node
+ */
+function buildNodeLink(documentName: string, nodeId: number): string {
+  return `/simple-backend/${encodeURIComponent(documentName)}?node=${nodeId}`;
+}
+
+function IssuesByCodeTable(props: {
+  issues: readonly ReportedIssue[];
+  selectedCode: number | null;
+  onSelectCode: (code: number | null) => void;
+}) {
+  const groups = new Map<number, ReportedIssue[]>();
+  for (const reported of props.issues) {
+    const group = groups.get(reported.issue.code);
+    if (group === undefined) groups.set(reported.issue.code, [reported]);
+    else group.push(reported);
+  }
+  const codes = [...groups.keys()].sort((a, b) => a - b);
+
+  return (
+    <Table size="sm" hoverRow>
+      <thead>
+        <tr>
+          <th style={{ width: 80 }}>Code</th>
+          <th style={{ width: 80 }}>Issues</th>
+          <th style={{ width: 100 }}>Documents</th>
+          <th>Example</th>
+        </tr>
+      </thead>
+      <tbody>
+        {codes.map((code) => {
+          const group = groups.get(code)!;
+          const isSelected = code === props.selectedCode;
+          return (
+            <tr
+              key={code}
+              style={{ cursor: "pointer" }}
+              aria-selected={isSelected}
+              onClick={() => props.onSelectCode(isSelected ? null : code)}
+            >
+              <td>
+                <Chip
+                  size="sm"
+                  variant={isSelected ? "solid" : "soft"}
+                  color={isWarningIssue(group[0].issue) ? "warning" : "danger"}
+                >
+                  {code}
+                </Chip>
+              </td>
+              <td>{group.length}</td>
+              <td>{new Set(group.map((r) => r.documentName)).size}</td>
+              <td>{group[0].issue.message}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </Table>
+  );
+}
+
+function IssuesByDocumentTable(props: {
+  results: readonly DocumentValidationResult[];
+}) {
+  return (
+    <Table size="sm" hoverRow>
+      <thead>
+        <tr>
+          <th>Document</th>
+          <th style={{ width: 80 }}>Errors</th>
+          <th style={{ width: 80 }}>Warnings</th>
+        </tr>
+      </thead>
+      <tbody>
+        {props.results.map((result) => {
+          const warningCount = result.issues.filter(isWarningIssue).length;
+          const firstIssue: ValidationIssue | undefined = result.issues[0];
+          return (
+            <tr key={result.documentName} style={{ position: "relative" }}>
+              <td>
+                <Link
+                  component={RouterLink}
+                  to={
+                    firstIssue === undefined
+                      ? `/simple-backend/${encodeURIComponent(result.documentName)}`
+                      : buildNodeLink(result.documentName, firstIssue.nodeId)
+                  }
+                  target="_blank"
+                  overlay
+                >
+                  {result.documentName}
+                </Link>
+                {result.error !== null && (
+                  <Typography level="body-xs" color="danger">
+                    {result.error}
+                  </Typography>
+                )}
+              </td>
+              <td>{result.issues.length - warningCount}</td>
+              <td>{warningCount}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </Table>
+  );
+}
+
+function IssuesTable(props: { issues: readonly ReportedIssue[] }) {
+  return (
+    <Table size="sm" hoverRow>
+      <thead>
+        <tr>
+          <th style={{ width: "25%" }}>Document</th>
+          <th style={{ width: 80 }}>Node</th>
+          <th style={{ width: 80 }}>Code</th>
+          <th>Message</th>
+        </tr>
+      </thead>
+      <tbody>
+        {props.issues.map(({ documentName, issue }, index) => (
+          <tr key={index} style={{ position: "relative" }}>
+            <td>
+              <Link
+                component={RouterLink}
+                to={buildNodeLink(documentName, issue.nodeId)}
+                target="_blank"
+                overlay
+              >
+                {documentName}
+              </Link>
+            </td>
+            <td>{issue.nodeId}</td>
+            <td>{issue.code}</td>
+            <td>{issue.message}</td>
+          </tr>
+        ))}
+      </tbody>
+    </Table>
+  );
+}
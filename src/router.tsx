@@ -4,6 +4,7 @@ import { InMemoryPage } from "./pages/InMemoryPage";
 import { PerformanceTestingPage } from "./pages/PerformanceTestingPage";
 import { DocumentsPage as SimpleBackendDocumentsPage } from "./pages/simple-backend/DocumentsPage";
 import { DocumentEditorPage } from "./pages/simple-backend/DocumentEditorPage";
+import { ValidationReportPage } from "./pages/simple-backend/ValidationReportPage";
 
 export const router = createHashRouter([
   {
@@ -22,6 +23,10 @@ export const router = createHashRouter([
     path: "simple-backend",
     element: <SimpleBackendDocumentsPage />,
   },
+  {
+    path: "simple-backend/reports/validation",
+    element: <ValidationReportPage />,
+  },
   {
     path: "simple-backend/:documentName",
     element: <DocumentEditorPage />,
@@ -0,0 +1,22 @@
+/**
+ * Browser APIs used by the tested code that jsdom does not provide
+ */
+
+if (typeof globalThis.ImageData === "undefined") {
+  /**
+   * Pixel buffer of decoded masks, only the fields the MuNG code uses
+   */
+  class ImageDataPolyfill {
+    public readonly data: Uint8ClampedArray;
+    public readonly width: number;
+    public readonly height: number;
+    public readonly colorSpace = "srgb";
+
+    constructor(data: Uint8ClampedArray, width: number, height: number) {
+      this.data = data;
+      this.width = width;
+      this.height = height;
+    }
+  }
+  globalThis.ImageData = ImageDataPolyfill as unknown as typeof ImageData;
+}
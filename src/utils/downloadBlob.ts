@@ -0,0 +1,13 @@
+/**
+ * Lets the user download the given blob as a file
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+
+  // the download starts asynchronously, the URL must outlive the click
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
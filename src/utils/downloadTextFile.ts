@@ -0,0 +1,12 @@
+import { downloadBlob } from "./downloadBlob";
+
+/**
+ * Lets the user download the given text as a file
+ */
+export function downloadTextFile(
+  content: string,
+  fileName: string,
+  mimeType: string,
+): void {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+}
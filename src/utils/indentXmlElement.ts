@@ -0,0 +1,23 @@
+/**
+ * Inserts whitespace text nodes into the element, so that each child
+ * element is placed on its own line, indented by its depth.
+ * Elements that contain text are left as they are.
+ */
+export function indentXmlElement(
+  element: Element,
+  indent: string = "  ",
+  depth: number = 0,
+): void {
+  const children = [...element.children];
+  if (children.length === 0) return;
+
+  const doc = element.ownerDocument;
+  for (const child of children) {
+    element.insertBefore(
+      doc.createTextNode("\n" + indent.repeat(depth + 1)),
+      child,
+    );
+    indentXmlElement(child, indent, depth + 1);
+  }
+  element.appendChild(doc.createTextNode("\n" + indent.repeat(depth)));
+}
@@ -0,0 +1,13 @@
+/**
+ * Computes the SHA-256 hash of the given text (UTF-8 encoded)
+ * and returns it as a lowercase hexadecimal string
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}